@@ -0,0 +1,485 @@
+#!/usr/bin/env node
+/**
+ * Contrato tipado de la API a partir del documento OpenAPI del backend
+ *
+ * Uso:
+ *   node scripts/api-contract.mjs generate [--spec <ruta o URL>]
+ *     Genera src/app/core/models/api-contract.generated.ts con los esquemas (interfaces)
+ *     y el mapa de endpoints (método + ruta -> request/response)
+ *   node scripts/api-contract.mjs check [--spec <ruta o URL>]
+ *     Compara los modelos escritos a mano con los esquemas del backend y termina con código 1
+ *     si un campo se renombró, se eliminó, cambió de tipo o es obligatorio y falta en el modelo,
+ *     si los valores de un enum compartido no coinciden o si el backend no expone un endpoint de ApiEndpoints
+ *
+ * El spec se lee de --spec, de la variable API_SPEC o de http://localhost:8080/v3/api-docs (springdoc)
+ * Solo se admite JSON (OpenAPI 3 o Swagger 2)
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+import { dirname, isAbsolute, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const DEFAULT_SPEC = 'http://localhost:8080/v3/api-docs';
+const GENERATED_FILE = 'src/app/core/models/api-contract.generated.ts';
+// Endpoints que consume el frontend, declarados a mano
+const ENDPOINTS_FILE = 'src/app/core/models/api-endpoints.model.ts';
+// Prefijo de las rutas del backend que ya incluye environment.apiUrl
+const API_PREFIX = '/api';
+
+// Modelos escritos a mano que deben coincidir con el backend
+const MODEL_FILES = [
+  'src/app/modules/private/devices/models/device.model.ts',
+  'src/app/modules/private/orders/models/Orders.ts',
+  'src/app/modules/private/employees/models/employe.model.ts',
+  'src/app/modules/private/groups/models/groups.model.ts',
+];
+
+// Campos que completa el frontend y no envía el backend (interfaz -> campos)
+const CLIENT_ONLY_FIELDS = {
+  Order: ['assignee'],
+  OrderItem: ['device'],
+  Device: ['selected', 'assignmentActive'],
+  DeviceAssignment: ['orderFound', 'orderName'],
+};
+
+// Nombre del esquema del backend cuando no sigue la convención (interfaz -> esquema)
+const SCHEMA_ALIASES = {};
+
+// Enums que ya existen en los modelos: el contrato los importa en lugar de generarlos (esquema -> módulo)
+// así las respuestas tipadas se pueden asignar a los modelos escritos a mano
+const SHARED_ENUMS = {
+  DeviceStatus: 'src/app/modules/private/devices/models/device.model.ts',
+  OrderStates: 'src/app/modules/private/orders/models/Orders.ts',
+  EmployeeStatus: 'src/app/modules/private/employees/models/employe.model.ts',
+};
+
+const [command, ...args] = process.argv.slice(2);
+const specArg = args.indexOf('--spec');
+
+if (!['generate', 'check'].includes(command)) {
+  console.error('Uso: node scripts/api-contract.mjs <generate|check> [--spec <ruta o URL>]');
+  process.exit(2);
+}
+
+const specSource = specArg >= 0 ? args[specArg + 1] : process.env.API_SPEC || DEFAULT_SPEC;
+const spec = await loadSpec(specSource);
+const schemas = spec.components?.schemas ?? spec.definitions ?? {};
+if (!Object.keys(schemas).length) {
+  console.error(`El documento ${specSource} no define esquemas`);
+  process.exit(2);
+}
+
+if (command === 'generate') {
+  await generate(spec, schemas, specSource);
+} else {
+  process.exit((await check(spec, schemas)) ? 0 : 1);
+}
+
+/**
+ * Lee el documento OpenAPI de un archivo o una URL
+ * @param source Ruta o URL
+ * @returns Documento OpenAPI
+ */
+async function loadSpec(source) {
+  try {
+    if (/^https?:\/\//.test(source)) {
+      const response = await fetch(source);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return await response.json();
+    }
+    return JSON.parse(await readFile(isAbsolute(source) ? source : join(ROOT, source), 'utf8'));
+  } catch (err) {
+    console.error(`No se pudo leer el documento OpenAPI ${source}: ${err.message}`);
+    process.exit(2);
+  }
+}
+
+/**
+ * Nombre del esquema referenciado ('#/components/schemas/Device' -> 'Device')
+ * @param ref Referencia $ref
+ * @returns string
+ */
+function refName(ref) {
+  return ref.split('/').pop();
+}
+
+/**
+ * Une las propiedades de un esquema, incluidas las de allOf
+ * @param schema Esquema OpenAPI
+ * @returns { properties, required }
+ */
+function flatten(schema) {
+  if (schema?.$ref) return flatten(schemas[refName(schema.$ref)]);
+  const properties = { ...(schema?.properties ?? {}) };
+  const required = new Set(schema?.required ?? []);
+  (schema?.allOf ?? []).forEach((part) => {
+    const flat = flatten(part);
+    Object.assign(properties, flat.properties);
+    flat.required.forEach((name) => required.add(name));
+  });
+  return { properties, required };
+}
+
+/**
+ * Tipo TypeScript de un esquema OpenAPI
+ * @param schema Esquema OpenAPI
+ * @returns string
+ */
+function toTsType(schema) {
+  if (!schema) return 'unknown';
+  if (schema.$ref) return refName(schema.$ref);
+
+  let type;
+  if (schema.enum) {
+    type = schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+  } else if (schema.oneOf || schema.anyOf) {
+    type = (schema.oneOf ?? schema.anyOf).map(toTsType).join(' | ');
+  } else if (schema.allOf) {
+    type = schema.allOf.map(toTsType).join(' & ');
+  } else {
+    switch (schema.type) {
+      case 'string':
+        type = schema.format === 'binary' ? 'Blob' : 'string';
+        break;
+      case 'integer':
+      case 'number':
+        type = 'number';
+        break;
+      case 'boolean':
+        type = 'boolean';
+        break;
+      case 'array':
+        type = `${wrap(toTsType(schema.items))}[]`;
+        break;
+      case 'object':
+      case undefined:
+        type = schema.properties
+          ? `{ ${Object.entries(schema.properties)
+              .map(([name, prop]) => `${quote(name)}${(schema.required ?? []).includes(name) ? '' : '?'}: ${toTsType(prop)}`)
+              .join('; ')} }`
+          : schema.additionalProperties
+            ? `{ [key: string]: ${toTsType(schema.additionalProperties === true ? undefined : schema.additionalProperties)} }`
+            : 'unknown';
+        break;
+      default:
+        type = 'unknown';
+    }
+  }
+  return schema.nullable ? `${wrap(type)} | null` : type;
+}
+
+function wrap(type) {
+  return /[|& ]/.test(type) && !type.startsWith('{') ? `(${type})` : type;
+}
+
+function quote(name) {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Esquema del cuerpo JSON de una petición o respuesta
+ * @param content Mapa content-type -> { schema } (OpenAPI 3)
+ * @returns Esquema o undefined
+ */
+function jsonSchema(content) {
+  if (!content) return undefined;
+  const key = Object.keys(content).find((type) => type.includes('json')) ?? Object.keys(content)[0];
+  return content[key]?.schema;
+}
+
+/**
+ * Contenido del contrato generado: interfaces de los esquemas y mapa de endpoints
+ * @param spec Documento OpenAPI
+ * @param schemas Esquemas del documento
+ * @param source Origen del documento que se indica en la cabecera
+ * @returns string
+ */
+function render(spec, schemas, source) {
+  const lines = [
+    `// Generado por scripts/api-contract.mjs a partir de ${source}`,
+    '// No editar a mano: ejecutar `npm run api:generate`',
+    '',
+  ];
+
+  const shared = Object.keys(SHARED_ENUMS).filter((name) => schemas[name]);
+  shared.forEach((name) => {
+    const module = relative(dirname(GENERATED_FILE), SHARED_ENUMS[name]).replace(/\.ts$/, '');
+    lines.push(`import { ${name} } from '${module.startsWith('.') ? module : `./${module}`}';`);
+  });
+  if (shared.length) lines.push('');
+
+  Object.entries(schemas).forEach(([name, schema]) => {
+    if (shared.includes(name)) return;
+    if (schema.enum || (!schema.properties && !schema.allOf)) {
+      lines.push(`export type ${name} = ${toTsType(schema)};`, '');
+      return;
+    }
+    const { properties, required } = flatten(schema);
+    lines.push(`export interface ${name} {`);
+    Object.entries(properties).forEach(([prop, propSchema]) => {
+      lines.push(`  ${quote(prop)}${required.has(prop) ? '' : '?'}: ${toTsType(propSchema)};`);
+    });
+    lines.push('}', '');
+  });
+
+  // Endpoints: 'GET /devices/{id}' -> { request, response }
+  lines.push('export interface ApiEndpoints {');
+  Object.entries(spec.paths ?? {}).forEach(([path, operations]) => {
+    Object.entries(operations).forEach(([method, operation]) => {
+      if (!['get', 'post', 'put', 'patch', 'delete'].includes(method)) return;
+      const bodyParam = (operation.parameters ?? []).find((p) => p.in === 'body');
+      const request = jsonSchema(operation.requestBody?.content) ?? bodyParam?.schema;
+      const success = Object.entries(operation.responses ?? {}).find(([status]) => status.startsWith('2'))?.[1];
+      const response = jsonSchema(success?.content) ?? success?.schema;
+      const basePath = spec.basePath && spec.basePath !== '/' ? spec.basePath : '';
+      lines.push(
+        `  '${method.toUpperCase()} ${basePath}${path}': { request: ${request ? toTsType(request) : 'void'}; response: ${response ? toTsType(response) : 'void'} };`,
+      );
+    });
+  });
+  lines.push('}', '');
+
+  return lines.join('\n');
+}
+
+/**
+ * Escribe el contrato generado
+ * @param spec Documento OpenAPI
+ * @param schemas Esquemas del documento
+ * @param source Origen del documento
+ */
+async function generate(spec, schemas, source) {
+  await writeFile(join(ROOT, GENERATED_FILE), render(spec, schemas, source));
+  console.log(`Contrato generado en ${GENERATED_FILE} (${Object.keys(schemas).length} esquemas)`);
+}
+
+/**
+ * Archivo de modelos parseado con el compilador de TypeScript
+ * @param file Ruta del archivo
+ * @returns ts.SourceFile
+ */
+async function parseModels(file) {
+  return ts.createSourceFile(file, await readFile(join(ROOT, file), 'utf8'), ts.ScriptTarget.Latest, true);
+}
+
+/**
+ * Valores de los enums exportados de un archivo de modelos
+ * @param file Ruta del archivo
+ * @returns Map enum -> valores
+ */
+async function readEnums(file) {
+  const source = await parseModels(file);
+  return new Map(
+    source.statements
+      .filter((statement) => ts.isEnumDeclaration(statement))
+      .map((statement) => [
+        statement.name.text,
+        statement.members.map((member) =>
+          member.initializer && ts.isStringLiteral(member.initializer)
+            ? member.initializer.text
+            : member.name.getText(source),
+        ),
+      ]),
+  );
+}
+
+/**
+ * Interfaces exportadas de un archivo de modelos con sus campos
+ * Los campos de las interfaces que extienden a otras del mismo archivo se incluyen
+ * @param file Ruta del archivo
+ * @returns Map interfaz -> Map campo -> { optional, kind }
+ */
+async function readModels(file) {
+  const source = await parseModels(file);
+  const declarations = new Map();
+  source.statements.forEach((statement) => {
+    if (ts.isInterfaceDeclaration(statement) && statement.modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)) {
+      declarations.set(statement.name.text, statement);
+    }
+  });
+
+  const fieldsOf = (declaration) => {
+    const fields = new Map();
+    declaration.heritageClauses?.forEach((clause) =>
+      clause.types.forEach((type) => {
+        const parent = declarations.get(type.expression.getText(source));
+        if (parent) fieldsOf(parent).forEach((field, name) => fields.set(name, field));
+      }),
+    );
+    declaration.members.forEach((member) => {
+      if (!ts.isPropertySignature(member) || !member.name) return;
+      const typeText = member.type?.getText(source) ?? 'unknown';
+      const parts = typeText.split('|').map((part) => part.trim());
+      fields.set(member.name.getText(source).replace(/['"]/g, ''), {
+        optional: !!member.questionToken || parts.includes('undefined'),
+        kind: primitiveKind(parts.filter((part) => part !== 'null' && part !== 'undefined')),
+      });
+    });
+    return fields;
+  };
+
+  return new Map([...declarations].map(([name, declaration]) => [name, fieldsOf(declaration)]));
+}
+
+/**
+ * Tipo primitivo de un campo ('string', 'number', 'boolean', 'array') o null si es otro tipo
+ * @param parts Partes de la unión del tipo
+ * @returns string | null
+ */
+function primitiveKind(parts) {
+  if (parts.length !== 1) return null;
+  const [type] = parts;
+  if (['string', 'number', 'boolean'].includes(type)) return type;
+  if (type.endsWith('[]') || type.startsWith('Array<')) return 'array';
+  return null;
+}
+
+/**
+ * Tipo primitivo de un esquema OpenAPI
+ * @param schema Esquema de la propiedad
+ * @returns string | null
+ */
+function schemaKind(schema) {
+  if (!schema || schema.$ref || schema.enum) return null;
+  if (schema.type === 'integer') return 'number';
+  return ['string', 'number', 'boolean', 'array'].includes(schema.type) ? schema.type : null;
+}
+
+/**
+ * Busca el esquema del backend de una interfaz
+ * Convención: mismo nombre, o con los sufijos Rq/Rs escritos completos, Dto, Request o Response
+ * @param name Nombre de la interfaz
+ * @returns Nombre del esquema o undefined
+ */
+function findSchema(name) {
+  if (SCHEMA_ALIASES[name]) return SCHEMA_ALIASES[name];
+  const base = name.replace(/(Rq|Rs)$/, '');
+  const candidates = [
+    name,
+    name.replace(/Rq$/, 'Request').replace(/Rs$/, 'Response'),
+    `${base}Dto`,
+    `${base}Request`,
+    `${base}Response`,
+    `${base}DTO`,
+  ];
+  return candidates.find((candidate) => schemas[candidate]);
+}
+
+/**
+ * Rutas declaradas en ApiEndpoints ('GET /devices/{id}', ...)
+ * @returns string[]
+ */
+async function readEndpoints() {
+  const source = await parseModels(ENDPOINTS_FILE);
+  const declaration = source.statements.find(
+    (statement) => ts.isInterfaceDeclaration(statement) && statement.name.text === 'ApiEndpoints',
+  );
+  return (declaration?.members ?? [])
+    .filter((member) => member.name && ts.isStringLiteral(member.name))
+    .map((member) => member.name.text);
+}
+
+/**
+ * Método y ruta sin nombres de parámetros ni el prefijo API_PREFIX ('GET /devices/{}')
+ * @param route Método y ruta
+ * @returns string
+ */
+function normalizeRoute(route) {
+  const [method, path] = route.split(' ');
+  const relativePath = path.startsWith(`${API_PREFIX}/`) ? path.slice(API_PREFIX.length) : path;
+  return `${method.toUpperCase()} ${relativePath.replace(/\{[^}]+\}/g, '{}')}`;
+}
+
+/**
+ * Operaciones del documento del backend normalizadas con normalizeRoute
+ * @param spec Documento OpenAPI
+ * @returns Set<string>
+ */
+function backendOperations(spec) {
+  const basePath = spec.basePath && spec.basePath !== '/' ? spec.basePath : '';
+  return new Set(
+    Object.entries(spec.paths ?? {}).flatMap(([path, operations]) =>
+      Object.keys(operations).map((method) => normalizeRoute(`${method} ${basePath}${path}`)),
+    ),
+  );
+}
+
+/**
+ * Compara los modelos y los endpoints escritos a mano con el documento del backend
+ * @param spec Documento OpenAPI
+ * @param schemas Esquemas del documento
+ * @returns true si no hay diferencias
+ */
+async function check(spec, schemas) {
+  const problems = [];
+  const unmatched = [];
+
+  for (const [name, file] of Object.entries(SHARED_ENUMS)) {
+    const expected = schemas[name]?.enum;
+    if (!expected) continue;
+    const values = (await readEnums(file)).get(name) ?? [];
+    const missing = expected.filter((value) => !values.includes(value));
+    const extra = values.filter((value) => !expected.includes(value));
+    if (missing.length || extra.length) {
+      const parts = [
+        missing.length && `faltan ${missing.join(', ')}`,
+        extra.length && `sobran ${extra.join(', ')}`,
+      ].filter(Boolean);
+      problems.push(`${file} ${name}: ${parts.join(' y ')} respecto al backend`);
+    }
+  }
+
+  for (const file of MODEL_FILES) {
+    for (const [name, fields] of await readModels(file)) {
+      const schemaName = findSchema(name);
+      if (!schemaName) {
+        unmatched.push(name);
+        continue;
+      }
+      const { properties, required } = flatten(schemas[schemaName]);
+      const clientOnly = CLIENT_ONLY_FIELDS[name] ?? [];
+      const where = `${file} ${name} <-> ${schemaName}`;
+
+      fields.forEach((field, fieldName) => {
+        if (clientOnly.includes(fieldName)) return;
+        const property = properties[fieldName];
+        if (!property) {
+          problems.push(`${where}: '${fieldName}' no existe en el backend (¿se renombró o eliminó?)`);
+          return;
+        }
+        const expected = schemaKind(property);
+        if (field.kind && expected && field.kind !== expected) {
+          problems.push(`${where}: '${fieldName}' es ${field.kind} en el modelo y ${expected} en el backend`);
+        }
+      });
+
+      Object.keys(properties).forEach((prop) => {
+        if (required.has(prop) && !fields.has(prop)) {
+          problems.push(`${where}: falta el campo obligatorio '${prop}' del backend`);
+        }
+      });
+    }
+  }
+
+  const operations = backendOperations(spec);
+  (await readEndpoints()).forEach((route) => {
+    if (!operations.has(normalizeRoute(route))) {
+      problems.push(`${ENDPOINTS_FILE}: el backend no expone '${route}'`);
+    }
+  });
+
+  if (unmatched.length) {
+    console.warn(`Interfaces sin esquema en el backend (se omiten): ${unmatched.join(', ')}`);
+  }
+  if (problems.length) {
+    console.error(`Diferencias entre los modelos y el contrato de la API (${specSource}):`);
+    problems.forEach((problem) => console.error(`  - ${problem}`));
+    return false;
+  }
+  console.log('Los modelos coinciden con el contrato de la API');
+  return true;
+}
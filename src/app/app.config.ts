@@ -2,19 +2,28 @@ import {
   ApplicationConfig,
   provideZoneChangeDetection,
   importProvidersFrom,
+  isDevMode,
+  inject,
+  provideAppInitializer,
 } from '@angular/core';
 import { provideRouter } from '@angular/router';
 import { routes } from './app.routes';
 import { provideHttpClient, withInterceptors } from '@angular/common/http';
 import { provideAnimations } from '@angular/platform-browser/animations';
 import { provideLottieOptions } from 'ngx-lottie';
+import { provideServiceWorker } from '@angular/service-worker';
 import player from 'lottie-web';
 
 // Interceptors
 import { errorInterceptor } from './core/interceptors/error.interceptor';
 import { authInterceptor } from './core/interceptors/auth.interceptor';
 import { loadingInterceptor } from './core/interceptors/loading.interceptor';
+import { dedupInterceptor } from './core/interceptors/dedup.interceptor';
+import { retryInterceptor } from './core/interceptors/retry.interceptor';
+import { mockApiInterceptor } from './core/interceptors/mock-api.interceptor';
+import { provideMockBackend } from './core/testing/mock-backend.providers';
 import { ThemeService } from './core/services/theme.service';
+import { LanguageService } from './core/services/language.service';
 
 export function playerFactory() {
   return player;
@@ -25,10 +34,31 @@ export const appConfig: ApplicationConfig = {
     provideZoneChangeDetection({ eventCoalescing: true }),
     provideRouter(routes),
     ThemeService,
+    // Aplica el idioma guardado antes de renderizar la primera vista
+    provideAppInitializer(() => {
+      inject(LanguageService);
+    }),
     provideAnimations(),
     provideHttpClient(
-      withInterceptors([loadingInterceptor, authInterceptor, errorInterceptor ]),
+      // dedupInterceptor comparte las consultas idénticas en curso (incluidos sus reintentos y su ApiError);
+      // errorInterceptor va antes de retryInterceptor y authInterceptor para recibir solo el error final;
+      // mockApiInterceptor va al final para que el backend simulado reciba la petición ya completa
+      withInterceptors([
+        loadingInterceptor,
+        dedupInterceptor,
+        errorInterceptor,
+        retryInterceptor,
+        authInterceptor,
+        mockApiInterceptor,
+      ]),
     ),
+    // Backend simulado: solo registra providers con la configuración mock (npm run start:mock)
+    ...provideMockBackend(),
     provideLottieOptions({ player: playerFactory }),
+    // Cachea la aplicación y los últimos listados para trabajar sin conexión
+    provideServiceWorker('ngsw-worker.js', {
+      enabled: !isDevMode(),
+      registrationStrategy: 'registerWhenStable:30000',
+    }),
   ],
 };
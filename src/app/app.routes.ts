@@ -3,12 +3,16 @@ import { PublicLayoutComponent } from './layouts/public/public-layout/public-lay
 import { PrivateLayoutComponent } from './layouts/private/private-layout/private-layout.component';
 import { authGuard } from './core/guards/auth.guards';
 import { publicAuthGuard } from './core/guards/public-auth.guard';
+import { roleGuard } from './core/guards/role.guard';
+import { ModuleRoles } from './modules/public/auth/models/role.model';
 
 /**
  * Rutas principales de la aplicación
  * Define la estructura de navegación global, incluyendo rutas públicas y privadas
  * - Las rutas públicas están protegidas por el guard `publicAuthGuard` para evitar acceso de usuarios autenticados
  * - Las rutas privadas están protegidas por el guard `authGuard` para asegurar que solo usuarios autenticados puedan acceder
+ * - Cada módulo privado declara en `data.roles` los roles permitidos, validados por `roleGuard`;
+ *   el dashboard no se restringe porque es el destino al que `roleGuard` redirige
  * - Se utiliza lazy loading para cargar los módulos de forma eficiente
  * @since 2026-02-19
  * @author Bunnystring
@@ -56,22 +60,26 @@ export const routes: Routes = [
       {
         path: 'devices',
         loadChildren: () => import('./modules/private/devices/devices.routes').then(m => m.DEVICES_ROUTES),
-        data: { breadcrumb: 'Devices' }
+        canActivate: [roleGuard],
+        data: { breadcrumb: 'Devices', roles: ModuleRoles.devices }
       },
       {
         path: 'orders',
         loadChildren: () => import('./modules/private/orders/orders.routes').then(m => m.ORDERS_ROUTES),
-        data: { breadcrumb: 'Orders' }
+        canActivate: [roleGuard],
+        data: { breadcrumb: 'Orders', roles: ModuleRoles.orders }
       },
       {
         path: 'employees',
         loadChildren: () => import('./modules/private/employees/employees.routes').then(m => m.EMPLOYEES_ROUTES),
-        data: { breadcrumb: 'Employees' }
+        canActivate: [roleGuard],
+        data: { breadcrumb: 'Employees', roles: ModuleRoles.employees }
       },
       {
         path: 'groups',
         loadChildren: () => import('./modules/private/groups/groups.routes').then(m => m.GROUPS_ROUTES),
-        data: { breadcrumb: 'Groups' }
+        canActivate: [roleGuard],
+        data: { breadcrumb: 'Groups', roles: ModuleRoles.groups }
       }
     ]
   },
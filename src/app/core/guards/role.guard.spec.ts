@@ -0,0 +1,131 @@
+import { TestBed } from '@angular/core/testing';
+import {
+  Router,
+  UrlTree,
+  ActivatedRouteSnapshot,
+  RouterStateSnapshot,
+} from '@angular/router';
+import { BehaviorSubject } from 'rxjs';
+import { roleGuard } from './role.guard';
+import { PermissionService } from '../services/permission.service';
+import { AuthService } from '../services/auth.service';
+import { ModuleRoles, UserRole } from '../../modules/public/auth/models/role.model';
+import { User } from '../../modules/public/auth/models/user.model';
+import { routes } from '../../app.routes';
+
+describe('roleGuard', () => {
+  let permissionService: jasmine.SpyObj<PermissionService>;
+  let router: jasmine.SpyObj<Router>;
+  let state: RouterStateSnapshot;
+  const dashboardTree = {} as UrlTree;
+
+  const routeWithRoles = (roles?: UserRole[]) =>
+    ({ data: roles ? { roles } : {} }) as unknown as ActivatedRouteSnapshot;
+
+  beforeEach(() => {
+    const permissionServiceSpy = jasmine.createSpyObj('PermissionService', [
+      'hasAnyRole',
+    ]);
+    const routerSpy = jasmine.createSpyObj('Router', ['createUrlTree']);
+    routerSpy.createUrlTree.and.returnValue(dashboardTree);
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: PermissionService, useValue: permissionServiceSpy },
+        { provide: Router, useValue: routerSpy },
+      ],
+    });
+
+    permissionService = TestBed.inject(
+      PermissionService,
+    ) as jasmine.SpyObj<PermissionService>;
+    router = TestBed.inject(Router) as jasmine.SpyObj<Router>;
+    state = { url: '/app/employees' } as RouterStateSnapshot;
+  });
+
+  it('should allow access when the user has one of the route roles', () => {
+    permissionService.hasAnyRole.and.returnValue(true);
+
+    const result = TestBed.runInInjectionContext(() =>
+      roleGuard(routeWithRoles([UserRole.ADMIN]), state),
+    );
+
+    expect(permissionService.hasAnyRole).toHaveBeenCalledWith([UserRole.ADMIN]);
+    expect(result).toBeTrue();
+  });
+
+  it('should redirect to dashboard when the user lacks the route roles', () => {
+    permissionService.hasAnyRole.and.returnValue(false);
+
+    const result = TestBed.runInInjectionContext(() =>
+      roleGuard(routeWithRoles([UserRole.ADMIN]), state),
+    );
+
+    expect(router.createUrlTree).toHaveBeenCalledWith(['/app/dashboard']);
+    expect(result).toBe(dashboardTree);
+  });
+
+  it('should pass undefined roles when the route does not define them', () => {
+    permissionService.hasAnyRole.and.returnValue(true);
+
+    TestBed.runInInjectionContext(() => roleGuard(routeWithRoles(), state));
+
+    expect(permissionService.hasAnyRole).toHaveBeenCalledWith(undefined);
+  });
+
+  it('should not guard the dashboard, which is the redirect target', () => {
+    const dashboard = routes
+      .find((route) => route.path === 'app')
+      ?.children?.find((route) => route.path === 'dashboard');
+
+    expect(dashboard).toBeDefined();
+    expect(dashboard?.canActivate ?? []).not.toContain(roleGuard);
+  });
+});
+
+describe('roleGuard with a user without role', () => {
+  let router: jasmine.SpyObj<Router>;
+  const dashboardTree = {} as UrlTree;
+  const state = { url: '/app/employees' } as RouterStateSnapshot;
+
+  const routeWithRoles = (roles: UserRole[]) =>
+    ({ data: { roles } }) as unknown as ActivatedRouteSnapshot;
+
+  beforeEach(() => {
+    const currentUser$ = new BehaviorSubject<User | null>({ email: 'sin-rol@infragest.dev' });
+    router = jasmine.createSpyObj('Router', ['createUrlTree']);
+    router.createUrlTree.and.returnValue(dashboardTree);
+
+    TestBed.configureTestingModule({
+      providers: [
+        PermissionService,
+        { provide: AuthService, useValue: { currentUser$, getCurrentUser: () => currentUser$.value } },
+        { provide: Router, useValue: router },
+      ],
+    });
+  });
+
+  it('should allow the read-only modules using the default role', () => {
+    const result = TestBed.runInInjectionContext(() =>
+      roleGuard(routeWithRoles(ModuleRoles.devices), state),
+    );
+
+    expect(result).toBeTrue();
+  });
+
+  it('should allow the default role to read employees and groups', () => {
+    TestBed.runInInjectionContext(() => {
+      expect(roleGuard(routeWithRoles(ModuleRoles.employees), state)).toBeTrue();
+      expect(roleGuard(routeWithRoles(ModuleRoles.groups), state)).toBeTrue();
+    });
+  });
+
+  it('should redirect to dashboard from routes that require a higher role', () => {
+    const result = TestBed.runInInjectionContext(() =>
+      roleGuard(routeWithRoles([UserRole.ADMIN]), state),
+    );
+
+    expect(router.createUrlTree).toHaveBeenCalledWith(['/app/dashboard']);
+    expect(result).toBe(dashboardTree);
+  });
+});
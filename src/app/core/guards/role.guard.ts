@@ -0,0 +1,28 @@
+import { inject } from '@angular/core';
+import { Router, CanActivateFn } from '@angular/router';
+import { toast } from 'ngx-sonner';
+import { PermissionService } from '../services/permission.service';
+import { UserRole } from '../../modules/public/auth/models/role.model';
+
+/**
+ * Guard funcional para restringir rutas privadas por rol.
+ * Lee los roles permitidos desde `data.roles` de la ruta; si no se definen, permite el acceso.
+ * Debe usarse junto con `authGuard`, que garantiza que exista un usuario autenticado.
+ * Si se niega el acceso redirige al dashboard, que no debe protegerse con este guard para evitar un bucle.
+ *
+ * @author Bunnystring
+ * @since 2026-10-19
+ */
+export const roleGuard: CanActivateFn = (route, state) => {
+  const permissionService = inject(PermissionService);
+  const router = inject(Router);
+
+  const roles = route.data?.['roles'] as UserRole[] | undefined;
+
+  if (permissionService.hasAnyRole(roles)) {
+    return true;
+  }
+
+  toast.error('No tienes permisos para acceder a esta sección');
+  return router.createUrlTree(['/app/dashboard']);
+};
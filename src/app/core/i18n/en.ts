@@ -0,0 +1,171 @@
+import { TranslationCatalog } from './i18n.model';
+
+/**
+ * Catálogo de traducciones en inglés
+ * Las claves que falten aquí se muestran en español
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+export const EN_CATALOG: TranslationCatalog = {
+  layout: {
+    systemName: 'Management system',
+    management: 'Management',
+    dashboard: 'Dashboard',
+    devices: 'Devices',
+    orders: 'Orders',
+    groups: 'Groups',
+    employees: 'Employees',
+    search: 'Search',
+    searchShortcut: 'Search (Ctrl+K)',
+    language: 'Language',
+    profile: 'Profile',
+    settings: 'Settings',
+    logout: 'Log out',
+    rights: 'All rights reserved',
+  },
+  connection: {
+    offline: 'Offline',
+    online: 'Online',
+    syncing: 'Syncing...',
+    pendingChanges: 'Pending changes',
+    pending: {
+      one: '{count} pending change',
+      other: '{count} pending changes',
+    },
+    offlineHint:
+      'Showing the last loaded data. Changes are saved and sent when the connection comes back.',
+    offlineBanner: 'Offline: working with the last loaded data',
+    sync: 'Sync',
+    conflicts: 'Conflicts',
+    dismiss: 'Dismiss',
+  },
+  deviceStatus: {
+    GOOD_CONDITION: 'Good Condition',
+    OCCUPIED: 'Occupied',
+    NEEDS_REPAIR: 'Needs Repair',
+    FAIR: 'Fair',
+  },
+  orderState: {
+    CREATED: 'Created',
+    IN_PROCESS: 'In Process',
+    DISPATCHED: 'Dispatched',
+    FINISHED: 'Finished',
+  },
+  userRole: {
+    ADMIN: 'Administrator',
+    OPERATOR: 'Operator',
+    AUDITOR: 'Auditor',
+  },
+  deviceColumn: {
+    name: 'Name',
+    brand: 'Brand',
+    barcode: 'Barcode',
+    status: 'Status',
+    createdAt: 'Created at',
+    updatedAt: 'Last updated',
+  },
+  deviceImport: {
+    nameRequired: 'Name is required',
+    brandRequired: 'Brand is required',
+    barcodeRequired: 'Barcode is required',
+    barcodeInvalid: 'At least 8 alphanumeric characters',
+    barcodeRepeated: 'Barcode repeated in the file',
+    barcodeExists: 'A device with this barcode already exists',
+    statusRequired: 'Status is required',
+    statusUnknown: 'Unknown status',
+    statusListTitle: 'Invalid status',
+    statusListError: 'Pick a status from the list',
+    notCreated: 'The server did not create the device',
+    xlsNotSupported: 'The .xls format cannot be previewed. Save the file as .xlsx',
+    noSheets: 'The file has no sheets',
+    emptyCsv: 'The CSV file is empty',
+    invalidJson: 'The file is not valid JSON',
+    jsonNotArray: 'The JSON must be an array of device objects',
+    devicesSheet: 'Devices',
+    resultSheet: 'Result',
+    summarySheet: 'Summary',
+    row: 'Row',
+    result: 'Result',
+    deviceId: 'Device ID',
+    reason: 'Reason',
+    created: 'Created',
+    failed: 'Failed',
+    total: 'Total',
+    createdCount: 'Created',
+    failedCount: 'Failed',
+  },
+  deviceExport: {
+    devicesSheet: 'Devices',
+    summarySheet: 'Summary',
+    total: 'Total devices',
+    status: 'Status',
+    brand: 'Brand',
+    count: 'Count',
+  },
+  dashboard: {
+    alerts: {
+      needsRepairTitle: 'Devices that need repair',
+      needsRepair: {
+        one: '{count} device needs attention',
+        other: '{count} devices need attention',
+      },
+      createdOrdersTitle: 'Created orders',
+      createdOrders: {
+        one: '{count} order waiting to start',
+        other: '{count} orders waiting to start',
+      },
+      inProcessOrdersTitle: 'Orders in progress',
+      inProcessOrders: {
+        one: '{count} order in process',
+        other: '{count} orders in process',
+      },
+      finishedOrdersTitle: 'Finished orders',
+      finishedOrders: {
+        one: '{count} order completed',
+        other: '{count} orders completed',
+      },
+    },
+    justNow: 'Just now',
+  },
+  errors: {
+    default: 'An error has occurred',
+    client: 'Error: {message}',
+    badRequest: 'Bad request',
+    unauthorized: 'Unauthorized. Please log in',
+    forbidden: 'You do not have permission to perform this action',
+    notFound: 'Resource not found',
+    server: 'Internal server error',
+    status: 'Error {status}',
+    network: 'Could not connect to the server',
+    sessionExpired: 'Your session has expired. Please log in again',
+    invalidCredentials: 'Invalid credentials',
+    conflict: 'The record was modified or already exists',
+    validation: 'Please review the submitted data',
+    reference: 'Reference ID: {id}',
+    copyReference: 'Copy ID',
+    invalidPayload: 'Invalid records from {endpoint} were discarded (see console)',
+  },
+  validation: {
+    required: 'Required field',
+    minLength: 'At least {min} characters',
+    invalidEmail: 'Enter a valid email',
+    confirmPassword: 'Confirm your password',
+    passwordMismatch: 'Passwords do not match',
+    weakPassword: 'Must contain uppercase, lowercase and numbers',
+    veryWeakPassword: 'Must contain uppercase, lowercase, numbers and special characters',
+    invalidFullName: 'Enter your full name (first and last name)',
+    invalidName: 'Only letters and spaces are allowed',
+    invalidDomain: 'The domain {domain} is not allowed',
+    freeEmailNotAllowed: 'Use a corporate email',
+    invalidPhone: 'Invalid phone number',
+    notANumber: 'Must be a number',
+    outOfRange: 'Must be between {min} and {max}',
+    notPositive: 'Must be a positive number',
+    underAge: 'You must be at least {required} years old',
+    futureDate: 'The date cannot be in the future',
+    invalidUrl: 'Invalid URL',
+    whitespace: 'Must not contain only blank spaces',
+    specialChars: 'Only letters, numbers, hyphens and underscores are allowed',
+  },
+};
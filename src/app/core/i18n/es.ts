@@ -0,0 +1,170 @@
+import { TranslationCatalog } from './i18n.model';
+
+/**
+ * Catálogo de traducciones en español (idioma por defecto)
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+export const ES_CATALOG: TranslationCatalog = {
+  layout: {
+    systemName: 'Sistema de gestión',
+    management: 'Gestión',
+    dashboard: 'Dashboard',
+    devices: 'Dispositivos',
+    orders: 'Órdenes',
+    groups: 'Grupos',
+    employees: 'Empleados',
+    search: 'Buscar',
+    searchShortcut: 'Buscar (Ctrl+K)',
+    language: 'Idioma',
+    profile: 'Perfil',
+    settings: 'Configuración',
+    logout: 'Cerrar sesión',
+    rights: 'Todos los derechos reservados',
+  },
+  connection: {
+    offline: 'Sin conexión',
+    online: 'Conectado',
+    syncing: 'Sincronizando...',
+    pendingChanges: 'Cambios pendientes',
+    pending: {
+      one: '{count} cambio pendiente',
+      other: '{count} cambios pendientes',
+    },
+    offlineHint:
+      'Se muestran los últimos datos cargados. Los cambios se guardan y se envían al recuperar la conexión.',
+    offlineBanner: 'Sin conexión: trabajando con los últimos datos cargados',
+    sync: 'Sincronizar',
+    conflicts: 'Conflictos',
+    dismiss: 'Descartar',
+  },
+  deviceStatus: {
+    GOOD_CONDITION: 'Buenas Condiciones',
+    OCCUPIED: 'Ocupado',
+    NEEDS_REPAIR: 'Necesita Reparación',
+    FAIR: 'Regular',
+  },
+  orderState: {
+    CREATED: 'Creada',
+    IN_PROCESS: 'En Proceso',
+    DISPATCHED: 'Despachada',
+    FINISHED: 'Finalizada',
+  },
+  userRole: {
+    ADMIN: 'Administrador',
+    OPERATOR: 'Operador',
+    AUDITOR: 'Auditor',
+  },
+  deviceColumn: {
+    name: 'Nombre',
+    brand: 'Marca',
+    barcode: 'Código de barras',
+    status: 'Estado',
+    createdAt: 'Fecha de creación',
+    updatedAt: 'Última actualización',
+  },
+  deviceImport: {
+    nameRequired: 'El nombre es obligatorio',
+    brandRequired: 'La marca es obligatoria',
+    barcodeRequired: 'El código de barras es obligatorio',
+    barcodeInvalid: 'Mínimo 8 caracteres alfanuméricos',
+    barcodeRepeated: 'Código repetido en el archivo',
+    barcodeExists: 'Ya existe un dispositivo con este código',
+    statusRequired: 'El estado es obligatorio',
+    statusUnknown: 'Estado desconocido',
+    statusListTitle: 'Estado no válido',
+    statusListError: 'Selecciona un estado de la lista',
+    notCreated: 'El servidor no creó el dispositivo',
+    xlsNotSupported: 'El formato .xls no se puede previsualizar. Guarda el archivo como .xlsx',
+    noSheets: 'El archivo no contiene hojas',
+    emptyCsv: 'El archivo CSV está vacío',
+    invalidJson: 'El archivo no contiene un JSON válido',
+    jsonNotArray: 'El JSON debe ser un arreglo de objetos de dispositivos',
+    devicesSheet: 'Dispositivos',
+    resultSheet: 'Resultado',
+    summarySheet: 'Resumen',
+    row: 'Fila',
+    result: 'Resultado',
+    deviceId: 'ID del dispositivo',
+    reason: 'Motivo',
+    created: 'Creado',
+    failed: 'Fallido',
+    total: 'Total',
+    createdCount: 'Creados',
+    failedCount: 'Fallidos',
+  },
+  deviceExport: {
+    devicesSheet: 'Dispositivos',
+    summarySheet: 'Resumen',
+    total: 'Total de dispositivos',
+    status: 'Estado',
+    brand: 'Marca',
+    count: 'Cantidad',
+  },
+  dashboard: {
+    alerts: {
+      needsRepairTitle: 'Dispositivos que necesitan reparación',
+      needsRepair: {
+        one: '{count} dispositivo requiere atención',
+        other: '{count} dispositivos requieren atención',
+      },
+      createdOrdersTitle: 'Órdenes creadas',
+      createdOrders: {
+        one: '{count} orden esperando inicio',
+        other: '{count} órdenes esperando inicio',
+      },
+      inProcessOrdersTitle: 'Órdenes en progreso',
+      inProcessOrders: {
+        one: '{count} orden en proceso',
+        other: '{count} órdenes en proceso',
+      },
+      finishedOrdersTitle: 'Órdenes finalizadas',
+      finishedOrders: {
+        one: '{count} orden completada',
+        other: '{count} órdenes completadas',
+      },
+    },
+    justNow: 'Hace un momento',
+  },
+  errors: {
+    default: 'Ha ocurrido un error',
+    client: 'Error: {message}',
+    badRequest: 'Solicitud incorrecta',
+    unauthorized: 'No autorizado. Por favor inicie sesión',
+    forbidden: 'No tiene permisos para realizar esta acción',
+    notFound: 'Recurso no encontrado',
+    server: 'Error interno del servidor',
+    status: 'Error {status}',
+    network: 'No se pudo conectar con el servidor',
+    sessionExpired: 'Tu sesión expiró. Por favor inicia sesión de nuevo',
+    invalidCredentials: 'Credenciales inválidas',
+    conflict: 'El registro fue modificado o ya existe',
+    validation: 'Revisa los datos enviados',
+    reference: 'ID de referencia: {id}',
+    copyReference: 'Copiar ID',
+    invalidPayload: 'Se descartaron registros inválidos de {endpoint} (ver consola)',
+  },
+  validation: {
+    required: 'Campo obligatorio',
+    minLength: 'Mínimo {min} caracteres',
+    invalidEmail: 'Ingresa un correo válido',
+    confirmPassword: 'Confirma tu contraseña',
+    passwordMismatch: 'Las contraseñas no coinciden',
+    weakPassword: 'Debe tener mayúsculas, minúsculas y números',
+    veryWeakPassword: 'Debe tener mayúsculas, minúsculas, números y caracteres especiales',
+    invalidFullName: 'Ingresa tu nombre completo (nombre y apellido)',
+    invalidName: 'Solo se permiten letras y espacios',
+    invalidDomain: 'El dominio {domain} no está permitido',
+    freeEmailNotAllowed: 'Usa un correo corporativo',
+    invalidPhone: 'Número de teléfono no válido',
+    notANumber: 'Debe ser un número',
+    outOfRange: 'Debe estar entre {min} y {max}',
+    notPositive: 'Debe ser un número positivo',
+    underAge: 'Debes tener al menos {required} años',
+    futureDate: 'La fecha no puede ser futura',
+    invalidUrl: 'URL no válida',
+    whitespace: 'No debe contener solo espacios en blanco',
+    specialChars: 'Solo se permiten letras, números, guiones y guiones bajos',
+  },
+};
@@ -0,0 +1,36 @@
+/**
+ * Idiomas disponibles en la aplicación
+ */
+export type Language = 'es' | 'en';
+
+/**
+ * Locale usado para formatear fechas y números en cada idioma
+ */
+export const LanguageLocales: { [key in Language]: string } = {
+  es: 'es-CO',
+  en: 'en-US',
+};
+
+/**
+ * Labels para mostrar en el selector de idioma (cada idioma con su propio nombre)
+ */
+export const LanguageLabels: { [key in Language]: string } = {
+  es: 'Español',
+  en: 'English',
+};
+
+/**
+ * Formas plurales de un texto según las reglas del idioma (Intl.PluralRules)
+ * `other` es obligatoria y se usa cuando la categoría no está definida
+ */
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+
+/**
+ * Catálogo de traducciones: textos o formas plurales agrupados por secciones
+ * Los textos admiten parámetros con la forma {nombre}
+ */
+export interface TranslationCatalog {
+  [key: string]: string | PluralForms | TranslationCatalog;
+}
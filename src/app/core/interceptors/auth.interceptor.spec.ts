@@ -2,7 +2,7 @@ import { TestBed } from '@angular/core/testing';
 import { HttpClient, HttpErrorResponse, provideHttpClient, withInterceptors } from '@angular/common/http';
 import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
 import { Router } from '@angular/router';
-import { of, throwError } from 'rxjs';
+import { Subject, of, throwError } from 'rxjs';
 import { authInterceptor } from './auth.interceptor';
 import { AuthService } from '../services/auth.service';
 import { AuthResponse } from '../../modules/public/auth/models/auth.model';
@@ -161,6 +161,26 @@ describe('authInterceptor', () => {
       );
     });
 
+    it('debe compartir un único refresh entre 401 simultáneos', () => {
+      authService.getToken.and.returnValue('old-token');
+      authService.getRefreshToken.and.returnValue('refresh-token');
+      const refresh$ = new Subject<AuthResponse>();
+      authService.refreshToken.and.returnValue(refresh$);
+
+      httpClient.get('/api/devices').subscribe();
+      httpClient.get('/api/orders').subscribe();
+
+      httpMock.expectOne('/api/devices').flush({}, { status: 401, statusText: 'Unauthorized' });
+      httpMock.expectOne('/api/orders').flush({}, { status: 401, statusText: 'Unauthorized' });
+
+      refresh$.next(mockAuthResponse);
+      refresh$.complete();
+
+      expect(authService.refreshToken).toHaveBeenCalledTimes(1);
+      httpMock.expectOne('/api/devices').flush({});
+      httpMock.expectOne('/api/orders').flush({});
+    });
+
     it('NO debe intentar refresh si no hay refresh token', (done) => {
       authService.getToken.and.returnValue('test-token');
       authService.getRefreshToken.and.returnValue(null);
@@ -2,11 +2,39 @@ import { HttpInterceptorFn } from '@angular/common/http';
 import { inject } from '@angular/core';
 import { AuthService } from '../services/auth.service';
 import { Router } from '@angular/router';
-import { catchError, switchMap, throwError } from 'rxjs';
+import {
+  Observable,
+  catchError,
+  finalize,
+  shareReplay,
+  switchMap,
+  throwError,
+} from 'rxjs';
 import { HttpErrorResponse } from '@angular/common/http';
+import { AuthResponse } from '../../modules/public/auth/models/auth.model';
+
+// Refresco en curso: los 401 simultáneos esperan el mismo refresco en lugar de pedir uno cada uno
+let refreshInFlight$: Observable<AuthResponse> | null = null;
+
+/**
+ * Refresca el token compartiendo la petición entre todos los 401 que lleguen mientras está en curso
+ * @param authService Servicio de autenticación
+ * @returns Observable<AuthResponse>
+ */
+const refreshTokenOnce = (authService: AuthService): Observable<AuthResponse> => {
+  if (!refreshInFlight$) {
+    refreshInFlight$ = authService.refreshToken().pipe(
+      finalize(() => (refreshInFlight$ = null)),
+      shareReplay(1),
+    );
+  }
+  return refreshInFlight$;
+};
 
 /**
  * Interceptor para agregar el token de autenticación a las peticiones HTTP
+ * Ante un 401 refresca el token y reintenta la petición; si no se puede, errorInterceptor (registrado antes)
+ * recibe el error y muestra el aviso de sesión expirada
  *
  * @since 2026-02-05
  * @author Bunnystring
@@ -51,7 +79,7 @@ export const authInterceptor: HttpInterceptorFn = (req, next) => {
         // console.warn('⚠️ Error 401 detectado, intentando refrescar token...');
 
         // Intentar refrescar el token
-        return authService.refreshToken().pipe(
+        return refreshTokenOnce(authService).pipe(
           switchMap((response) => {
             // console.log('✅ Token refrescado exitosamente');
 
@@ -79,11 +107,7 @@ export const authInterceptor: HttpInterceptorFn = (req, next) => {
         );
       }
 
-      // Para otros errores, simplemente propagarlos
-      if (error.status !== 401) {
-        console.error(`❌ Error ${error.status} en petición:`, req.url);
-      }
-
+      // Para otros errores, simplemente propagarlos (errorInterceptor los registra y normaliza)
       return throwError(() => error);
     }),
   );
@@ -0,0 +1,54 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, HttpContext, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { SKIP_DEDUP, dedupInterceptor } from './dedup.interceptor';
+
+describe('dedupInterceptor', () => {
+  let httpClient: HttpClient;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([dedupInterceptor])),
+        provideHttpClientTesting(),
+      ],
+    });
+
+    httpClient = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('debe compartir los GET idénticos en curso', () => {
+    const results: unknown[] = [];
+    httpClient.get('/api/employees/1').subscribe((data) => results.push(data));
+    httpClient.get('/api/employees/1').subscribe((data) => results.push(data));
+
+    httpMock.expectOne('/api/employees/1').flush({ id: '1' });
+
+    expect(results).toEqual([{ id: '1' }, { id: '1' }]);
+  });
+
+  it('debe enviar de nuevo la consulta cuando la anterior terminó', () => {
+    httpClient.get('/api/employees/1').subscribe();
+    httpMock.expectOne('/api/employees/1').flush({ id: '1' });
+
+    httpClient.get('/api/employees/1').subscribe();
+    httpMock.expectOne('/api/employees/1').flush({ id: '1' });
+  });
+
+  it('NO debe compartir peticiones con SKIP_DEDUP ni modificaciones', () => {
+    const context = new HttpContext().set(SKIP_DEDUP, true);
+    httpClient.get('/api/groups/1', { context }).subscribe();
+    httpClient.get('/api/groups/1', { context }).subscribe();
+    httpClient.post('/api/groups', {}).subscribe();
+    httpClient.post('/api/groups', {}).subscribe();
+
+    expect(httpMock.match('/api/groups/1').length).toBe(2);
+    expect(httpMock.match('/api/groups').length).toBe(2);
+  });
+});
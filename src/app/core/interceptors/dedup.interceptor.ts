@@ -0,0 +1,39 @@
+import {
+  HttpContextToken,
+  HttpEvent,
+  HttpInterceptorFn,
+} from '@angular/common/http';
+import { Observable, finalize, share } from 'rxjs';
+
+/**
+ * Permite que una consulta no se comparta con otras idénticas en curso (por ejemplo, para forzar una lectura nueva)
+ */
+export const SKIP_DEDUP = new HttpContextToken<boolean>(() => false);
+
+// Consultas en curso por método, tipo de respuesta y URL con parámetros
+const inFlight = new Map<string, Observable<HttpEvent<unknown>>>();
+
+/**
+ * Interceptor que comparte las consultas GET idénticas que están en curso al mismo tiempo
+ * La segunda llamada se suscribe a la petición de la primera en lugar de enviar otra; al terminar se libera
+ * Se registra antes de errorInterceptor para que todos los suscriptores reciban el mismo ApiError (y un solo toast)
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+export const dedupInterceptor: HttpInterceptorFn = (req, next) => {
+  if (req.method !== 'GET' || req.context.get(SKIP_DEDUP)) {
+    return next(req);
+  }
+
+  const key = `${req.method} ${req.responseType} ${req.urlWithParams}`;
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const shared = next(req).pipe(
+    finalize(() => inFlight.delete(key)),
+    share(),
+  );
+  inFlight.set(key, shared);
+  return shared;
+};
@@ -0,0 +1,138 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, HttpContext, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { FormControl, FormGroup } from '@angular/forms';
+import { errorInterceptor } from './error.interceptor';
+import { AuthService } from '../services/auth.service';
+import { ApiError } from '../models/api-error.model';
+import {
+  CORRELATION_ID_HEADER,
+  SKIP_ERROR_TOAST,
+  applyApiFieldErrors,
+} from '../utils/api-error.utils';
+import { environment } from '../../../environments/environment';
+
+describe('errorInterceptor', () => {
+  let httpClient: HttpClient;
+  let httpMock: HttpTestingController;
+  let authService: jasmine.SpyObj<AuthService>;
+
+  beforeEach(() => {
+    const authServiceSpy = jasmine.createSpyObj('AuthService', ['getToken', 'logout']);
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([errorInterceptor])),
+        provideHttpClientTesting(),
+        { provide: AuthService, useValue: authServiceSpy },
+      ],
+    });
+
+    httpClient = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+    authService = TestBed.inject(AuthService) as jasmine.SpyObj<AuthService>;
+
+    spyOn(console, 'error');
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+    environment.sendCorrelationId = false;
+  });
+
+  it('debe enviar un identificador de correlación en cada petición si está habilitado', () => {
+    environment.sendCorrelationId = true;
+    httpClient.get('/api/devices').subscribe();
+
+    const req = httpMock.expectOne('/api/devices');
+    expect(req.request.headers.get(CORRELATION_ID_HEADER)).toBeTruthy();
+    req.flush([]);
+  });
+
+  it('NO debe enviar la cabecera por defecto, pero sí asignar un identificador al error', (done) => {
+    const context = new HttpContext().set(SKIP_ERROR_TOAST, true);
+    httpClient.get('/api/devices', { context }).subscribe({
+      error: (error: ApiError) => {
+        expect(error.correlationId).toBeTruthy();
+        done();
+      },
+    });
+
+    const req = httpMock.expectOne('/api/devices');
+    expect(req.request.headers.has(CORRELATION_ID_HEADER)).toBeFalse();
+    req.flush({}, { status: 500, statusText: 'Server Error' });
+  });
+
+  it('debe normalizar el error en ApiError con los errores por campo', (done) => {
+    const context = new HttpContext().set(SKIP_ERROR_TOAST, true);
+    httpClient.post('/api/employees', {}, { context }).subscribe({
+      next: () => done.fail('Debería haber fallado'),
+      error: (error: ApiError) => {
+        expect(error instanceof ApiError).toBeTrue();
+        expect(error.status).toBe(400);
+        expect(error.message).toBe('Datos inválidos');
+        expect(error.correlationId).toBe('req-123');
+        expect(error.fieldErrors).toEqual([
+          { field: 'email', message: 'El correo ya existe' },
+        ]);
+
+        const form = new FormGroup({ email: new FormControl('a@b.co') });
+        expect(applyApiFieldErrors(form, error)).toBeTrue();
+        expect(form.get('email')?.getError('server')).toBe('El correo ya existe');
+
+        const renamed = new FormGroup({ contactEmail: new FormControl('a@b.co') });
+        expect(applyApiFieldErrors(renamed, error, { email: 'contactEmail' })).toBeTrue();
+        expect(renamed.get('contactEmail')?.getError('server')).toBe('El correo ya existe');
+        done();
+      },
+    });
+
+    httpMock.expectOne('/api/employees').flush(
+      {
+        message: 'Datos inválidos',
+        fieldErrors: [{ field: 'email', message: 'El correo ya existe' }],
+      },
+      {
+        status: 400,
+        statusText: 'Bad Request',
+        headers: { [CORRELATION_ID_HEADER]: 'req-123' },
+      },
+    );
+  });
+
+  it('debe cerrar la sesión ante un 401 que no se pudo refrescar', (done) => {
+    authService.getToken.and.returnValue('expired-token');
+    const context = new HttpContext().set(SKIP_ERROR_TOAST, true);
+
+    httpClient.get('/api/orders', { context }).subscribe({
+      error: () => {
+        expect(authService.logout).toHaveBeenCalled();
+        done();
+      },
+    });
+
+    httpMock
+      .expectOne('/api/orders')
+      .flush({}, { status: 401, statusText: 'Unauthorized' });
+  });
+
+  it('NO debe cerrar la sesión ante credenciales inválidas en /auth/login', (done) => {
+    authService.getToken.and.returnValue(null);
+    const context = new HttpContext().set(SKIP_ERROR_TOAST, true);
+
+    httpClient.post('/auth/login', {}, { context }).subscribe({
+      error: (error: ApiError) => {
+        expect(error.message).toBe('Usuario o contraseña incorrectos');
+        expect(authService.logout).not.toHaveBeenCalled();
+        done();
+      },
+    });
+
+    httpMock
+      .expectOne('/auth/login')
+      .flush(
+        { message: 'Usuario o contraseña incorrectos' },
+        { status: 401, statusText: 'Unauthorized' },
+      );
+  });
+});
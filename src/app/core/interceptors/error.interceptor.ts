@@ -1,44 +1,73 @@
-import { HttpInterceptorFn, HttpErrorResponse } from '@angular/common/http';
+import { HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
 import { inject } from '@angular/core';
-import { Router } from '@angular/router';
 import { catchError, throwError } from 'rxjs';
+import { AuthService } from '../services/auth.service';
+import { NetworkStatusService } from '../services/network-status.service';
+import { ApiError } from '../models/api-error.model';
+import {
+  CORRELATION_ID_HEADER,
+  SKIP_ERROR_TOAST,
+  createCorrelationId,
+  notifyApiError,
+  toApiError,
+} from '../utils/api-error.utils';
+import { environment } from '../../../environments/environment';
 
+/**
+ * Interceptor para normalizar los errores HTTP en ApiError
+ * Asigna un identificador a cada petición para poder reportar el error, y muestra un toast genérico
+ * cuando el componente no muestra el suyo con notifyApiError
+ * El identificador solo se envía en la cabecera X-Correlation-Id si environment.sendCorrelationId está activo;
+ * si no, se usa el que devuelva el backend o, en su defecto, el generado en el cliente
+ * Se registra antes que authInterceptor, así que solo recibe los 401 que el refresco del token no pudo resolver
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
 export const errorInterceptor: HttpInterceptorFn = (req, next) => {
-  const router = inject(Router);
+  const authService = inject(AuthService);
+  const networkStatus = inject(NetworkStatusService);
 
-  return next(req).pipe(
+  const correlationId = req.headers.get(CORRELATION_ID_HEADER) ?? createCorrelationId();
+  const tracedReq =
+    !environment.sendCorrelationId || req.headers.has(CORRELATION_ID_HEADER)
+      ? req
+      : req.clone({ setHeaders: { [CORRELATION_ID_HEADER]: correlationId } });
+
+  return next(tracedReq).pipe(
     catchError((error: HttpErrorResponse) => {
-      let errorMessage = 'Ha ocurrido un error';
-
-      if (error.error instanceof ErrorEvent) {
-        // Error del cliente
-        errorMessage = `Error: ${error.error.message}`;
-      } else {
-        // Error del servidor
-        switch (error.status) {
-          case 400:
-            errorMessage = 'Solicitud incorrecta';
-            break;
-          case 401:
-            errorMessage = 'No autorizado. Por favor inicie sesión';
-            router.navigate(['/auth/login']);
-            break;
-          case 403:
-            errorMessage = 'No tiene permisos para realizar esta acción';
-            break;
-          case 404:
-            errorMessage = 'Recurso no encontrado';
-            break;
-          case 500:
-            errorMessage = 'Error interno del servidor';
-            break;
-          default:
-            errorMessage = error.error?.message || `Error ${error.status}`;
-        }
+      // Error ya normalizado (por ejemplo, el del refresco del token)
+      if (error instanceof ApiError || !(error instanceof HttpErrorResponse)) {
+        return throwError(() => error);
+      }
+
+      const apiError = toApiError(error, correlationId);
+      console.error(
+        `${req.method} ${req.urlWithParams} (${apiError.status}) [${apiError.correlationId}]:`,
+        apiError.message,
+      );
+
+      // Sesión no recuperable: authInterceptor ya intentó refrescar el token
+      // (los endpoints de autenticación manejan su propio 401)
+      if (
+        error.status === 401 &&
+        !req.url.includes('/auth/') &&
+        authService.getToken()
+      ) {
+        authService.logout();
+      }
+
+      // Sin conexión el aviso del layout ya informa al usuario
+      const skipToast =
+        req.context.get(SKIP_ERROR_TOAST) ||
+        (error.status === 0 && !networkStatus.isOnline);
+
+      // El toast genérico espera a que el componente maneje el error; si muestra el suyo, este se omite
+      if (!skipToast) {
+        setTimeout(() => notifyApiError(apiError));
       }
 
-      console.error(errorMessage);
-      return throwError(() => error);
-    })
+      return throwError(() => apiError);
+    }),
   );
 };
@@ -1,8 +1,13 @@
-import { HttpInterceptorFn } from '@angular/common/http';
+import { HttpContextToken, HttpInterceptorFn } from '@angular/common/http';
 import { inject } from '@angular/core';
 import { finalize } from 'rxjs';
 import { LoadingService } from '../services/loading.service';
 
+/**
+ * Permite que una petición en segundo plano (por ejemplo, el sondeo en tiempo real) no muestre el indicador de carga
+ */
+export const SKIP_LOADING = new HttpContextToken<boolean>(() => false);
+
 /**
  * Interceptor para mostrar un indicador de carga global durante las solicitudes HTTP.
  * Utiliza el LoadingService para gestionar el estado de carga y asegurar que el indicador se muestre durante un tiempo mínimo para evitar parpadeos.
@@ -11,6 +16,11 @@ import { LoadingService } from '../services/loading.service';
  * @returns Un observable que representa la respuesta HTTP.
  */
 export const loadingInterceptor: HttpInterceptorFn = (req, next) => {
+  // Las peticiones en segundo plano no muestran el indicador de carga
+  if (req.context.get(SKIP_LOADING)) {
+    return next(req);
+  }
+
   // Inyectamos el servicio de carga para mostrar y ocultar el indicador de carga
   const loadingService = inject(LoadingService);
 
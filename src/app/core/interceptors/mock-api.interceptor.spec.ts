@@ -0,0 +1,110 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { HttpClient, HttpHeaders, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { mockApiInterceptor } from './mock-api.interceptor';
+import { MOCK_DELAY_HEADER, MOCK_STATUS_HEADER, MockApiServer } from '../testing/mock-api-server';
+import { environment } from '../../../environments/environment';
+import { AuthResponse } from '../../modules/public/auth/models/auth.model';
+import { Device, DeviceStatus } from '../../modules/private/devices/models/device.model';
+import { Order } from '../../modules/private/orders/models/Orders';
+
+describe('mockApiInterceptor', () => {
+  const api = environment.apiUrl;
+  let httpClient: HttpClient;
+  let server: MockApiServer;
+  let headers: HttpHeaders;
+
+  beforeEach(() => {
+    server = new MockApiServer({ latency: 0, persist: false });
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(withInterceptors([mockApiInterceptor])), server.provide()],
+    });
+    httpClient = TestBed.inject(HttpClient);
+
+    httpClient
+      .post<AuthResponse>(`${api}/auth/login`, { email: 'admin@infragest.dev', password: 'Demo1234!' })
+      .subscribe((response) => (headers = new HttpHeaders({ Authorization: `Bearer ${response.accessToken}` })));
+  });
+
+  it('debe iniciar sesión con un token cuya expiración puede leer AuthService', () => {
+    expect(headers).toBeDefined();
+    const token = headers.get('Authorization')!.slice(7);
+    const payload = JSON.parse(atob(token.split('.')[1]));
+    expect(payload.exp * 1000).toBeGreaterThan(Date.now());
+  });
+
+  it('debe rechazar credenciales incorrectas con 401', () => {
+    let status = 0;
+    httpClient
+      .post(`${api}/auth/login`, { email: 'admin@infragest.dev', password: 'otra' })
+      .subscribe({ error: (error) => (status = error.status) });
+
+    expect(status).toBe(401);
+  });
+
+  it('debe responder 401 a las peticiones sin token', () => {
+    let status = 0;
+    httpClient.get(`${api}/devices`).subscribe({ error: (error) => (status = error.status) });
+
+    expect(status).toBe(401);
+  });
+
+  it('debe crear, actualizar y eliminar un dispositivo', () => {
+    let device: Device | undefined;
+    httpClient
+      .post<Device>(`${api}/devices`, { name: 'Laptop', brand: 'HP', barcode: 'NEW-1', status: DeviceStatus.FAIR }, { headers })
+      .subscribe((created) => (device = created));
+    expect(device?.id).toBeTruthy();
+
+    httpClient
+      .put<Device>(`${api}/devices/${device!.id}`, { status: DeviceStatus.GOOD_CONDITION }, { headers })
+      .subscribe((updated) => (device = updated));
+    expect(device?.status).toBe(DeviceStatus.GOOD_CONDITION);
+
+    httpClient.delete(`${api}/devices/${device!.id}`, { headers }).subscribe();
+    expect(server.snapshot().devices.some((d) => d.id === device!.id)).toBeFalse();
+  });
+
+  it('debe rechazar un código de barras repetido con 409 y el error del campo', () => {
+    let error: any;
+    httpClient
+      .post(`${api}/devices`, { name: 'Otro', brand: 'HP', barcode: 'INF-0001', status: DeviceStatus.FAIR }, { headers })
+      .subscribe({ error: (e) => (error = e) });
+
+    expect(error.status).toBe(409);
+    expect(error.error.fieldErrors[0].field).toBe('barcode');
+  });
+
+  it('debe ocupar los dispositivos de una orden nueva y rechazar los ya asignados', () => {
+    let order: Order | undefined;
+    const body = { description: 'Orden', assigneeType: 'EMPLOYEE', assigneeId: 'emp-02', devicesIds: ['dev-03'] };
+    httpClient.post<Order>(`${api}/orders`, body, { headers }).subscribe((created) => (order = created));
+
+    expect(order?.items).toEqual([{ deviceId: 'dev-03', originalDeviceState: DeviceStatus.GOOD_CONDITION }]);
+    expect(server.snapshot().devices.find((d) => d.id === 'dev-03')?.status).toBe(DeviceStatus.OCCUPIED);
+
+    let status = 0;
+    httpClient.post(`${api}/orders`, body, { headers }).subscribe({ error: (error) => (status = error.status) });
+    expect(status).toBe(409);
+  });
+
+  it('debe forzar el error indicado en la cabecera X-Mock-Status', () => {
+    let status = 0;
+    httpClient
+      .get(`${api}/devices`, { headers: headers.set(MOCK_STATUS_HEADER, '500') })
+      .subscribe({ error: (error) => (status = error.status) });
+
+    expect(status).toBe(500);
+  });
+
+  it('debe responder después de la latencia indicada en X-Mock-Delay', fakeAsync(() => {
+    let devices: Device[] | undefined;
+    httpClient
+      .get<Device[]>(`${api}/devices`, { headers: headers.set(MOCK_DELAY_HEADER, '200') })
+      .subscribe((result) => (devices = result));
+
+    tick(199);
+    expect(devices).toBeUndefined();
+    tick(1);
+    expect(devices?.length).toBe(12);
+  }));
+});
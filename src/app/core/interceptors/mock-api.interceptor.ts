@@ -0,0 +1,24 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { InjectionToken, inject } from '@angular/core';
+import type { MockApiServer } from '../testing/mock-api-server';
+
+/**
+ * Backend simulado que responde las peticiones a la API (ver MockApiServer)
+ */
+export const MOCK_API_SERVER = new InjectionToken<MockApiServer>('MOCK_API_SERVER');
+
+/**
+ * Interceptor que responde las peticiones a la API desde el backend simulado en memoria
+ * Solo actúa si se registró un MockApiServer (modo mock o pruebas); si no, deja pasar la petición
+ * Se registra al final para que los demás interceptores (token, reintentos, errores) se apliquen igual que con el backend real
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+export const mockApiInterceptor: HttpInterceptorFn = (req, next) => {
+  const server = inject(MOCK_API_SERVER, { optional: true });
+  if (!server || !server.handles(req.url)) {
+    return next(req);
+  }
+  return server.handle(req);
+};
@@ -0,0 +1,76 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { HttpClient, HttpContext, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { RETRY_CONFIG, SKIP_RETRY, retryInterceptor } from './retry.interceptor';
+
+describe('retryInterceptor', () => {
+  let httpClient: HttpClient;
+  let httpMock: HttpTestingController;
+
+  const context = () =>
+    new HttpContext().set(RETRY_CONFIG, { count: 2, delay: 100, maxDelay: 1000 });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([retryInterceptor])),
+        provideHttpClientTesting(),
+      ],
+    });
+
+    httpClient = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('debe reintentar un GET ante un 503 con espera exponencial', fakeAsync(() => {
+    let result: unknown;
+    httpClient.get('/api/orders', { context: context() }).subscribe((data) => (result = data));
+
+    httpMock.expectOne('/api/orders').flush({}, { status: 503, statusText: 'Unavailable' });
+    tick(100);
+    httpMock.expectOne('/api/orders').flush({}, { status: 502, statusText: 'Bad Gateway' });
+    tick(199);
+    httpMock.expectNone('/api/orders');
+    tick(1);
+    httpMock.expectOne('/api/orders').flush([{ id: 'o1' }]);
+
+    expect(result).toEqual([{ id: 'o1' }]);
+  }));
+
+  it('NO debe reintentar errores que no son transitorios', () => {
+    let status = 0;
+    httpClient
+      .get('/api/orders/1', { context: context() })
+      .subscribe({ error: (error) => (status = error.status) });
+
+    httpMock.expectOne('/api/orders/1').flush({}, { status: 404, statusText: 'Not Found' });
+
+    expect(status).toBe(404);
+  });
+
+  it('NO debe reintentar peticiones no idempotentes', () => {
+    let status = 0;
+    httpClient
+      .post('/api/orders', {}, { context: context() })
+      .subscribe({ error: (error) => (status = error.status) });
+
+    httpMock.expectOne('/api/orders').flush({}, { status: 503, statusText: 'Unavailable' });
+
+    expect(status).toBe(503);
+  });
+
+  it('NO debe reintentar si la petición lo desactiva con SKIP_RETRY', () => {
+    let status = 0;
+    httpClient
+      .get('/api/orders', { context: context().set(SKIP_RETRY, true) })
+      .subscribe({ error: (error) => (status = error.status) });
+
+    httpMock.expectOne('/api/orders').flush({}, { status: 503, statusText: 'Unavailable' });
+
+    expect(status).toBe(503);
+  });
+});
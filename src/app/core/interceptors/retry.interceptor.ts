@@ -0,0 +1,92 @@
+import {
+  HttpContextToken,
+  HttpErrorResponse,
+  HttpInterceptorFn,
+} from '@angular/common/http';
+import { inject } from '@angular/core';
+import { retry, throwError, timer } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { NetworkStatusService } from '../services/network-status.service';
+
+/**
+ * Configuración de reintentos: cantidad de reintentos y espera inicial y máxima en milisegundos
+ */
+export interface RetryConfig {
+  count: number;
+  delay: number;
+  maxDelay: number;
+}
+
+/**
+ * Permite que una petición no se reintente (por ejemplo, el sondeo en segundo plano, que ya se repite solo)
+ */
+export const SKIP_RETRY = new HttpContextToken<boolean>(() => false);
+
+/**
+ * Permite cambiar la configuración de reintentos de una petición; por defecto la del environment
+ */
+export const RETRY_CONFIG = new HttpContextToken<RetryConfig>(
+  () => environment.httpRetry,
+);
+
+// Métodos idempotentes que se pueden reintentar sin efectos secundarios
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Errores transitorios: sin respuesta del servidor o gateway/servicio no disponible
+const TRANSIENT_STATUSES = [0, 502, 503, 504];
+
+/**
+ * Interceptor que reintenta las consultas ante errores transitorios con espera exponencial
+ * (delay, 2·delay, 4·delay... hasta maxDelay), respetando la cabecera Retry-After si el backend la envía
+ * Sin conexión no se reintenta: la cola offline y el aviso del layout se encargan
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+export const retryInterceptor: HttpInterceptorFn = (req, next) => {
+  const config = req.context.get(RETRY_CONFIG);
+  if (
+    !IDEMPOTENT_METHODS.includes(req.method) ||
+    req.context.get(SKIP_RETRY) ||
+    config.count <= 0
+  ) {
+    return next(req);
+  }
+
+  const networkStatus = inject(NetworkStatusService);
+
+  return next(req).pipe(
+    retry({
+      count: config.count,
+      delay: (error: HttpErrorResponse, retryCount) => {
+        if (
+          !TRANSIENT_STATUSES.includes(error.status) ||
+          !networkStatus.isOnline
+        ) {
+          return throwError(() => error);
+        }
+        return timer(getRetryDelay(error, retryCount, config));
+      },
+    }),
+  );
+};
+
+/**
+ * Calcula la espera antes de un reintento
+ * @param error Error de la petición
+ * @param retryCount Número de reintento (desde 1)
+ * @param config Configuración de reintentos
+ * @returns Milisegundos de espera
+ */
+const getRetryDelay = (
+  error: HttpErrorResponse,
+  retryCount: number,
+  config: RetryConfig,
+): number => {
+  const retryAfter = Number(error.headers?.get('Retry-After'));
+  const delay =
+    retryAfter > 0
+      ? retryAfter * 1000
+      : config.delay * 2 ** (retryCount - 1);
+  return Math.min(delay, config.maxDelay);
+};
@@ -0,0 +1,63 @@
+import { AuthResponse, LoginRequest, RefreshToken, RegisterRequest } from '../../modules/public/auth/models/auth.model';
+import {
+  CreateDeviceRq,
+  Device,
+  DeviceAssignment,
+  DeviceUpdateBatchRq,
+  DevicesBatchAssignmentRs,
+  DevicesBatchRq,
+  PaginatedDevicesResponse,
+  RestoreDevicesRq,
+  UpdateDevicesStateRq,
+} from '../../modules/private/devices/models/device.model';
+import { CreateOrderRequest, Order, UpdateOrderRequest } from '../../modules/private/orders/models/Orders';
+import { CreateEmployeeRq, Employee, EmployeesAsignment } from '../../modules/private/employees/models/employe.model';
+import { CreateGroupRq, Group } from '../../modules/private/groups/models/groups.model';
+
+/**
+ * Endpoints JSON que consume el frontend (método + ruta -> request/response)
+ * Se mantiene a mano con los modelos de la aplicación; no proviene del backend.
+ * `npm run api:check` compara estas rutas y los modelos con el documento OpenAPI del backend
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+export interface ApiEndpoints {
+  'POST /auth/login': { request: LoginRequest; response: AuthResponse };
+  'POST /auth/register': { request: RegisterRequest; response: AuthResponse };
+  'POST /auth/refresh': { request: RefreshToken; response: AuthResponse };
+  'GET /devices': { request: void; response: Device[] };
+  'POST /devices': { request: CreateDeviceRq; response: Device };
+  'GET /devices/paginated': { request: void; response: PaginatedDevicesResponse };
+  'GET /devices/{id}': { request: void; response: Device };
+  'PUT /devices/{id}': { request: Partial<CreateDeviceRq>; response: Device };
+  'DELETE /devices/{id}': { request: void; response: void };
+  'GET /devices/barcode/{barcode}': { request: void; response: Device };
+  'GET /devices/status/{status}': { request: void; response: Device[] };
+  'GET /devices/statuses': { request: void; response: Device[] };
+  'POST /devices/batch': { request: DevicesBatchRq; response: Device[] };
+  'POST /devices/reserve': { request: UpdateDevicesStateRq; response: Device[] };
+  'POST /devices/restore': { request: RestoreDevicesRq; response: Device[] };
+  'POST /devices/update-batch': { request: UpdateDevicesStateRq; response: Device[] };
+  'PUT /devices/update-batch': { request: DeviceUpdateBatchRq; response: Device[] };
+  'GET /devices-assignments/{deviceId}/history': { request: void; response: DeviceAssignment[] };
+  'POST /devices-assignments/devices/active': { request: DevicesBatchRq; response: DevicesBatchAssignmentRs[] };
+  'GET /orders': { request: void; response: Order[] };
+  'POST /orders': { request: CreateOrderRequest; response: Order };
+  'GET /orders/{id}': { request: void; response: Order };
+  'DELETE /orders/{id}': { request: void; response: void };
+  'PUT /orders/update/{id}': { request: UpdateOrderRequest; response: Order };
+  'GET /employees': { request: void; response: Employee[] };
+  'POST /employees': { request: CreateEmployeeRq; response: Employee };
+  'GET /employees/{id}': { request: void; response: Employee };
+  'PUT /employees/{id}': { request: Partial<CreateEmployeeRq>; response: Employee };
+  'DELETE /employees/{id}': { request: void; response: void };
+  'GET /groups': { request: void; response: Group[] };
+  'POST /groups': { request: CreateGroupRq; response: Group };
+  'GET /groups/{id}': { request: void; response: Group };
+  'PUT /groups/{id}': { request: Partial<CreateGroupRq>; response: Group };
+  'DELETE /groups/{id}': { request: void; response: void };
+  'POST /groups/{groupId}/employees': { request: { employees: EmployeesAsignment }; response: Group };
+  'DELETE /groups/{groupId}/employees/{employeeId}': { request: void; response: Group };
+  'GET /groups/{groupId}/members/emails': { request: void; response: string[] };
+}
@@ -0,0 +1,55 @@
+import { HttpErrorResponse } from '@angular/common/http';
+
+/**
+ * Error de validación de un campo enviado por el backend
+ */
+export interface ApiFieldError {
+  // Nombre del campo en la petición (coincide con el control del formulario)
+  field: string;
+  message: string;
+}
+
+/**
+ * Datos normalizados de un error de la API
+ */
+export interface ApiErrorDetails {
+  // Mensaje para el usuario en el idioma activo
+  message: string;
+  // Código de error del backend, si lo envía
+  code: string | null;
+  fieldErrors: ApiFieldError[];
+  // Identificador de la petición para reportar el error
+  correlationId: string | null;
+}
+
+/**
+ * Error de la API normalizado por errorInterceptor
+ * Extiende HttpErrorResponse para que el código que revisa status o error siga funcionando,
+ * y agrega el mensaje para el usuario, los errores por campo y el identificador de la petición
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+export class ApiError extends HttpErrorResponse {
+  override readonly message: string;
+  readonly code: string | null;
+  readonly fieldErrors: ApiFieldError[];
+  readonly correlationId: string | null;
+
+  // Indica si ya se mostró un toast para este error (evita el toast genérico del interceptor)
+  notified = false;
+
+  constructor(response: HttpErrorResponse, details: ApiErrorDetails) {
+    super({
+      error: response.error,
+      headers: response.headers,
+      status: response.status,
+      statusText: response.statusText,
+      url: response.url ?? undefined,
+    });
+    this.message = details.message;
+    this.code = details.code;
+    this.fieldErrors = details.fieldErrors;
+    this.correlationId = details.correlationId;
+  }
+}
@@ -0,0 +1,115 @@
+import { DeviceStatus } from '../../modules/private/devices/models/device.model';
+import { OrderStates } from '../../modules/private/orders/models/Orders';
+import { EmployeeStatus } from '../../modules/private/employees/models/employe.model';
+
+/**
+ * Regla de un campo de una respuesta de la API
+ */
+export interface SchemaField {
+  type: 'string' | 'number' | 'boolean' | 'array' | 'object';
+  // Un campo obligatorio sin valor por defecto descarta el registro si falta o es inválido
+  required?: boolean;
+  nullable?: boolean;
+  // Valor con el que se reemplaza el campo si falta o es inválido
+  default?: unknown;
+  // Valores permitidos (enums)
+  values?: readonly string[];
+  // Esquema de los objetos del campo (o de los elementos, si es un array)
+  schema?: PayloadSchema;
+}
+
+/**
+ * Esquema de una entidad recibida de la API
+ */
+export interface PayloadSchema {
+  name: string;
+  fields: { [field: string]: SchemaField };
+}
+
+/**
+ * Problema encontrado al validar una respuesta
+ */
+export interface SchemaIssue {
+  // Ruta del valor dentro de la respuesta (por ejemplo, $[3].description)
+  path: string;
+  message: string;
+  // coerced: se reemplazó por un valor seguro; dropped: se descartó el registro
+  action: 'coerced' | 'dropped';
+}
+
+/**
+ * Esquemas de las entidades que usan los componentes
+ * Los textos que se muestran o filtran se reemplazan por '' si faltan; los IDs y estados son obligatorios
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+export const DEVICE_SCHEMA: PayloadSchema = {
+  name: 'Device',
+  fields: {
+    id: { type: 'string', required: true },
+    name: { type: 'string', default: '' },
+    brand: { type: 'string', default: '' },
+    barcode: { type: 'string', default: '' },
+    status: { type: 'string', required: true, values: Object.values(DeviceStatus) },
+    createdAt: { type: 'string', default: '' },
+    updatedAt: { type: 'string', nullable: true, default: null },
+  },
+};
+
+export const ORDER_ITEM_SCHEMA: PayloadSchema = {
+  name: 'OrderItem',
+  fields: {
+    deviceId: { type: 'string', required: true },
+    originalDeviceState: { type: 'string', required: true, values: Object.values(DeviceStatus) },
+  },
+};
+
+export const ORDER_SCHEMA: PayloadSchema = {
+  name: 'Order',
+  fields: {
+    id: { type: 'string', required: true },
+    description: { type: 'string', default: '' },
+    state: { type: 'string', required: true, values: Object.values(OrderStates) },
+    assigneeType: { type: 'string', default: '' },
+    assigneeId: { type: 'string', default: '' },
+    createdAt: { type: 'string', default: '' },
+    updatedAt: { type: 'string', default: '' },
+    items: { type: 'array', default: [], schema: ORDER_ITEM_SCHEMA },
+  },
+};
+
+export const EMPLOYEE_SCHEMA: PayloadSchema = {
+  name: 'Employee',
+  fields: {
+    id: { type: 'string', required: true },
+    fullName: { type: 'string', default: '' },
+    email: { type: 'string', default: '' },
+    status: { type: 'string', required: true, values: Object.values(EmployeeStatus) },
+  },
+};
+
+export const GROUP_SCHEMA: PayloadSchema = {
+  name: 'Group',
+  fields: {
+    id: { type: 'string', required: true },
+    name: { type: 'string', default: '' },
+    address: { type: 'string', default: '' },
+    createdAt: { type: 'string', default: '' },
+    updatedAt: { type: 'string', nullable: true, default: null },
+    employees: { type: 'array', default: [], schema: EMPLOYEE_SCHEMA },
+  },
+};
+
+export const AUTH_RESPONSE_SCHEMA: PayloadSchema = {
+  name: 'AuthResponse',
+  fields: {
+    accessToken: { type: 'string', required: true },
+    refreshToken: { type: 'string', required: true },
+    user: {
+      type: 'object',
+      required: true,
+      schema: { name: 'User', fields: { email: { type: 'string', default: '' } } },
+    },
+  },
+};
@@ -1,16 +1,103 @@
 import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
 
 import { ApiService } from './api.service';
+import { environment } from '../../../environments/environment';
+import { Order } from '../../modules/private/orders/models/Orders';
 
 describe('ApiService', () => {
   let service: ApiService;
+  let httpMock: HttpTestingController;
 
   beforeEach(() => {
-    TestBed.configureTestingModule({});
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
     service = TestBed.inject(ApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+    spyOn(console, 'warn');
+  });
+
+  afterEach(() => {
+    httpMock.verify();
   });
 
   it('should be created', () => {
     expect(service).toBeTruthy();
   });
+
+  it('debe corregir los campos inválidos y descartar los registros sin ID en desarrollo', () => {
+    let orders: Order[] = [];
+    service.request('GET /orders').subscribe((result) => (orders = result));
+
+    httpMock.expectOne(`${environment.apiUrl}/orders`).flush([
+      { id: 'o1', description: null, state: 'CREATED', assigneeType: 'GROUP', assigneeId: 'g1', items: [] },
+      { description: 'Sin ID', state: 'CREATED' },
+    ]);
+
+    expect(orders.length).toBe(1);
+    expect(orders[0].description).toBe('');
+    expect(console.warn).toHaveBeenCalledWith(jasmine.stringMatching(/\$\[0\]\.description[\s\S]*\$\[1\]\.id/));
+  });
+
+  it('no debe validar las respuestas de endpoints sin esquema', () => {
+    let emails: unknown;
+    service
+      .request('GET /groups/{groupId}/members/emails', { path: { groupId: 'g1' } })
+      .subscribe((result) => (emails = result));
+
+    httpMock.expectOne(`${environment.apiUrl}/groups/g1/members/emails`).flush(['ana@infragest.dev']);
+
+    expect(emails).toEqual(['ana@infragest.dev']);
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it('no debe aplicar el esquema de la entidad a respuestas que no son entidades', () => {
+    const report = { created: 2, failed: [{ row: 3, reason: 'Código duplicado' }] };
+    let result: unknown;
+    service.postFormData('/devices/batch/upload', new FormData()).subscribe((body) => (result = body));
+
+    httpMock.expectOne(`${environment.apiUrl}/devices/batch/upload`).flush(report);
+
+    expect(result).toEqual(report);
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  describe('request', () => {
+    it('debe reemplazar y codificar los parámetros de ruta de ApiEndpoints', () => {
+      service.request('GET /devices/barcode/{barcode}', { path: { barcode: 'INF 01/2' } }).subscribe();
+
+      const req = httpMock.expectOne(`${environment.apiUrl}/devices/barcode/INF%2001%2F2`);
+      expect(req.request.method).toBe('GET');
+      req.flush(null);
+    });
+
+    it('debe enviar el cuerpo con el método de ApiEndpoints', () => {
+      service.request('PUT /groups/{id}', { path: { id: 'g1' }, body: { name: 'Soporte' } }).subscribe();
+      service
+        .request('DELETE /groups/{groupId}/employees/{employeeId}', { path: { groupId: 'g1', employeeId: 'e1' } })
+        .subscribe();
+
+      const put = httpMock.expectOne(`${environment.apiUrl}/groups/g1`);
+      expect(put.request.method).toBe('PUT');
+      expect(put.request.body).toEqual({ name: 'Soporte' });
+      put.flush(null);
+      const remove = httpMock.expectOne(`${environment.apiUrl}/groups/g1/employees/e1`);
+      expect(remove.request.method).toBe('DELETE');
+      remove.flush(null);
+    });
+
+    it('debe rechazar en compilación las rutas y cuerpos fuera de ApiEndpoints', () => {
+      // Las peticiones no se envían porque nadie se suscribe
+      // @ts-expect-error la ruta no existe en ApiEndpoints
+      service.request('GET /devices/unknown');
+      // @ts-expect-error falta el parámetro de ruta id
+      service.request('GET /devices/{id}');
+      // @ts-expect-error el cuerpo no corresponde a CreateGroupRq
+      service.request('POST /groups', { body: { title: 'Soporte' } });
+
+      httpMock.expectNone(() => true);
+    });
+  });
 });
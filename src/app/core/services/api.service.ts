@@ -1,7 +1,62 @@
-import { Injectable, inject } from '@angular/core';
+import { Injectable, inject, isDevMode } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
-import { Observable } from 'rxjs';
+import { Observable, OperatorFunction, defer, from, map, switchMap, throwError } from 'rxjs';
 import { environment } from '../../../environments/environment';
+import { NetworkStatusService } from './network-status.service';
+import {
+  OfflineQueueService,
+  OfflineQueuedError,
+  QueuedMutation,
+} from './offline-queue.service';
+import { validateApiResponse } from '../utils/api-schema.utils';
+import { ApiEndpoints } from '../models/api-endpoints.model';
+
+/**
+ * Opciones para modificaciones que pueden guardarse sin conexión
+ */
+export interface OfflineMutationOptions {
+  // Descripción legible del cambio para mostrar en la cola y en los conflictos
+  offlineQueue: string;
+  // Recurso y fecha de última modificación conocida para detectar conflictos al reenviar
+  conflictCheck?: { endpoint: string; updatedAt: string };
+}
+
+/**
+ * Método y ruta de un endpoint de ApiEndpoints, por ejemplo 'GET /devices/{id}'
+ */
+export type ApiRoute = keyof ApiEndpoints;
+
+/**
+ * Cuerpo que recibe un endpoint de ApiEndpoints
+ */
+export type ApiRequestBody<R extends ApiRoute> = ApiEndpoints[R]['request'];
+
+/**
+ * Respuesta de un endpoint de ApiEndpoints
+ */
+export type ApiResponseBody<R extends ApiRoute> = ApiEndpoints[R]['response'];
+
+// Parámetros de una ruta: 'DELETE /groups/{groupId}/employees/{employeeId}' -> 'groupId' | 'employeeId'
+type ApiPathParams<R extends string> = R extends `${string}{${infer Name}}${infer Rest}`
+  ? Name | ApiPathParams<Rest>
+  : never;
+
+/**
+ * Opciones de una petición tipada
+ * Los parámetros de ruta y el cuerpo son obligatorios solo si el endpoint los define
+ */
+export type ApiRequestOptions<R extends ApiRoute> = ([ApiPathParams<R>] extends [never]
+  ? { path?: never }
+  : { path: { [P in ApiPathParams<R>]: string } }) &
+  ([ApiRequestBody<R>] extends [void] ? { body?: never } : { body: ApiRequestBody<R> }) & {
+    params?: HttpParams;
+    offline?: OfflineMutationOptions;
+  };
+
+// Las opciones se pueden omitir si el endpoint no tiene parámetros de ruta ni cuerpo
+type ApiRequestArgs<R extends ApiRoute> = {} extends ApiRequestOptions<R>
+  ? [options?: ApiRequestOptions<R>]
+  : [options: ApiRequestOptions<R>];
 
 /**
  * Servicio para realizar llamadas HTTP al backend
@@ -14,6 +69,8 @@ import { environment } from '../../../environments/environment';
 })
 export class ApiService {
   private http = inject(HttpClient);
+  private networkStatus = inject(NetworkStatusService);
+  private offlineQueue = inject(OfflineQueueService);
   private readonly apiUrl = environment.apiUrl;
 
   /**
@@ -23,6 +80,44 @@ export class ApiService {
     return `${this.apiUrl}${endpoint}`;
   }
 
+  /**
+   * Petición tipada con los endpoints declarados en api-endpoints.model.ts
+   * La ruta, sus parámetros, el cuerpo y la respuesta se comprueban en compilación contra ApiEndpoints
+   * Los endpoints que envían FormData o descargan archivos siguen usando postFormData, putFormData y postBlob
+   * @param route Método y ruta de ApiEndpoints, por ejemplo 'GET /devices/{id}'
+   * @param options Parámetros de ruta, cuerpo, query params y cola offline
+   * @returns Observable con la respuesta del endpoint
+   */
+  request<R extends ApiRoute>(route: R, ...[options]: ApiRequestArgs<R>): Observable<ApiResponseBody<R>> {
+    const { path = {}, body = null, params, offline }: {
+      path?: { [name: string]: string };
+      body?: unknown;
+      params?: HttpParams;
+      offline?: OfflineMutationOptions;
+    } = options ?? {};
+    const [method, template] = route.split(' ');
+    const endpoint = template.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(path[name]));
+
+    let response: Observable<ApiResponseBody<R>>;
+    switch (method) {
+      case 'GET':
+        response = this.get(endpoint, params);
+        break;
+      case 'POST':
+        response = this.post(endpoint, body, offline);
+        break;
+      case 'PUT':
+        response = this.put(endpoint, body, offline);
+        break;
+      case 'PATCH':
+        response = this.patch(endpoint, body, offline);
+        break;
+      default:
+        response = this.delete(endpoint, offline);
+    }
+    return response.pipe(this.validate(route, endpoint));
+  }
+
   /**
    * GET request
    * @param endpoint Endpoint relativo)
@@ -36,35 +131,89 @@ export class ApiService {
    * POST request (JSON)
    * @param endpoint Endpoint relativo
    * @param body Cuerpo de la petición
+   * @param offline Si se indica, sin conexión la petición se guarda en la cola offline
    */
-  post<T>(endpoint: string, body: any): Observable<T> {
-    return this.http.post<T>(this.buildUrl(endpoint), body);
+  post<T>(endpoint: string, body: unknown, offline?: OfflineMutationOptions): Observable<T> {
+    return this.queueIfOffline('POST', endpoint, body, offline) ??
+      this.http.post<T>(this.buildUrl(endpoint), body);
   }
 
   /**
    * PUT request
    * @param endpoint Endpoint relativo
    * @param body Cuerpo de la petición
+   * @param offline Si se indica, sin conexión la petición se guarda en la cola offline
    */
-  put<T>(endpoint: string, body: any): Observable<T> {
-    return this.http.put<T>(this.buildUrl(endpoint), body);
+  put<T>(endpoint: string, body: unknown, offline?: OfflineMutationOptions): Observable<T> {
+    return this.queueIfOffline('PUT', endpoint, body, offline) ??
+      this.http.put<T>(this.buildUrl(endpoint), body);
   }
 
   /**
    * PATCH request
    * @param endpoint Endpoint relativo
    * @param body Cuerpo de la petición
+   * @param offline Si se indica, sin conexión la petición se guarda en la cola offline
    */
-  patch<T>(endpoint: string, body: any): Observable<T> {
-    return this.http.patch<T>(this.buildUrl(endpoint), body);
+  patch<T>(endpoint: string, body: unknown, offline?: OfflineMutationOptions): Observable<T> {
+    return this.queueIfOffline('PATCH', endpoint, body, offline) ??
+      this.http.patch<T>(this.buildUrl(endpoint), body);
   }
 
   /**
    * DELETE request
    * @param endpoint Endpoint relativo
+   * @param offline Si se indica, sin conexión la petición se guarda en la cola offline
+   */
+  delete<T>(endpoint: string, offline?: OfflineMutationOptions): Observable<T> {
+    return this.queueIfOffline('DELETE', endpoint, null, offline) ??
+      this.http.delete<T>(this.buildUrl(endpoint));
+  }
+
+  /**
+   * En desarrollo valida la respuesta contra el esquema de su entidad (ver api-schema.utils)
+   * En producción no se aplica para no agregar costo a cada respuesta
+   * @param route Método y ruta de ApiEndpoints
+   * @param endpoint Endpoint relativo
+   * @returns Operador que entrega la respuesta corregida
+   */
+  private validate<T>(route: ApiRoute, endpoint: string): OperatorFunction<T, T> {
+    return isDevMode()
+      ? map((body: T) => validateApiResponse(route, endpoint, body))
+      : (source) => source;
+  }
+
+  /**
+   * Si no hay conexión y la petición admite cola offline, la guarda en IndexedDB
+   * El Observable devuelto falla con OfflineQueuedError para que el llamador informe al usuario
+   * @returns Observable que falla tras encolar, o null si la petición debe enviarse normalmente
    */
-  delete<T>(endpoint: string): Observable<T> {
-    return this.http.delete<T>(this.buildUrl(endpoint));
+  private queueIfOffline<T>(
+    method: QueuedMutation['method'],
+    endpoint: string,
+    body: unknown,
+    offline?: OfflineMutationOptions,
+  ): Observable<T> | null {
+    if (!offline || this.networkStatus.isOnline) return null;
+
+    const mutation: QueuedMutation = {
+      method,
+      url: this.buildUrl(endpoint),
+      body,
+      description: offline.offlineQueue,
+      createdAt: new Date().toISOString(),
+      ...(offline.conflictCheck
+        ? {
+            conflictCheck: {
+              url: this.buildUrl(offline.conflictCheck.endpoint),
+              updatedAt: offline.conflictCheck.updatedAt,
+            },
+          }
+        : {}),
+    };
+    return defer(() => from(this.offlineQueue.enqueue(mutation))).pipe(
+      switchMap((queued) => throwError(() => new OfflineQueuedError(queued))),
+    );
   }
 
 /**
@@ -89,7 +238,7 @@ export class ApiService {
    * POST con query params y body
    * Útil para endpoints que requieren ambos
    */
-  postWithParams<T>(endpoint: string, body: any, params: HttpParams): Observable<T> {
+  postWithParams<T>(endpoint: string, body: unknown, params: HttpParams): Observable<T> {
     return this.http.post<T>(this.buildUrl(endpoint), body, { params });
   }
 
@@ -108,7 +257,7 @@ export class ApiService {
    * @param endpoint Endpoint relativo
    * @param body Cuerpo de la petición
    */
-  postBlob(endpoint: string, body: any): Observable<Blob> {
+  postBlob(endpoint: string, body: unknown): Observable<Blob> {
     return this.http.post(this.buildUrl(endpoint), body, {
       responseType: 'blob'
     });
@@ -6,6 +6,8 @@ import {
 import { Router } from '@angular/router';
 import { AuthService } from './auth.service';
 import { ApiService } from './api.service';
+import { OfflineQueueService } from './offline-queue.service';
+import { EntityCacheService } from './entity-cache.service';
 import {
   AuthResponse,
   LoginRequest,
@@ -179,6 +181,22 @@ describe('AuthService', () => {
       expect(routerSpy.navigate).toHaveBeenCalledWith(['/auth/login']);
     });
 
+    it('debe borrar la cola offline y los listados guardados del usuario', () => {
+      const clearSpy = spyOn(TestBed.inject(OfflineQueueService), 'clear').and.resolveTo();
+
+      service.logout();
+
+      expect(clearSpy).toHaveBeenCalled();
+    });
+
+    it('debe descartar la caché de entidades del usuario', () => {
+      const clearSpy = spyOn(TestBed.inject(EntityCacheService), 'clear');
+
+      service.logout();
+
+      expect(clearSpy).toHaveBeenCalled();
+    });
+
     it('debe actualizar currentUser$ a null', (done) => {
       localStorage.setItem('auth_token', 'test-token');
 
@@ -7,6 +7,8 @@ import {
   AuthResponse,
 } from '../../modules/public/auth/models/auth.model';
 import { ApiService } from './api.service';
+import { OfflineQueueService } from './offline-queue.service';
+import { EntityCacheService } from './entity-cache.service';
 
 /**
  * Servicio para gestionar autenticación y autorización
@@ -21,6 +23,8 @@ export class AuthService {
   // Inyeecion de servicios
   private apiService = inject(ApiService);
   private router = inject(Router);
+  private offlineQueue = inject(OfflineQueueService);
+  private entityCache = inject(EntityCacheService);
 
   // contiene las claves para almacenar los datos de autenticación en localStorage
   private readonly TOKEN_KEY = 'auth_token';
@@ -43,13 +47,18 @@ export class AuthService {
    */
   public currentUser$ = this.currentUserSubject.asObservable();
 
+  constructor() {
+    // La cola offline solo reenvía los cambios del usuario con sesión
+    this.currentUser$.subscribe((user) => this.offlineQueue.setOwner(user?.email ?? null));
+  }
+
   /**
    * Inicia sesión con las credenciales proporcionadas
    * @param credentials
    * @returns Observable<AuthResponse>
    */
   login(credentials: LoginRequest): Observable<AuthResponse> {
-    return this.apiService.post<AuthResponse>(`/auth/login`, credentials).pipe(
+    return this.apiService.request('POST /auth/login', { body: credentials }).pipe(
       tap((response) => {
         this.saveAuthData(response);
         this.currentUserSubject.next(response.user);
@@ -63,7 +72,7 @@ export class AuthService {
    * @returns Observable<AuthResponse>
    */
   register(userData: RegisterRequest): Observable<AuthResponse> {
-    return this.apiService.post<AuthResponse>(`/auth/register`, userData).pipe(
+    return this.apiService.request('POST /auth/register', { body: userData }).pipe(
       tap((response) => {
         this.saveAuthData(response);
         this.currentUserSubject.next(response.user);
@@ -77,6 +86,9 @@ export class AuthService {
    */
   logout(): void {
     this.clearAuthData();
+    // Los cambios pendientes y los listados guardados sin conexión pertenecen a este usuario
+    this.offlineQueue.clear();
+    this.entityCache.clear();
     this.currentUserSubject.next(null);
     this.router.navigate(['/auth/login']);
   }
@@ -199,9 +211,7 @@ export class AuthService {
     // console.log('🔄 Solicitando nuevo token...');
 
     return this.apiService
-      .post<AuthResponse>(`/auth/refresh`, {
-        refreshToken,
-      })
+      .request('POST /auth/refresh', { body: { refreshToken } })
       .pipe(
         tap((response) => {
           // console.log('✅ Refresh token exitoso');
@@ -212,6 +222,7 @@ export class AuthService {
           console.error('❌ Error en refresh token:', error);
           // Si falla el refresh, limpiar datos y hacer logout
           this.clearAuthData();
+          this.entityCache.clear();
           this.currentUserSubject.next(null);
           return throwError(() => error);
         }),
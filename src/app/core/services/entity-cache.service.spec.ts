@@ -0,0 +1,95 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { Subject, of } from 'rxjs';
+
+import { EntityCacheService } from './entity-cache.service';
+
+describe('EntityCacheService', () => {
+  let service: EntityCacheService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    service = TestBed.inject(EntityCacheService);
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date('2026-10-19T10:00:00Z'));
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  it('debe entregar el valor guardado sin consultar mientras no venza el TTL', () => {
+    const request = jasmine.createSpy('request').and.returnValue(of([{ id: '1' }]));
+
+    service.get('employees', 'all', request).subscribe();
+    let result: unknown;
+    service.get('employees', 'all', request).subscribe((value) => (result = value));
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(result).toEqual([{ id: '1' }]);
+  });
+
+  it('debe compartir la consulta en curso entre llamadas simultáneas', () => {
+    const response$ = new Subject<string[]>();
+    const request = jasmine.createSpy('request').and.returnValue(response$);
+    const received: string[][] = [];
+
+    service.get('groups', 'all', () => request()).subscribe((value) => received.push(value as string[]));
+    service.get('groups', 'all', () => request()).subscribe((value) => received.push(value as string[]));
+    response$.next(['g1']);
+    response$.complete();
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(received).toEqual([['g1'], ['g1']]);
+  });
+
+  it('debe entregar el valor vencido y luego el actualizado (stale-while-revalidate)', () => {
+    service.get('devices', 'all', () => of(['viejo'])).subscribe();
+    jasmine.clock().tick(31_000);
+
+    const received: string[][] = [];
+    service.get('devices', 'all', () => of(['nuevo'])).subscribe((value) => received.push(value));
+
+    expect(received).toEqual([['viejo'], ['nuevo']]);
+  });
+
+  it('debe consultar de nuevo tras invalidar la entidad', () => {
+    const request = jasmine.createSpy('request').and.returnValue(of([]));
+
+    service.get('orders', 'all', request).subscribe();
+    service.invalidate('orders');
+    service.get('orders', 'all', request).subscribe();
+
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('no debe guardar el resultado de una consulta que termina después de invalidar', () => {
+    const response$ = new Subject<string[]>();
+    const request = jasmine.createSpy('request').and.returnValues(response$, of(['nuevo']));
+
+    service.get('orders', 'all', request).subscribe();
+    service.invalidate('orders');
+    response$.next(['viejo']);
+    response$.complete();
+
+    let result: unknown;
+    service.get('orders', 'all', request).subscribe((value) => (result = value));
+
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(result).toEqual(['nuevo']);
+  });
+
+  it('debe entregar copias para que los cambios del componente no alteren la caché', () => {
+    service.get('employees', '1', () => of({ id: '1', name: 'Ana' })).subscribe((employee) => {
+      employee.name = 'Modificado';
+    });
+
+    let result: { name: string } | undefined;
+    service.get('employees', '1', () => of({ id: '1', name: 'Otro' })).subscribe((value) => (result = value));
+
+    expect(result?.name).toBe('Ana');
+  });
+});
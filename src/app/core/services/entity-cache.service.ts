@@ -0,0 +1,161 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  Observable,
+  catchError,
+  concat,
+  defer,
+  distinctUntilChanged,
+  finalize,
+  of,
+  shareReplay,
+  tap,
+} from 'rxjs';
+import { OfflineQueueService } from './offline-queue.service';
+
+/**
+ * Entidades con caché compartida
+ */
+export type CacheEntity = 'devices' | 'orders' | 'employees' | 'groups';
+
+/**
+ * Tiempos de la caché de una entidad en milisegundos
+ */
+export interface CachePolicy {
+  // Tiempo en que un valor se entrega sin consultar al backend
+  ttl: number;
+  // Tiempo adicional en que un valor vencido se entrega mientras se consulta de nuevo (stale-while-revalidate)
+  staleWhileRevalidate: number;
+}
+
+interface CacheEntry<T> {
+  value?: T;
+  storedAt: number;
+  // Consulta en curso compartida por las llamadas simultáneas
+  pending?: Observable<T>;
+}
+
+/**
+ * Caché en memoria de los listados y detalles de las entidades
+ * Los servicios de cada módulo leen a través de get() y llaman invalidate() tras crear, actualizar o eliminar
+ * Los valores vencidos dentro de la ventana stale-while-revalidate se entregan al instante y, si el backend
+ * devuelve algo distinto, se emite también el valor actualizado
+ * Se entregan copias para que los componentes puedan modificar los registros sin alterar la caché
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class EntityCacheService {
+  private offlineQueue = inject(OfflineQueueService);
+
+  // Los dispositivos y órdenes cambian de estado con frecuencia; empleados y grupos casi no cambian
+  private readonly POLICIES: { [key in CacheEntity]: CachePolicy } = {
+    devices: { ttl: 30_000, staleWhileRevalidate: 5 * 60_000 },
+    orders: { ttl: 30_000, staleWhileRevalidate: 5 * 60_000 },
+    employees: { ttl: 5 * 60_000, staleWhileRevalidate: 30 * 60_000 },
+    groups: { ttl: 5 * 60_000, staleWhileRevalidate: 30 * 60_000 },
+  };
+
+  private entries = new Map<CacheEntity, Map<string, CacheEntry<unknown>>>();
+
+  constructor() {
+    // Los cambios hechos sin conexión ya se aplicaron en el backend: todo lo guardado puede estar desactualizado
+    this.offlineQueue.synced$.subscribe(() => this.clear());
+  }
+
+  /**
+   * Obtiene un valor de la caché o lo consulta al backend
+   * @param entity Entidad del valor
+   * @param key Clave dentro de la entidad (por ejemplo, 'all' o el ID)
+   * @param request Consulta al backend
+   * @returns Observable con el valor (y el valor actualizado si el guardado estaba vencido y cambió)
+   */
+  get<T>(entity: CacheEntity, key: string, request: () => Observable<T>): Observable<T> {
+    return defer(() => {
+      const policy = this.POLICIES[entity];
+      const entry = this.getEntries(entity).get(key) as CacheEntry<T> | undefined;
+      const age = entry ? Date.now() - entry.storedAt : Infinity;
+
+      if (entry && entry.value !== undefined && age < policy.ttl) {
+        return of(structuredClone(entry.value));
+      }
+
+      if (entry && entry.value !== undefined && age < policy.ttl + policy.staleWhileRevalidate) {
+        const stale = structuredClone(entry.value);
+        return concat(
+          of(stale),
+          this.fetch(entity, key, request).pipe(catchError(() => of(stale))),
+        ).pipe(distinctUntilChanged((a, b) => JSON.stringify(a) === JSON.stringify(b)));
+      }
+
+      return this.fetch(entity, key, request);
+    });
+  }
+
+  /**
+   * Descarta los valores guardados de una entidad
+   * @param entity Entidad a invalidar
+   * @param key Clave concreta (opcional); sin ella se descarta toda la entidad
+   * @returns void
+   */
+  invalidate(entity: CacheEntity, key?: string): void {
+    if (key === undefined) {
+      this.entries.delete(entity);
+    } else {
+      this.entries.get(entity)?.delete(key);
+    }
+  }
+
+  /**
+   * Descarta todos los valores guardados
+   * @returns void
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Consulta al backend compartiendo la petición en curso y guarda el resultado
+   * @param entity Entidad del valor
+   * @param key Clave dentro de la entidad
+   * @param request Consulta al backend
+   * @returns Observable con el valor consultado
+   */
+  private fetch<T>(entity: CacheEntity, key: string, request: () => Observable<T>): Observable<T> {
+    const entries = this.getEntries(entity);
+    const current = entries.get(key) as CacheEntry<T> | undefined;
+    if (current?.pending) return current.pending;
+
+    const pending = request().pipe(
+      tap((value) => {
+        // Si la entidad se invalidó mientras la consulta estaba en curso, el resultado no se guarda
+        if (this.entries.get(entity) === entries) {
+          entries.set(key, { value: structuredClone(value), storedAt: Date.now() });
+        }
+      }),
+      finalize(() => {
+        const entry = entries.get(key);
+        if (entry?.pending === pending) delete entry.pending;
+      }),
+      shareReplay({ bufferSize: 1, refCount: true }),
+    );
+    entries.set(key, { ...current, storedAt: current?.storedAt ?? 0, pending });
+    return pending;
+  }
+
+  /**
+   * Obtiene (o crea) el mapa de valores de una entidad
+   * @param entity Entidad
+   * @returns Map con los valores por clave
+   */
+  private getEntries(entity: CacheEntity): Map<string, CacheEntry<unknown>> {
+    let entries = this.entries.get(entity);
+    if (!entries) {
+      entries = new Map();
+      this.entries.set(entity, entries);
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,44 @@
+import { TestBed } from '@angular/core/testing';
+
+import { LanguageService } from './language.service';
+import { translate } from '../utils/i18n.utils';
+
+describe('LanguageService', () => {
+  let service: LanguageService;
+
+  beforeEach(() => {
+    localStorage.removeItem('language');
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(LanguageService);
+  });
+
+  afterEach(() => {
+    service.changeLanguage('es');
+    localStorage.removeItem('language');
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should persist the language and translate with plurals', () => {
+    service.changeLanguage('en');
+
+    expect(localStorage.getItem('language')).toBe('en');
+    expect(translate('dashboard.alerts.needsRepair', { count: 1 })).toBe(
+      '1 device needs attention',
+    );
+    expect(translate('dashboard.alerts.needsRepair', { count: 3 })).toBe(
+      '3 devices need attention',
+    );
+
+    service.changeLanguage('es');
+    expect(translate('dashboard.alerts.needsRepair', { count: 3 })).toBe(
+      '3 dispositivos requieren atención',
+    );
+  });
+
+  it('should return the key when it has no translation', () => {
+    expect(translate('missing.key')).toBe('missing.key');
+  });
+});
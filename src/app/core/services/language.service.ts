@@ -0,0 +1,69 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { Language } from '../i18n/i18n.model';
+import {
+  DEFAULT_LANGUAGE,
+  isSupportedLanguage,
+  setLanguage,
+} from '../utils/i18n.utils';
+
+/**
+ * Servicio para gestionar el idioma de la aplicación
+ * Aplica el idioma guardado (o el del navegador) al iniciar y persiste la elección del usuario
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class LanguageService {
+  private readonly LANGUAGE_KEY = 'language';
+
+  private currentLanguageSubject = new BehaviorSubject<Language>(DEFAULT_LANGUAGE);
+  public currentLanguage$ = this.currentLanguageSubject.asObservable();
+
+  constructor() {
+    this.applyLanguage(this.getSavedLanguage());
+  }
+
+  /**
+   * Obtener el idioma guardado en localStorage o, si no hay, el del navegador cuando está soportado
+   * @return Language
+   */
+  private getSavedLanguage(): Language {
+    const saved = localStorage.getItem(this.LANGUAGE_KEY);
+    if (isSupportedLanguage(saved)) return saved;
+    const browser = navigator.language?.slice(0, 2);
+    return isSupportedLanguage(browser) ? browser : DEFAULT_LANGUAGE;
+  }
+
+  /**
+   * Cambiar y aplicar el idioma seleccionado por el usuario
+   * @param language - El idioma a aplicar ('es' o 'en')
+   * @return void
+   */
+  changeLanguage(language: Language): void {
+    this.applyLanguage(language);
+    localStorage.setItem(this.LANGUAGE_KEY, language);
+  }
+
+  /**
+   * Aplicar idioma a las traducciones y al documento
+   * @param language - El idioma a aplicar
+   * @return void
+   */
+  private applyLanguage(language: Language): void {
+    setLanguage(language);
+    document.documentElement.setAttribute('lang', language);
+    this.currentLanguageSubject.next(language);
+  }
+
+  /**
+   * Obtener idioma actual
+   * @return Language
+   */
+  getCurrentLanguage(): Language {
+    return this.currentLanguageSubject.value;
+  }
+}
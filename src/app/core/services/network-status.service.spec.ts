@@ -0,0 +1,24 @@
+import { TestBed } from '@angular/core/testing';
+
+import { NetworkStatusService } from './network-status.service';
+
+describe('NetworkStatusService', () => {
+  let service: NetworkStatusService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(NetworkStatusService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should follow the window online/offline events', () => {
+    window.dispatchEvent(new Event('offline'));
+    expect(service.isOnline).toBeFalse();
+
+    window.dispatchEvent(new Event('online'));
+    expect(service.isOnline).toBeTrue();
+  });
+});
@@ -0,0 +1,34 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, distinctUntilChanged } from 'rxjs';
+
+/**
+ * Servicio que expone el estado de conexión del navegador
+ * Escucha los eventos online/offline de window para que la UI y la cola offline reaccionen
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class NetworkStatusService {
+  private onlineSubject = new BehaviorSubject<boolean>(navigator.onLine);
+
+  // Observable con el estado de conexión actual
+  public online$ = this.onlineSubject
+    .asObservable()
+    .pipe(distinctUntilChanged());
+
+  constructor() {
+    window.addEventListener('online', () => this.onlineSubject.next(true));
+    window.addEventListener('offline', () => this.onlineSubject.next(false));
+  }
+
+  /**
+   * Indica si el navegador tiene conexión en este momento
+   * @returns boolean
+   */
+  get isOnline(): boolean {
+    return this.onlineSubject.value;
+  }
+}
@@ -0,0 +1,59 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+
+import {
+  OfflineQueueService,
+  OfflineQueuedError,
+  QueuedMutation,
+} from './offline-queue.service';
+
+describe('OfflineQueueService', () => {
+  let service: OfflineQueueService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    service = TestBed.inject(OfflineQueueService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should expose the queued mutation in OfflineQueuedError', () => {
+    const mutation: QueuedMutation = {
+      id: 1,
+      method: 'POST',
+      url: '/api/orders',
+      body: {},
+      description: 'Crear orden',
+      createdAt: new Date().toISOString(),
+    };
+    const error = new OfflineQueuedError(mutation);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.mutation).toBe(mutation);
+  });
+
+  it('debe borrar los listados del service worker al limpiar la cola', async () => {
+    spyOn(caches, 'keys').and.resolveTo([
+      'ngsw:/:1:data:dynamic:api-lists:cache',
+      'ngsw:/:1:assets:app:cache',
+    ]);
+    const deleteSpy = spyOn(caches, 'delete').and.resolveTo(true);
+
+    await service.clear();
+
+    expect(deleteSpy).toHaveBeenCalledOnceWith('ngsw:/:1:data:dynamic:api-lists:cache');
+  });
+
+  it('no debe reenviar cambios sin un usuario con sesión', async () => {
+    const getAllSpy = spyOn(IDBObjectStore.prototype, 'getAll').and.callThrough();
+
+    await service.replay();
+
+    expect(getAllSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,329 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient, HttpContext, HttpErrorResponse } from '@angular/common/http';
+import { BehaviorSubject, Subject, filter, firstValueFrom } from 'rxjs';
+import { toast } from 'ngx-sonner';
+import { NetworkStatusService } from './network-status.service';
+import { SKIP_ERROR_TOAST } from '../utils/api-error.utils';
+
+/**
+ * Petición de modificación guardada mientras no hay conexión
+ */
+export interface QueuedMutation {
+  id?: number;
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  url: string;
+  body: unknown;
+  description: string;
+  createdAt: string;
+  // Recurso a consultar antes de reenviar para detectar cambios hechos por otros usuarios
+  conflictCheck?: { url: string; updatedAt: string };
+  // Usuario que hizo el cambio; solo se reenvía con su sesión
+  owner?: string | null;
+}
+
+/**
+ * Modificación que no pudo aplicarse al reenviarla
+ */
+export interface MutationConflict {
+  id?: number;
+  mutation: QueuedMutation;
+  reason: string;
+  detectedAt: string;
+}
+
+/**
+ * Error que indica que la petición no se envió y quedó en la cola offline
+ * Los componentes lo usan para informar al usuario en lugar de mostrar un error
+ */
+export class OfflineQueuedError extends Error {
+  constructor(public readonly mutation: QueuedMutation) {
+    super('Sin conexión: el cambio se guardó y se enviará al recuperar la conexión');
+    this.name = 'OfflineQueuedError';
+  }
+}
+
+/**
+ * Servicio que guarda en IndexedDB las modificaciones hechas sin conexión y las reenvía al volver la red
+ * Las peticiones rechazadas por el backend o modificadas por otro usuario se reportan como conflictos
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class OfflineQueueService {
+  // Injected services
+  private http = inject(HttpClient);
+  private networkStatus = inject(NetworkStatusService);
+
+  // Configuración de la base de datos
+  private readonly DB_NAME = 'infragest-offline';
+  private readonly DB_VERSION = 1;
+  private readonly QUEUE_STORE = 'mutations';
+  private readonly CONFLICT_STORE = 'conflicts';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  // Grupo de datos del service worker con los listados (ver ngsw-config.json)
+  private readonly SW_DATA_GROUP = 'api-lists';
+
+  // Usuario de la sesión actual; sin sesión no se reenvía nada
+  private owner: string | null = null;
+
+  // Estado de la cola para la UI
+  private pendingSubject = new BehaviorSubject<number>(0);
+  public pending$ = this.pendingSubject.asObservable();
+  private conflictsSubject = new BehaviorSubject<MutationConflict[]>([]);
+  public conflicts$ = this.conflictsSubject.asObservable();
+  private syncingSubject = new BehaviorSubject<boolean>(false);
+  public syncing$ = this.syncingSubject.asObservable();
+
+  // Emite cuando termina un reenvío que aplicó al menos un cambio
+  private syncedSubject = new Subject<number>();
+  public synced$ = this.syncedSubject.asObservable();
+
+  constructor() {
+    this.refreshState();
+    this.networkStatus.online$
+      .pipe(filter((online) => online))
+      .subscribe(() => this.replay());
+  }
+
+  /**
+   * Guarda una modificación en la cola
+   * @param mutation Petición a guardar
+   * @returns Promise con la petición guardada (incluye su id)
+   */
+  async enqueue(mutation: QueuedMutation): Promise<QueuedMutation> {
+    const owned: QueuedMutation = { ...mutation, owner: this.owner };
+    const id = await this.request<IDBValidKey>(this.QUEUE_STORE, 'readwrite', (store) =>
+      store.add(owned),
+    );
+    this.pendingSubject.next(this.pendingSubject.value + 1);
+    return { ...owned, id: id as number };
+  }
+
+  /**
+   * Indica el usuario de la sesión actual y reenvía sus cambios pendientes
+   * @param owner Identificador del usuario (correo) o null si no hay sesión
+   * @returns void
+   */
+  setOwner(owner: string | null): void {
+    this.owner = owner;
+    if (owner) this.replay();
+  }
+
+  /**
+   * Borra la cola, los conflictos y los listados guardados por el service worker
+   * Se llama al cerrar sesión para que el siguiente usuario no vea ni reenvíe datos del anterior
+   * @returns Promise<void>
+   */
+  async clear(): Promise<void> {
+    this.owner = null;
+    try {
+      await Promise.all([
+        this.request(this.QUEUE_STORE, 'readwrite', (store) => store.clear()),
+        this.request(this.CONFLICT_STORE, 'readwrite', (store) => store.clear()),
+      ]);
+    } catch {
+      // Sin IndexedDB no hay nada guardado
+    }
+    if (typeof caches !== 'undefined') {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter((name) => name.includes(`:${this.SW_DATA_GROUP}:`))
+          .map((name) => caches.delete(name)),
+      );
+    }
+    await this.refreshState();
+  }
+
+  /**
+   * Reenvía en orden las modificaciones pendientes del usuario de la sesión
+   * Se detiene si se pierde la conexión o el backend no responde, para reintentar más tarde
+   * @returns Promise<void>
+   */
+  async replay(): Promise<void> {
+    if (this.syncingSubject.value || !this.networkStatus.isOnline || !this.owner) return;
+    this.syncingSubject.next(true);
+
+    let applied = 0;
+    let conflicts = 0;
+    try {
+      const mutations = await this.getAll<QueuedMutation>(this.QUEUE_STORE);
+      for (const mutation of mutations) {
+        // Los cambios de otro usuario se descartan sin enviarse
+        const outcome = mutation.owner === this.owner ? await this.send(mutation) : 'dropped';
+        if (outcome === 'retry') break;
+        if (outcome === 'conflict') conflicts++;
+        else if (outcome === 'applied') applied++;
+        await this.request(this.QUEUE_STORE, 'readwrite', (store) =>
+          store.delete(mutation.id!),
+        );
+      }
+    } finally {
+      this.syncingSubject.next(false);
+      await this.refreshState();
+    }
+
+    if (applied) {
+      toast.success(
+        `${applied} ${applied === 1 ? 'cambio sincronizado' : 'cambios sincronizados'}`,
+      );
+      this.syncedSubject.next(applied);
+    }
+    if (conflicts) {
+      toast.warning(
+        `${conflicts} ${conflicts === 1 ? 'cambio no se pudo aplicar' : 'cambios no se pudieron aplicar'}`,
+        { description: 'Revisa los conflictos en el indicador de conexión' },
+      );
+    }
+  }
+
+  /**
+   * Elimina un conflicto ya revisado
+   * @param conflict Conflicto a descartar
+   * @returns Promise<void>
+   */
+  async dismissConflict(conflict: MutationConflict): Promise<void> {
+    await this.request(this.CONFLICT_STORE, 'readwrite', (store) =>
+      store.delete(conflict.id!),
+    );
+    await this.refreshState();
+  }
+
+  /**
+   * Envía una modificación y clasifica el resultado
+   * Errores de red o del servidor (0, 5xx) y sesión expirada (401) se reintentan más tarde;
+   * el resto de errores y los cambios concurrentes se registran como conflicto
+   * @param mutation Modificación a enviar
+   * @returns Promise con el resultado del envío
+   */
+  private async send(
+    mutation: QueuedMutation,
+  ): Promise<'applied' | 'conflict' | 'retry'> {
+    // Los rechazos se muestran como conflictos en el layout, no como toast
+    const context = new HttpContext().set(SKIP_ERROR_TOAST, true);
+    try {
+      if (mutation.conflictCheck) {
+        const current = await firstValueFrom(
+          this.http.get<{ updatedAt?: string }>(mutation.conflictCheck.url, { context }),
+        );
+        if (
+          current?.updatedAt &&
+          current.updatedAt !== mutation.conflictCheck.updatedAt
+        ) {
+          await this.addConflict(
+            mutation,
+            'El registro fue modificado por otro usuario mientras estabas sin conexión',
+          );
+          return 'conflict';
+        }
+      }
+
+      await firstValueFrom(
+        this.http.request(mutation.method, mutation.url, { body: mutation.body, context }),
+      );
+      return 'applied';
+    } catch (err) {
+      const status = err instanceof HttpErrorResponse ? err.status : 0;
+      if (status === 0 || status === 401 || status >= 500) return 'retry';
+      await this.addConflict(
+        mutation,
+        (err as HttpErrorResponse).error?.message ||
+          `El servidor rechazó el cambio (${status})`,
+      );
+      return 'conflict';
+    }
+  }
+
+  /**
+   * Registra un conflicto en IndexedDB
+   * @param mutation Modificación que no se pudo aplicar
+   * @param reason Motivo del conflicto
+   * @returns Promise<void>
+   */
+  private async addConflict(mutation: QueuedMutation, reason: string): Promise<void> {
+    const conflict: MutationConflict = {
+      mutation,
+      reason,
+      detectedAt: new Date().toISOString(),
+    };
+    await this.request(this.CONFLICT_STORE, 'readwrite', (store) =>
+      store.add(conflict),
+    );
+  }
+
+  /**
+   * Actualiza el número de pendientes y la lista de conflictos desde IndexedDB
+   * @returns Promise<void>
+   */
+  private async refreshState(): Promise<void> {
+    try {
+      const [pending, conflicts] = await Promise.all([
+        this.request<number>(this.QUEUE_STORE, 'readonly', (store) => store.count()),
+        this.getAll<MutationConflict>(this.CONFLICT_STORE),
+      ]);
+      this.pendingSubject.next(pending);
+      this.conflictsSubject.next(conflicts);
+    } catch {
+      // Sin IndexedDB (modo privado o navegador antiguo): la cola queda vacía
+    }
+  }
+
+  /**
+   * Obtiene todos los registros de un almacén en orden de inserción
+   * @param storeName Nombre del almacén
+   * @returns Promise con los registros
+   */
+  private getAll<T>(storeName: string): Promise<T[]> {
+    return this.request<T[]>(storeName, 'readonly', (store) => store.getAll());
+  }
+
+  /**
+   * Ejecuta una operación sobre un almacén y resuelve con su resultado
+   * @param storeName Nombre del almacén
+   * @param mode Modo de la transacción
+   * @param operation Operación a ejecutar
+   * @returns Promise con el resultado de la operación
+   */
+  private async request<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest,
+  ): Promise<T> {
+    const db = await this.openDb();
+    return new Promise<T>((resolve, reject) => {
+      const req = operation(db.transaction(storeName, mode).objectStore(storeName));
+      req.onsuccess = () => resolve(req.result as T);
+      req.onerror = () => reject(req.error);
+    });
+  }
+
+  /**
+   * Abre (o crea) la base de datos de la cola offline
+   * @returns Promise con la conexión
+   */
+  private openDb(): Promise<IDBDatabase> {
+    this.dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(this.QUEUE_STORE, {
+          keyPath: 'id',
+          autoIncrement: true,
+        });
+        req.result.createObjectStore(this.CONFLICT_STORE, {
+          keyPath: 'id',
+          autoIncrement: true,
+        });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        this.dbPromise = null;
+        reject(req.error);
+      };
+    });
+    return this.dbPromise;
+  }
+}
@@ -0,0 +1,108 @@
+import { TestBed } from '@angular/core/testing';
+import { BehaviorSubject } from 'rxjs';
+
+import { PermissionService } from './permission.service';
+import { AuthService } from './auth.service';
+import { User } from '../../modules/public/auth/models/user.model';
+import {
+  DEFAULT_USER_ROLE,
+  Permission,
+  UserRole,
+} from '../../modules/public/auth/models/role.model';
+
+describe('PermissionService', () => {
+  let service: PermissionService;
+  let currentUser$: BehaviorSubject<User | null>;
+
+  const login = (role?: string) => currentUser$.next({ email: 'test@infragest.dev', role });
+
+  beforeEach(() => {
+    currentUser$ = new BehaviorSubject<User | null>(null);
+    TestBed.configureTestingModule({
+      providers: [
+        {
+          provide: AuthService,
+          useValue: { currentUser$, getCurrentUser: () => currentUser$.value },
+        },
+      ],
+    });
+    service = TestBed.inject(PermissionService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('debe normalizar el rol del usuario (mayúsculas, prefijo ROLE_ y alias)', () => {
+    login('role_admin');
+    expect(service.getRole()).toBe(UserRole.ADMIN);
+
+    login('USER');
+    expect(service.getRole()).toBe(UserRole.OPERATOR);
+  });
+
+  it('debe usar el rol por defecto si el usuario no tiene rol o no se reconoce', () => {
+    login(undefined);
+    expect(service.getRole()).toBe(DEFAULT_USER_ROLE);
+
+    login('SUPERHERO');
+    expect(service.getRole()).toBe(DEFAULT_USER_ROLE);
+  });
+
+  it('NO debe asignar rol sin usuario autenticado', () => {
+    expect(service.getRole()).toBeNull();
+    expect(service.hasAnyRole([UserRole.ADMIN, UserRole.OPERATOR, UserRole.AUDITOR])).toBeFalse();
+    expect(service.hasPermission(Permission.DEVICES_CREATE)).toBeFalse();
+  });
+
+  describe('hasAnyRole', () => {
+    it('debe permitir el acceso si la ruta no define roles', () => {
+      expect(service.hasAnyRole()).toBeTrue();
+      expect(service.hasAnyRole([])).toBeTrue();
+    });
+
+    it('debe verificar si el rol del usuario está en la lista', () => {
+      login(UserRole.OPERATOR);
+
+      expect(service.hasAnyRole([UserRole.ADMIN, UserRole.OPERATOR])).toBeTrue();
+      expect(service.hasAnyRole([UserRole.ADMIN])).toBeFalse();
+    });
+  });
+
+  describe('hasPermission', () => {
+    it('debe conceder todos los permisos al administrador', () => {
+      login(UserRole.ADMIN);
+
+      Object.values(Permission).forEach((permission) =>
+        expect(service.hasPermission(permission)).withContext(permission).toBeTrue(),
+      );
+    });
+
+    it('debe permitir operar pero no eliminar al operador', () => {
+      login(UserRole.OPERATOR);
+
+      expect(service.hasPermission(Permission.DEVICES_CREATE)).toBeTrue();
+      expect(service.hasPermission(Permission.ORDERS_CHANGE_STATE)).toBeTrue();
+      expect(service.hasPermission(Permission.DEVICES_DELETE)).toBeFalse();
+      expect(service.hasPermission(Permission.GROUPS_DELETE)).toBeFalse();
+    });
+
+    it('NO debe conceder permisos al auditor ni al usuario sin rol', () => {
+      login(UserRole.AUDITOR);
+      expect(service.hasPermission(Permission.DEVICES_CREATE)).toBeFalse();
+
+      login(undefined);
+      expect(service.hasPermission(Permission.DEVICES_CREATE)).toBeFalse();
+    });
+  });
+
+  it('can$ debe reaccionar a los cambios de usuario', () => {
+    const values: boolean[] = [];
+    service.can$(Permission.ORDERS_CREATE).subscribe((value) => values.push(value));
+
+    login(UserRole.OPERATOR);
+    login(UserRole.AUDITOR);
+
+    expect(values).toEqual([false, true, false]);
+  });
+});
@@ -0,0 +1,86 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, distinctUntilChanged, map } from 'rxjs';
+import { AuthService } from './auth.service';
+import { User } from '../../modules/public/auth/models/user.model';
+import {
+  DEFAULT_USER_ROLE,
+  Permission,
+  RolePermissions,
+  UserRole,
+  normalizeRole,
+} from '../../modules/public/auth/models/role.model';
+
+/**
+ * Servicio para consultar el rol del usuario autenticado y sus permisos
+ * El rol se obtiene del campo `role` del usuario; si falta o no se reconoce se usa DEFAULT_USER_ROLE (solo lectura)
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PermissionService {
+  // Injected services
+  private authService = inject(AuthService);
+
+  /**
+   * Observable con el rol normalizado del usuario autenticado
+   * Emite cada vez que cambia el usuario (login, refresh o logout)
+   */
+  role$: Observable<UserRole | null> = this.authService.currentUser$.pipe(
+    map((user) => this.resolveRole(user)),
+    distinctUntilChanged(),
+  );
+
+  /**
+   * Obtiene el rol normalizado del usuario autenticado
+   * @returns UserRole o null si no hay usuario
+   */
+  getRole(): UserRole | null {
+    return this.resolveRole(this.authService.getCurrentUser());
+  }
+
+  /**
+   * Verifica si el usuario tiene alguno de los roles indicados
+   * Si la lista está vacía o no se define, no hay restricción por rol
+   * @param roles Roles permitidos
+   * @returns true si el usuario tiene alguno de los roles
+   */
+  hasAnyRole(roles?: UserRole[] | null): boolean {
+    if (!roles || roles.length === 0) return true;
+    const role = this.getRole();
+    return !!role && roles.includes(role);
+  }
+
+  /**
+   * Verifica si el usuario tiene un permiso concreto según su rol
+   * @param permission Permiso a verificar
+   * @returns true si el rol del usuario concede el permiso
+   */
+  hasPermission(permission: Permission): boolean {
+    const role = this.getRole();
+    return !!role && RolePermissions[role].includes(permission);
+  }
+
+  /**
+   * Observable que indica si el usuario tiene un permiso, reaccionando a cambios de usuario
+   * @param permission Permiso a verificar
+   * @returns Observable<boolean>
+   */
+  can$(permission: Permission): Observable<boolean> {
+    return this.role$.pipe(
+      map((role) => !!role && RolePermissions[role].includes(permission)),
+    );
+  }
+
+  /**
+   * Rol efectivo de un usuario: su rol normalizado o DEFAULT_USER_ROLE si falta o no se reconoce
+   * @param user Usuario autenticado
+   * @returns UserRole o null si no hay usuario
+   */
+  private resolveRole(user: User | null): UserRole | null {
+    if (!user) return null;
+    return normalizeRole(user.role) ?? DEFAULT_USER_ROLE;
+  }
+}
@@ -0,0 +1,178 @@
+import { TestBed, discardPeriodicTasks, fakeAsync, tick } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import {
+  HttpTestingController,
+  provideHttpClientTesting,
+} from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
+
+import { RealtimeEvent, RealtimeService } from './realtime.service';
+import { EntityCacheService } from './entity-cache.service';
+import { MockRealtimeServer } from '../testing/mock-realtime-server';
+import {
+  Device,
+  DeviceStatus,
+  PaginatedDevicesResponse,
+} from '../../modules/private/devices/models/device.model';
+import { environment } from '../../../environments/environment';
+
+/**
+ * Construye una página de dispositivos como la que devuelve /devices/paginated
+ * @param data Dispositivos de la página
+ * @returns PaginatedDevicesResponse
+ */
+function devicesPage(data: Partial<Device>[]): PaginatedDevicesResponse {
+  return {
+    data: data as Device[],
+    pagination: { page: 1, limit: 50, total: data.length, totalPages: 1, hasNext: false, hasPrev: false },
+  };
+}
+
+describe('RealtimeService', () => {
+  let service: RealtimeService;
+  let server: MockRealtimeServer;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    server = new MockRealtimeServer();
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideRouter([]),
+        server.provide(),
+      ],
+    });
+    service = TestBed.inject(RealtimeService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should connect on subscribe and forward server events', fakeAsync(() => {
+    const received: RealtimeEvent[] = [];
+    const sub = service.events$.subscribe((e) => received.push(e));
+    tick();
+
+    expect(server.clientCount).toBe(1);
+
+    server.emit('ping');
+    server.emit({
+      type: 'DEVICE_STATUS_CHANGED',
+      deviceId: 'd1',
+      status: DeviceStatus.NEEDS_REPAIR,
+    });
+
+    expect(received.length).toBe(1);
+    expect(received[0]).toEqual(
+      jasmine.objectContaining({ deviceId: 'd1', status: DeviceStatus.NEEDS_REPAIR }),
+    );
+
+    sub.unsubscribe();
+    expect(server.clientCount).toBe(0);
+  }));
+
+  it('should poll while the socket is down and reconnect', fakeAsync(() => {
+    const states: string[] = [];
+    service.state$.subscribe((s) => states.push(s));
+    const received: RealtimeEvent[] = [];
+    const sub = service.deviceStatusChanges$.subscribe((e) => received.push(e));
+    tick();
+
+    server.acceptConnections = false;
+    server.drop();
+    tick();
+
+    expect(states[states.length - 1]).toBe('polling');
+    // Solo se consultan los dispositivos modificados recientemente; nadie escucha las órdenes
+    const req = httpMock.expectOne((r) => r.url === `${environment.apiUrl}/devices/paginated`);
+    expect(req.request.params.get('sortBy')).toBe('updatedAt');
+    expect(req.request.params.get('sortOrder')).toBe('desc');
+    req.flush(devicesPage([{ id: 'd1', status: DeviceStatus.FAIR, updatedAt: null }]));
+    httpMock.expectNone(`${environment.apiUrl}/orders`);
+    // La primera consulta solo registra el estado actual
+    expect(received).toEqual([]);
+
+    server.acceptConnections = true;
+    tick(1000);
+    tick();
+
+    expect(server.clientCount).toBe(1);
+    expect(states[states.length - 1]).toBe('live');
+
+    sub.unsubscribe();
+    discardPeriodicTasks();
+  }));
+
+  it('should emit only the records that changed after the first poll', fakeAsync(() => {
+    const received: RealtimeEvent[] = [];
+    const sub = service.deviceStatusChanges$.subscribe((e) => received.push(e));
+    tick();
+    server.acceptConnections = false;
+    server.drop();
+    tick();
+
+    httpMock.expectOne((r) => r.url === `${environment.apiUrl}/devices/paginated`).flush(
+      devicesPage([
+        { id: 'd1', status: DeviceStatus.FAIR, updatedAt: null },
+        { id: 'd2', status: DeviceStatus.GOOD_CONDITION, updatedAt: null },
+      ]),
+    );
+    tick(15000);
+    httpMock.expectOne((r) => r.url === `${environment.apiUrl}/devices/paginated`).flush(
+      devicesPage([
+        { id: 'd1', status: DeviceStatus.NEEDS_REPAIR, updatedAt: null },
+        { id: 'd2', status: DeviceStatus.GOOD_CONDITION, updatedAt: null },
+      ]),
+    );
+
+    expect(received.length).toBe(1);
+    expect(received[0]).toEqual(
+      jasmine.objectContaining({ deviceId: 'd1', status: DeviceStatus.NEEDS_REPAIR }),
+    );
+
+    sub.unsubscribe();
+    discardPeriodicTasks();
+  }));
+
+  it('should poll the full order list only every fourth poll', fakeAsync(() => {
+    const sub = service.orderStateChanges$.subscribe();
+    tick();
+    server.acceptConnections = false;
+    server.drop();
+    tick();
+
+    httpMock.expectOne(`${environment.apiUrl}/orders`).flush([]);
+    for (let i = 1; i < 4; i++) {
+      tick(15000);
+      httpMock.expectNone(`${environment.apiUrl}/orders`);
+    }
+    tick(15000);
+    httpMock.expectOne(`${environment.apiUrl}/orders`).flush([]);
+
+    sub.unsubscribe();
+    discardPeriodicTasks();
+  }));
+
+  it('should invalidate only the cached entries of the changed record', fakeAsync(() => {
+    const cache = TestBed.inject(EntityCacheService);
+    spyOn(cache, 'invalidate');
+    const sub = service.events$.subscribe();
+    tick();
+
+    server.emit({
+      type: 'DEVICE_STATUS_CHANGED',
+      deviceId: 'd1',
+      status: DeviceStatus.NEEDS_REPAIR,
+    });
+
+    expect(cache.invalidate).toHaveBeenCalledWith('devices', 'd1');
+    expect(cache.invalidate).toHaveBeenCalledWith('devices', 'all');
+    expect(cache.invalidate).not.toHaveBeenCalledWith('devices');
+    expect(cache.invalidate).not.toHaveBeenCalledWith('orders', jasmine.anything());
+
+    sub.unsubscribe();
+  }));
+});
@@ -0,0 +1,392 @@
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { HttpClient, HttpContext } from '@angular/common/http';
+import {
+  BehaviorSubject,
+  Observable,
+  Subscription,
+  catchError,
+  defer,
+  exhaustMap,
+  filter,
+  finalize,
+  forkJoin,
+  map,
+  of,
+  share,
+  tap,
+  timer,
+} from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { AuthService } from './auth.service';
+import { EntityCacheService } from './entity-cache.service';
+import { SKIP_LOADING } from '../interceptors/loading.interceptor';
+import { SKIP_RETRY } from '../interceptors/retry.interceptor';
+import { SKIP_ERROR_TOAST } from '../utils/api-error.utils';
+import {
+  Device,
+  DeviceStatus,
+  PaginatedDevicesResponse,
+} from '../../modules/private/devices/models/device.model';
+import {
+  Order,
+  OrderStates,
+} from '../../modules/private/orders/models/Orders';
+
+/**
+ * Cambio de estado de un dispositivo
+ */
+export interface DeviceStatusChangedEvent {
+  type: 'DEVICE_STATUS_CHANGED';
+  deviceId: string;
+  status: DeviceStatus;
+  updatedAt?: string | null;
+}
+
+/**
+ * Cambio de estado de una orden
+ */
+export interface OrderStateChangedEvent {
+  type: 'ORDER_STATE_CHANGED';
+  orderId: string;
+  state: OrderStates;
+  updatedAt?: string | null;
+}
+
+/**
+ * Eventos recibidos por el canal en tiempo real
+ */
+export type RealtimeEvent = DeviceStatusChangedEvent | OrderStateChangedEvent;
+
+/**
+ * Estado del canal: en vivo por socket, con sondeo periódico mientras el socket está caído, o sin suscriptores
+ */
+export type RealtimeConnectionState =
+  | 'connecting'
+  | 'live'
+  | 'polling'
+  | 'disconnected';
+
+/**
+ * Callbacks que el transporte invoca sobre la conexión
+ */
+export interface RealtimeTransportHandlers {
+  onOpen: () => void;
+  onMessage: (data: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Conexión abierta por un transporte
+ */
+export interface RealtimeConnection {
+  close: () => void;
+}
+
+/**
+ * Abre una conexión hacia la URL indicada
+ */
+export type RealtimeTransport = (
+  url: string,
+  handlers: RealtimeTransportHandlers,
+) => RealtimeConnection;
+
+/**
+ * Transporte del navegador: WebSocket para ws(s):// y EventSource (SSE) para http(s)://
+ * @param url URL del canal de eventos
+ * @param handlers Callbacks de la conexión
+ * @returns RealtimeConnection
+ */
+export const browserRealtimeTransport: RealtimeTransport = (url, handlers) => {
+  if (/^wss?:\/\//.test(url)) {
+    const socket = new WebSocket(url);
+    socket.onopen = () => handlers.onOpen();
+    socket.onmessage = (event) => handlers.onMessage(event.data);
+    socket.onclose = () => handlers.onClose();
+    return { close: () => socket.close() };
+  }
+
+  // EventSource reintenta por su cuenta; se cierra para que el servicio controle la reconexión y el sondeo
+  const source = new EventSource(url);
+  source.onopen = () => handlers.onOpen();
+  source.onmessage = (event) => handlers.onMessage(event.data);
+  source.onerror = () => {
+    source.close();
+    handlers.onClose();
+  };
+  return { close: () => source.close() };
+};
+
+/**
+ * Transporte usado por RealtimeService; en pruebas se reemplaza por MockRealtimeServer
+ */
+export const REALTIME_TRANSPORT = new InjectionToken<RealtimeTransport>(
+  'REALTIME_TRANSPORT',
+  { providedIn: 'root', factory: () => browserRealtimeTransport },
+);
+
+/**
+ * Servicio de actualizaciones en tiempo real de dispositivos y órdenes
+ * Mantiene una única conexión mientras haya suscriptores; si el socket se cae,
+ * sondea periódicamente los registros modificados y emite los mismos eventos a partir de las diferencias
+ * hasta que la reconexión tenga éxito
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class RealtimeService {
+  // Injected services
+  private http = inject(HttpClient);
+  private authService = inject(AuthService);
+  private transport = inject(REALTIME_TRANSPORT);
+  private entityCache = inject(EntityCacheService);
+
+  // Esperas entre intentos de reconexión (el último valor se repite)
+  private readonly RECONNECT_DELAYS = [1000, 2000, 5000, 10000, 30000];
+  // Intervalo del sondeo mientras el socket está caído
+  private readonly POLL_INTERVAL = 15000;
+  // Dispositivos modificados más recientes que se consultan en cada sondeo
+  private readonly POLL_DEVICES_LIMIT = 50;
+  // Las órdenes solo tienen listado completo, así que se consultan uno de cada tantos sondeos (cada minuto)
+  private readonly POLL_ORDERS_EVERY = 4;
+
+  // Suscriptores de cada tipo de evento: el sondeo solo consulta lo que alguien está mostrando
+  private watchers = { devices: 0, orders: 0 };
+
+  private stateSubject = new BehaviorSubject<RealtimeConnectionState>(
+    'disconnected',
+  );
+  public state$ = this.stateSubject.asObservable();
+
+  // Último estado conocido por el sondeo para emitir solo los cambios
+  private knownDeviceStatus = new Map<string, DeviceStatus>();
+  private knownOrderState = new Map<string, OrderStates>();
+  // Tipos cuyo estado ya se registró en este periodo de sondeo; la primera consulta solo registra, no emite
+  private seeded = new Set<'devices' | 'orders'>();
+
+  /**
+   * Flujo de eventos compartido: la conexión se abre con el primer suscriptor y se cierra con el último
+   */
+  public events$: Observable<RealtimeEvent> = new Observable<RealtimeEvent>(
+    (subscriber) => {
+      let connection: RealtimeConnection | null = null;
+      let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+      let pollSubscription: Subscription | null = null;
+      let attempt = 0;
+      let closed = false;
+
+      const stopPolling = () => {
+        pollSubscription?.unsubscribe();
+        pollSubscription = null;
+        // Con el socket en vivo el estado registrado queda desactualizado; el próximo sondeo vuelve a registrarlo
+        this.resetBaseline();
+      };
+
+      const startPolling = () => {
+        this.stateSubject.next('polling');
+        if (pollSubscription) return;
+        pollSubscription = timer(0, this.POLL_INTERVAL)
+          .pipe(exhaustMap((tick) => this.poll(tick % this.POLL_ORDERS_EVERY === 0)))
+          .subscribe((events) =>
+            events.forEach((event) => subscriber.next(event)),
+          );
+      };
+
+      const connect = () => {
+        this.stateSubject.next(
+          pollSubscription ? 'polling' : 'connecting',
+        );
+        connection = this.transport(this.buildUrl(), {
+          onOpen: () => {
+            attempt = 0;
+            stopPolling();
+            this.stateSubject.next('live');
+          },
+          onMessage: (data) => {
+            const event = this.parseEvent(data);
+            if (event) subscriber.next(event);
+          },
+          onClose: () => {
+            connection = null;
+            if (closed) return;
+            startPolling();
+            const delay =
+              this.RECONNECT_DELAYS[
+                Math.min(attempt++, this.RECONNECT_DELAYS.length - 1)
+              ];
+            reconnectTimer = setTimeout(connect, delay);
+          },
+        });
+      };
+
+      connect();
+
+      return () => {
+        closed = true;
+        if (reconnectTimer) clearTimeout(reconnectTimer);
+        stopPolling();
+        connection?.close();
+        this.stateSubject.next('disconnected');
+      };
+    },
+  ).pipe(
+    // Un cambio hecho por otro usuario deja desactualizados el detalle del registro y el listado en caché
+    tap((event) => {
+      if (event.type === 'DEVICE_STATUS_CHANGED') {
+        this.entityCache.invalidate('devices', event.deviceId);
+        this.entityCache.invalidate('devices', 'all');
+      } else {
+        this.entityCache.invalidate('orders', event.orderId);
+        this.entityCache.invalidate('orders', 'all');
+      }
+    }),
+    share(),
+  );
+
+  // Cambios de estado de dispositivos
+  public deviceStatusChanges$ = this.watch(
+    'devices',
+    this.events$.pipe(
+      filter((e): e is DeviceStatusChangedEvent => e.type === 'DEVICE_STATUS_CHANGED'),
+    ),
+  );
+
+  // Cambios de estado de órdenes
+  public orderStateChanges$ = this.watch(
+    'orders',
+    this.events$.pipe(
+      filter((e): e is OrderStateChangedEvent => e.type === 'ORDER_STATE_CHANGED'),
+    ),
+  );
+
+  /**
+   * Cuenta los suscriptores de un tipo de evento mientras están suscritos
+   * @param topic Tipo de registro
+   * @param source$ Eventos del tipo
+   * @returns Observable con los mismos eventos
+   */
+  private watch<T>(
+    topic: 'devices' | 'orders',
+    source$: Observable<T>,
+  ): Observable<T> {
+    return defer(() => {
+      this.watchers[topic]++;
+      return source$.pipe(finalize(() => this.watchers[topic]--));
+    });
+  }
+
+  /**
+   * Construye la URL del canal con el token de autenticación
+   * Los navegadores no permiten cabeceras propias en WebSocket ni EventSource, así que el token viaja en la URL:
+   * el backend debe aceptarlo solo en el handshake y excluir la query de sus logs y los del proxy,
+   * y el canal debe usar wss:// o https:// fuera de desarrollo
+   * @returns string
+   */
+  private buildUrl(): string {
+    const token = this.authService.getToken();
+    if (!token) return environment.realtimeUrl;
+    const separator = environment.realtimeUrl.includes('?') ? '&' : '?';
+    return `${environment.realtimeUrl}${separator}token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * Interpreta un mensaje del canal; los mensajes desconocidos o mal formados se ignoran
+   * @param data Mensaje recibido
+   * @returns RealtimeEvent o null
+   */
+  private parseEvent(data: string): RealtimeEvent | null {
+    try {
+      const event = JSON.parse(data);
+      if (event?.type === 'DEVICE_STATUS_CHANGED' && event.deviceId && event.status) {
+        return event as DeviceStatusChangedEvent;
+      }
+      if (event?.type === 'ORDER_STATE_CHANGED' && event.orderId && event.state) {
+        return event as OrderStateChangedEvent;
+      }
+    } catch {
+      // Mensaje no JSON (por ejemplo, un ping del servidor)
+    }
+    return null;
+  }
+
+  /**
+   * Descarta el estado registrado por el sondeo
+   * @returns void
+   */
+  private resetBaseline(): void {
+    this.knownDeviceStatus.clear();
+    this.knownOrderState.clear();
+    this.seeded.clear();
+  }
+
+  /**
+   * Consulta los registros modificados y genera eventos por cada estado distinto al último conocido
+   * - Dispositivos: solo los POLL_DEVICES_LIMIT modificados más recientemente (página ordenada por updatedAt)
+   * - Órdenes: el listado, solo si alguien escucha sus cambios y toca consultarlas (el backend no tiene un
+   *   listado paginado ni filtrado por fecha de órdenes)
+   * La primera consulta de cada tipo solo registra el estado actual sin emitir eventos
+   * @param includeOrders Si en este sondeo se consultan las órdenes
+   * @returns Observable con los eventos detectados
+   */
+  private poll(includeOrders: boolean): Observable<RealtimeEvent[]> {
+    const context = new HttpContext()
+      .set(SKIP_LOADING, true)
+      .set(SKIP_ERROR_TOAST, true)
+      .set(SKIP_RETRY, true);
+    const devices$ = this.watchers.devices
+      ? this.http
+          .get<PaginatedDevicesResponse>(`${environment.apiUrl}/devices/paginated`, {
+            context,
+            params: {
+              page: 1,
+              limit: this.POLL_DEVICES_LIMIT,
+              sortBy: 'updatedAt',
+              sortOrder: 'desc',
+            },
+          })
+          .pipe(map((response) => response.data))
+      : of<Device[]>([]);
+    const fetchOrders =
+      this.watchers.orders > 0 && (includeOrders || !this.seeded.has('orders'));
+    const orders$ = fetchOrders
+      ? this.http.get<Order[]>(`${environment.apiUrl}/orders`, { context })
+      : of<Order[]>([]);
+
+    return forkJoin({ devices: devices$, orders: orders$ }).pipe(
+      map(({ devices, orders }) => {
+        const events: RealtimeEvent[] = [];
+        const notifyDevices = this.seeded.has('devices');
+        const notifyOrders = this.seeded.has('orders');
+        if (this.watchers.devices) this.seeded.add('devices');
+        if (fetchOrders) this.seeded.add('orders');
+
+        devices.forEach((device) => {
+          if (this.knownDeviceStatus.get(device.id) === device.status) return;
+          this.knownDeviceStatus.set(device.id, device.status);
+          if (!notifyDevices) return;
+          events.push({
+            type: 'DEVICE_STATUS_CHANGED',
+            deviceId: device.id,
+            status: device.status,
+            updatedAt: device.updatedAt,
+          });
+        });
+        orders.forEach((order) => {
+          if (this.knownOrderState.get(order.id) === order.state) return;
+          this.knownOrderState.set(order.id, order.state);
+          if (!notifyOrders) return;
+          events.push({
+            type: 'ORDER_STATE_CHANGED',
+            orderId: order.id,
+            state: order.state,
+            updatedAt: order.updatedAt,
+          });
+        });
+        return events;
+      }),
+      catchError(() => of([])),
+    );
+  }
+}
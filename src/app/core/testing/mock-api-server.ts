@@ -0,0 +1,1013 @@
+import {
+  HttpErrorResponse,
+  HttpEvent,
+  HttpHeaders,
+  HttpRequest,
+  HttpResponse,
+} from '@angular/common/http';
+import { Provider } from '@angular/core';
+import { Observable, from, of, switchMap, throwError, timer } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { MOCK_API_SERVER } from '../interceptors/mock-api.interceptor';
+import { MockRealtimeServer } from './mock-realtime-server';
+import { MockDatabase, MockGroup, MockUser, createMockSeed } from './mock-api.seed';
+import {
+  CreateDeviceRq,
+  Device,
+  DeviceAssignment,
+  DeviceFilters,
+  DeviceStatus,
+  DeviceUpdateBatchRq,
+  DevicesBatchRq,
+  RestoreDevicesRq,
+  UpdateDevicesStateRq,
+} from '../../modules/private/devices/models/device.model';
+import {
+  CreateOrderRequest,
+  Order,
+  OrderStateMachine,
+  OrderStates,
+  UpdateOrderRequest,
+} from '../../modules/private/orders/models/Orders';
+import {
+  CreateEmployeeRq,
+  Employee,
+  EmployeesAsignment,
+} from '../../modules/private/employees/models/employe.model';
+import { CreateGroupRq, Group } from '../../modules/private/groups/models/groups.model';
+import { AuthResponse, LoginRequest, RegisterRequest } from '../../modules/public/auth/models/auth.model';
+import { UserRole } from '../../modules/public/auth/models/role.model';
+
+/**
+ * Cabecera para forzar el código de error de una petición (por ejemplo, X-Mock-Status: 500)
+ */
+export const MOCK_STATUS_HEADER = 'X-Mock-Status';
+
+/**
+ * Cabecera para cambiar la latencia de una petición en milisegundos
+ */
+export const MOCK_DELAY_HEADER = 'X-Mock-Delay';
+
+/**
+ * Opciones del backend simulado
+ */
+export interface MockApiServerOptions {
+  // Latencia de cada respuesta en milisegundos (0 responde de forma síncrona)
+  latency?: number;
+  // Proporción de peticiones (0 a 1) que fallan con 503
+  errorRate?: number;
+  // Guarda los datos en localStorage para conservarlos entre recargas
+  persist?: boolean;
+  storageKey?: string;
+  apiUrl?: string;
+}
+
+// Respuesta de una ruta
+interface MockResult {
+  status?: number;
+  body: unknown;
+}
+
+// Datos de la petición que recibe cada ruta
+interface MockContext {
+  req: HttpRequest<unknown>;
+  params: string[];
+  query: (name: string) => string | null;
+  user: MockUser | null;
+  // Cuerpo sin validar: cada ruta lo lee con jsonBody o comprueba si es FormData
+  body: unknown;
+}
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  // Las rutas públicas no requieren token
+  public?: boolean;
+  handler: (ctx: MockContext) => MockResult | Promise<MockResult>;
+}
+
+// Error de negocio que se responde como HttpErrorResponse
+class MockApiError {
+  constructor(
+    readonly status: number,
+    readonly message: string,
+    readonly fieldErrors?: { field: string; message: string }[],
+  ) {}
+}
+
+/**
+ * Lee el cuerpo JSON de una petición con la forma del request indicado
+ * Los campos pueden faltar o tener otro tipo, por eso cada ruta los valida antes de guardarlos
+ */
+function jsonBody<T extends object>(body: unknown): Partial<T> {
+  return body !== null && typeof body === 'object' && !Array.isArray(body) && !(body instanceof FormData)
+    ? (body as Partial<T>)
+    : {};
+}
+
+// Lista de IDs del cuerpo; cualquier otro valor se trata como lista vacía
+function idList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : [];
+}
+
+// Comprueba que el valor pertenece al enum indicado
+function isEnumValue<T extends string>(values: Record<string, T>, value: unknown): value is T {
+  return (Object.values(values) as unknown[]).includes(value);
+}
+
+// Duración de los tokens emitidos en segundos
+const ACCESS_TOKEN_TTL = 60 * 60;
+const REFRESH_TOKEN_TTL = 7 * 24 * 60 * 60;
+
+const STATUS_TEXTS: { [status: number]: string } = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No Content',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  409: 'Conflict',
+  500: 'Internal Server Error',
+  501: 'Not Implemented',
+  503: 'Service Unavailable',
+};
+
+/**
+ * Backend simulado en memoria para pruebas y desarrollo sin el backend real
+ * Implementa los endpoints de /auth, /devices, /devices-assignments, /orders, /employees y /groups
+ * sobre los datos de createMockSeed, con latencia configurable y errores simulados
+ * Los cambios de estado de dispositivos y órdenes se publican en el MockRealtimeServer indicado
+ *
+ * Uso en pruebas:
+ *   const server = new MockApiServer({ latency: 0, persist: false });
+ *   TestBed.configureTestingModule({
+ *     providers: [provideHttpClient(withInterceptors([mockApiInterceptor])), server.provide()],
+ *   });
+ *
+ * Una petición puede forzar un error o una latencia con las cabeceras X-Mock-Status y X-Mock-Delay
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+export class MockApiServer {
+  private readonly latency: number;
+  private readonly errorRate: number;
+  private readonly persist: boolean;
+  private readonly storageKey: string;
+  private readonly apiUrl: string;
+  private readonly routes: MockRoute[];
+  private db: MockDatabase;
+
+  constructor(
+    options: MockApiServerOptions = {},
+    private realtime?: MockRealtimeServer,
+  ) {
+    this.latency = options.latency ?? 0;
+    this.errorRate = options.errorRate ?? 0;
+    this.persist = options.persist ?? false;
+    this.storageKey = options.storageKey ?? 'mock_api_db';
+    this.apiUrl = options.apiUrl ?? environment.apiUrl;
+    this.db = this.load();
+    this.routes = [...this.authRoutes(), ...this.deviceRoutes(), ...this.orderRoutes(), ...this.employeeRoutes(), ...this.groupRoutes()];
+  }
+
+  /**
+   * Provider que registra este servidor para mockApiInterceptor
+   * @returns Provider
+   */
+  provide(): Provider {
+    return { provide: MOCK_API_SERVER, useValue: this };
+  }
+
+  /**
+   * Indica si la URL pertenece a la API simulada
+   * @param url URL de la petición
+   * @returns boolean
+   */
+  handles(url: string): boolean {
+    return url.startsWith(this.apiUrl);
+  }
+
+  /**
+   * Responde una petición a la API
+   * @param req Petición
+   * @returns Observable con la respuesta o un HttpErrorResponse
+   */
+  handle(req: HttpRequest<unknown>): Observable<HttpEvent<unknown>> {
+    const delay = Number(req.headers.get(MOCK_DELAY_HEADER) ?? this.latency);
+    return delay > 0
+      ? timer(delay).pipe(switchMap(() => this.respond(req)))
+      : this.respond(req);
+  }
+
+  /**
+   * Copia de los datos actuales
+   * @returns MockDatabase
+   */
+  snapshot(): MockDatabase {
+    return structuredClone(this.db);
+  }
+
+  /**
+   * Restaura los datos iniciales (y los guarda si la persistencia está activa)
+   * @returns void
+   */
+  reset(): void {
+    this.db = createMockSeed();
+    this.save();
+  }
+
+  /**
+   * Ejecuta la ruta que corresponde a la petición y convierte el resultado en una respuesta HTTP
+   */
+  private respond(req: HttpRequest<unknown>): Observable<HttpEvent<unknown>> {
+    const url = req.url;
+    try {
+      const result = this.route(req);
+      return result instanceof Promise
+        ? from(result.then((value) => this.toResponse(url, value), (error) => Promise.reject(this.toError(url, error))))
+        : of(this.toResponse(url, result));
+    } catch (error) {
+      return throwError(() => this.toError(url, error));
+    }
+  }
+
+  private route(req: HttpRequest<unknown>): MockResult | Promise<MockResult> {
+    const forced = Number(req.headers.get(MOCK_STATUS_HEADER));
+    if (forced >= 400) {
+      throw new MockApiError(forced, `Error simulado (${forced})`);
+    }
+    if (this.errorRate > 0 && Math.random() < this.errorRate) {
+      throw new MockApiError(503, 'Servicio no disponible (error simulado)');
+    }
+
+    const path = req.url.slice(this.apiUrl.length).split('?')[0];
+    for (const route of this.routes) {
+      const match = req.method === route.method && route.pattern.exec(path);
+      if (!match) continue;
+
+      const user = this.authenticate(req);
+      if (!route.public && !user) {
+        throw new MockApiError(401, 'Sesión no válida o expirada');
+      }
+      return route.handler({
+        req,
+        params: match.slice(1).map(decodeURIComponent),
+        query: (name) => req.params.get(name),
+        user,
+        body: req.body,
+      });
+    }
+    throw new MockApiError(404, `Ruta no encontrada: ${req.method} ${path}`);
+  }
+
+  private toResponse(url: string, result: MockResult): HttpResponse<unknown> {
+    const status = result.status ?? 200;
+    return new HttpResponse({ url, status, statusText: STATUS_TEXTS[status] ?? '', body: result.body ?? null });
+  }
+
+  private toError(url: string, error: unknown): HttpErrorResponse {
+    const { status, message, fieldErrors } =
+      error instanceof MockApiError ? error : new MockApiError(500, String(error));
+    return new HttpErrorResponse({
+      url,
+      status,
+      statusText: STATUS_TEXTS[status] ?? 'Error',
+      headers: new HttpHeaders({ 'Content-Type': 'application/json' }),
+      error: { status, message, ...(fieldErrors ? { fieldErrors } : {}) },
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Auth
+  // ---------------------------------------------------------------------------
+
+  private authRoutes(): MockRoute[] {
+    return [
+      {
+        method: 'POST',
+        pattern: /^\/auth\/login$/,
+        public: true,
+        handler: ({ body }) => {
+          const { email, password } = jsonBody<LoginRequest>(body);
+          const user = this.db.users.find(
+            (u) => u.email.toLowerCase() === String(email ?? '').toLowerCase() && u.password === password,
+          );
+          if (!user) throw new MockApiError(401, 'Usuario o contraseña incorrectos');
+          return { body: this.authResponse(user) };
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/auth\/register$/,
+        public: true,
+        handler: ({ body }) => {
+          const request = jsonBody<RegisterRequest>(body);
+          const email = String(request.email ?? '').trim();
+          if (!email || typeof request.password !== 'string' || !request.password) {
+            throw new MockApiError(400, 'Datos de registro incompletos');
+          }
+          if (this.db.users.some((u) => u.email.toLowerCase() === email.toLowerCase())) {
+            throw new MockApiError(409, 'El correo ya está registrado', [
+              { field: 'email', message: 'El correo ya está registrado' },
+            ]);
+          }
+          const user: MockUser = {
+            id: Math.max(0, ...this.db.users.map((u) => u.id ?? 0)) + 1,
+            name: typeof request.name === 'string' ? request.name : undefined,
+            email,
+            role: UserRole.OPERATOR,
+            password: request.password,
+            createdAt: new Date().toISOString(),
+          };
+          this.db.users.push(user);
+          this.save();
+          return { status: 201, body: this.authResponse(user) };
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/auth\/refresh$/,
+        public: true,
+        handler: ({ body }) => {
+          const user = this.verifyToken(jsonBody<{ refreshToken: string }>(body).refreshToken, 'refresh');
+          if (!user) throw new MockApiError(401, 'Sesión no válida o expirada');
+          return { body: this.authResponse(user) };
+        },
+      },
+    ];
+  }
+
+  /**
+   * Tokens con el formato de un JWT (la firma no se valida) para que AuthService lea su expiración
+   */
+  private authResponse(user: MockUser): AuthResponse {
+    const { password, ...publicUser } = user;
+    return {
+      user: publicUser,
+      accessToken: this.createToken(user, 'access', ACCESS_TOKEN_TTL),
+      refreshToken: this.createToken(user, 'refresh', REFRESH_TOKEN_TTL),
+    };
+  }
+
+  private createToken(user: MockUser, type: 'access' | 'refresh', ttl: number): string {
+    const header = btoa(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+    const payload = btoa(
+      JSON.stringify({ sub: user.email, role: user.role, type, exp: Math.floor(Date.now() / 1000) + ttl }),
+    );
+    return `${header}.${payload}.mock`;
+  }
+
+  private verifyToken(token: unknown, type: 'access' | 'refresh'): MockUser | null {
+    if (typeof token !== 'string') return null;
+    try {
+      const payload = JSON.parse(atob(token.split('.')[1]));
+      if (payload.type !== type || payload.exp * 1000 <= Date.now()) return null;
+      return this.db.users.find((u) => u.email === payload.sub) ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  private authenticate(req: HttpRequest<unknown>): MockUser | null {
+    const header = req.headers.get('Authorization') ?? '';
+    return header.startsWith('Bearer ') ? this.verifyToken(header.slice(7), 'access') : null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Dispositivos y asignaciones
+  // ---------------------------------------------------------------------------
+
+  private deviceRoutes(): MockRoute[] {
+    return [
+      { method: 'GET', pattern: /^\/devices$/, handler: () => ({ body: this.db.devices }) },
+      {
+        method: 'GET',
+        pattern: /^\/devices\/paginated$/,
+        handler: ({ query }) => {
+          const page = Math.max(1, Number(query('page')) || 1);
+          const limit = Math.max(1, Number(query('limit')) || 10);
+          const devices = this.sortDevices(
+            this.filterDevices({
+              search: query('search') ?? undefined,
+              status: (query('status') as DeviceStatus) ?? undefined,
+              brand: query('brand') ?? undefined,
+              dateFrom: query('dateFrom') ?? undefined,
+              dateTo: query('dateTo') ?? undefined,
+            }),
+            query('sortBy') as keyof Device | null,
+            query('sortOrder'),
+          );
+          const totalPages = Math.ceil(devices.length / limit);
+          return {
+            body: {
+              data: devices.slice((page - 1) * limit, page * limit),
+              pagination: { page, limit, total: devices.length, totalPages, hasNext: page < totalPages, hasPrev: page > 1 },
+            },
+          };
+        },
+      },
+      {
+        method: 'GET',
+        pattern: /^\/devices\/status\/([^/]+)$/,
+        handler: ({ params }) => ({ body: this.db.devices.filter((d) => d.status === params[0]) }),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/devices\/statuses$/,
+        handler: ({ req }) => {
+          const statuses = (req.params.getAll('statuses') ?? []).flatMap((s) => s.split(','));
+          return { body: this.db.devices.filter((d) => statuses.includes(d.status)) };
+        },
+      },
+      {
+        method: 'GET',
+        pattern: /^\/devices\/barcode\/([^/]+)$/,
+        handler: ({ params }) => ({
+          body: this.findOrFail(this.db.devices.find((d) => d.barcode === params[0]), 'Dispositivo'),
+        }),
+      },
+      { method: 'GET', pattern: /^\/devices\/([^/]+)$/, handler: ({ params }) => ({ body: this.getDevice(params[0]) }) },
+      {
+        method: 'POST',
+        pattern: /^\/devices$/,
+        handler: ({ body }) => ({ status: 201, body: this.createDevice(jsonBody<CreateDeviceRq>(body)) }),
+      },
+      {
+        method: 'PUT',
+        pattern: /^\/devices\/update-batch$/,
+        handler: ({ body }) => {
+          const request = jsonBody<DeviceUpdateBatchRq>(body);
+          return { body: this.updateDevicesStatus(idList(request.deviceIds), request.state) };
+        },
+      },
+      {
+        method: 'PUT',
+        pattern: /^\/devices\/([^/]+)$/,
+        handler: ({ params, body }) => {
+          const device = this.getDevice(params[0]);
+          const request = jsonBody<CreateDeviceRq>(body);
+          this.assertUniqueBarcode(request.barcode, device.id);
+          const previousStatus = device.status;
+          Object.assign(device, this.pick(request, ['name', 'brand', 'barcode', 'status']), {
+            updatedAt: new Date().toISOString(),
+          });
+          this.save();
+          if (device.status !== previousStatus) this.emitDevice(device);
+          return { body: device };
+        },
+      },
+      {
+        method: 'DELETE',
+        pattern: /^\/devices\/([^/]+)$/,
+        handler: ({ params }) => {
+          const device = this.getDevice(params[0]);
+          if (this.activeAssignment(device.id)) {
+            throw new MockApiError(409, 'El dispositivo tiene una asignación activa');
+          }
+          this.db.devices = this.db.devices.filter((d) => d.id !== device.id);
+          this.save();
+          return { status: 204, body: null };
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/devices\/batch$/,
+        handler: ({ body }) => {
+          const ids = idList(jsonBody<DevicesBatchRq>(body).ids);
+          return { body: this.db.devices.filter((d) => ids.includes(d.id)) };
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/devices\/reserve$/,
+        handler: ({ body }) => {
+          const { ids, status, orderId } = jsonBody<UpdateDevicesStateRq>(body);
+          const devices = this.updateDevicesStatus(idList(ids), status);
+          if (typeof orderId === 'string' && orderId) {
+            devices
+              .filter((d) => !this.activeAssignment(d.id))
+              .forEach((d) => this.assign(d.id, orderId));
+            this.save();
+          }
+          return { body: devices };
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/devices\/restore$/,
+        handler: ({ body }) => {
+          const { items } = jsonBody<RestoreDevicesRq>(body);
+          const restored = (Array.isArray(items) ? items : []).flatMap((item) => {
+            const device = this.db.devices.find((d) => d.id === item?.id);
+            if (!device) return [];
+            this.release(device.id);
+            return this.updateDevicesStatus([device.id], item.originalStatus);
+          });
+          return { body: restored };
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/devices\/update-batch$/,
+        handler: ({ body }) => {
+          const request = jsonBody<UpdateDevicesStateRq>(body);
+          return { body: this.updateDevicesStatus(idList(request.ids), request.status) };
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/devices\/batch\/upload$/,
+        handler: ({ body }) => this.uploadDevices(body),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/devices-assignments\/([^/]+)\/history$/,
+        handler: ({ params }) => {
+          const device = this.getDevice(params[0]);
+          const history: DeviceAssignment[] = this.db.assignments
+            .filter((a) => a.deviceId === device.id)
+            .map((a) => ({
+              deviceId: a.deviceId,
+              orderId: a.orderId,
+              deviceName: device.name,
+              deviceStatus: device.status,
+              assignedAt: a.assignedAt,
+              ...(a.releasedAt ? { releasedAt: a.releasedAt } : {}),
+            }));
+          return { body: history };
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/devices-assignments\/devices\/active$/,
+        handler: ({ body }) => ({
+          body: idList(jsonBody<DevicesBatchRq>(body).ids).map((id) => ({
+            deviceId: id,
+            active: !!this.activeAssignment(id),
+          })),
+        }),
+      },
+    ];
+  }
+
+  private getDevice(id: string): Device {
+    return this.findOrFail(this.db.devices.find((d) => d.id === id), 'Dispositivo');
+  }
+
+  private createDevice(request: Partial<CreateDeviceRq>): Device {
+    const fields: (keyof CreateDeviceRq)[] = ['name', 'brand', 'barcode', 'status'];
+    const missing = fields.filter((field) => !String(request[field] ?? '').trim());
+    if (missing.length) {
+      throw new MockApiError(400, 'Datos del dispositivo incompletos', missing.map((field) => ({ field, message: 'Campo obligatorio' })));
+    }
+    if (!isEnumValue(DeviceStatus, request.status)) {
+      throw new MockApiError(400, 'Estado no válido', [{ field: 'status', message: 'Estado no válido' }]);
+    }
+    this.assertUniqueBarcode(request.barcode);
+    const device: Device = {
+      id: crypto.randomUUID(),
+      name: String(request.name).trim(),
+      brand: String(request.brand).trim(),
+      barcode: String(request.barcode).trim(),
+      status: request.status,
+      createdAt: new Date().toISOString(),
+      updatedAt: null,
+    };
+    this.db.devices.push(device);
+    this.save();
+    return device;
+  }
+
+  private assertUniqueBarcode(barcode: unknown, exceptId?: string): void {
+    if (barcode && this.db.devices.some((d) => d.barcode === barcode && d.id !== exceptId)) {
+      throw new MockApiError(409, `Ya existe un dispositivo con el código ${barcode}`, [
+        { field: 'barcode', message: 'El código de barras ya existe' },
+      ]);
+    }
+  }
+
+  private updateDevicesStatus(ids: string[], status: unknown): Device[] {
+    if (!isEnumValue(DeviceStatus, status)) {
+      throw new MockApiError(400, 'Estado no válido');
+    }
+    const now = new Date().toISOString();
+    const devices = this.db.devices.filter((d) => ids.includes(d.id));
+    devices.forEach((device) => {
+      const changed = device.status !== status;
+      device.status = status;
+      device.updatedAt = now;
+      if (changed) this.emitDevice(device);
+    });
+    this.save();
+    return devices;
+  }
+
+  private filterDevices(filters: DeviceFilters = {}): Device[] {
+    const search = filters.search?.trim().toLowerCase();
+    const brand = filters.brand?.trim().toLowerCase();
+    return this.db.devices.filter(
+      (d) =>
+        (!search || [d.name, d.brand, d.barcode].some((value) => value.toLowerCase().includes(search))) &&
+        (!filters.status || filters.status === 'ALL' || d.status === filters.status) &&
+        (!brand || d.brand.toLowerCase().includes(brand)) &&
+        (!filters.dateFrom || d.createdAt.slice(0, 10) >= filters.dateFrom) &&
+        (!filters.dateTo || d.createdAt.slice(0, 10) <= filters.dateTo),
+    );
+  }
+
+  private sortDevices(devices: Device[], sortBy: keyof Device | null, sortOrder: string | null): Device[] {
+    if (!sortBy) return devices;
+    const direction = sortOrder === 'desc' ? -1 : 1;
+    return [...devices].sort((a, b) => direction * String(a[sortBy] ?? '').localeCompare(String(b[sortBy] ?? '')));
+  }
+
+  /**
+   * Crea los dispositivos de un archivo .xlsx con las columnas name, brand, barcode y status
+   * Las filas inválidas o con código repetido se omiten
+   */
+  private async uploadDevices(body: unknown): Promise<MockResult> {
+    const file = body instanceof FormData ? body.get('file') : null;
+    if (!(file instanceof Blob)) throw new MockApiError(400, 'No se recibió el archivo');
+
+    const { Workbook } = await import('exceljs');
+    const workbook = new Workbook();
+    try {
+      await workbook.xlsx.load(await file.arrayBuffer());
+    } catch {
+      throw new MockApiError(400, 'El archivo no es un .xlsx válido');
+    }
+    const sheet = workbook.worksheets[0];
+    if (!sheet) throw new MockApiError(400, 'El archivo no contiene hojas');
+
+    const headers: string[] = [];
+    sheet.getRow(1).eachCell((cell, column) => (headers[column - 1] = cell.text.trim()));
+    const created: Device[] = [];
+    sheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) return;
+      const values = Object.fromEntries(headers.map((header, i) => [header, row.getCell(i + 1).text.trim()]));
+      try {
+        created.push(this.createDevice(jsonBody<CreateDeviceRq>(values)));
+      } catch {
+        // Fila inválida o repetida: se omite, como en el backend
+      }
+    });
+    return { status: 201, body: created };
+  }
+
+  private activeAssignment(deviceId: string) {
+    return this.db.assignments.find((a) => a.deviceId === deviceId && !a.releasedAt);
+  }
+
+  private assign(deviceId: string, orderId: string): void {
+    this.db.assignments.push({ deviceId, orderId, assignedAt: new Date().toISOString(), releasedAt: null });
+  }
+
+  private release(deviceId: string): void {
+    const now = new Date().toISOString();
+    this.db.assignments
+      .filter((a) => a.deviceId === deviceId && !a.releasedAt)
+      .forEach((a) => (a.releasedAt = now));
+  }
+
+  private emitDevice(device: Device): void {
+    this.realtime?.emit({
+      type: 'DEVICE_STATUS_CHANGED',
+      deviceId: device.id,
+      status: device.status,
+      updatedAt: device.updatedAt,
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Órdenes
+  // ---------------------------------------------------------------------------
+
+  private orderRoutes(): MockRoute[] {
+    return [
+      { method: 'GET', pattern: /^\/orders$/, handler: () => ({ body: this.db.orders }) },
+      { method: 'GET', pattern: /^\/orders\/([^/]+)$/, handler: ({ params }) => ({ body: this.getOrder(params[0]) }) },
+      {
+        method: 'POST',
+        pattern: /^\/orders$/,
+        handler: ({ body }) => {
+          const request = jsonBody<CreateOrderRequest>(body);
+          if (!String(request.description ?? '').trim()) {
+            throw new MockApiError(400, 'La descripción es obligatoria', [
+              { field: 'description', message: 'Campo obligatorio' },
+            ]);
+          }
+          const assignee = this.assertAssignee(request.assigneeType, request.assigneeId);
+          const now = new Date().toISOString();
+          const order: Omit<Order, 'assignee'> = {
+            id: crypto.randomUUID(),
+            description: String(request.description).trim(),
+            state: OrderStates.CREATED,
+            ...assignee,
+            createdAt: now,
+            updatedAt: now,
+            items: [],
+          };
+          this.assignDevices(order, idList(request.devicesIds));
+          this.db.orders.push(order);
+          this.save();
+          return { status: 201, body: order };
+        },
+      },
+      {
+        method: 'PUT',
+        pattern: /^\/orders\/([^/]+)\/state$/,
+        handler: ({ params, body }) => {
+          const order = this.getOrder(params[0]);
+          const newState =
+            body instanceof FormData ? body.get('newState') : jsonBody<{ newState: OrderStates }>(body).newState;
+          if (!isEnumValue(OrderStates, newState) || !OrderStateMachine.canTransition(order.state, newState)) {
+            throw new MockApiError(409, `No se puede pasar de ${order.state} a ${newState}`);
+          }
+          const now = new Date().toISOString();
+          order.state = newState;
+          order.updatedAt = now;
+          this.save();
+          this.realtime?.emit({ type: 'ORDER_STATE_CHANGED', orderId: order.id, state: newState, updatedAt: now });
+          return { body: order };
+        },
+      },
+      {
+        method: 'PUT',
+        pattern: /^\/orders\/update\/([^/]+)$/,
+        handler: ({ params, body }) => {
+          const order = this.getOrder(params[0]);
+          const request = jsonBody<UpdateOrderRequest>(body);
+          const assignee =
+            request.assigneeType || request.assigneeId
+              ? this.assertAssignee(request.assigneeType ?? order.assigneeType, request.assigneeId ?? order.assigneeId)
+              : {};
+          if (Array.isArray(request.devicesIds)) {
+            const devicesIds = idList(request.devicesIds);
+            const removed = order.items.filter((item) => !devicesIds.includes(item.deviceId));
+            removed.forEach((item) => {
+              this.release(item.deviceId);
+              this.updateDevicesStatus([item.deviceId], item.originalDeviceState);
+            });
+            order.items = order.items.filter((item) => !removed.includes(item));
+            this.assignDevices(order, devicesIds.filter((id) => !order.items.some((i) => i.deviceId === id)));
+          }
+          Object.assign(order, this.pick(request, ['description']), assignee, {
+            updatedAt: new Date().toISOString(),
+          });
+          this.save();
+          return { body: order };
+        },
+      },
+      {
+        method: 'DELETE',
+        pattern: /^\/orders\/([^/]+)$/,
+        handler: ({ params }) => {
+          const order = this.getOrder(params[0]);
+          this.db.orders = this.db.orders.filter((o) => o.id !== order.id);
+          this.save();
+          return { status: 204, body: null };
+        },
+      },
+    ];
+  }
+
+  private getOrder(id: string): Omit<Order, 'assignee'> {
+    return this.findOrFail(this.db.orders.find((o) => o.id === id), 'Orden');
+  }
+
+  /**
+   * Valida que el responsable exista
+   * @returns Tipo e ID del responsable listos para guardar en la orden
+   */
+  private assertAssignee(type: unknown, id: unknown): Pick<Order, 'assigneeType' | 'assigneeId'> {
+    const exists =
+      typeof type === 'string' &&
+      typeof id === 'string' &&
+      (type === 'EMPLOYEE'
+        ? this.db.employees.some((e) => e.id === id)
+        : type === 'GROUP' && this.db.groups.some((g) => g.id === id));
+    if (!exists) {
+      throw new MockApiError(400, 'El responsable de la orden no existe', [
+        { field: 'assigneeId', message: 'Responsable no encontrado' },
+      ]);
+    }
+    return { assigneeType: type, assigneeId: id };
+  }
+
+  /**
+   * Asigna dispositivos libres a una orden guardando su estado original y marcándolos como ocupados
+   */
+  private assignDevices(order: Omit<Order, 'assignee'>, deviceIds: string[]): void {
+    const devices = deviceIds.map((id) => this.getDevice(id));
+    const busy = devices.filter((d) => this.activeAssignment(d.id));
+    if (busy.length) {
+      throw new MockApiError(409, `Dispositivos ya asignados a otra orden: ${busy.map((d) => d.name).join(', ')}`);
+    }
+    devices.forEach((device) => {
+      order.items.push({ deviceId: device.id, originalDeviceState: device.status });
+      this.assign(device.id, order.id);
+    });
+    this.updateDevicesStatus(deviceIds, DeviceStatus.OCCUPIED);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Empleados y grupos
+  // ---------------------------------------------------------------------------
+
+  private employeeRoutes(): MockRoute[] {
+    const fields: (keyof CreateEmployeeRq)[] = ['fullName', 'email', 'documentType', 'documentNumber', 'status'];
+    return [
+      { method: 'GET', pattern: /^\/employees$/, handler: () => ({ body: this.db.employees }) },
+      {
+        method: 'GET',
+        pattern: /^\/employees\/([^/]+)$/,
+        handler: ({ params }) => ({ body: this.getEmployee(params[0]) }),
+      },
+      {
+        method: 'POST',
+        pattern: /^\/employees$/,
+        handler: ({ body }) => {
+          const request = jsonBody<CreateEmployeeRq>(body);
+          if (!request.fullName || !request.email) {
+            throw new MockApiError(400, 'Datos del empleado incompletos');
+          }
+          this.assertUniqueEmail(request.email);
+          const employee = { id: crypto.randomUUID(), ...this.pick(request, fields) } as Employee;
+          this.db.employees.push(employee);
+          this.save();
+          return { status: 201, body: employee };
+        },
+      },
+      {
+        method: 'PUT',
+        pattern: /^\/employees\/([^/]+)$/,
+        handler: ({ params, body }) => {
+          const employee = this.getEmployee(params[0]);
+          const request = jsonBody<CreateEmployeeRq>(body);
+          this.assertUniqueEmail(request.email, employee.id);
+          Object.assign(employee, this.pick(request, fields));
+          this.save();
+          return { body: employee };
+        },
+      },
+      {
+        method: 'DELETE',
+        pattern: /^\/employees\/([^/]+)$/,
+        handler: ({ params }) => {
+          const employee = this.getEmployee(params[0]);
+          this.db.employees = this.db.employees.filter((e) => e.id !== employee.id);
+          this.db.groups.forEach((g) => (g.employeeIds = g.employeeIds.filter((id) => id !== employee.id)));
+          this.save();
+          return { status: 204, body: null };
+        },
+      },
+    ];
+  }
+
+  private groupRoutes(): MockRoute[] {
+    return [
+      { method: 'GET', pattern: /^\/groups$/, handler: () => ({ body: this.db.groups.map((g) => this.toGroup(g)) }) },
+      {
+        method: 'GET',
+        pattern: /^\/groups\/([^/]+)$/,
+        handler: ({ params }) => ({ body: this.toGroup(this.getGroup(params[0])) }),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/groups\/([^/]+)\/members\/emails$/,
+        handler: ({ params }) => ({ body: this.toGroup(this.getGroup(params[0])).employees.map((e) => e.email) }),
+      },
+      {
+        method: 'POST',
+        pattern: /^\/groups$/,
+        handler: ({ body }) => {
+          const request = jsonBody<CreateGroupRq>(body);
+          if (!String(request.name ?? '').trim()) {
+            throw new MockApiError(400, 'El nombre es obligatorio', [{ field: 'name', message: 'Campo obligatorio' }]);
+          }
+          const group: MockGroup = {
+            id: crypto.randomUUID(),
+            name: String(request.name).trim(),
+            address: String(request.address ?? ''),
+            createdAt: new Date().toISOString(),
+            updatedAt: null,
+            employeeIds: [],
+          };
+          this.db.groups.push(group);
+          this.save();
+          return { status: 201, body: this.toGroup(group) };
+        },
+      },
+      {
+        method: 'PUT',
+        pattern: /^\/groups\/([^/]+)$/,
+        handler: ({ params, body }) => {
+          const group = this.getGroup(params[0]);
+          Object.assign(group, this.pick(jsonBody<CreateGroupRq>(body), ['name', 'address']), {
+            updatedAt: new Date().toISOString(),
+          });
+          this.save();
+          return { body: this.toGroup(group) };
+        },
+      },
+      {
+        method: 'DELETE',
+        pattern: /^\/groups\/([^/]+)$/,
+        handler: ({ params }) => {
+          const group = this.getGroup(params[0]);
+          this.db.groups = this.db.groups.filter((g) => g.id !== group.id);
+          this.save();
+          return { status: 204, body: null };
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/groups\/([^/]+)\/employees$/,
+        handler: ({ params, body }) => {
+          const group = this.getGroup(params[0]);
+          const ids = idList(
+            Array.isArray(body) ? body : jsonBody<{ employees: EmployeesAsignment }>(body).employees?.employeesId,
+          );
+          ids.forEach((id) => this.getEmployee(id));
+          group.employeeIds = [...new Set([...group.employeeIds, ...ids])];
+          group.updatedAt = new Date().toISOString();
+          this.save();
+          return { body: this.toGroup(group) };
+        },
+      },
+      {
+        method: 'DELETE',
+        pattern: /^\/groups\/([^/]+)\/employees\/([^/]+)$/,
+        handler: ({ params }) => {
+          const group = this.getGroup(params[0]);
+          group.employeeIds = group.employeeIds.filter((id) => id !== params[1]);
+          group.updatedAt = new Date().toISOString();
+          this.save();
+          return { body: this.toGroup(group) };
+        },
+      },
+    ];
+  }
+
+  private getEmployee(id: string): Employee {
+    return this.findOrFail(this.db.employees.find((e) => e.id === id), 'Empleado');
+  }
+
+  private getGroup(id: string): MockGroup {
+    return this.findOrFail(this.db.groups.find((g) => g.id === id), 'Grupo');
+  }
+
+  private assertUniqueEmail(email: unknown, exceptId?: string): void {
+    const value = String(email ?? '').toLowerCase();
+    if (value && this.db.employees.some((e) => e.email.toLowerCase() === value && e.id !== exceptId)) {
+      throw new MockApiError(409, 'Ya existe un empleado con ese correo', [
+        { field: 'email', message: 'El correo ya está registrado' },
+      ]);
+    }
+  }
+
+  private toGroup({ employeeIds, ...group }: MockGroup): Group {
+    return {
+      ...group,
+      employees: employeeIds.flatMap((id) => this.db.employees.filter((e) => e.id === id)),
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Utilidades
+  // ---------------------------------------------------------------------------
+
+  private findOrFail<T>(value: T | undefined, entity: string): T {
+    if (!value) throw new MockApiError(404, `${entity} no encontrado`);
+    return value;
+  }
+
+  /**
+   * Copia solo los campos indicados que vienen en el cuerpo
+   */
+  private pick<T extends object>(request: Partial<T>, fields: (keyof T)[]): Partial<T> {
+    return Object.fromEntries(
+      fields.filter((field) => request[field] !== undefined).map((field) => [field, request[field]]),
+    ) as Partial<T>;
+  }
+
+  private load(): MockDatabase {
+    if (this.persist) {
+      try {
+        const stored = localStorage.getItem(this.storageKey);
+        if (stored) return JSON.parse(stored);
+      } catch {
+        // Datos corruptos: se usan los datos iniciales
+      }
+    }
+    return createMockSeed();
+  }
+
+  private save(): void {
+    if (this.persist) {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.db));
+    }
+  }
+}
@@ -0,0 +1,180 @@
+import {
+  Device,
+  DeviceStatus,
+} from '../../modules/private/devices/models/device.model';
+import {
+  Order,
+  OrderStates,
+} from '../../modules/private/orders/models/Orders';
+import {
+  Employee,
+  EmployeeStatus,
+} from '../../modules/private/employees/models/employe.model';
+import { User } from '../../modules/public/auth/models/user.model';
+import { UserRole } from '../../modules/public/auth/models/role.model';
+
+/**
+ * Usuario del backend simulado (incluye la contraseña para validar el inicio de sesión)
+ */
+export interface MockUser extends User {
+  password: string;
+}
+
+/**
+ * Grupo guardado por el backend simulado; los empleados se guardan por ID
+ */
+export interface MockGroup {
+  id: string;
+  name: string;
+  address: string;
+  createdAt: string;
+  updatedAt: string | null;
+  employeeIds: string[];
+}
+
+/**
+ * Asignación de un dispositivo a una orden
+ */
+export interface MockAssignment {
+  deviceId: string;
+  orderId: string;
+  assignedAt: string;
+  releasedAt: string | null;
+}
+
+/**
+ * Datos del backend simulado
+ */
+export interface MockDatabase {
+  users: MockUser[];
+  devices: Device[];
+  employees: Employee[];
+  groups: MockGroup[];
+  orders: Omit<Order, 'assignee'>[];
+  assignments: MockAssignment[];
+}
+
+/**
+ * Datos iniciales del backend simulado
+ * Las fechas se calculan respecto al momento de la carga para que los listados se vean recientes
+ *
+ * Usuarios de prueba (contraseña Demo1234!):
+ *   admin@infragest.dev (ADMIN), operador@infragest.dev (OPERATOR), auditor@infragest.dev (AUDITOR)
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+export const createMockSeed = (): MockDatabase => {
+  const daysAgo = (days: number) => new Date(Date.now() - days * 86_400_000).toISOString();
+
+  const devices: Device[] = [
+    ['dev-01', 'Laptop Latitude 5440', 'Dell', 'INF-0001', DeviceStatus.OCCUPIED, 120],
+    ['dev-02', 'Laptop ThinkPad T14', 'Lenovo', 'INF-0002', DeviceStatus.OCCUPIED, 118],
+    ['dev-03', 'Monitor P2422H', 'Dell', 'INF-0003', DeviceStatus.GOOD_CONDITION, 110],
+    ['dev-04', 'Monitor 24MK430H', 'LG', 'INF-0004', DeviceStatus.FAIR, 95],
+    ['dev-05', 'Impresora LaserJet M404', 'HP', 'INF-0005', DeviceStatus.NEEDS_REPAIR, 90],
+    ['dev-06', 'Router RB4011', 'MikroTik', 'INF-0006', DeviceStatus.OCCUPIED, 75],
+    ['dev-07', 'Switch CBS350-24', 'Cisco', 'INF-0007', DeviceStatus.GOOD_CONDITION, 60],
+    ['dev-08', 'Access Point U6-Lite', 'Ubiquiti', 'INF-0008', DeviceStatus.GOOD_CONDITION, 45],
+    ['dev-09', 'Proyector EB-X51', 'Epson', 'INF-0009', DeviceStatus.FAIR, 30],
+    ['dev-10', 'Tablet Galaxy Tab A8', 'Samsung', 'INF-0010', DeviceStatus.GOOD_CONDITION, 20],
+    ['dev-11', 'Lector de códigos DS2208', 'Zebra', 'INF-0011', DeviceStatus.GOOD_CONDITION, 12],
+    ['dev-12', 'UPS Back-UPS 1500', 'APC', 'INF-0012', DeviceStatus.NEEDS_REPAIR, 5],
+  ].map(([id, name, brand, barcode, status, age]) => ({
+    id: id as string,
+    name: name as string,
+    brand: brand as string,
+    barcode: barcode as string,
+    status: status as DeviceStatus,
+    createdAt: daysAgo(age as number),
+    updatedAt: daysAgo((age as number) / 2),
+  }));
+
+  const employees: Employee[] = [
+    ['emp-01', 'Laura Gómez', 'laura.gomez@infragest.dev', '1020304050', EmployeeStatus.ACTIVE],
+    ['emp-02', 'Carlos Ramírez', 'carlos.ramirez@infragest.dev', '1030405060', EmployeeStatus.ACTIVE],
+    ['emp-03', 'Valentina Ríos', 'valentina.rios@infragest.dev', '1040506070', EmployeeStatus.ACTIVE],
+    ['emp-04', 'Andrés Castillo', 'andres.castillo@infragest.dev', '1050607080', EmployeeStatus.ACTIVE],
+    ['emp-05', 'Mariana López', 'mariana.lopez@infragest.dev', '1060708090', EmployeeStatus.INACTIVE],
+  ].map(([id, fullName, email, documentNumber, status]) => ({
+    id,
+    fullName,
+    email,
+    documentType: 'CC',
+    documentNumber,
+    status: status as EmployeeStatus,
+  }));
+
+  const groups: MockGroup[] = [
+    {
+      id: 'grp-01',
+      name: 'Soporte en sitio',
+      address: 'Cra 7 # 71-21, Bogotá',
+      createdAt: daysAgo(100),
+      updatedAt: daysAgo(10),
+      employeeIds: ['emp-01', 'emp-02'],
+    },
+    {
+      id: 'grp-02',
+      name: 'Redes e infraestructura',
+      address: 'Cl 26 # 68C-61, Bogotá',
+      createdAt: daysAgo(80),
+      updatedAt: null,
+      employeeIds: ['emp-03', 'emp-04'],
+    },
+  ];
+
+  const orders: Omit<Order, 'assignee'>[] = [
+    {
+      id: 'ord-01',
+      description: 'Entrega de equipos para el equipo comercial',
+      state: OrderStates.IN_PROCESS,
+      assigneeType: 'EMPLOYEE',
+      assigneeId: 'emp-01',
+      createdAt: daysAgo(15),
+      updatedAt: daysAgo(14),
+      items: [
+        { deviceId: 'dev-01', originalDeviceState: DeviceStatus.GOOD_CONDITION },
+        { deviceId: 'dev-02', originalDeviceState: DeviceStatus.GOOD_CONDITION },
+      ],
+    },
+    {
+      id: 'ord-02',
+      description: 'Instalación de red en la sede norte',
+      state: OrderStates.CREATED,
+      assigneeType: 'GROUP',
+      assigneeId: 'grp-02',
+      createdAt: daysAgo(3),
+      updatedAt: daysAgo(3),
+      items: [{ deviceId: 'dev-06', originalDeviceState: DeviceStatus.GOOD_CONDITION }],
+    },
+    {
+      id: 'ord-03',
+      description: 'Préstamo de proyector para capacitación',
+      state: OrderStates.FINISHED,
+      assigneeType: 'EMPLOYEE',
+      assigneeId: 'emp-03',
+      createdAt: daysAgo(40),
+      updatedAt: daysAgo(35),
+      items: [{ deviceId: 'dev-09', originalDeviceState: DeviceStatus.FAIR }],
+    },
+  ];
+
+  return {
+    users: [
+      { id: 1, name: 'Administrador Demo', email: 'admin@infragest.dev', role: UserRole.ADMIN, password: 'Demo1234!' },
+      { id: 2, name: 'Operador Demo', email: 'operador@infragest.dev', role: UserRole.OPERATOR, password: 'Demo1234!' },
+      { id: 3, name: 'Auditor Demo', email: 'auditor@infragest.dev', role: UserRole.AUDITOR, password: 'Demo1234!' },
+    ],
+    devices,
+    employees,
+    groups,
+    orders,
+    assignments: [
+      { deviceId: 'dev-01', orderId: 'ord-01', assignedAt: daysAgo(15), releasedAt: null },
+      { deviceId: 'dev-02', orderId: 'ord-01', assignedAt: daysAgo(15), releasedAt: null },
+      { deviceId: 'dev-06', orderId: 'ord-02', assignedAt: daysAgo(3), releasedAt: null },
+      { deviceId: 'dev-09', orderId: 'ord-03', assignedAt: daysAgo(40), releasedAt: daysAgo(35) },
+    ],
+  };
+};
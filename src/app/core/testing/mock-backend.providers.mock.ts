@@ -0,0 +1,23 @@
+import { Provider } from '@angular/core';
+import { environment } from '../../../environments/environment';
+import { MockApiServer } from './mock-api-server';
+import { MockRealtimeServer } from './mock-realtime-server';
+
+/**
+ * Backend simulado (npm run start:mock): la API y los eventos en tiempo real se responden en el navegador
+ * y los datos se guardan en localStorage
+ * Solo se compila con la configuración mock, que reemplaza a mock-backend.providers.ts
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ * @returns Providers del backend simulado, o ninguno si está desactivado
+ */
+export function provideMockBackend(): Provider[] {
+  if (!environment.mockApi.enabled) return [];
+  const realtime = new MockRealtimeServer();
+  const { latency, errorRate } = environment.mockApi;
+  return [
+    realtime.provide(),
+    new MockApiServer({ latency, errorRate, persist: true }, realtime).provide(),
+  ];
+}
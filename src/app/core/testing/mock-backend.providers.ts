@@ -0,0 +1,13 @@
+import { Provider } from '@angular/core';
+
+/**
+ * Providers del backend simulado
+ * Esta versión no registra nada: la configuración mock de angular.json la sustituye por
+ * mock-backend.providers.mock.ts, así el backend simulado y sus datos no entran en el bundle de producción
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+export function provideMockBackend(): Provider[] {
+  return [];
+}
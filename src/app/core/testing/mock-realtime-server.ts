@@ -0,0 +1,81 @@
+import { Provider } from '@angular/core';
+import {
+  REALTIME_TRANSPORT,
+  RealtimeEvent,
+  RealtimeTransport,
+  RealtimeTransportHandlers,
+} from '../services/realtime.service';
+
+/**
+ * Servidor de eventos en memoria para pruebas y desarrollo local
+ * Reemplaza al transporte WebSocket/SSE: permite emitir eventos a los clientes conectados,
+ * cortar las conexiones y rechazar reconexiones para simular caídas del socket
+ *
+ * Uso en pruebas:
+ *   const server = new MockRealtimeServer();
+ *   TestBed.configureTestingModule({ providers: [server.provide()] });
+ *   server.emit({ type: 'DEVICE_STATUS_CHANGED', deviceId: '1', status: DeviceStatus.FAIR });
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+export class MockRealtimeServer {
+  // URLs de cada intento de conexión recibido
+  readonly connections: string[] = [];
+  // Si es false, los intentos de conexión se cierran sin abrirse
+  acceptConnections = true;
+
+  private clients = new Set<RealtimeTransportHandlers>();
+
+  /**
+   * Transporte que conecta los clientes con este servidor
+   * La apertura y el rechazo son asíncronos, como en un socket real
+   */
+  readonly transport: RealtimeTransport = (url, handlers) => {
+    this.connections.push(url);
+    if (!this.acceptConnections) {
+      setTimeout(() => handlers.onClose());
+      return { close: () => undefined };
+    }
+    setTimeout(() => {
+      this.clients.add(handlers);
+      handlers.onOpen();
+    });
+    return { close: () => this.clients.delete(handlers) };
+  };
+
+  /**
+   * Número de clientes conectados
+   */
+  get clientCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Provider que reemplaza el transporte del navegador por este servidor
+   * @returns Provider
+   */
+  provide(): Provider {
+    return { provide: REALTIME_TRANSPORT, useValue: this.transport };
+  }
+
+  /**
+   * Envía un evento (o un mensaje sin procesar) a todos los clientes conectados
+   * @param event Evento o texto a enviar
+   * @returns void
+   */
+  emit(event: RealtimeEvent | string): void {
+    const data = typeof event === 'string' ? event : JSON.stringify(event);
+    this.clients.forEach((client) => client.onMessage(data));
+  }
+
+  /**
+   * Corta todas las conexiones abiertas, como si el socket se cayera
+   * @returns void
+   */
+  drop(): void {
+    const clients = [...this.clients];
+    this.clients.clear();
+    clients.forEach((client) => client.onClose());
+  }
+}
@@ -0,0 +1,224 @@
+import { HttpContextToken, HttpErrorResponse } from '@angular/common/http';
+import { FormGroup } from '@angular/forms';
+import { toast } from 'ngx-sonner';
+import { ApiError, ApiFieldError } from '../models/api-error.model';
+import { translate } from './i18n.utils';
+
+/**
+ * Utilidades para normalizar y mostrar los errores de la API
+ * errorInterceptor convierte cada HttpErrorResponse en ApiError; los componentes usan estas funciones
+ * para obtener el mensaje, marcar los campos del formulario y mostrar un único toast por error
+ * Pattern: Export functions para máxima reutilización
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+
+// Cabecera con el identificador de la petición (se envía y se lee de la respuesta)
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+
+// Permite que una petición maneje sus errores sin el toast genérico de errorInterceptor
+// (por ejemplo, el sondeo en segundo plano o el reenvío de la cola offline)
+export const SKIP_ERROR_TOAST = new HttpContextToken<boolean>(() => false);
+
+// Ventana en la que no se repite un toast con el mismo título y mensaje
+const TOAST_DEDUPE_WINDOW = 4000;
+const recentToasts = new Map<string, number>();
+
+/**
+ * Genera un identificador para una petición
+ * @returns string
+ */
+export const createCorrelationId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Convierte una respuesta de error HTTP en ApiError
+ * Acepta los formatos de error más comunes del backend: { message }, { detail } (RFC 7807),
+ * y errores por campo como mapa ({ errors: { campo: mensaje } }) o como lista ({ fieldErrors: [{ field, message }] })
+ * @param response Respuesta de error
+ * @param correlationId Identificador enviado en la petición (se usa si el backend no devuelve otro)
+ * @returns ApiError
+ */
+export const toApiError = (
+  response: HttpErrorResponse,
+  correlationId: string | null,
+): ApiError => {
+  const body =
+    response.error && typeof response.error === 'object' && !(response.error instanceof ErrorEvent)
+      ? response.error
+      : null;
+  const serverMessage: string | null =
+    [body?.message, body?.detail, typeof response.error === 'string' ? response.error : null]
+      .find((value) => typeof value === 'string' && value.trim()) ?? null;
+
+  return new ApiError(response, {
+    message: buildMessage(response, serverMessage),
+    code: body?.code ?? body?.errorCode ?? null,
+    fieldErrors: parseFieldErrors(body?.fieldErrors ?? body?.errors),
+    correlationId:
+      response.headers?.get(CORRELATION_ID_HEADER) ??
+      response.headers?.get('X-Request-Id') ??
+      body?.correlationId ??
+      body?.requestId ??
+      body?.traceId ??
+      correlationId,
+  });
+};
+
+/**
+ * Mensaje para el usuario según el estado HTTP
+ * Los errores de validación y de negocio muestran el mensaje del backend; los errores del servidor
+ * usan un mensaje genérico para no exponer detalles internos
+ * @param response Respuesta de error
+ * @param serverMessage Mensaje enviado por el backend
+ * @returns string
+ */
+const buildMessage = (
+  response: HttpErrorResponse,
+  serverMessage: string | null,
+): string => {
+  if (response.error instanceof ErrorEvent) {
+    return translate('errors.client', { message: response.error.message });
+  }
+
+  switch (response.status) {
+    case 0:
+      return translate('errors.network');
+    case 400:
+      return serverMessage || translate('errors.badRequest');
+    case 401:
+      return isCredentialsRequest(response.url)
+        ? serverMessage || translate('errors.invalidCredentials')
+        : translate('errors.sessionExpired');
+    case 403:
+      return translate('errors.forbidden');
+    case 404:
+      return serverMessage || translate('errors.notFound');
+    case 409:
+      return serverMessage || translate('errors.conflict');
+    case 422:
+      return serverMessage || translate('errors.validation');
+    default:
+      return response.status >= 500
+        ? translate('errors.server')
+        : serverMessage || translate('errors.status', { status: String(response.status) });
+  }
+};
+
+/**
+ * Indica si la petición es de inicio de sesión o registro, donde un 401 son credenciales inválidas
+ * @param url URL de la petición
+ * @returns boolean
+ */
+const isCredentialsRequest = (url: string | null): boolean =>
+  !!url && ['/auth/login', '/auth/register'].some((endpoint) => url.includes(endpoint));
+
+/**
+ * Normaliza los errores por campo del backend
+ * @param errors Mapa campo -> mensaje(s) o lista de { field, message | defaultMessage }
+ * @returns ApiFieldError[]
+ */
+const parseFieldErrors = (errors: unknown): ApiFieldError[] => {
+  if (Array.isArray(errors)) {
+    return errors
+      .filter((e) => e && typeof e.field === 'string')
+      .map((e) => ({ field: e.field, message: String(e.message ?? e.defaultMessage ?? '') }));
+  }
+  if (errors && typeof errors === 'object') {
+    return Object.entries(errors as Record<string, unknown>).map(([field, message]) => ({
+      field,
+      message: Array.isArray(message) ? message.join('. ') : String(message),
+    }));
+  }
+  return [];
+};
+
+/**
+ * Obtiene el mensaje para el usuario de cualquier error
+ * @param err Error recibido (ApiError, HttpErrorResponse o Error)
+ * @param fallback Mensaje si el error no trae uno
+ * @returns string
+ */
+export const getApiErrorMessage = (err: unknown, fallback: string): string => {
+  if (err instanceof ApiError) return err.message;
+  const error = err as { error?: { message?: string }; message?: string } | null;
+  return error?.error?.message || error?.message || fallback;
+};
+
+/**
+ * Asigna los errores por campo del backend a los controles del formulario
+ * Cada control recibe el error 'server' con el mensaje; se limpia en cuanto el usuario edita el campo
+ * @param form Formulario de la petición
+ * @param err Error recibido
+ * @param fieldMap Nombre del control para los campos del backend que se llaman distinto en el formulario
+ * @returns true si algún error se asignó a un control
+ */
+export const applyApiFieldErrors = (
+  form: FormGroup,
+  err: unknown,
+  fieldMap: { [apiField: string]: string } = {},
+): boolean => {
+  if (!(err instanceof ApiError)) return false;
+
+  let applied = false;
+  err.fieldErrors.forEach(({ field, message }) => {
+    const control = form.get(fieldMap[field] ?? field);
+    if (!control) return;
+    control.setErrors({ ...control.errors, server: message || err.message });
+    control.markAsTouched();
+    applied = true;
+  });
+  return applied;
+};
+
+/**
+ * Muestra el toast de un error una sola vez
+ * Incluye el identificador de la petición con un botón para copiarlo; los toasts repetidos
+ * (mismo título y mensaje en pocos segundos, por ejemplo varias peticiones que fallan a la vez) se omiten
+ * @param err Error recibido
+ * @param title Título del toast (por defecto, el mensaje del error)
+ * @param detail Descripción propia del componente (por defecto, el mensaje del error)
+ * @returns void
+ */
+export const notifyApiError = (
+  err: unknown,
+  title?: string,
+  detail?: string,
+): void => {
+  if (err instanceof ApiError) {
+    if (err.notified) return;
+    err.notified = true;
+  }
+
+  const message = detail ?? getApiErrorMessage(err, translate('errors.default'));
+  const key = `${title ?? ''}|${message}`;
+  const now = Date.now();
+  recentToasts.forEach((shownAt, shownKey) => {
+    if (now - shownAt >= TOAST_DEDUPE_WINDOW) recentToasts.delete(shownKey);
+  });
+  if (recentToasts.has(key)) return;
+  recentToasts.set(key, now);
+
+  const correlationId = err instanceof ApiError ? err.correlationId : null;
+  const description = [
+    title ? message : null,
+    correlationId ? translate('errors.reference', { id: correlationId }) : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  toast.error(title ?? message, {
+    description: description || undefined,
+    ...(correlationId
+      ? {
+          action: {
+            label: translate('errors.copyReference'),
+            onClick: () => navigator.clipboard?.writeText(correlationId),
+          },
+        }
+      : {}),
+  });
+};
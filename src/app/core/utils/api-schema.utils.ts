@@ -0,0 +1,257 @@
+import { toast } from 'ngx-sonner';
+import {
+  AUTH_RESPONSE_SCHEMA,
+  DEVICE_SCHEMA,
+  EMPLOYEE_SCHEMA,
+  GROUP_SCHEMA,
+  ORDER_SCHEMA,
+  PayloadSchema,
+  SchemaField,
+  SchemaIssue,
+} from '../models/api-schema.model';
+import { ApiEndpoints } from '../models/api-endpoints.model';
+import { translate } from './i18n.utils';
+
+/**
+ * Utilidades para validar en tiempo de ejecución las respuestas de la API
+ * ApiService las aplica en modo desarrollo: los campos inválidos se reemplazan por valores seguros
+ * y los registros que no se pueden corregir se descartan, registrando la ruta de cada problema
+ * Pattern: Export functions para máxima reutilización
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+
+// Endpoints de ApiEndpoints que devuelven datos (se omiten los que no tienen respuesta y las listas de textos)
+type DataRoute = {
+  [R in keyof ApiEndpoints]: ApiEndpoints[R]['response'] extends void | string[] ? never : R;
+}[keyof ApiEndpoints];
+
+// Esquema de la respuesta de un endpoint; 'field' indica la propiedad que contiene los registros
+interface ResponseSchema {
+  schema: PayloadSchema;
+  field?: string;
+}
+
+// Esquema de cada endpoint que devuelve datos; null si su respuesta no es una entidad con esquema
+// Al declarar un endpoint nuevo en ApiEndpoints el compilador exige registrarlo aquí
+const RESPONSE_SCHEMAS: { [R in DataRoute]: ResponseSchema | null } = {
+  'POST /auth/login': { schema: AUTH_RESPONSE_SCHEMA },
+  'POST /auth/register': { schema: AUTH_RESPONSE_SCHEMA },
+  'POST /auth/refresh': { schema: AUTH_RESPONSE_SCHEMA },
+  'GET /devices': { schema: DEVICE_SCHEMA },
+  'POST /devices': { schema: DEVICE_SCHEMA },
+  'GET /devices/paginated': { schema: DEVICE_SCHEMA, field: 'data' },
+  'GET /devices/{id}': { schema: DEVICE_SCHEMA },
+  'PUT /devices/{id}': { schema: DEVICE_SCHEMA },
+  'GET /devices/barcode/{barcode}': { schema: DEVICE_SCHEMA },
+  'GET /devices/status/{status}': { schema: DEVICE_SCHEMA },
+  'GET /devices/statuses': { schema: DEVICE_SCHEMA },
+  'POST /devices/batch': { schema: DEVICE_SCHEMA },
+  'POST /devices/reserve': { schema: DEVICE_SCHEMA },
+  'POST /devices/restore': { schema: DEVICE_SCHEMA },
+  'POST /devices/update-batch': { schema: DEVICE_SCHEMA },
+  'PUT /devices/update-batch': { schema: DEVICE_SCHEMA },
+  'GET /devices-assignments/{deviceId}/history': null,
+  'POST /devices-assignments/devices/active': null,
+  'GET /orders': { schema: ORDER_SCHEMA },
+  'POST /orders': { schema: ORDER_SCHEMA },
+  'GET /orders/{id}': { schema: ORDER_SCHEMA },
+  'PUT /orders/update/{id}': { schema: ORDER_SCHEMA },
+  'GET /employees': { schema: EMPLOYEE_SCHEMA },
+  'POST /employees': { schema: EMPLOYEE_SCHEMA },
+  'GET /employees/{id}': { schema: EMPLOYEE_SCHEMA },
+  'PUT /employees/{id}': { schema: EMPLOYEE_SCHEMA },
+  'GET /groups': { schema: GROUP_SCHEMA },
+  'POST /groups': { schema: GROUP_SCHEMA },
+  'GET /groups/{id}': { schema: GROUP_SCHEMA },
+  'PUT /groups/{id}': { schema: GROUP_SCHEMA },
+  'POST /groups/{groupId}/employees': { schema: GROUP_SCHEMA },
+  'DELETE /groups/{groupId}/employees/{employeeId}': { schema: GROUP_SCHEMA },
+};
+
+// Resultado de validar un valor: valid en false indica que el registro se descarta
+interface Checked {
+  value: unknown;
+  valid: boolean;
+}
+
+/**
+ * Valida un registro o una lista de registros contra un esquema
+ * Las listas conservan solo los registros válidos (o corregidos)
+ * @param payload Valor recibido
+ * @param schema Esquema de la entidad
+ * @param path Ruta del valor para los mensajes
+ * @returns Valor corregido (undefined si el registro se descartó) y los problemas encontrados
+ */
+export const validatePayload = <T>(
+  payload: unknown,
+  schema: PayloadSchema,
+  path = '$',
+): { value: T | undefined; issues: SchemaIssue[] } => {
+  const issues: SchemaIssue[] = [];
+  const result = Array.isArray(payload)
+    ? { value: checkList(payload, schema, path, issues), valid: true }
+    : checkObject(payload, schema, path, issues);
+  return { value: (result.valid ? result.value : undefined) as T | undefined, issues };
+};
+
+/**
+ * Valida la respuesta de un endpoint, si tiene esquema registrado, y reporta los problemas
+ * Los problemas se registran en consola con su ruta; si se descartan registros se muestra un aviso
+ * @param route Método y ruta de ApiEndpoints, por ejemplo 'GET /devices/{id}'
+ * @param endpoint Endpoint relativo de la petición (para los mensajes)
+ * @param body Respuesta recibida
+ * @returns Respuesta corregida
+ */
+export const validateApiResponse = <T>(route: keyof ApiEndpoints, endpoint: string, body: T): T => {
+  const entry = (RESPONSE_SCHEMAS as { [route: string]: ResponseSchema | null | undefined })[route];
+  if (!entry || body === null || body === undefined || typeof body !== 'object') return body;
+
+  let value: unknown;
+  let issues: SchemaIssue[];
+  if (entry.field) {
+    const container = body as Record<string, unknown>;
+    const result = validatePayload(container[entry.field], entry.schema, `$.${entry.field}`);
+    value = { ...container, [entry.field]: result.value ?? [] };
+    issues = result.issues;
+  } else {
+    ({ value, issues } = validatePayload(body, entry.schema));
+  }
+
+  if (!issues.length) return body;
+
+  console.warn(
+    `Respuesta inválida de ${endpoint} (${entry.schema.name}):\n` +
+      issues.map((issue) => `  ${issue.path}: ${issue.message}`).join('\n'),
+  );
+
+  if (issues.some((issue) => issue.action === 'dropped')) {
+    toast.warning(translate('errors.invalidPayload', { endpoint }));
+  }
+
+  // Un registro individual que no se puede corregir se entrega tal cual para no ocultar el error
+  return (value ?? body) as T;
+};
+
+/**
+ * Valida cada elemento de una lista y descarta los inválidos
+ */
+const checkList = (
+  list: unknown[],
+  schema: PayloadSchema,
+  path: string,
+  issues: SchemaIssue[],
+): unknown[] =>
+  list.flatMap((item, index) => {
+    const result = checkObject(item, schema, `${path}[${index}]`, issues);
+    return result.valid ? [result.value] : [];
+  });
+
+/**
+ * Valida un objeto campo por campo
+ * El primer campo obligatorio que no se puede corregir descarta el objeto
+ */
+const checkObject = (
+  value: unknown,
+  schema: PayloadSchema,
+  path: string,
+  issues: SchemaIssue[],
+): Checked => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    issues.push({ path, message: `se esperaba ${schema.name}, se recibió ${describe(value)}`, action: 'dropped' });
+    return { value, valid: false };
+  }
+
+  const record = { ...(value as Record<string, unknown>) };
+  for (const [field, rule] of Object.entries(schema.fields)) {
+    const fieldPath = `${path}.${field}`;
+    const checked = checkField(record[field], rule, fieldPath, issues);
+    if (!checked.valid) return { value, valid: false };
+    if (checked.value !== undefined || field in record) record[field] = checked.value;
+  }
+  return { value: record, valid: true };
+};
+
+/**
+ * Valida un campo y lo corrige si es posible
+ * Los números y textos se convierten entre sí; lo demás se reemplaza por el valor por defecto
+ */
+const checkField = (
+  value: unknown,
+  rule: SchemaField,
+  path: string,
+  issues: SchemaIssue[],
+): Checked => {
+  if (value === undefined || value === null) {
+    if (value === null && rule.nullable) return { value, valid: true };
+    if (!rule.required && !('default' in rule)) return { value, valid: true };
+    return fallback(value, rule, path, issues);
+  }
+
+  switch (rule.type) {
+    case 'array':
+      if (!Array.isArray(value)) return fallback(value, rule, path, issues);
+      return { value: rule.schema ? checkList(value, rule.schema, path, issues) : value, valid: true };
+    case 'object':
+      if (rule.schema) {
+        const nested = checkObject(value, rule.schema, path, issues);
+        return nested.valid ? nested : fallback(value, rule, path, issues);
+      }
+      return typeof value === 'object' ? { value, valid: true } : fallback(value, rule, path, issues);
+    case 'number':
+      if (typeof value === 'number') return { value, valid: true };
+      if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+        issues.push({ path, message: `"${value}" convertido a número`, action: 'coerced' });
+        return { value: Number(value), valid: true };
+      }
+      return fallback(value, rule, path, issues);
+    case 'string':
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        issues.push({ path, message: `${value} convertido a texto`, action: 'coerced' });
+        value = String(value);
+      }
+      if (typeof value !== 'string') return fallback(value, rule, path, issues);
+      if (rule.values && !rule.values.includes(value)) return fallback(value, rule, path, issues);
+      return { value, valid: true };
+    default:
+      return typeof value === rule.type ? { value, valid: true } : fallback(value, rule, path, issues);
+  }
+};
+
+/**
+ * Reemplaza un campo inválido por su valor por defecto; sin valor por defecto, un campo opcional
+ * se elimina y uno obligatorio invalida el registro
+ */
+const fallback = (
+  value: unknown,
+  rule: SchemaField,
+  path: string,
+  issues: SchemaIssue[],
+): Checked => {
+  const expected = rule.values ? rule.values.join(' | ') : rule.type;
+  if ('default' in rule) {
+    issues.push({
+      path,
+      message: `se esperaba ${expected}, se recibió ${describe(value)}; se usa ${JSON.stringify(rule.default)}`,
+      action: 'coerced',
+    });
+    return { value: structuredClone(rule.default), valid: true };
+  }
+  if (rule.required) {
+    issues.push({ path, message: `se esperaba ${expected}, se recibió ${describe(value)}; se descarta el registro`, action: 'dropped' });
+    return { value, valid: false };
+  }
+  issues.push({ path, message: `se esperaba ${expected}, se recibió ${describe(value)}; se elimina`, action: 'coerced' });
+  return { value: undefined, valid: true };
+};
+
+/**
+ * Descripción breve de un valor para los mensajes
+ */
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `"${value.length > 30 ? value.slice(0, 30) + '…' : value}"`;
+  return typeof value === 'object' ? 'object' : String(value);
+};
@@ -0,0 +1,57 @@
+import JsBarcode from 'jsbarcode';
+import QRCode from 'qrcode';
+
+/**
+ * Utilidades para generar imágenes de códigos de barras y códigos QR en el navegador
+ * Las imágenes se devuelven como data URL de SVG para que se impriman nítidas a cualquier tamaño
+ * Pattern: Export functions para máxima reutilización
+ *
+ * @author Bunnystring
+ * @since 2026-10-19
+ */
+
+/**
+ * Convierte el marcado de un SVG en una data URL usable en `<img src>`
+ *
+ * @param svg - Marcado SVG
+ * @returns Data URL del SVG
+ */
+const toSvgDataUrl = (svg: string): string =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+/**
+ * Genera un código de barras Code128 sin texto inferior
+ *
+ * @param value - Valor a codificar
+ * @returns Data URL del SVG o null si el valor no se puede codificar
+ */
+export const renderCode128 = (value: string): string | null => {
+  try {
+    const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    JsBarcode(svg, value, {
+      format: 'CODE128',
+      displayValue: false,
+      margin: 0,
+      height: 60,
+    });
+    svg.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    return toSvgDataUrl(svg.outerHTML);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Genera un código QR con corrección de errores media
+ *
+ * @param text - Texto o URL a codificar
+ * @returns Promise con la data URL del SVG
+ */
+export const renderQrCode = async (text: string): Promise<string> => {
+  const svg = await QRCode.toString(text, {
+    type: 'svg',
+    errorCorrectionLevel: 'M',
+    margin: 0,
+  });
+  return toSvgDataUrl(svg);
+};
@@ -0,0 +1,140 @@
+/**
+ * Utilidades para leer y generar archivos CSV en el navegador
+ * Detectan la codificación y el delimitador para aceptar exportaciones de distintas herramientas
+ * Pattern: Export functions para máxima reutilización
+ *
+ * @author Bunnystring
+ * @since 2026-10-19
+ */
+
+// Delimitadores candidatos, en orden de preferencia ante empate
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Decodifica el contenido de un archivo de texto detectando su codificación
+ * Usa el BOM si existe; si no, intenta UTF-8 estricto y recurre a Windows-1252 (Excel en español)
+ *
+ * @param buffer - Contenido binario del archivo
+ * @returns Texto decodificado sin BOM
+ */
+export const decodeText = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(bytes);
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(bytes);
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+};
+
+/**
+ * Cuenta las apariciones de un carácter fuera de comillas en una línea
+ *
+ * @param line - Línea del CSV
+ * @param char - Carácter a contar
+ * @returns Número de apariciones
+ */
+const countOutsideQuotes = (line: string, char: string): number => {
+  let count = 0;
+  let inQuotes = false;
+  for (const c of line) {
+    if (c === '"') inQuotes = !inQuotes;
+    else if (c === char && !inQuotes) count++;
+  }
+  return count;
+};
+
+/**
+ * Detecta el delimitador de un CSV analizando las primeras líneas
+ * Elige el candidato que aparece en todas las líneas la misma cantidad de veces (y más veces)
+ *
+ * @param text - Contenido del CSV
+ * @returns Delimitador detectado (coma por defecto)
+ */
+export const detectDelimiter = (text: string): string => {
+  const lines = text
+    .split(/\r?\n/)
+    .filter((l) => l.trim())
+    .slice(0, 10);
+  if (!lines.length) return ',';
+
+  let best = ',';
+  let bestScore = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = lines.map((l) => countOutsideQuotes(l, delimiter));
+    const consistent = counts.every((c) => c === counts[0]);
+    const score = counts[0] > 0 ? (consistent ? counts[0] * 2 : counts[0]) : 0;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * Convierte el texto de un CSV en filas de celdas
+ * Soporta campos entre comillas con delimitadores, saltos de línea y comillas escapadas ("")
+ *
+ * @param text - Contenido del CSV
+ * @param delimiter - Delimitador de columnas
+ * @returns Filas con sus celdas
+ */
+export const parseCsv = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        inQuotes = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Convierte filas de celdas en el texto de un CSV
+ * Los campos con delimitadores, comillas o saltos de línea se escriben entre comillas
+ *
+ * @param rows - Filas con sus celdas
+ * @param delimiter - Delimitador de columnas (coma por defecto)
+ * @returns Contenido del CSV
+ */
+export const buildCsv = (rows: string[][], delimiter = ','): string => {
+  const escape = (value: string) =>
+    value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  return rows.map((row) => row.map(escape).join(delimiter)).join('\r\n');
+};
@@ -0,0 +1,43 @@
+/**
+ * Utilidades para descargar archivos generados en el navegador
+ * Pattern: Export functions para máxima reutilización
+ *
+ * @author Bunnystring
+ * @since 2026-10-19
+ */
+
+/**
+ * Construye un nombre de archivo con la fecha actual
+ * Ejemplo: buildDatedFilename('dispositivos', 'csv') -> 'dispositivos_2026-10-19.csv'
+ *
+ * @param prefix - Prefijo del nombre del archivo
+ * @param extension - Extensión del archivo sin punto
+ * @param date - Fecha a usar (por defecto la actual)
+ * @returns Nombre del archivo con la fecha en formato YYYY-MM-DD
+ */
+export const buildDatedFilename = (
+  prefix: string,
+  extension: string,
+  date: Date = new Date()
+): string => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return `${prefix}_${stamp}.${extension}`;
+};
+
+/**
+ * Descarga un Blob como archivo creando un enlace temporal
+ *
+ * @param blob - Contenido del archivo
+ * @param filename - Nombre con el que se descargará el archivo
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -464,3 +464,24 @@ export function isXlsxFile(file: File): boolean {
     (file && (xlsxMimeTypes.includes(file.type) || extensionPattern.test(file.name)))
   );
 }
+
+/**
+ * Validator para archivos CSV
+ * Verifica el tipo MIME y la extensión del archivo
+ * @param file - Archivo a validar
+ * @returns boolean - true si el archivo es un CSV, false en caso contrario
+ */
+export function isCsvFile(file: File): boolean {
+  const csvMimeTypes = ['text/csv', 'application/csv'];
+  return !!file && (csvMimeTypes.includes(file.type) || /\.csv$/i.test(file.name));
+}
+
+/**
+ * Validator para archivos JSON
+ * Verifica el tipo MIME y la extensión del archivo
+ * @param file - Archivo a validar
+ * @returns boolean - true si el archivo es un JSON, false en caso contrario
+ */
+export function isJsonFile(file: File): boolean {
+  return !!file && (file.type === 'application/json' || /\.json$/i.test(file.name));
+}
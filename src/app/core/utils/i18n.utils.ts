@@ -0,0 +1,194 @@
+import {
+  Language,
+  LanguageLocales,
+  PluralForms,
+  TranslationCatalog,
+} from '../i18n/i18n.model';
+import { ES_CATALOG } from '../i18n/es';
+import { EN_CATALOG } from '../i18n/en';
+
+/**
+ * Utilidades de internacionalización
+ * Traducción por clave con parámetros y plurales, y formato de fechas y números según el idioma activo
+ * El idioma activo vive aquí para que modelos, utilidades e interceptores puedan traducir sin inyección;
+ * LanguageService lo cambia y persiste la preferencia
+ * Pattern: Export functions para máxima reutilización
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+
+// Idioma por defecto y de respaldo para claves sin traducir
+export const DEFAULT_LANGUAGE: Language = 'es';
+
+const catalogs: { [key in Language]: TranslationCatalog } = {
+  es: ES_CATALOG,
+  en: EN_CATALOG,
+};
+
+let currentLanguage: Language = DEFAULT_LANGUAGE;
+
+/**
+ * Obtiene el idioma activo
+ * @returns Language
+ */
+export const getLanguage = (): Language => currentLanguage;
+
+/**
+ * Cambia el idioma activo (usar LanguageService para que la preferencia se guarde)
+ * @param language Idioma a activar
+ * @returns void
+ */
+export const setLanguage = (language: Language): void => {
+  currentLanguage = language;
+};
+
+/**
+ * Indica si un valor es un idioma soportado
+ * @param value Valor a verificar
+ * @returns boolean
+ */
+export const isSupportedLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && value in catalogs;
+
+/**
+ * Obtiene el locale del idioma activo (por ejemplo, es-CO)
+ * @returns string
+ */
+export const getLocale = (): string => LanguageLocales[currentLanguage];
+
+/**
+ * Busca una clave con puntos (por ejemplo, errors.notFound) en un catálogo
+ * @param catalog Catálogo donde buscar
+ * @param key Clave a buscar
+ * @returns Texto, formas plurales o undefined si no existe
+ */
+const lookup = (
+  catalog: TranslationCatalog,
+  key: string,
+): string | PluralForms | undefined => {
+  let node: TranslationCatalog[string] | undefined = catalog;
+  for (const part of key.split('.')) {
+    if (!node || typeof node === 'string') return undefined;
+    node = (node as TranslationCatalog)[part];
+  }
+  if (typeof node === 'string' || isPluralForms(node)) return node;
+  return undefined;
+};
+
+/**
+ * Indica si un nodo del catálogo son formas plurales
+ * @param node Nodo a verificar
+ * @returns boolean
+ */
+const isPluralForms = (node: unknown): node is PluralForms =>
+  !!node && typeof (node as PluralForms).other === 'string';
+
+/**
+ * Traduce una clave al idioma activo
+ * Si el texto tiene formas plurales se elige según params.count; los parámetros {nombre} se reemplazan
+ * Las claves sin traducción usan el español y, si tampoco existen, se devuelve la propia clave
+ * @param key Clave del catálogo
+ * @param params Parámetros del texto (opcional)
+ * @returns string
+ */
+export const translate = (
+  key: string,
+  params?: Record<string, string | number>,
+): string => {
+  const entry =
+    lookup(catalogs[currentLanguage], key) ??
+    lookup(catalogs[DEFAULT_LANGUAGE], key);
+  if (entry === undefined) return key;
+
+  let text: string;
+  if (typeof entry === 'string') {
+    text = entry;
+  } else {
+    const rule = new Intl.PluralRules(getLocale()).select(Number(params?.['count'] ?? 0));
+    text = entry[rule] ?? entry.other;
+  }
+
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name) =>
+    params[name] !== undefined
+      ? typeof params[name] === 'number'
+        ? formatNumber(params[name] as number)
+        : String(params[name])
+      : match,
+  );
+};
+
+/**
+ * Obtiene el texto de una clave en todos los idiomas soportados
+ * Sirve para reconocer textos escritos por el usuario sin importar el idioma activo (por ejemplo, en archivos importados)
+ * @param key Clave del catálogo
+ * @returns string[] Textos encontrados (las formas plurales se omiten)
+ */
+export const translateAll = (key: string): string[] =>
+  Object.values(catalogs)
+    .map((catalog) => lookup(catalog, key))
+    .filter((entry): entry is string => typeof entry === 'string');
+
+/**
+ * Crea un mapa de labels que se traduce al idioma activo cada vez que se lee
+ * Permite mantener constantes como DeviceStatusLabels[status] sin cambiar sus usos
+ * @param section Sección del catálogo (por ejemplo, deviceStatus)
+ * @param keys Claves del mapa
+ * @returns Mapa de solo lectura con un label por clave
+ */
+export const translatedLabels = <K extends string>(
+  section: string,
+  keys: readonly K[],
+): { readonly [key in K]: string } => {
+  const labels = {} as { [key in K]: string };
+  keys.forEach((key) =>
+    Object.defineProperty(labels, key, {
+      enumerable: true,
+      get: () => translate(`${section}.${key}`),
+    }),
+  );
+  return labels;
+};
+
+/**
+ * Formatea una fecha según el idioma activo
+ * @param value Fecha a formatear
+ * @param options Opciones de Intl.DateTimeFormat (por defecto, dd/mm/aaaa)
+ * @returns string
+ */
+export const formatDate = (
+  value: string | number | Date,
+  options: Intl.DateTimeFormatOptions = {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+  },
+): string => new Intl.DateTimeFormat(getLocale(), options).format(new Date(value));
+
+/**
+ * Formatea un número según el idioma activo
+ * @param value Número a formatear
+ * @param options Opciones de Intl.NumberFormat (opcional)
+ * @returns string
+ */
+export const formatNumber = (
+  value: number,
+  options?: Intl.NumberFormatOptions,
+): string => new Intl.NumberFormat(getLocale(), options).format(value);
+
+/**
+ * Formatea una diferencia de tiempo relativa al momento actual (por ejemplo, "hace 3 días" o "3 days ago")
+ * @param value Cantidad negativa para el pasado y positiva para el futuro
+ * @param unit Unidad de tiempo
+ * @returns string con la primera letra en mayúscula
+ */
+export const formatRelativeTime = (
+  value: number,
+  unit: Intl.RelativeTimeFormatUnit,
+): string => {
+  const text = new Intl.RelativeTimeFormat(getLocale(), {
+    numeric: 'auto',
+  }).format(value, unit);
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
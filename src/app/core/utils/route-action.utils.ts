@@ -0,0 +1,38 @@
+import { ActivatedRoute, Router } from '@angular/router';
+import { Observable, filter, map, tap } from 'rxjs';
+
+/**
+ * Utilidades para abrir acciones de una pantalla desde la URL (por ejemplo, desde la paleta de comandos)
+ * Pattern: Export functions para máxima reutilización
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+
+// Query params que piden abrir el formulario de creación de la pantalla de destino
+export const CREATE_ACTION_PARAMS = { action: 'create' } as const;
+
+/**
+ * Emite cada vez que la URL incluye ?action=create y limpia el parámetro
+ * para que recargar la página no vuelva a abrir el formulario
+ * El componente decide si abre el formulario (por ejemplo, según los permisos del usuario)
+ * @param route Ruta activa del componente
+ * @param router Router de la aplicación
+ * @returns Observable que emite una vez por cada solicitud de creación
+ */
+export const listenCreateAction = (
+  route: ActivatedRoute,
+  router: Router,
+): Observable<void> =>
+  route.queryParamMap.pipe(
+    filter((params) => params.get('action') === CREATE_ACTION_PARAMS.action),
+    tap(() =>
+      router.navigate([], {
+        relativeTo: route,
+        queryParams: { action: null },
+        queryParamsHandling: 'merge',
+        replaceUrl: true,
+      }),
+    ),
+    map(() => undefined),
+  );
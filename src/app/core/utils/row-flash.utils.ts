@@ -0,0 +1,53 @@
+/**
+ * Resaltado temporal de filas de una tabla (por ejemplo, tras recibir un cambio en tiempo real)
+ * La animación es la clase global .row-flash (styles.css) y dura lo mismo que ROW_FLASH_DURATION
+ * Uso: rowFlash = new RowFlash(); en la plantilla [class.row-flash]="rowFlash.has(item.id)"
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+
+// Duración del resaltado en milisegundos
+export const ROW_FLASH_DURATION = 2000;
+
+export class RowFlash {
+  private readonly ids = new Set<string>();
+  private readonly timeouts = new Map<string, ReturnType<typeof setTimeout>>();
+
+  /**
+   * Resalta una fila; si ya estaba resaltada, reinicia su duración
+   * @param id ID de la fila
+   * @returns void
+   */
+  flash(id: string): void {
+    const previous = this.timeouts.get(id);
+    if (previous) clearTimeout(previous);
+    this.ids.add(id);
+    this.timeouts.set(
+      id,
+      setTimeout(() => {
+        this.ids.delete(id);
+        this.timeouts.delete(id);
+      }, ROW_FLASH_DURATION),
+    );
+  }
+
+  /**
+   * Indica si una fila está resaltada
+   * @param id ID de la fila
+   * @returns boolean
+   */
+  has(id: string): boolean {
+    return this.ids.has(id);
+  }
+
+  /**
+   * Cancela los resaltados pendientes (llamar al destruir el componente)
+   * @returns void
+   */
+  clear(): void {
+    this.timeouts.forEach((timeout) => clearTimeout(timeout));
+    this.timeouts.clear();
+    this.ids.clear();
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Utilidades de retroalimentación sonora para lecturas de códigos de barras
+ * Pattern: Export functions para máxima reutilización
+ *
+ * @author Bunnystring
+ * @since 2026-10-19
+ */
+
+// Contexto de audio compartido, se crea en la primera lectura
+let audioContext: AudioContext | null = null;
+
+/**
+ * Reproduce un tono corto para indicar el resultado de una lectura
+ * Lectura válida: un tono agudo; lectura rechazada: dos tonos graves
+ * Si el navegador no permite reproducir audio, se ignora silenciosamente
+ *
+ * @param result - Resultado de la lectura
+ */
+export const playScanFeedback = (result: 'success' | 'error'): void => {
+  try {
+    audioContext ??= new AudioContext();
+    const ctx = audioContext;
+    const tones = result === 'success' ? [880] : [220, 180];
+
+    tones.forEach((frequency, index) => {
+      const start = ctx.currentTime + index * 0.18;
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      oscillator.type = result === 'success' ? 'sine' : 'square';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.15, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.15);
+      oscillator.connect(gain).connect(ctx.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.15);
+    });
+  } catch {
+    // Sin soporte de audio: la retroalimentación visual es suficiente
+  }
+};
@@ -1,11 +1,27 @@
 import { CommonModule } from '@angular/common';
-import { Component } from '@angular/core';
+import { Component, HostListener } from '@angular/core';
 import { RouterLink, RouterLinkActive, RouterOutlet } from '@angular/router';
 import { AuthService } from '../../../core/services/auth.service';
 import { User } from '../../../modules/public/auth/models/user.model';
 import { Subject, takeUntil } from 'rxjs';
 import { toast } from 'ngx-sonner';
 import { ThemeService, Theme } from '../../../core/services/theme.service';
+import { LanguageService } from '../../../core/services/language.service';
+import { Language, LanguageLabels } from '../../../core/i18n/i18n.model';
+import { PermissionService } from '../../../core/services/permission.service';
+import { NetworkStatusService } from '../../../core/services/network-status.service';
+import {
+  MutationConflict,
+  OfflineQueueService,
+} from '../../../core/services/offline-queue.service';
+import {
+  ModuleRoles,
+  UserRole,
+  UserRoleLabels,
+} from '../../../modules/public/auth/models/role.model';
+import { CommandPaletteComponent } from '../../../shared/command-palette/command-palette.component';
+import { TranslatePipe } from '../../../shared/pipes/translate.pipe';
+import { LocalDatePipe } from '../../../shared/pipes/local-date.pipe';
 
 /**
  * Componente de Layout Privado
@@ -16,7 +32,15 @@ import { ThemeService, Theme } from '../../../core/services/theme.service';
  */
 @Component({
   selector: 'app-private-layout',
-  imports: [CommonModule, RouterOutlet, RouterLink, RouterLinkActive],
+  imports: [
+    CommonModule,
+    RouterOutlet,
+    RouterLink,
+    RouterLinkActive,
+    CommandPaletteComponent,
+    TranslatePipe,
+    LocalDatePipe,
+  ],
   templateUrl: './private-layout.component.html',
   styleUrl: './private-layout.component.css',
 })
@@ -25,16 +49,41 @@ export class PrivateLayoutComponent {
   isSidebarOpen = true;
   currentTheme: Theme = 'infragest';
 
+  // Idioma activo e idiomas disponibles en el selector
+  currentLanguage: Language = 'es';
+  languages = Object.keys(LanguageLabels) as Language[];
+  LanguageLabels = LanguageLabels;
+
+  // Estado de conexión y de la cola de cambios hechos sin conexión
+  isOnline = true;
+  pendingCount = 0;
+  syncing = false;
+  conflicts: MutationConflict[] = [];
+
+  // Paleta de comandos global (Ctrl+K)
+  showCommandPalette = false;
+
+  // Roles permitidos por módulo para filtrar el menú lateral
+  ModuleRoles = ModuleRoles;
+
   private destroy$ = new Subject<void>();
 
   /**
    * Constructor del componente PrivateLayout
    * @param authService
    * @param themeService
+   * @param languageService
+   * @param permissionService
+   * @param networkStatus
+   * @param offlineQueue
    */
   constructor(
     public authService: AuthService,
     public themeService: ThemeService,
+    private languageService: LanguageService,
+    private permissionService: PermissionService,
+    private networkStatus: NetworkStatusService,
+    private offlineQueue: OfflineQueueService,
   ) {
     /**
      * Suscribirse al tema actual para mantener la preferencia de tema en el layout
@@ -46,6 +95,12 @@ export class PrivateLayoutComponent {
       .subscribe((theme) => {
         this.currentTheme = theme;
       });
+
+    this.languageService.currentLanguage$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((language) => {
+        this.currentLanguage = language;
+      });
   }
 
   /**
@@ -56,6 +111,7 @@ export class PrivateLayoutComponent {
    */
   ngOnInit(): void {
     this.subscribeToUser();
+    this.subscribeToOfflineState();
   }
 
   /**
@@ -88,6 +144,19 @@ export class PrivateLayoutComponent {
     this.isSidebarOpen = !this.isSidebarOpen;
   }
 
+  /**
+   * Abre o cierra la paleta de comandos con Ctrl+K (Cmd+K en macOS)
+   * @param event Evento de teclado del documento
+   * @returns void
+   */
+  @HostListener('document:keydown', ['$event'])
+  onDocumentKeydown(event: KeyboardEvent): void {
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+      event.preventDefault();
+      this.showCommandPalette = !this.showCommandPalette;
+    }
+  }
+
   /**
    * Cambiar tema de la aplicación
    * @param theme - El tema a aplicar ('light', 'dark' o 'infragest')
@@ -97,6 +166,15 @@ export class PrivateLayoutComponent {
     this.themeService.changeTheme(theme);
   }
 
+  /**
+   * Cambiar idioma de la aplicación
+   * @param language - El idioma a aplicar ('es' o 'en')
+   * @returns void
+   */
+  changeLanguage(language: Language): void {
+    this.languageService.changeLanguage(language);
+  }
+
   /**
    * Suscribirse al usuario actual
    * @returns void
@@ -109,6 +187,55 @@ export class PrivateLayoutComponent {
       });
   }
 
+  /**
+   * Suscribirse al estado de conexión y de la cola offline para el indicador del navbar
+   * @returns void
+   */
+  private subscribeToOfflineState(): void {
+    this.networkStatus.online$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((online) => (this.isOnline = online));
+    this.offlineQueue.pending$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((count) => (this.pendingCount = count));
+    this.offlineQueue.syncing$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((syncing) => (this.syncing = syncing));
+    this.offlineQueue.conflicts$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((conflicts) => (this.conflicts = conflicts));
+  }
+
+  /**
+   * Indica si se debe mostrar el indicador de conexión en el navbar
+   * @returns boolean
+   */
+  get showConnectionIndicator(): boolean {
+    return (
+      !this.isOnline ||
+      this.syncing ||
+      this.pendingCount > 0 ||
+      this.conflicts.length > 0
+    );
+  }
+
+  /**
+   * Reintenta enviar los cambios pendientes de la cola offline
+   * @returns void
+   */
+  retrySync(): void {
+    this.offlineQueue.replay();
+  }
+
+  /**
+   * Descarta un conflicto ya revisado por el usuario
+   * @param conflict Conflicto a descartar
+   * @returns void
+   */
+  dismissConflict(conflict: MutationConflict): void {
+    this.offlineQueue.dismissConflict(conflict);
+  }
+
   /**
    * Limpieza al destruir el componente
    * @returns void
@@ -150,4 +277,23 @@ export class PrivateLayoutComponent {
     const user = this.user;
     return user?.email || '';
   }
+
+  /**
+   * Verifica si el usuario puede acceder a un módulo según su rol
+   * Se usa para filtrar los items del menú lateral
+   * @param roles Roles permitidos para el módulo
+   * @returns boolean
+   */
+  canAccess(roles: UserRole[]): boolean {
+    return this.permissionService.hasAnyRole(roles);
+  }
+
+  /**
+   * Obtener el label del rol del usuario autenticado
+   * @returns string
+   */
+  getUserRoleLabel(): string {
+    const role = this.permissionService.getRole();
+    return role ? UserRoleLabels[role] : '';
+  }
 }
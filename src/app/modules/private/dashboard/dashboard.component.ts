@@ -11,6 +11,11 @@ import { Subject } from 'rxjs/internal/Subject';
 import { OrdersService } from '../orders/services/orders.service';
 import { LoadingService } from '../../../core/services/loading.service';
 import { Alerta, DashboardStatsType } from './models/DashboardStats';
+import {
+  formatDate,
+  formatRelativeTime,
+  translate,
+} from '../../../core/utils/i18n.utils';
 
 /**
  * Componente de Dashboard
@@ -432,34 +437,35 @@ export class DashboardComponent implements OnInit, OnDestroy {
       {
         type: 'warning',
         icon: '⚠️',
-        title: 'Dispositivos que necesitan reparación',
-        message: `${stats.needsRepair} dispositivo${stats.needsRepair !== 1 ? 's' : ''} requiere${stats.needsRepair === 1 ? '' : 'n'} atención`,
+        title: translate('dashboard.alerts.needsRepairTitle'),
+        message: translate('dashboard.alerts.needsRepair', { count: stats.needsRepair }),
         count: stats.needsRepair,
       },
       {
         type: 'info',
         icon: '📋',
-        title: 'Órdenes creadas',
-        message: `${stats.createdOrders} orden${stats.createdOrders !== 1 ? 'es' : ''} esperando inicio`,
+        title: translate('dashboard.alerts.createdOrdersTitle'),
+        message: translate('dashboard.alerts.createdOrders', { count: stats.createdOrders }),
         count: stats.createdOrders,
       },
       {
         type: 'primary',
         icon: '🔄',
-        title: 'Órdenes en progreso',
-        message: `${stats.inProcessOrders} orden${stats.inProcessOrders !== 1 ? 'es' : ''} en proceso`,
+        title: translate('dashboard.alerts.inProcessOrdersTitle'),
+        message: translate('dashboard.alerts.inProcessOrders', { count: stats.inProcessOrders }),
         count: stats.inProcessOrders,
       },
       {
         type: 'success',
         icon: '✅',
-        title: 'Órdenes finalizadas',
-        message: `${stats.finishedOrders} orden${stats.finishedOrders !== 1 ? 'es' : ''} completadas`,
+        title: translate('dashboard.alerts.finishedOrdersTitle'),
+        message: translate('dashboard.alerts.finishedOrders', { count: stats.finishedOrders }),
         count: stats.finishedOrders,
       },
     ];
   }
 
+
   /**
    * Obtener clase CSS para el estado de la orden
    * @param state Estado de la orden
@@ -501,16 +507,12 @@ export class DashboardComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Formatear fecha
+   * Formatear fecha según el idioma activo
    * @param date Fecha en formato string
    * @returns Fecha formateada
    */
   formatDate(date: string): string {
-    return new Date(date).toLocaleDateString('es-CO', {
-      day: '2-digit',
-      month: '2-digit',
-      year: 'numeric',
-    });
+    return formatDate(date);
   }
 
   /**
@@ -526,11 +528,10 @@ export class DashboardComponent implements OnInit, OnDestroy {
     const diffHours = Math.floor(diffMs / 3600000);
     const diffDays = Math.floor(diffMs / 86400000);
 
-    if (diffMins < 1) return 'Hace un momento';
-    if (diffMins < 60) return `Hace ${diffMins} min`;
-    if (diffHours < 24) return `Hace ${diffHours}h`;
-    if (diffDays === 1) return 'Ayer';
-    if (diffDays < 7) return `Hace ${diffDays} días`;
+    if (diffMins < 1) return translate('dashboard.justNow');
+    if (diffMins < 60) return formatRelativeTime(-diffMins, 'minute');
+    if (diffHours < 24) return formatRelativeTime(-diffHours, 'hour');
+    if (diffDays < 7) return formatRelativeTime(-diffDays, 'day');
 
     return this.formatDate(date);
   }
@@ -1,30 +1,55 @@
-import { Device } from '../../models/device.model';
+import {
+  BulkDeviceRow,
+  BulkImportColumnMapping,
+  BulkImportTable,
+  BulkUploadReport,
+  CreateDeviceRq,
+  Device,
+  DeviceExportColumnLabels,
+  DeviceStatus,
+  DeviceStatusLabels,
+} from '../../models/device.model';
 import { DevicesService } from './../../services/devices.service';
+import { DeviceImportService } from '../../services/device-import.service';
 import { Component, OnDestroy, OnInit, Output } from '@angular/core';
 import { EventEmitter } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { Subject, of } from 'rxjs';
+import { Subject, forkJoin, from, of } from 'rxjs';
 import {
   takeUntil,
   finalize,
   catchError,
+  map,
   tap,
   switchMap,
 } from 'rxjs/operators';
-import { isXlsxFile } from '../../../../../core/utils/form-validators.utils';
+import {
+  isCsvFile,
+  isJsonFile,
+  isXlsxFile,
+} from '../../../../../core/utils/form-validators.utils';
 import {
   FormBuilder,
   FormGroup,
+  FormsModule,
   Validators,
   ReactiveFormsModule,
 } from '@angular/forms';
 import { toast } from 'ngx-sonner';
+import {
+  buildDatedFilename,
+  downloadBlob,
+} from '../../../../../core/utils/file-download.utils';
+import {
+  getApiErrorMessage,
+  notifyApiError,
+} from '../../../../../core/utils/api-error.utils';
 
 @Component({
   selector: 'app-device-bulk-upload-modal',
   templateUrl: './device-bulk-upload-modal.component.html',
   styleUrls: ['./device-bulk-upload-modal.component.css'],
-  imports: [CommonModule, ReactiveFormsModule],
+  imports: [CommonModule, ReactiveFormsModule, FormsModule],
 })
 export class DeviceBulkUploadModalComponent implements OnInit, OnDestroy {
   // Outputs para comunicar el resultado de la carga masiva y el cierre del modal
@@ -36,10 +61,29 @@ export class DeviceBulkUploadModalComponent implements OnInit, OnDestroy {
   formError = '';
   form!: FormGroup;
 
+  // Vista previa: contenido del archivo, relación de columnas, filas y códigos ya registrados
+  step: 'select' | 'mapping' | 'preview' | 'result' = 'select';
+  table: BulkImportTable | null = null;
+  mapping: BulkImportColumnMapping = {};
+  rows: BulkDeviceRow[] = [];
+  discardedRows: BulkDeviceRow[] = [];
+
+  // Reporte con el resultado de cada fila tras la carga
+  report: BulkUploadReport | null = null;
+  showOnlyInvalid = false;
+  private existingBarcodes = new Set<string>();
+
+  // Estados disponibles para corregir filas y campos a relacionar con columnas
+  statuses = Object.values(DeviceStatus);
+  fields = DeviceImportService.FIELDS;
+  DeviceStatusLabels = DeviceStatusLabels;
+  DeviceExportColumnLabels = DeviceExportColumnLabels;
+
   private readonly destroy$ = new Subject<void>();
 
   constructor(
     private devicesService: DevicesService,
+    private deviceImportService: DeviceImportService,
     private fb: FormBuilder,
   ) {}
 
@@ -54,16 +98,16 @@ export class DeviceBulkUploadModalComponent implements OnInit, OnDestroy {
 
   initForm() {
     this.form = this.fb.group({
-      file: [null, [Validators.required, this.xlsxFileValidator]],
+      file: [null, [Validators.required, this.importFileValidator]],
     });
   }
 
-  xlsxFileValidator = (control: any) => {
+  importFileValidator = (control: any) => {
     const file = control.value as File;
     if (!file) return null;
-    return isXlsxFile(file)
+    return isXlsxFile(file) || isCsvFile(file) || isJsonFile(file)
       ? null
-      : { invalidFileType: 'El archivo debe ser .xls o .xlsx' };
+      : { invalidFileType: 'El archivo debe ser .xlsx, .xls, .csv o .json' };
   };
 
   onFileSelect(event: Event) {
@@ -76,19 +120,283 @@ export class DeviceBulkUploadModalComponent implements OnInit, OnDestroy {
     }
   }
 
-  uploadDevices() {
+  /**
+   * Indica si el archivo seleccionado admite vista previa (los .xls se cargan directamente)
+   * @returns boolean
+   */
+  get canPreviewFile(): boolean {
+    const file: File | null = this.form.get('file')!.value;
+    return !file || this.deviceImportService.canPreview(file);
+  }
+
+  /**
+   * Lee el archivo en el navegador y muestra la vista previa con las filas validadas
+   * Si algún campo no se reconoce en los encabezados, primero pide relacionar las columnas
+   * También obtiene los códigos de barras registrados para detectar duplicados contra el sistema
+   * Los archivos .xls no se pueden leer en el navegador y se envían sin vista previa
+   * @returns void
+   */
+  previewFile(): void {
     if (this.form.invalid) {
-      this.formError = 'Debe seleccionar un archivo válido (.xlsx o .xls)';
+      this.formError = 'Debe seleccionar un archivo válido (.xlsx, .xls, .csv o .json)';
+      return;
+    }
+
+    const file: File = this.form.get('file')!.value;
+    if (!this.deviceImportService.canPreview(file)) {
+      this.uploadWithoutPreview(file);
       return;
     }
 
     this.loading = true;
     this.formError = '';
-    const file: File = this.form.get('file')!.value;
 
-    of(null)
+    forkJoin({
+      table: from(this.deviceImportService.readFile(file)),
+      existing: this.deviceImportService.getExistingBarcodes(),
+    })
+      .pipe(
+        finalize(() => (this.loading = false)),
+        takeUntil(this.destroy$),
+      )
+      .subscribe({
+        next: ({ table, existing }) => {
+          if (!table.records.length) {
+            this.formError = 'El archivo no contiene filas de dispositivos';
+            return;
+          }
+          this.existingBarcodes = existing;
+          this.table = table;
+          this.mapping = this.deviceImportService.suggestMapping(table.headers);
+          if (this.deviceImportService.isMappingComplete(this.mapping)) {
+            this.applyMapping();
+          } else {
+            this.step = 'mapping';
+          }
+        },
+        error: (err) => {
+          this.formError = getApiErrorMessage(err, 'No se pudo leer el archivo');
+        },
+      });
+  }
+
+  /**
+   * Construye las filas de la vista previa con la relación de columnas actual
+   * @returns void
+   */
+  applyMapping(): void {
+    if (!this.table || !this.isMappingComplete) return;
+    this.rows = this.deviceImportService.buildRows(this.table, this.mapping);
+    this.discardedRows = [];
+    if (!this.rows.length) {
+      this.formError = 'Las columnas seleccionadas no contienen datos';
+      return;
+    }
+    this.formError = '';
+    this.revalidate();
+    this.showOnlyInvalid = false;
+    this.step = 'preview';
+  }
+
+  /**
+   * Vuelve a la relación de columnas; las correcciones hechas en la vista previa se descartan
+   * @returns void
+   */
+  editMapping(): void {
+    this.step = 'mapping';
+  }
+
+  /**
+   * Asigna la columna del archivo a un campo
+   * @param field Campo del dispositivo
+   * @param index Índice de la columna o null para quitarla
+   * @returns void
+   */
+  setMapping(field: keyof CreateDeviceRq, index: number | null): void {
+    if (index === null) {
+      delete this.mapping[field];
+    } else {
+      this.mapping[field] = index;
+    }
+  }
+
+  /**
+   * Valor de ejemplo de la primera fila para una columna del archivo
+   * @param index Índice de la columna
+   * @returns string
+   */
+  getSample(index: number | undefined): string {
+    if (index === undefined || !this.table?.records.length) return '';
+    return this.table.records[0].values[index] ?? '';
+  }
+
+  get isMappingComplete(): boolean {
+    return this.deviceImportService.isMappingComplete(this.mapping);
+  }
+
+  /**
+   * Vuelve a validar todas las filas tras una corrección
+   * Se validan todas porque un cambio de código puede resolver o crear duplicados en otras filas
+   * @returns void
+   */
+  revalidate(): void {
+    this.deviceImportService.validateRows(this.rows, this.existingBarcodes);
+  }
+
+  /**
+   * Descarta una fila de la vista previa
+   * @param row Fila a descartar
+   * @returns void
+   */
+  removeRow(row: BulkDeviceRow): void {
+    this.rows = this.rows.filter((r) => r !== row);
+    this.discardedRows.push(row);
+    this.revalidate();
+  }
+
+  /**
+   * Descarta todas las filas con errores
+   * @returns void
+   */
+  removeInvalidRows(): void {
+    this.discardedRows.push(...this.rows.filter((r) => !this.isValidRow(r)));
+    this.rows = this.validRows;
+    this.showOnlyInvalid = false;
+    this.revalidate();
+  }
+
+  /**
+   * Indica si una fila no tiene errores
+   * @param row Fila a verificar
+   * @returns boolean
+   */
+  isValidRow(row: BulkDeviceRow): boolean {
+    return this.deviceImportService.isValidRow(row);
+  }
+
+  /**
+   * Indica si un campo de una fila tiene error
+   * @param row Fila a verificar
+   * @param field Campo a verificar
+   * @returns boolean
+   */
+  hasError(row: BulkDeviceRow, field: keyof CreateDeviceRq): boolean {
+    return !!row.errors[field];
+  }
+
+  /**
+   * Mensajes de error de una fila
+   * @param row Fila a verificar
+   * @returns string[]
+   */
+  getRowErrors(row: BulkDeviceRow): string[] {
+    return Object.values(row.errors).filter((e): e is string => !!e);
+  }
+
+  get validRows(): BulkDeviceRow[] {
+    return this.rows.filter((r) => this.isValidRow(r));
+  }
+
+  get invalidCount(): number {
+    return this.rows.length - this.validRows.length;
+  }
+
+  get visibleRows(): BulkDeviceRow[] {
+    return this.showOnlyInvalid
+      ? this.rows.filter((r) => !this.isValidRow(r))
+      : this.rows;
+  }
+
+  /**
+   * Vuelve a la selección de archivo descartando la vista previa
+   * @returns void
+   */
+  backToSelect(): void {
+    this.step = 'select';
+    this.table = null;
+    this.mapping = {};
+    this.rows = [];
+    this.discardedRows = [];
+    this.report = null;
+    this.formError = '';
+  }
+
+  /**
+   * Descarga la plantilla .xlsx con los encabezados esperados y la lista de estados
+   * @returns void
+   */
+  downloadTemplate(): void {
+    from(this.deviceImportService.buildTemplate())
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (blob) => downloadBlob(blob, 'plantilla_dispositivos.xlsx'),
+        error: () => toast.error('No se pudo generar la plantilla'),
+      });
+  }
+
+  /**
+   * Descarga el reporte de la carga en Excel o en JSON (formato BatchOperationResponse)
+   * @param format Formato del archivo
+   * @returns void
+   */
+  downloadReport(format: 'xlsx' | 'json'): void {
+    const report = this.report;
+    if (!report) return;
+    const filename = buildDatedFilename('reporte_carga_dispositivos', format);
+
+    if (format === 'json') {
+      const blob = new Blob([JSON.stringify(report, null, 2)], {
+        type: 'application/json',
+      });
+      downloadBlob(blob, filename);
+      return;
+    }
+
+    from(this.deviceImportService.buildReportFile(report))
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (blob) => downloadBlob(blob, filename),
+        error: () => toast.error('No se pudo generar el reporte'),
+      });
+  }
+
+  /**
+   * Filas que no se envían al backend con el motivo del rechazo
+   * @returns Filas con errores de validación y filas descartadas por el usuario
+   */
+  private getRejectedRows(): Array<{ row: BulkDeviceRow; error: string }> {
+    return [
+      ...this.rows
+        .filter((r) => !this.isValidRow(r))
+        .map((row) => ({ row, error: this.getRowErrors(row).join('; ') })),
+      ...this.discardedRows.map((row) => ({
+        row,
+        error: 'Descartada en la vista previa',
+      })),
+    ];
+  }
+
+  /**
+   * Envía al backend únicamente las filas válidas de la vista previa
+   * Sin importar el formato de origen, las filas se empaquetan en un .xlsx para reutilizar el endpoint de carga masiva
+   * Al terminar muestra el reporte con el resultado de cada fila del archivo
+   * @returns void
+   */
+  uploadDevices() {
+    const rows = this.validRows;
+    if (!rows.length) {
+      this.formError = 'No hay filas válidas para cargar';
+      return;
+    }
+
+    this.loading = true;
+    this.formError = '';
+
+    const rejected = this.getRejectedRows();
+
+    from(this.deviceImportService.buildUploadFile(rows))
       .pipe(
-        switchMap(() =>
+        switchMap((file) =>
           this.devicesService.uploadBulkDevices(file).pipe(
             tap((devices) => {
               this.uploaded.emit(devices);
@@ -96,24 +404,54 @@ export class DeviceBulkUploadModalComponent implements OnInit, OnDestroy {
                 `${devices.length} dispositivos cargados exitosamente`,
               );
             }),
+            map((devices) =>
+              this.deviceImportService.buildReport(rows, devices, rejected),
+            ),
             catchError((err) => {
-              const msg =
-                err?.error?.message ||
-                err?.message ||
-                'Error al guardar el dispositivo';
-
-              this.formError = msg;
-              toast.error('Error al guardar el dispositivo', {
-                description: msg,
-              });
-              return of([]); // Para terminar el stream
+              const msg = getApiErrorMessage(err, 'Error al guardar el dispositivo');
+              notifyApiError(err, 'Error al guardar el dispositivo');
+              return of(
+                this.deviceImportService.buildReport(rows, [], rejected, msg),
+              );
             }),
           ),
         ),
         finalize(() => (this.loading = false)),
         takeUntil(this.destroy$),
       )
-      .subscribe();
+      .subscribe((report) => {
+        this.report = report;
+        this.step = 'result';
+      });
+  }
+
+  /**
+   * Envía el archivo tal cual al endpoint de carga masiva, sin vista previa ni reporte por fila
+   * El backend valida las filas; si rechaza el archivo, el error se muestra en el formulario
+   * @param file Archivo .xls seleccionado
+   * @returns void
+   */
+  private uploadWithoutPreview(file: File): void {
+    this.loading = true;
+    this.formError = '';
+
+    this.devicesService
+      .uploadBulkDevices(file)
+      .pipe(
+        finalize(() => (this.loading = false)),
+        takeUntil(this.destroy$),
+      )
+      .subscribe({
+        next: (devices) => {
+          this.uploaded.emit(devices);
+          toast.success(`${devices.length} dispositivos cargados exitosamente`);
+          this.closeModal();
+        },
+        error: (err) => {
+          this.formError = getApiErrorMessage(err, 'Error al guardar el dispositivo');
+          notifyApiError(err, 'Error al guardar el dispositivo');
+        },
+      });
   }
 
   closeModal() {
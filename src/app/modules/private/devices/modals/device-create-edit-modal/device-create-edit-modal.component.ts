@@ -23,13 +23,20 @@ import { Subject, takeUntil, finalize } from 'rxjs';
 import { DevicesService } from '../../services/devices.service';
 import { noWhitespaceValidator } from '../../../../../core/utils/form-validators.utils';
 import { toast } from 'ngx-sonner';
+import { OfflineQueuedError } from '../../../../../core/services/offline-queue.service';
+import { TranslatePipe } from '../../../../../shared/pipes/translate.pipe';
+import {
+  applyApiFieldErrors,
+  getApiErrorMessage,
+  notifyApiError,
+} from '../../../../../core/utils/api-error.utils';
 
 @Component({
   selector: 'app-device-create-edit-modal',
   templateUrl: './device-create-edit-modal.component.html',
   standalone: true,
   styleUrls: ['./device-create-edit-modal.component.css'],
-  imports: [CommonModule, ReactiveFormsModule],
+  imports: [CommonModule, ReactiveFormsModule, TranslatePipe],
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class DeviceCreateEditModalComponent
@@ -151,7 +158,11 @@ export class DeviceCreateEditModalComponent
     const value = this.deviceForm.value;
     const isEdit = !!this.device;
     const op$ = this.device
-      ? this.devicesService.updateDevice(this.device.id, value)
+      ? this.devicesService.updateDevice(
+          this.device.id,
+          value,
+          this.device.updatedAt ?? undefined,
+        )
       : this.devicesService.createDevice(value);
 
     op$
@@ -167,15 +178,17 @@ export class DeviceCreateEditModalComponent
           this.save.emit({ device, mode: isEdit ? 'edit' : 'create' });
         },
         error: (err) => {
-          const msg =
-            err?.error?.message ||
-            err?.message ||
-            'Error al guardar el dispositivo';
-
+          if (err instanceof OfflineQueuedError) {
+            toast.info(err.message, { description: err.mutation.description });
+            this.close.emit();
+            return;
+          }
+
+          // Los errores por campo del backend se muestran junto a cada control
+          applyApiFieldErrors(this.deviceForm, err);
+          const msg = getApiErrorMessage(err, 'Error al guardar el dispositivo');
           this.formError = msg;
-          toast.error('Error al guardar el dispositivo', {
-            description: msg,
-          });
+          notifyApiError(err, 'Error al guardar el dispositivo');
         },
       });
   }
@@ -5,6 +5,10 @@ import { CommonModule } from '@angular/common';
 import { toast } from 'ngx-sonner';
 import { finalize } from 'rxjs';
 import {} from 'rxjs';
+import {
+  getApiErrorMessage,
+  notifyApiError,
+} from '../../../../../core/utils/api-error.utils';
 
 @Component({
   selector: 'app-device-delete-modal',
@@ -48,15 +52,9 @@ export class DeviceDeleteModalComponent implements OnInit {
           this.deleted.emit();
         },
         error: (err) => {
-          const msg =
-            err?.error?.message ||
-            err?.message ||
-            'Error al eliminar el dispositivo';
-
+          const msg = getApiErrorMessage(err, 'Error al eliminar el dispositivo');
           this.error = msg;
-          toast.error('Error al eliminar el dispositivo', {
-            description: msg,
-          });
+          notifyApiError(err, 'Error al eliminar el dispositivo');
         },
       });
   }
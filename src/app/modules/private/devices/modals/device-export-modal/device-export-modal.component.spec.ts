@@ -0,0 +1,69 @@
+import { ComponentFixture, TestBed, fakeAsync, flushMicrotasks } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+
+import { DeviceExportModalComponent } from './device-export-modal.component';
+import { DeviceStatus } from '../../models/device.model';
+import { DeviceExportService } from '../../services/device-export.service';
+import { environment } from '../../../../../../environments/environment';
+
+describe('DeviceExportModalComponent', () => {
+  let component: DeviceExportModalComponent;
+  let fixture: ComponentFixture<DeviceExportModalComponent>;
+  let httpMock: HttpTestingController;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [DeviceExportModalComponent],
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(DeviceExportModalComponent);
+    component = fixture.componentInstance;
+    component.totalItems = 12;
+    component.filters = { status: DeviceStatus.FAIR, brand: 'Dell' };
+    httpMock = TestBed.inject(HttpTestingController);
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('debe generar el archivo con los dispositivos filtrados y las columnas seleccionadas, descargarlo y cerrar', fakeAsync(() => {
+    const clickSpy = spyOn(HTMLAnchorElement.prototype, 'click');
+    const buildSpy = spyOn(TestBed.inject(DeviceExportService), 'buildExportFile').and.callThrough();
+    const closeSpy = jasmine.createSpy('close');
+    component.close.subscribe(closeSpy);
+
+    component.format = 'csv';
+    component.toggleColumn('barcode');
+    component.exportDevices();
+
+    const req = httpMock.expectOne((r) => r.url === `${environment.apiUrl}/devices/paginated`);
+    expect(req.request.params.get('limit')).toBe('12');
+    expect(req.request.params.get('status')).toBe(DeviceStatus.FAIR);
+    expect(req.request.params.get('brand')).toBe('Dell');
+    req.flush({ data: [], pagination: { page: 1, limit: 12, total: 0, totalPages: 0, hasNext: false, hasPrev: false } });
+    flushMicrotasks();
+
+    expect(buildSpy).toHaveBeenCalledWith([], jasmine.objectContaining({ format: 'csv' }));
+    expect(buildSpy.calls.mostRecent().args[1].columns).not.toContain('barcode');
+    expect(clickSpy).toHaveBeenCalled();
+    expect(closeSpy).toHaveBeenCalled();
+  }));
+
+  it('NO debe exportar sin columnas seleccionadas', () => {
+    component.columns.forEach((column) => component.toggleColumn(column));
+
+    expect(component.canExport()).toBeFalse();
+    component.exportDevices();
+
+    httpMock.expectNone((r) => r.url === `${environment.apiUrl}/devices/paginated`);
+  });
+});
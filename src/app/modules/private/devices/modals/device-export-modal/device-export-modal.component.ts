@@ -0,0 +1,159 @@
+import { Component, Input, Output, EventEmitter, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, finalize, switchMap, takeUntil } from 'rxjs';
+import { toast } from 'ngx-sonner';
+import {
+  Device,
+  DeviceExportColumnLabels,
+  DeviceFilters,
+  DeviceStatusLabels,
+  ExportFormatExtensions,
+  ExportFormatLabels,
+  ExportOptions,
+} from '../../models/device.model';
+import { DevicesService } from '../../services/devices.service';
+import { DeviceExportService } from '../../services/device-export.service';
+import {
+  buildDatedFilename,
+  downloadBlob,
+} from '../../../../../core/utils/file-download.utils';
+import {
+  getApiErrorMessage,
+  notifyApiError,
+} from '../../../../../core/utils/api-error.utils';
+
+@Component({
+  selector: 'app-device-export-modal',
+  templateUrl: './device-export-modal.component.html',
+  styleUrls: ['./device-export-modal.component.css'],
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+})
+export class DeviceExportModalComponent implements OnDestroy {
+  // Inputs y Outputs
+  @Input() filters: DeviceFilters = {};
+  @Input() totalItems = 0;
+  @Output() close = new EventEmitter<void>();
+
+  // Opciones disponibles
+  formats: ExportOptions['format'][] = ['csv', 'excel'];
+  columns = Object.keys(DeviceExportColumnLabels) as Array<keyof Device>;
+  ExportFormatLabels = ExportFormatLabels;
+  DeviceExportColumnLabels = DeviceExportColumnLabels;
+  DeviceStatusLabels = DeviceStatusLabels;
+
+  // Opciones seleccionadas
+  format: ExportOptions['format'] = 'excel';
+  selectedColumns = new Set<keyof Device>(this.columns);
+  includeStats = false;
+
+  // Estado de carga y error
+  loading = false;
+  error = '';
+
+  // Subject para manejar la destrucción del componente y evitar fugas de memoria
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private devicesService: DevicesService,
+    private deviceExportService: DeviceExportService,
+  ) {}
+
+  /**
+   * Limpia recursos al destruir el componente
+   * @returns void
+   */
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Filtros activos con su label para mostrarlos en el resumen del diálogo
+   * @returns Lista de filtros aplicados
+   */
+  get activeFilters(): Array<{ label: string; value: string }> {
+    const { search, status, brand, dateFrom, dateTo } = this.filters;
+    const active: Array<{ label: string; value: string }> = [];
+    if (search) active.push({ label: 'Búsqueda', value: search });
+    if (status && status !== 'ALL')
+      active.push({ label: 'Estado', value: DeviceStatusLabels[status] });
+    if (brand) active.push({ label: 'Marca', value: brand });
+    if (dateFrom) active.push({ label: 'Desde', value: dateFrom });
+    if (dateTo) active.push({ label: 'Hasta', value: dateTo });
+    return active;
+  }
+
+  /**
+   * Marca o desmarca una columna para la exportación
+   * @param column Columna a alternar
+   * @returns void
+   */
+  toggleColumn(column: keyof Device): void {
+    if (this.selectedColumns.has(column)) {
+      this.selectedColumns.delete(column);
+    } else {
+      this.selectedColumns.add(column);
+    }
+  }
+
+  /**
+   * Indica si la exportación puede ejecutarse
+   * @returns boolean Verdadero si hay dispositivos y al menos una columna seleccionada
+   */
+  canExport(): boolean {
+    return !this.loading && this.totalItems > 0 && this.selectedColumns.size > 0;
+  }
+
+  /**
+   * Obtiene los dispositivos filtrados, genera el archivo en el navegador y lo descarga con un nombre fechado
+   * @returns void
+   */
+  exportDevices(): void {
+    if (!this.canExport()) return;
+    this.loading = true;
+    this.error = '';
+
+    // Mantiene el orden de columnas definido en DeviceExportColumnLabels
+    const columns = this.columns.filter((c) => this.selectedColumns.has(c));
+    const format = this.format;
+
+    this.devicesService
+      .getDevicesPaginated({ page: 1, limit: this.totalItems }, this.filters)
+      .pipe(
+        switchMap((response) =>
+          this.deviceExportService.buildExportFile(response.data, {
+            format,
+            columns,
+            includeStats: this.includeStats,
+          }),
+        ),
+        takeUntil(this.destroy$),
+        finalize(() => (this.loading = false)),
+      )
+      .subscribe({
+        next: (blob) => {
+          downloadBlob(
+            blob,
+            buildDatedFilename('dispositivos', ExportFormatExtensions[format]),
+          );
+          toast.success('Exportación generada');
+          this.close.emit();
+        },
+        error: (err) => {
+          const msg = getApiErrorMessage(err, 'Error al exportar');
+          this.error = msg;
+          notifyApiError(err, 'Error al exportar dispositivos');
+        },
+      });
+  }
+
+  /**
+   * Cierra el diálogo sin exportar
+   * @returns void
+   */
+  cancel(): void {
+    this.close.emit();
+  }
+}
@@ -0,0 +1,72 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { DeviceLabelsModalComponent } from './device-labels-modal.component';
+import { Device, DeviceStatus, LabelSheetLayouts } from '../../models/device.model';
+
+describe('DeviceLabelsModalComponent', () => {
+  let component: DeviceLabelsModalComponent;
+  let fixture: ComponentFixture<DeviceLabelsModalComponent>;
+
+  const device = (id: string, barcode: string): Device => ({
+    id,
+    name: `Dispositivo ${id}`,
+    brand: 'Dell',
+    barcode,
+    status: DeviceStatus.GOOD_CONDITION,
+    createdAt: '2026-10-01T10:00:00Z',
+    updatedAt: null,
+  });
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [DeviceLabelsModalComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(DeviceLabelsModalComponent);
+    component = fixture.componentInstance;
+    component.devices = [device('d1', 'INF-0001'), device('d2', 'INF-0002'), device('d3', 'INF-0003')];
+    fixture.detectChanges();
+    await fixture.whenStable();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('debe generar el código de barras y el QR de cada dispositivo', () => {
+    expect(component.loading).toBeFalse();
+    expect(component.labels.length).toBe(3);
+    component.labels.forEach((label) => {
+      expect(label.barcodeSrc).toBeTruthy();
+      expect(label.qrSrc).toBeTruthy();
+    });
+  });
+
+  it('debe dejar vacías las posiciones anteriores a la inicial', () => {
+    component.startPosition = 3;
+
+    const [sheet] = component.sheets;
+    expect(sheet.length).toBe(component.labelsPerSheet);
+    expect(sheet.slice(0, 2)).toEqual([null, null]);
+    expect(sheet[2]?.device.id).toBe('d1');
+  });
+
+  it('debe pasar a una nueva hoja cuando las etiquetas no caben', () => {
+    component.startPosition = component.labelsPerSheet;
+
+    const sheets = component.sheets;
+    expect(sheets.length).toBe(2);
+    expect(sheets[0][component.labelsPerSheet - 1]?.device.id).toBe('d1');
+    expect(sheets[1][0]?.device.id).toBe('d2');
+  });
+
+  it('debe reiniciar la posición inicial al cambiar de formato', () => {
+    component.startPosition = 5;
+
+    component.onLayoutChange(LabelSheetLayouts[1]);
+
+    expect(component.layout).toBe(LabelSheetLayouts[1]);
+    expect(component.startPosition).toBe(1);
+  });
+});
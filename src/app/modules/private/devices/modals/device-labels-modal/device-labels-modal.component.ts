@@ -0,0 +1,272 @@
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  OnInit,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { toast } from 'ngx-sonner';
+import {
+  Device,
+  LabelSheetLayout,
+  LabelSheetLayouts,
+} from '../../models/device.model';
+import {
+  renderCode128,
+  renderQrCode,
+} from '../../../../../core/utils/barcode-render.utils';
+
+/**
+ * Etiqueta lista para imprimir con sus imágenes generadas
+ */
+interface DeviceLabel {
+  device: Device;
+  barcodeSrc: string | null;
+  qrSrc: string | null;
+}
+
+@Component({
+  selector: 'app-device-labels-modal',
+  templateUrl: './device-labels-modal.component.html',
+  styleUrls: ['./device-labels-modal.component.css'],
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+})
+export class DeviceLabelsModalComponent implements OnInit {
+  // Inputs y Outputs
+  @Input() devices: Device[] = [];
+  @Output() close = new EventEmitter<void>();
+
+  // Formatos disponibles y opciones seleccionadas
+  layouts = LabelSheetLayouts;
+  layout: LabelSheetLayout = LabelSheetLayouts[0];
+  startPosition = 1;
+  includeQr = true;
+
+  // Etiquetas generadas
+  labels: DeviceLabel[] = [];
+  loading = false;
+
+  /**
+   * Genera las imágenes de las etiquetas al abrir el diálogo
+   * @returns void
+   */
+  ngOnInit(): void {
+    this.generateLabels();
+  }
+
+  /**
+   * Genera el Code128 y el QR de cada dispositivo seleccionado
+   * El QR enlaza al detalle del dispositivo dentro de la aplicación
+   * @returns Promise<void>
+   */
+  async generateLabels(): Promise<void> {
+    this.loading = true;
+    try {
+      this.labels = await Promise.all(
+        this.devices.map(async (device) => ({
+          device,
+          barcodeSrc: device.barcode ? renderCode128(device.barcode) : null,
+          qrSrc: await renderQrCode(this.getDeviceUrl(device)),
+        })),
+      );
+      const invalid = this.labels.filter((l) => !l.barcodeSrc).length;
+      if (invalid) {
+        toast.warning(
+          `${invalid} ${invalid === 1 ? 'dispositivo no tiene' : 'dispositivos no tienen'} un código de barras imprimible`,
+        );
+      }
+    } catch {
+      toast.error('No se pudieron generar las etiquetas');
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  /**
+   * URL absoluta del detalle de un dispositivo
+   * @param device Dispositivo
+   * @returns string URL del detalle
+   */
+  getDeviceUrl(device: Device): string {
+    return `${window.location.origin}/app/devices/${device.id}`;
+  }
+
+  /**
+   * Número de etiquetas por hoja del formato seleccionado
+   * @returns number
+   */
+  get labelsPerSheet(): number {
+    return this.layout.columns * this.layout.rows;
+  }
+
+  /**
+   * Posiciones de la primera hoja disponibles para empezar a imprimir
+   * Permite reutilizar hojas parcialmente usadas
+   * @returns number[] Posiciones de 1 a labelsPerSheet
+   */
+  get positions(): number[] {
+    return Array.from({ length: this.labelsPerSheet }, (_, i) => i + 1);
+  }
+
+  /**
+   * Reparte las etiquetas en hojas, dejando vacías las posiciones anteriores a la inicial
+   * @returns (DeviceLabel | null)[][] Hojas con sus celdas en orden de lectura
+   */
+  get sheets(): (DeviceLabel | null)[][] {
+    const start = Math.min(
+      Math.max(this.startPosition, 1),
+      this.labelsPerSheet,
+    );
+    const cells: (DeviceLabel | null)[] = [
+      ...Array<null>(start - 1).fill(null),
+      ...this.labels,
+    ];
+    const sheets: (DeviceLabel | null)[][] = [];
+    for (let i = 0; i < cells.length; i += this.labelsPerSheet) {
+      const sheet = cells.slice(i, i + this.labelsPerSheet);
+      sheets.push([
+        ...sheet,
+        ...Array<null>(this.labelsPerSheet - sheet.length).fill(null),
+      ]);
+    }
+    return sheets;
+  }
+
+  /**
+   * Cambia el formato de hoja y reinicia la posición inicial
+   * @param layout Formato seleccionado
+   * @returns void
+   */
+  onLayoutChange(layout: LabelSheetLayout): void {
+    this.layout = layout;
+    this.startPosition = 1;
+  }
+
+  /**
+   * Posición de una celda en porcentaje de la hoja para la vista previa
+   * @param index Índice de la celda dentro de la hoja
+   * @returns Estilos de posición y tamaño
+   */
+  getCellStyle(index: number): Record<string, string> {
+    const { left, top } = this.getCellOffset(index);
+    const l = this.layout;
+    return {
+      left: `${(left / l.pageWidth) * 100}%`,
+      top: `${(top / l.pageHeight) * 100}%`,
+      width: `${(l.labelWidth / l.pageWidth) * 100}%`,
+      height: `${(l.labelHeight / l.pageHeight) * 100}%`,
+    };
+  }
+
+  /**
+   * Abre la vista de impresión con las hojas a tamaño real
+   * Desde el diálogo del navegador se puede imprimir o guardar como PDF
+   * @returns void
+   */
+  print(): void {
+    if (this.loading || !this.labels.length) return;
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      toast.error('El navegador bloqueó la ventana de impresión');
+      return;
+    }
+    printWindow.document.open();
+    printWindow.document.write(this.buildPrintDocument());
+    printWindow.document.close();
+  }
+
+  /**
+   * Construye el documento HTML de impresión con medidas en milímetros
+   * @returns string Documento HTML completo
+   */
+  private buildPrintDocument(): string {
+    const l = this.layout;
+    const pages = this.sheets
+      .map(
+        (sheet) =>
+          `<section class="sheet">${sheet
+            .map((label, index) => this.buildPrintLabel(label, index))
+            .join('')}</section>`,
+      )
+      .join('');
+
+    return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>Etiquetas de dispositivos</title>
+<style>
+  @page { size: ${l.pageWidth}mm ${l.pageHeight}mm; margin: 0; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: Arial, sans-serif; }
+  .sheet { position: relative; width: ${l.pageWidth}mm; height: ${l.pageHeight}mm; page-break-after: always; overflow: hidden; }
+  .label { position: absolute; width: ${l.labelWidth}mm; height: ${l.labelHeight}mm; padding: 2mm; display: flex; gap: 2mm; align-items: center; overflow: hidden; }
+  .qr { height: 100%; aspect-ratio: 1; flex: none; }
+  .info { flex: 1; min-width: 0; display: flex; flex-direction: column; height: 100%; justify-content: space-between; }
+  .name { font-size: 9pt; font-weight: bold; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  .brand { font-size: 7pt; color: #444; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  .barcode { width: 100%; height: 35%; object-fit: fill; }
+  .code { font-size: 7pt; font-family: monospace; text-align: center; }
+</style>
+</head>
+<body onload="window.print()">${pages}</body>
+</html>`;
+  }
+
+  /**
+   * Construye el HTML de una etiqueta en su posición absoluta dentro de la hoja
+   * @param label Etiqueta a imprimir o null si la posición queda vacía
+   * @param index Índice de la celda dentro de la hoja
+   * @returns string HTML de la etiqueta
+   */
+  private buildPrintLabel(label: DeviceLabel | null, index: number): string {
+    if (!label) return '';
+    const { left, top } = this.getCellOffset(index);
+    const { device, barcodeSrc, qrSrc } = label;
+    const qr =
+      this.includeQr && qrSrc ? `<img class="qr" src="${qrSrc}" alt="">` : '';
+    const barcode = barcodeSrc
+      ? `<img class="barcode" src="${barcodeSrc}" alt="">`
+      : '';
+    return `<div class="label" style="left:${left}mm;top:${top}mm">${qr}<div class="info"><div><div class="name">${this.escapeHtml(device.name)}</div><div class="brand">${this.escapeHtml(device.brand || '')}</div></div>${barcode}<div class="code">${this.escapeHtml(device.barcode || '')}</div></div></div>`;
+  }
+
+  /**
+   * Calcula la posición en milímetros de una celda dentro de la hoja
+   * @param index Índice de la celda en orden de lectura
+   * @returns Distancia izquierda y superior en milímetros
+   */
+  private getCellOffset(index: number): { left: number; top: number } {
+    const l = this.layout;
+    const column = index % l.columns;
+    const row = Math.floor(index / l.columns);
+    return {
+      left: l.marginLeft + column * (l.labelWidth + l.gapX),
+      top: l.marginTop + row * (l.labelHeight + l.gapY),
+    };
+  }
+
+  /**
+   * Escapa texto para insertarlo en el documento de impresión
+   * @param value Texto a escapar
+   * @returns string Texto seguro para HTML
+   */
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Cierra el diálogo sin imprimir
+   * @returns void
+   */
+  cancel(): void {
+    this.close.emit();
+  }
+}
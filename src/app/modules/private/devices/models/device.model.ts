@@ -1,3 +1,8 @@
+import {
+  formatRelativeTime,
+  translatedLabels,
+} from '../../../../core/utils/i18n.utils';
+
 /**
  * Request para crear un nuevo dispositivo
  */
@@ -33,14 +38,10 @@ export enum DeviceStatus {
 }
 
 /**
- * Labels para mostrar en UI
+ * Labels para mostrar en UI, traducidos al idioma activo
  */
-export const DeviceStatusLabels: { [key in DeviceStatus]: string } = {
-  [DeviceStatus.GOOD_CONDITION]: 'Buenas Condiciones',
-  [DeviceStatus.OCCUPIED]: 'Ocupado',
-  [DeviceStatus.NEEDS_REPAIR]: 'Necesita Reparación',
-  [DeviceStatus.FAIR]: 'Regular'
-};
+export const DeviceStatusLabels: { readonly [key in DeviceStatus]: string } =
+  translatedLabels('deviceStatus', Object.values(DeviceStatus));
 
 /**
  * Colores para badges en UI
@@ -142,14 +143,176 @@ export interface PaginatedDevicesResponse {
 
 /**
  * Opciones para exportar dispositivos
+ * El archivo se genera en el navegador; el resumen de estadísticas solo se incluye en Excel
  */
 export interface ExportOptions {
-  format: 'csv' | 'excel' | 'pdf';
-  filters?: DeviceFilters;
+  format: 'csv' | 'excel';
   columns?: Array<keyof Device>;
   includeStats?: boolean;
 }
 
+/**
+ * Extensiones de archivo por formato de exportación
+ */
+export const ExportFormatExtensions: { [key in ExportOptions['format']]: string } = {
+  csv: 'csv',
+  excel: 'xlsx',
+};
+
+/**
+ * Labels de los formatos de exportación
+ */
+export const ExportFormatLabels: { [key in ExportOptions['format']]: string } = {
+  csv: 'CSV',
+  excel: 'Excel',
+};
+
+/**
+ * Columnas exportables de un dispositivo con su label para mostrar en UI, traducido al idioma activo
+ */
+export const DeviceExportColumnLabels: Partial<Record<keyof Device, string>> =
+  translatedLabels('deviceColumn', [
+    'name',
+    'brand',
+    'barcode',
+    'status',
+    'createdAt',
+    'updatedAt',
+  ] as const);
+
+/**
+ * Errores de validación de una fila de carga masiva por campo
+ */
+export type BulkDeviceRowErrors = Partial<Record<keyof CreateDeviceRq, string>>;
+
+/**
+ * Fila de un archivo de carga masiva en la vista previa
+ * Los valores se mantienen como texto para poder corregirlos antes de enviarlos
+ */
+export interface BulkDeviceRow {
+  rowNumber: number;
+  name: string;
+  brand: string;
+  barcode: string;
+  status: string;
+  errors: BulkDeviceRowErrors;
+}
+
+/**
+ * Contenido tabular leído de un archivo de carga masiva (Excel, CSV o JSON)
+ */
+export interface BulkImportTable {
+  headers: string[];
+  records: Array<{ rowNumber: number; values: string[] }>;
+}
+
+/**
+ * Índice de la columna del archivo que corresponde a cada campo de CreateDeviceRq
+ */
+export type BulkImportColumnMapping = Partial<Record<keyof CreateDeviceRq, number>>;
+
+/**
+ * Resultado de una fila del archivo tras la carga masiva
+ */
+export interface BulkUploadRowResult {
+  rowNumber: number;
+  name: string;
+  brand: string;
+  barcode: string;
+  status: string;
+  created: boolean;
+  deviceId?: string;
+  error?: string;
+}
+
+/**
+ * Reporte de carga masiva con el formato de BatchOperationResponse
+ * En `failed` el id es el número de fila del archivo; `rows` detalla cada fila de entrada
+ */
+export interface BulkUploadReport extends BatchOperationResponse {
+  rows: BulkUploadRowResult[];
+}
+
+/**
+ * Formato de hoja de etiquetas adhesivas (medidas en milímetros)
+ */
+export interface LabelSheetLayout {
+  id: string;
+  name: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  gapX: number;
+  gapY: number;
+}
+
+/**
+ * Formatos de papel de etiquetas más comunes
+ */
+export const LabelSheetLayouts: LabelSheetLayout[] = [
+  {
+    id: 'L7160',
+    name: 'A4 · 21 etiquetas (63,5 × 38,1 mm)',
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 7.25,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: 'L7159',
+    name: 'A4 · 24 etiquetas (63,5 × 33,9 mm)',
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 3,
+    rows: 8,
+    labelWidth: 63.5,
+    labelHeight: 33.9,
+    marginTop: 12.9,
+    marginLeft: 6.45,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: 'L7163',
+    name: 'A4 · 14 etiquetas (99,1 × 38,1 mm)',
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 2,
+    rows: 7,
+    labelWidth: 99.1,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 4.65,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: '5160',
+    name: 'Carta · 30 etiquetas (66,7 × 25,4 mm)',
+    pageWidth: 215.9,
+    pageHeight: 279.4,
+    columns: 3,
+    rows: 10,
+    labelWidth: 66.7,
+    labelHeight: 25.4,
+    marginTop: 12.7,
+    marginLeft: 4.8,
+    gapX: 3.1,
+    gapY: 0,
+  },
+];
+
 /**
  * Utilidades para trabajar con dispositivos
  */
@@ -193,7 +356,7 @@ export class DeviceUtils {
   }
 
   /**
-   * Formatea la fecha de creación de forma amigable
+   * Formatea la fecha de creación de forma amigable y según el idioma activo (Hoy, Ayer, Hace 3 días...)
    */
   static formatCreatedAt(device: Device): string {
     const date = new Date(device.createdAt);
@@ -201,12 +364,10 @@ export class DeviceUtils {
     const diffMs = now.getTime() - date.getTime();
     const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
 
-    if (diffDays === 0) return 'Hoy';
-    if (diffDays === 1) return 'Ayer';
-    if (diffDays < 7) return `Hace ${diffDays} días`;
-    if (diffDays < 30) return `Hace ${Math.floor(diffDays / 7)} semanas`;
-    if (diffDays < 365) return `Hace ${Math.floor(diffDays / 30)} meses`;
-    return `Hace ${Math.floor(diffDays / 365)} años`;
+    if (diffDays < 7) return formatRelativeTime(-diffDays, 'day');
+    if (diffDays < 30) return formatRelativeTime(-Math.floor(diffDays / 7), 'week');
+    if (diffDays < 365) return formatRelativeTime(-Math.floor(diffDays / 30), 'month');
+    return formatRelativeTime(-Math.floor(diffDays / 365), 'year');
   }
 
   /**
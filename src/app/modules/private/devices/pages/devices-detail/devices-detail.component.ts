@@ -19,14 +19,18 @@ import { CommonModule } from '@angular/common';
 import { Location } from '@angular/common';
 import { OrdersService } from '../../../orders/services/orders.service';
 import { LoadingService } from '../../../../../core/services/loading.service';
-import { toast } from 'ngx-sonner';
+import {
+  getApiErrorMessage,
+  notifyApiError,
+} from '../../../../../core/utils/api-error.utils';
+import { LocalDatePipe } from '../../../../../shared/pipes/local-date.pipe';
 
 @Component({
   selector: 'app-devices-detail',
   templateUrl: './devices-detail.component.html',
   styleUrls: ['./devices-detail.component.css'],
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, LocalDatePipe],
 })
 export class DevicesDetailComponent implements OnInit, OnDestroy {
   // Observables para el dispositivo y su historial de asignaciones
@@ -112,8 +116,8 @@ export class DevicesDetailComponent implements OnInit, OnDestroy {
     return forkJoin({
       device: this.devicesService.getDeviceById(deviceId).pipe(
         catchError((err) => {
-          toast.error('Error al cargar el dispositivo');
-          this.error = err?.error?.message || 'Error al cargar dispositivo';
+          this.error = getApiErrorMessage(err, 'Error al cargar dispositivo');
+          notifyApiError(err, 'Error al cargar el dispositivo');
           return of(null);
         }),
       ),
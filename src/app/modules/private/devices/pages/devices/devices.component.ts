@@ -7,8 +7,6 @@ import {
   takeUntil,
   BehaviorSubject,
   Observable,
-  combineLatest,
-  startWith,
   map,
   tap,
   catchError,
@@ -16,6 +14,9 @@ import {
   of,
   take,
   exhaustMap,
+  switchMap,
+  debounceTime,
+  filter,
 } from 'rxjs';
 import {
   Device,
@@ -24,7 +25,9 @@ import {
   DeviceStatusColors,
   DeviceFormResult,
   DeviceUpdateBatchRq,
-  DevicesBatchRq,
+  DeviceFilters,
+  PaginatedDevicesResponse,
+  PaginationParams,
 } from '../../models/device.model';
 import { toast } from 'ngx-sonner';
 import { DeviceCreateEditModalComponent } from '../../modals/device-create-edit-modal/device-create-edit-modal.component';
@@ -32,6 +35,26 @@ import { LoadingService } from '../../../../../core/services/loading.service';
 import { DevicesService } from '../../services/devices.service';
 import { DeviceDeleteModalComponent } from '../../modals/device-delete-modal/device-delete-modal.component';
 import { DeviceBulkUploadModalComponent } from '../../modals/device-bulk-upload-modal/device-bulk-upload-modal.component';
+import { DeviceExportModalComponent } from '../../modals/device-export-modal/device-export-modal.component';
+import { DeviceLabelsModalComponent } from '../../modals/device-labels-modal/device-labels-modal.component';
+import { HasPermissionDirective } from '../../../../../shared/directives/has-permission.directive';
+import { BarcodeScannerDirective } from '../../../../../shared/directives/barcode-scanner.directive';
+import { playScanFeedback } from '../../../../../core/utils/scan-feedback.utils';
+import { Permission } from '../../../../public/auth/models/role.model';
+import {
+  OfflineQueueService,
+  OfflineQueuedError,
+} from '../../../../../core/services/offline-queue.service';
+import { DevicesResolver } from '../../resolvers/devices-resolver';
+import {
+  DeviceStatusChangedEvent,
+  RealtimeService,
+} from '../../../../../core/services/realtime.service';
+import { notifyApiError } from '../../../../../core/utils/api-error.utils';
+import { ApiError } from '../../../../../core/models/api-error.model';
+import { RowFlash } from '../../../../../core/utils/row-flash.utils';
+import { PermissionService } from '../../../../../core/services/permission.service';
+import { listenCreateAction } from '../../../../../core/utils/route-action.utils';
 
 @Component({
   selector: 'app-devices',
@@ -41,12 +64,19 @@ import { DeviceBulkUploadModalComponent } from '../../modals/device-bulk-upload-
     DeviceCreateEditModalComponent,
     DeviceDeleteModalComponent,
     DeviceBulkUploadModalComponent,
+    DeviceExportModalComponent,
+    DeviceLabelsModalComponent,
+    HasPermissionDirective,
+    BarcodeScannerDirective,
   ],
   standalone: true,
   templateUrl: './devices.component.html',
   styleUrl: './devices.component.css',
 })
 export class DevicesComponent implements OnInit, OnDestroy {
+  // Permisos para mostrar u ocultar acciones según el rol
+  Permission = Permission;
+
   // Modales
   showCreateModal = false;
   showEditModal = false;
@@ -65,36 +95,23 @@ export class DevicesComponent implements OnInit, OnDestroy {
   isRetrying = false;
   deviceError = false;
 
-  // Filtros como BehaviorSubject
-  search$ = new BehaviorSubject<string>('');
-  statusFilter$ = new BehaviorSubject<DeviceStatus | 'ALL'>('ALL');
-
-  // Mapas para etiquetas y colores de estado
-  get search(): string {
-    return this.search$.value;
-  }
-
-  // Getters y Setters para filtros
-  set search(val: string) {
-    this.search$.next(val);
-  }
-
-  // El filtro de estado puede ser un DeviceStatus o 'ALL' para mostrar todos
-  get statusFilter(): DeviceStatus | 'ALL' {
-    return this.statusFilter$.value;
-  }
+  // Filtros enviados al servidor
+  search = '';
+  statusFilter: DeviceStatus | 'ALL' = 'ALL';
+  brandFilter = '';
+  dateFrom = '';
+  dateTo = '';
 
-  // El setter actualiza el BehaviorSubject para que los observables dependientes se actualicen automáticamente
-  set statusFilter(val: DeviceStatus | 'ALL') {
-    this.statusFilter$.next(val);
-  }
+  // Ordenamiento enviado al servidor
+  sortBy: keyof Device | null = null;
+  sortOrder: 'asc' | 'desc' = 'asc';
 
   // Observable para el estado de carga global, se puede usar para mostrar un spinner global mientras se cargan los dispositivos
   get loading$() {
     return this.loadingService.loading$;
   }
 
-  // Fuente de datos principal de dispositivos, se actualiza al cargar o modificar dispositivos
+  // Fuente de datos principal: dispositivos de la página actual devuelta por el servidor
   devices$ = new BehaviorSubject<Device[]>([]);
 
   // Mapas para etiquetas y colores de estado
@@ -105,60 +122,131 @@ export class DevicesComponent implements OnInit, OnDestroy {
   // Subject para manejar la destrucción del componente y evitar fugas de memoria
   private readonly destroy$ = new Subject<void>();
 
-  // Paginación
+  // Subject que dispara la carga de la página actual, cancela peticiones anteriores en curso
+  private readonly loadRequest$ = new Subject<void>();
+
+  // Subject para aplicar con retardo los filtros de texto (búsqueda y marca)
+  private readonly textFilterChange$ = new Subject<void>();
+
+  // Paginación (los totales provienen del servidor)
   page = 1;
-  pageSize = 10;
+  pageSize = DevicesResolver.DEFAULT_PAGE_SIZE;
   totalItems = 0;
+  totalPages = 0;
 
-  // Observable de dispositivos filtrados según los filtros de búsqueda y estado
-  get pagedDevices$(): Observable<Device[]> {
-    return this.filteredDevices$.pipe(
-      map((devices) =>
-        devices.slice(
-          (this.page - 1) * this.pageSize,
-          this.page * this.pageSize,
-        ),
-      ),
-    );
-  }
-
-  // Lista de dispositivos filtrados para mostrar en la tabla, se actualiza automáticamente cuando cambian los dispositivos o los filtros
+  // Lista de dispositivos de la página actual, usada para la selección masiva
   filteredDevices: Device[] = [];
 
+  // Observable de los dispositivos de la página actual
+  pagedDevices$: Observable<Device[]> = this.devices$.pipe(
+    tap((devices) => (this.filteredDevices = devices)),
+  );
+
   // Control para mostrar el modal de carga masiva
   showBulkUploadModal = false;
 
-  // Estado para la actualización masiva de estados
+  // Control para mostrar el diálogo de exportación y filtros activos al abrirlo
+  showExportModal = false;
+  exportFilters: DeviceFilters = {};
+
+  // Modo escaneo: una lectura del escáner abre el detalle del dispositivo
+  scanMode = false;
+  scanning = false;
+
+  // Control para mostrar el diálogo de etiquetas y dispositivos a imprimir
+  showLabelsModal = false;
+  labelDevices: Device[] = [];
+
+  // Estado para la selección masiva: actualización de estados o impresión de etiquetas
   bulkStatus: DeviceStatus | null = null;
   bulkMode = false;
+  bulkAction: 'status' | 'labels' = 'status';
 
   buttonsIsAvailable = true;
 
+  // Filas resaltadas tras recibir un cambio en tiempo real
+  rowFlash = new RowFlash();
+
   constructor(
     private devicesService: DevicesService,
     private loadingService: LoadingService,
     private router: Router,
     private route: ActivatedRoute,
+    private offlineQueue: OfflineQueueService,
+    private realtimeService: RealtimeService,
+    private permissionService: PermissionService,
   ) {}
 
   /**
-   * Inicializa el componente - carga los dispositivos y configura el formulario
+   * Inicializa el componente - configura la carga paginada y muestra la primera página resuelta
    * Se llama automáticamente al crear el componente
    * @returns void
    */
   ngOnInit(): void {
+    this.initPageLoading();
     this.initDevicesData();
+    this.listenCreateAction();
+
+    // Recarga la lista cuando se sincronizan cambios hechos sin conexión
+    this.offlineQueue.synced$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.loadDevices());
+
+    // Aplica en la página actual los cambios de estado hechos por otros usuarios
+    this.realtimeService.deviceStatusChanges$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((event) => this.applyDeviceStatusChange(event));
+  }
+
+  /**
+   * Abre el formulario de creación cuando la URL incluye ?action=create (por ejemplo, desde la paleta de comandos)
+   * La URL se puede escribir a mano, así que se verifica el permiso antes de abrirlo
+   * @returns void
+   */
+  private listenCreateAction(): void {
+    listenCreateAction(this.route, this.router)
+      .pipe(
+        filter(() => this.permissionService.hasPermission(Permission.DEVICES_CREATE)),
+        takeUntil(this.destroy$),
+      )
+      .subscribe(() => this.openCreateModal());
   }
 
   /**
-   * Inicializa los datos de dispositivos a partir del resolver
+   * Actualiza el estado de un dispositivo de la página actual sin recargarla y resalta su fila
+   * Los eventos de dispositivos fuera de la página o sin cambio real se ignoran
+   * @param event Cambio de estado recibido en tiempo real
+   * @returns void
+   */
+  private applyDeviceStatusChange(event: DeviceStatusChangedEvent): void {
+    const devices = this.devices$.value;
+    const current = devices.find((d) => d.id === event.deviceId);
+    if (!current || current.status === event.status) return;
+
+    this.devices$.next(
+      devices.map((d) =>
+        d === current
+          ? {
+              ...d,
+              status: event.status,
+              updatedAt: event.updatedAt ?? d.updatedAt,
+            }
+          : d,
+      ),
+    );
+    this.rowFlash.flash(event.deviceId);
+  }
+
+  /**
+   * Inicializa los datos de dispositivos a partir de la primera página resuelta por el resolver
    * @returns void
    */
   initDevicesData(): void {
-    const resolved = this.route.snapshot.data['devices'];
+    const resolved: PaginatedDevicesResponse | 'ERROR' =
+      this.route.snapshot.data['devices'];
 
     if (resolved === 'ERROR') {
-      toast.error('No se pudo conectar al microservicio de dispositivos.');
+      // El resolver ya mostró el error
       this.deviceError = true;
       this.deviceErrorMessage = 'Error de conexión al backend.';
       this.devices$.next([]);
@@ -166,7 +254,7 @@ export class DevicesComponent implements OnInit, OnDestroy {
       return;
     }
 
-    if (!resolved || resolved.length === 0) {
+    if (!resolved || resolved.data.length === 0) {
       toast.info('No hay dispositivos para mostrar actualmente.');
       this.deviceError = false;
       this.deviceErrorMessage = '';
@@ -178,7 +266,99 @@ export class DevicesComponent implements OnInit, OnDestroy {
     this.buttonsIsAvailable = true;
     this.deviceError = false;
     this.deviceErrorMessage = '';
-    this.devices$.next(resolved);
+    this.applyPage(resolved);
+  }
+
+  /**
+   * Configura los flujos de carga: cada solicitud de carga consulta la página actual al servidor
+   * (cancelando la anterior si sigue en curso) y los filtros de texto se aplican con retardo
+   * @returns void
+   */
+  private initPageLoading(): void {
+    this.loadRequest$
+      .pipe(
+        switchMap(() =>
+          this.devicesService
+            .getDevicesPaginated(this.getPaginationParams(), this.getFilters())
+            .pipe(
+              concatMap((response) =>
+                this.devicesService
+                  .withAssignmentStatus(response.data)
+                  .pipe(map((data) => ({ ...response, data }))),
+              ),
+              catchError((error) => {
+                notifyApiError(error, 'Error al obtener dispositivos o asignaciones');
+                this.deviceError = true;
+                this.deviceErrorMessage =
+                  error.message || 'Error al cargar dispositivos';
+                this.devices$.next([]);
+                return of(null);
+              }),
+            ),
+        ),
+        takeUntil(this.destroy$),
+      )
+      .subscribe((response) => {
+        this.isRetrying = false;
+        if (response) {
+          this.buttonsIsAvailable = true;
+          this.applyPage(response);
+        }
+      });
+
+    this.textFilterChange$
+      .pipe(debounceTime(400), takeUntil(this.destroy$))
+      .subscribe(() => {
+        this.page = 1;
+        this.loadDevices();
+      });
+  }
+
+  /**
+   * Aplica una página recibida del servidor al estado local
+   * Si la página actual quedó fuera de rango (por ejemplo tras eliminar el último dispositivo de la última página)
+   * se solicita la última página disponible
+   * @param response Respuesta paginada del servidor
+   * @returns void
+   */
+  private applyPage(response: PaginatedDevicesResponse): void {
+    const { pagination } = response;
+    this.totalItems = pagination.total;
+    this.totalPages = pagination.totalPages;
+
+    if (pagination.totalPages > 0 && pagination.page > pagination.totalPages) {
+      this.goToPage(pagination.totalPages);
+      return;
+    }
+
+    this.page = pagination.page || this.page;
+    this.devices$.next(response.data);
+  }
+
+  /**
+   * Construye los parámetros de paginación y ordenamiento a partir del estado actual
+   * @returns PaginationParams
+   */
+  private getPaginationParams(): PaginationParams {
+    return {
+      page: this.page,
+      limit: Number(this.pageSize),
+      ...(this.sortBy ? { sortBy: this.sortBy, sortOrder: this.sortOrder } : {}),
+    };
+  }
+
+  /**
+   * Construye los filtros a enviar al servidor a partir del estado actual
+   * @returns DeviceFilters
+   */
+  private getFilters(): DeviceFilters {
+    return {
+      search: this.search,
+      status: this.statusFilter,
+      brand: this.brandFilter,
+      dateFrom: this.dateFrom,
+      dateTo: this.dateTo,
+    };
   }
 
   /**
@@ -187,60 +367,20 @@ export class DevicesComponent implements OnInit, OnDestroy {
    * @returns void
    */
   ngOnDestroy(): void {
+    this.rowFlash.clear();
     this.destroy$.next();
     this.destroy$.complete();
   }
 
   /**
-   * Carga los dispositivos desde el servicio y actualiza el estado local
+   * Solicita al servidor la página actual con los filtros y el ordenamiento vigentes
    * Muestra un toast de error si la carga falla
    * @returns void
    */
   loadDevices(): void {
     this.deviceErrorMessage = '';
     this.deviceError = false;
-    this.devicesService
-      .getAllDevices()
-      .pipe(
-        takeUntil(this.destroy$),
-        concatMap((devices) => {
-          if (!devices || devices.length === 0) {
-            return of([]);
-          }
-          const rq: DevicesBatchRq = {
-            ids: devices.map((device) => device.id),
-          };
-          return this.devicesService.hasActiveAssignmentBatch(rq).pipe(
-            map((assignments) => {
-              return devices.map((device) => {
-                const found = assignments.find((a) => a.deviceId === device.id);
-                return {
-                  ...device,
-                  assignmentActive: found ? found.active : false, // por defecto, si no existe es false
-                };
-              });
-            }),
-          );
-        }),
-        catchError((error) => {
-          toast.error('Error al obtener dispositivos o asignaciones', {
-            description: error.message || '',
-          });
-          this.deviceError = true;
-          this.deviceErrorMessage =
-            error.message || 'Error al cargar dispositivos';
-          this.devices$.next([]);
-          this.isRetrying = false;
-          return of([]);
-        }),
-      )
-      .subscribe({
-        next: (devicesWithAssignments) => {
-          this.devices$.next(
-            devicesWithAssignments.map((d) => ({ ...d, selected: false })),
-          );
-        },
-      });
+    this.loadRequest$.next();
   }
 
   /**
@@ -255,46 +395,22 @@ export class DevicesComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * filtra los dispositivos según los filtros de búsqueda y estado
-   * Combina los observables de dispositivos, búsqueda y filtro de estado para producir una lista filtrada de dispositivos
-   * Se actualiza automáticamente cuando cambian los dispositivos o los filtros
-   * @returns Observable<Device[]> Lista de dispositivos filtrados
-   */
-  filteredDevices$: Observable<Device[]> = combineLatest([
-    this.devices$,
-    this.search$.pipe(startWith('')),
-    this.statusFilter$.pipe(startWith('ALL')),
-  ]).pipe(
-    map(([devices, search, filter]) =>
-      devices.filter(
-        (d) =>
-          this.matchSearch(d, search) &&
-          (filter === 'ALL' || d.status === filter),
-      ),
-    ),
-    tap(
-      (devices) => (
-        (this.totalItems = devices.length),
-        (this.filteredDevices = devices)
-      ),
-    ),
-  );
-
-  /**
-   * Calcula estadísticas de dispositivos filtrados para mostrar en la UI
-   * Se actualiza automáticamente cuando cambia la lista de dispositivos filtrados
-   * @returns Observable<{ totalDevices: number; goodCondition: number; occupied: number; needsRepair: number; fair: number }>
-   * Objeto con el total de dispositivos y el conteo por estado
+   * Calcula estadísticas para mostrar en la UI
+   * El total proviene del servidor; el conteo por estado corresponde solo a la página actual
+   * (el backend no devuelve conteos por estado), por eso las tarjetas lo indican en su título
+   * @returns Observable con el total de dispositivos, los dispositivos de la página y el conteo por estado
    */
   filteredStats$: Observable<{
     totalDevices: number;
+    pageDevices: number;
     goodCondition: number;
     occupied: number;
     needsRepair: number;
     fair: number;
-  }> = this.filteredDevices$.pipe(
+  }> = this.devices$.pipe(
     map((devices) => ({
-      totalDevices: devices.length,
+      totalDevices: this.totalItems,
+      pageDevices: devices.length,
       goodCondition: devices.filter(
         (d) => d.status === DeviceStatus.GOOD_CONDITION,
       ).length,
@@ -307,47 +423,85 @@ export class DevicesComponent implements OnInit, OnDestroy {
   );
 
   /**
-   * Actualiza el filtro de búsqueda con el valor ingresado por el usuario   * El setter del filtro de búsqueda actualiza el BehaviorSubject para que los dispositivos filtrados se actualicen automáticamente
+   * Actualiza el filtro de búsqueda y recarga la primera página tras una breve pausa de escritura
    * @param value Valor de búsqueda ingresado por el usuario
    */
   onSearchChange(value: string): void {
-    this.page = 1;
     this.search = value || '';
+    this.textFilterChange$.next();
   }
 
   /**
-   * Actualiza el filtro de estado con el valor seleccionado por el usuario
-   * El setter del filtro de estado actualiza el BehaviorSubject para que los dispositivos filtrados se actualicen automáticamente
+   * Actualiza el filtro de marca y recarga la primera página tras una breve pausa de escritura
+   * @param value Marca ingresada por el usuario
+   */
+  onBrandChange(value: string): void {
+    this.brandFilter = value || '';
+    this.textFilterChange$.next();
+  }
+
+  /**
+   * Actualiza el filtro de estado y recarga la primera página
    * @param value Valor de estado seleccionado por el usuario (DeviceStatus o 'ALL')
    */
   filterByStatus(status: DeviceStatus | 'ALL'): void {
     this.page = 1;
     this.statusFilter = status;
+    this.loadDevices();
   }
 
-  /** Restablece los filtros de búsqueda y estado a sus valores predeterminados
-   * El setter de cada filtro actualiza su BehaviorSubject correspondiente para que los dispositivos filtrados se actualicen automáticamente
+  /**
+   * Actualiza el rango de fechas de creación y recarga la primera página
+   * No consulta al servidor si la fecha inicial es posterior a la final
+   * @returns void
+   */
+  onDateRangeChange(): void {
+    if (this.dateFrom && this.dateTo && this.dateFrom > this.dateTo) {
+      toast.warning('La fecha inicial no puede ser posterior a la fecha final');
+      return;
+    }
+    this.page = 1;
+    this.loadDevices();
+  }
+
+  /** Restablece los filtros de búsqueda, estado, marca y fechas a sus valores predeterminados
    * @returns void
    */
   resetFilters(): void {
     this.page = 1;
     this.search = '';
     this.statusFilter = 'ALL';
+    this.brandFilter = '';
+    this.dateFrom = '';
+    this.dateTo = '';
+    this.loadDevices();
   }
 
-  /** Verifica si un dispositivo coincide con el texto de búsqueda en su nombre, marca o código de barras
-   * @param device Dispositivo a verificar
-   * @param search Texto de búsqueda ingresado por el usuario
-   * @returns boolean Verdadero si el dispositivo coincide con la búsqueda, falso en caso contrario
+  /**
+   * Ordena la tabla por una columna en el servidor
+   * Si la columna ya estaba seleccionada se invierte el sentido del ordenamiento
+   * @param column Columna por la que se ordena
+   * @returns void
    */
-  private matchSearch(device: Device, search: string): boolean {
-    if (!search) return true;
-    const lower = search.toLowerCase();
-    return (
-      device.name.toLowerCase().includes(lower) ||
-      device.brand.toLowerCase().includes(lower) ||
-      device.barcode.toLowerCase().includes(lower)
-    );
+  sortByColumn(column: keyof Device): void {
+    if (this.sortBy === column) {
+      this.sortOrder = this.sortOrder === 'asc' ? 'desc' : 'asc';
+    } else {
+      this.sortBy = column;
+      this.sortOrder = 'asc';
+    }
+    this.page = 1;
+    this.loadDevices();
+  }
+
+  /**
+   * Obtiene el valor de aria-sort de una columna para accesibilidad
+   * @param column Columna de la tabla
+   * @returns 'ascending' | 'descending' | 'none'
+   */
+  getAriaSort(column: keyof Device): 'ascending' | 'descending' | 'none' {
+    if (this.sortBy !== column) return 'none';
+    return this.sortOrder === 'asc' ? 'ascending' : 'descending';
   }
 
   /**
@@ -378,9 +532,13 @@ export class DevicesComponent implements OnInit, OnDestroy {
 
           return this.devicesService.updateBatchDevicesState(request).pipe(
             catchError((err) => {
-              toast.error('Error al actualizar estados', {
-                description: err.message,
-              });
+              // Sin conexión el cambio queda en la cola offline y se aplica al volver la red
+              if (err instanceof OfflineQueuedError) {
+                toast.info(err.message, { description: err.mutation.description });
+                this.resetBulkSelection();
+                return of(null);
+              }
+              notifyApiError(err, 'Error al actualizar estados');
               return of(null);
             }),
           );
@@ -389,20 +547,30 @@ export class DevicesComponent implements OnInit, OnDestroy {
       .subscribe((result) => {
         if (result) {
           toast.success('Estados actualizados correctamente');
-          this.bulkStatus = null;
-          this.bulkMode = false;
-          this.filteredDevices.forEach((d) => (d.selected = false));
+          this.resetBulkSelection();
           this.loadDevices();
         }
       });
   }
 
   /**
-   * Activa el modo de actualización masiva, mostrando opciones para seleccionar múltiples dispositivos y actualizar su estado en lote
-   * Configura el flag bulkMode para mostrar la interfaz de selección masiva en la tabla de dispositivos
+   * Sale del modo de selección masiva y limpia la selección
+   * @returns void
+   */
+  private resetBulkSelection(): void {
+    this.bulkStatus = null;
+    this.bulkMode = false;
+    this.filteredDevices.forEach((d) => (d.selected = false));
+  }
+
+  /**
+   * Activa el modo de selección masiva, mostrando opciones para seleccionar múltiples dispositivos y actualizar su estado en lote
+   * o imprimir sus etiquetas. Configura el flag bulkMode para mostrar la interfaz de selección masiva en la tabla de dispositivos
+   * @param action Acción a realizar con los dispositivos seleccionados
    * @returns void
    */
-  activateBulkMode(): void {
+  activateBulkMode(action: 'status' | 'labels' = 'status'): void {
+    this.bulkAction = action;
     this.bulkMode = true;
   }
 
@@ -414,6 +582,7 @@ export class DevicesComponent implements OnInit, OnDestroy {
   cancelBulkMode(): void {
     this.bulkMode = false;
     this.bulkStatus = null;
+    this.bulkAction = 'status';
     // Limpia selección en todos los filtrados:
     this.filteredDevices.forEach((device) => (device.selected = false));
   }
@@ -441,10 +610,20 @@ export class DevicesComponent implements OnInit, OnDestroy {
   toggleSelectAllFiltered(event: Event): void {
     const checked = (event.target as HTMLInputElement).checked;
     this.filteredDevices.forEach((device) => {
-      if (!device.assignmentActive) device.selected = checked;
+      if (this.isSelectable(device)) device.selected = checked;
     });
   }
 
+  /**
+   * Indica si un dispositivo puede seleccionarse en el modo masivo actual
+   * Para actualizar estados se excluyen los dispositivos asignados; para etiquetas, todos son seleccionables
+   * @param device Dispositivo a verificar
+   * @returns boolean Verdadero si el dispositivo puede seleccionarse
+   */
+  isSelectable(device: Device): boolean {
+    return this.bulkAction === 'labels' || !device.assignmentActive;
+  }
+
   /**
    * Cuenta el número de dispositivos seleccionados en la lista de dispositivos filtrados
    * @returns number Número de dispositivos seleccionados en la lista de dispositivos filtrados
@@ -562,12 +741,11 @@ export class DevicesComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Calcula el número total de páginas para la paginación según el total de dispositivos filtrados y el tamaño de página
-   * Utiliza la propiedad totalItems, que se actualiza automáticamente cuando cambia la lista de dispositivos filtrados, para calcular el total de páginas
+   * Obtiene el número total de páginas para la paginación según la respuesta del servidor
    * @returns number Número total de páginas para la paginación
    */
   getTotalPages(): number {
-    return Math.ceil(this.totalItems / this.pageSize) || 1;
+    return this.totalPages || 1;
   }
 
   /**
@@ -588,17 +766,105 @@ export class DevicesComponent implements OnInit, OnDestroy {
     this.showBulkUploadModal = false;
   }
 
+  /**
+   * Abre el diálogo de exportación con los filtros activos
+   * @returns void
+   */
+  openExportModal(): void {
+    this.exportFilters = this.getFilters();
+    this.showExportModal = true;
+  }
+
+  /**
+   * Cierra el diálogo de exportación
+   * @returns void
+   */
+  closeExportModal(): void {
+    this.showExportModal = false;
+  }
+
+  /**
+   * Abre el diálogo de etiquetas para los dispositivos indicados
+   * @param devices Dispositivos a imprimir
+   * @returns void
+   */
+  openLabelsModal(devices: Device[]): void {
+    if (!devices.length) return;
+    this.labelDevices = devices;
+    this.showLabelsModal = true;
+  }
+
+  /**
+   * Abre el diálogo de etiquetas con los dispositivos seleccionados en el modo masivo
+   * @returns void
+   */
+  printSelectedLabels(): void {
+    this.openLabelsModal(this.filteredDevices.filter((d) => d.selected));
+  }
+
+  /**
+   * Cierra el diálogo de etiquetas
+   * @returns void
+   */
+  closeLabelsModal(): void {
+    this.showLabelsModal = false;
+    this.labelDevices = [];
+  }
+
+  /**
+   * Activa o desactiva el modo escaneo
+   * @returns void
+   */
+  toggleScanMode(): void {
+    this.scanMode = !this.scanMode;
+    if (this.scanMode) {
+      toast.info('Modo escaneo activo', {
+        description: 'Escanea un código de barras para abrir el dispositivo',
+      });
+    }
+  }
+
+  /**
+   * Busca el dispositivo del código escaneado y navega a su detalle
+   * Si el código no existe o la consulta falla, muestra un toast y reproduce el tono de error
+   * @param barcode Código leído por el escáner
+   * @returns void
+   */
+  onBarcodeScanned(barcode: string): void {
+    if (this.scanning) return;
+    this.scanning = true;
+    this.devicesService
+      .getDeviceByBarcode(barcode)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (device) => {
+          this.scanning = false;
+          playScanFeedback('success');
+          this.router.navigate(['/app/devices', device.id]);
+        },
+        error: (err) => {
+          this.scanning = false;
+          playScanFeedback('error');
+          if (err instanceof ApiError && err.status === 404) {
+            notifyApiError(
+              err,
+              'Código no encontrado',
+              `No existe ningún dispositivo con el código ${barcode}`,
+            );
+          } else {
+            notifyApiError(err, 'Error al buscar el dispositivo');
+          }
+        },
+      });
+  }
+
   /**
    * Maneja el resultado exitoso de la carga masiva de dispositivos
-   * Muestra un toast con el número de dispositivos cargados, recarga la lista de dispositivos y cierra el modal de carga masiva
+   * Recarga la lista de dispositivos; el modal sigue abierto para mostrar el reporte por fila
    * @param uploadedDevices Dispositivos que fueron cargados exitosamente
    */
   onBulkUploadSuccess(uploadedDevices: Device[]) {
-    toast.success(
-      `${uploadedDevices.length} dispositivos cargados exitosamente`,
-    );
-    this.loadDevices();
-    this.closeBulkUploadModal();
+    if (uploadedDevices.length) this.loadDevices();
   }
 
   /**
@@ -628,9 +894,21 @@ goToPage(pageNumber: number): void {
   const totalPages = this.getTotalPages();
   if (pageNumber >= 1 && pageNumber <= totalPages) {
     this.page = pageNumber;
+    this.loadDevices();
   }
 }
 
+/**
+ * Cambia el tamaño de página y vuelve a la primera página
+ * @param size Nuevo tamaño de página
+ * @returns void
+ */
+onPageSizeChange(size: number): void {
+  this.pageSize = Number(size);
+  this.page = 1;
+  this.loadDevices();
+}
+
 /**
  * Navega a la página siguiente
  * @returns void
@@ -1,46 +1,43 @@
 import { Injectable } from '@angular/core';
 import { Resolve } from '@angular/router';
-import { Device, DevicesBatchRq } from '../models/device.model';
+import { PaginatedDevicesResponse } from '../models/device.model';
 import { DevicesService } from '../services/devices.service';
 import { Observable, of, map, catchError, concatMap } from 'rxjs';
+import { notifyApiError } from '../../../../core/utils/api-error.utils';
 
 /**
- * Resolver para cargar la lista de dispositivos con su estado de asignación activa antes de mostrar la página de dispositivos.
+ * Resolver para cargar la primera página de dispositivos con su estado de asignación activa antes de mostrar la página de dispositivos.
  *
  * @since 2026-02-05
  * @author Bunnystring
  */
 @Injectable({ providedIn: 'root' })
-export class DevicesResolver implements Resolve<Device[] | 'ERROR'> {
+export class DevicesResolver
+  implements Resolve<PaginatedDevicesResponse | 'ERROR'>
+{
+  // Tamaño de la primera página, debe coincidir con el tamaño por defecto de la tabla
+  static readonly DEFAULT_PAGE_SIZE = 10;
+
   constructor(private devicesService: DevicesService) {}
 
   /**
-   * Resuelve la lista de dispositivos con su estado de asignación activa.
-   * @returns Observable<Device[] | 'ERROR'>
+   * Resuelve la primera página de dispositivos con su estado de asignación activa.
+   * Si falla, muestra el error una sola vez y la página se abre en su estado de error.
+   * @returns Observable<PaginatedDevicesResponse | 'ERROR'>
    */
-  resolve(): Observable<Device[] | 'ERROR'> {
-    return this.devicesService.getAllDevices().pipe(
-      concatMap((devices) => {
-        if (!devices || devices.length === 0) {
-          return of([]);
-        }
-        const rq: DevicesBatchRq = {
-          ids: devices.map((device) => device.id),
-        };
-        return this.devicesService.hasActiveAssignmentBatch(rq).pipe(
-          map((assignments) =>
-            devices.map((device): Device => {
-              const found = assignments.find((a) => a.deviceId === device.id);
-              return {
-                ...device,
-                assignmentActive: found ? found.active : false,
-                selected: false,
-              } as Device;
-            }),
-          ),
-        );
-      }),
-      catchError(() => of('ERROR' as const)),
-    );
+  resolve(): Observable<PaginatedDevicesResponse | 'ERROR'> {
+    return this.devicesService
+      .getDevicesPaginated({ page: 1, limit: DevicesResolver.DEFAULT_PAGE_SIZE })
+      .pipe(
+        concatMap((response) =>
+          this.devicesService
+            .withAssignmentStatus(response.data)
+            .pipe(map((data) => ({ ...response, data }))),
+        ),
+        catchError((err) => {
+          notifyApiError(err, 'No se pudo conectar al microservicio de dispositivos.');
+          return of('ERROR' as const);
+        }),
+      );
   }
 }
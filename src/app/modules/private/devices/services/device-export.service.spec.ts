@@ -0,0 +1,55 @@
+import { TestBed } from '@angular/core/testing';
+import { DeviceExportService } from './device-export.service';
+import { Device, DeviceStatus } from '../models/device.model';
+
+describe('DeviceExportService', () => {
+  let service: DeviceExportService;
+
+  const device = (values: Partial<Device> = {}): Device => ({
+    id: 'd1',
+    name: 'Laptop Dell',
+    brand: 'Dell',
+    barcode: 'ABC12345',
+    status: DeviceStatus.GOOD_CONDITION,
+    createdAt: '2026-10-01T10:00:00Z',
+    updatedAt: null,
+    ...values,
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(DeviceExportService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should build a csv with the selected columns and status labels', async () => {
+    const blob = await service.buildExportFile(
+      [device(), device({ id: 'd2', name: 'Monitor, 24"', status: DeviceStatus.FAIR })],
+      { format: 'csv', columns: ['name', 'status'] },
+    );
+
+    expect(blob.type).toContain('text/csv');
+    const lines = (await blob.text()).replace(/^\uFEFF/, '').split('\r\n');
+    expect(lines).toEqual(['Nombre,Estado', 'Laptop Dell,Buenas Condiciones', '"Monitor, 24""",Regular']);
+  });
+
+  it('should add the summary sheet to excel files only when requested', async () => {
+    const { Workbook } = await import('exceljs');
+    const read = async (blob: Blob) => {
+      const workbook = new Workbook();
+      await workbook.xlsx.load(await blob.arrayBuffer());
+      return workbook;
+    };
+
+    const withStats = await read(await service.buildExportFile([device()], { format: 'excel', includeStats: true }));
+    const withoutStats = await read(await service.buildExportFile([device()], { format: 'excel' }));
+
+    expect(withStats.worksheets.length).toBe(2);
+    expect(withStats.worksheets[1].getCell('B1').value).toBe(1);
+    expect(withoutStats.worksheets.length).toBe(1);
+    expect(withoutStats.worksheets[0].rowCount).toBe(2);
+  });
+});
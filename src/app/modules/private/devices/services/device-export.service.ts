@@ -0,0 +1,89 @@
+import { Injectable } from '@angular/core';
+import {
+  Device,
+  DeviceExportColumnLabels,
+  DeviceStatus,
+  DeviceStatusLabels,
+  DeviceUtils,
+  ExportOptions,
+} from '../models/device.model';
+import { buildCsv } from '../../../../core/utils/csv.utils';
+import { translate } from '../../../../core/utils/i18n.utils';
+
+/**
+ * Servicio para generar en el navegador los archivos de exportación de dispositivos (CSV o Excel)
+ * Usa la misma librería (exceljs) que la carga masiva; el backend no participa en la generación
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class DeviceExportService {
+  // Tipos MIME de los archivos generados
+  private static readonly CSV_TYPE = 'text/csv;charset=utf-8';
+  private static readonly XLSX_TYPE =
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+  /**
+   * Genera el archivo de exportación con los dispositivos indicados
+   * @param devices Dispositivos a exportar
+   * @param options Formato, columnas (todas por defecto) y si se agrega la hoja de resumen (solo Excel)
+   * @returns Promise con el archivo generado
+   */
+  async buildExportFile(devices: Device[], options: ExportOptions): Promise<Blob> {
+    const columns = options.columns?.length
+      ? options.columns
+      : (Object.keys(DeviceExportColumnLabels) as Array<keyof Device>);
+    const headers = columns.map((column) => DeviceExportColumnLabels[column] ?? column);
+    const rows = devices.map((device) => columns.map((column) => this.cellValue(device, column)));
+
+    if (options.format === 'csv') {
+      // El BOM permite que Excel reconozca los acentos al abrir el archivo
+      return new Blob(['\uFEFF' + buildCsv([headers, ...rows])], {
+        type: DeviceExportService.CSV_TYPE,
+      });
+    }
+
+    const { Workbook } = await import('exceljs');
+    const workbook = new Workbook();
+    const sheet = workbook.addWorksheet(translate('deviceExport.devicesSheet'));
+    sheet.columns = headers.map((header) => ({ header, width: 24 }));
+    sheet.getRow(1).font = { bold: true };
+    sheet.addRows(rows);
+
+    if (options.includeStats) {
+      const stats = DeviceUtils.calculateStats(devices);
+      const summary = workbook.addWorksheet(translate('deviceExport.summarySheet'));
+      summary.addRows([
+        [translate('deviceExport.total'), stats.totalDevices],
+        [],
+        [translate('deviceExport.status'), translate('deviceExport.count')],
+        [DeviceStatusLabels[DeviceStatus.GOOD_CONDITION], stats.goodCondition],
+        [DeviceStatusLabels[DeviceStatus.FAIR], stats.fair],
+        [DeviceStatusLabels[DeviceStatus.NEEDS_REPAIR], stats.needsRepair],
+        [DeviceStatusLabels[DeviceStatus.OCCUPIED], stats.occupied],
+        [],
+        [translate('deviceExport.brand'), translate('deviceExport.count')],
+        ...stats.devicesByBrand.map(({ brand, count }) => [brand, count]),
+      ]);
+      summary.getColumn(1).width = 28;
+      [1, 3, 9].forEach((row) => (summary.getRow(row).font = { bold: true }));
+    }
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return new Blob([buffer], { type: DeviceExportService.XLSX_TYPE });
+  }
+
+  /**
+   * Valor de una columna para el archivo; el estado se exporta con su label
+   * @param device Dispositivo
+   * @param column Columna exportada
+   * @returns string
+   */
+  private cellValue(device: Device, column: keyof Device): string {
+    if (column === 'status') return DeviceStatusLabels[device.status] ?? device.status;
+    return String(device[column] ?? '');
+  }
+}
@@ -0,0 +1,145 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+import { DeviceImportService } from './device-import.service';
+import { BulkDeviceRow, BulkImportTable, Device, DeviceStatus } from '../models/device.model';
+import { DEFAULT_LANGUAGE, setLanguage } from '../../../../core/utils/i18n.utils';
+
+describe('DeviceImportService', () => {
+  let service: DeviceImportService;
+
+  const row = (values: Partial<BulkDeviceRow> = {}): BulkDeviceRow => ({
+    rowNumber: 2,
+    name: 'Laptop Dell',
+    brand: 'Dell',
+    barcode: 'ABC12345',
+    status: 'GOOD_CONDITION',
+    errors: {},
+    ...values,
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+    });
+    service = TestBed.inject(DeviceImportService);
+  });
+
+  afterEach(() => {
+    setLanguage(DEFAULT_LANGUAGE);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  describe('canPreview', () => {
+    it('should preview xlsx, csv and json files but not legacy xls', () => {
+      expect(service.canPreview(new File([''], 'devices.xlsx'))).toBeTrue();
+      expect(service.canPreview(new File([''], 'devices.csv', { type: 'application/vnd.ms-excel' }))).toBeTrue();
+      expect(service.canPreview(new File([''], 'devices.json'))).toBeTrue();
+      expect(service.canPreview(new File([''], 'DEVICES.XLS'))).toBeFalse();
+    });
+  });
+
+  describe('resolveStatus', () => {
+    it('should accept enum values and spanish labels', () => {
+      expect(service.resolveStatus('FAIR')).toBe(DeviceStatus.FAIR);
+      expect(service.resolveStatus('necesita reparacion')).toBe(DeviceStatus.NEEDS_REPAIR);
+      expect(service.resolveStatus('good condition')).toBe(DeviceStatus.GOOD_CONDITION);
+    });
+
+    it('should accept labels in every supported language regardless of the active one', () => {
+      setLanguage('en');
+      expect(service.resolveStatus('Buenas condiciones')).toBe(DeviceStatus.GOOD_CONDITION);
+      expect(service.resolveStatus('Needs repair')).toBe(DeviceStatus.NEEDS_REPAIR);
+
+      setLanguage(DEFAULT_LANGUAGE);
+      expect(service.resolveStatus('Occupied')).toBe(DeviceStatus.OCCUPIED);
+    });
+
+    it('should return null for unknown values', () => {
+      expect(service.resolveStatus('ROTO')).toBeNull();
+      expect(service.resolveStatus('')).toBeNull();
+    });
+  });
+
+  describe('suggestMapping and buildRows', () => {
+    const table: BulkImportTable = {
+      headers: ['Código de barras', 'Nombre', 'Marca', 'Notas'],
+      records: [
+        { rowNumber: 2, values: ['ABC12345', ' Laptop ', 'Dell', 'x'] },
+        { rowNumber: 3, values: ['', ' ', '', ''] },
+      ],
+    };
+
+    it('should map known headers regardless of case and accents', () => {
+      expect(service.suggestMapping(table.headers)).toEqual({ barcode: 0, name: 1, brand: 2 });
+    });
+
+    it('should build trimmed rows and skip records without mapped values', () => {
+      const rows = service.buildRows(table, { barcode: 0, name: 1, brand: 2, status: 3 });
+      expect(rows.length).toBe(1);
+      expect(rows[0]).toEqual(jasmine.objectContaining({ rowNumber: 2, name: 'Laptop', status: 'x' }));
+    });
+  });
+
+  describe('validateRows', () => {
+    it('should accept a complete row', () => {
+      const rows = [row()];
+      service.validateRows(rows, new Set());
+      expect(service.isValidRow(rows[0])).toBeTrue();
+    });
+
+    it('should flag missing fields, invalid barcode and unknown status', () => {
+      const rows = [row({ name: ' ', brand: '', barcode: 'AB-1', status: 'ROTO' })];
+      service.validateRows(rows, new Set());
+      expect(Object.keys(rows[0].errors).sort()).toEqual(['barcode', 'brand', 'name', 'status']);
+    });
+
+    it('should flag barcodes repeated in the file and already registered', () => {
+      const rows = [
+        row({ rowNumber: 2, barcode: 'DUP12345' }),
+        row({ rowNumber: 3, barcode: 'dup12345' }),
+        row({ rowNumber: 4, barcode: 'OLD12345' }),
+      ];
+      service.validateRows(rows, new Set(['OLD12345']));
+      expect(rows[0].errors.barcode).toBe('Código repetido en el archivo');
+      expect(rows[1].errors.barcode).toBe('Código repetido en el archivo');
+      expect(rows[2].errors.barcode).toBe('Ya existe un dispositivo con este código');
+    });
+
+    it('should report the errors in the active language', () => {
+      setLanguage('en');
+      const rows = [row({ name: '', status: 'ROTO' })];
+      service.validateRows(rows, new Set());
+      expect(rows[0].errors.name).toBe('Name is required');
+      expect(rows[0].errors.status).toBe('Unknown status');
+    });
+  });
+
+  describe('buildReport', () => {
+    const created = { id: 'd1', barcode: 'ABC12345' } as Device;
+
+    it('should report each input row in BatchOperationResponse shape', () => {
+      const submitted = [row({ rowNumber: 2 }), row({ rowNumber: 4, barcode: 'XYZ98765' })];
+      const rejected = [{ row: row({ rowNumber: 3, barcode: '' }), error: 'El código de barras es obligatorio' }];
+
+      const report = service.buildReport(submitted, [created], rejected);
+
+      expect(report.rows.map((r) => r.rowNumber)).toEqual([2, 3, 4]);
+      expect(report.success).toEqual([created]);
+      expect(report.failed).toEqual([
+        { id: '3', error: 'El código de barras es obligatorio' },
+        { id: '4', error: 'El servidor no creó el dispositivo' },
+      ]);
+      expect(report.total).toBe(3);
+      expect(report.successCount).toBe(1);
+      expect(report.failedCount).toBe(2);
+    });
+
+    it('should mark every submitted row as failed when the upload fails', () => {
+      const report = service.buildReport([row()], [], [], 'Error de conexión');
+      expect(report.rows[0]).toEqual(jasmine.objectContaining({ created: false, error: 'Error de conexión' }));
+    });
+  });
+});
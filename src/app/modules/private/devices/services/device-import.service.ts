@@ -0,0 +1,506 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, map } from 'rxjs';
+import {
+  BulkDeviceRow,
+  BulkDeviceRowErrors,
+  BulkImportColumnMapping,
+  BulkImportTable,
+  BulkUploadReport,
+  BulkUploadRowResult,
+  CreateDeviceRq,
+  Device,
+  DeviceExportColumnLabels,
+  DeviceStatus,
+  DeviceStatusLabels,
+  DeviceUtils,
+} from '../models/device.model';
+import { DevicesService } from './devices.service';
+import {
+  isCsvFile,
+  isJsonFile,
+} from '../../../../core/utils/form-validators.utils';
+import {
+  decodeText,
+  detectDelimiter,
+  parseCsv,
+} from '../../../../core/utils/csv.utils';
+import { translate, translateAll } from '../../../../core/utils/i18n.utils';
+
+/**
+ * Servicio para leer y validar archivos de carga masiva de dispositivos (Excel, CSV o JSON) en el navegador
+ * Permite previsualizar y corregir las filas antes de enviarlas al backend
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class DeviceImportService {
+  // Injected services
+  private devicesService = inject(DevicesService);
+
+  // Campos de CreateDeviceRq en el orden de las columnas del archivo
+  static readonly FIELDS: Array<keyof CreateDeviceRq> = [
+    'name',
+    'brand',
+    'barcode',
+    'status',
+  ];
+
+  // Filas de la plantilla con la lista desplegable de estados
+  private static readonly TEMPLATE_ROWS = 1000;
+
+  // Tipo MIME de los archivos .xlsx generados
+  private static readonly XLSX_TYPE =
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+  // Encabezados aceptados para cada campo además de sus labels en cada idioma (se comparan sin mayúsculas ni acentos)
+  private static readonly HEADER_ALIASES: Record<keyof CreateDeviceRq, string[]> = {
+    name: ['name', 'nombre'],
+    brand: ['brand', 'marca'],
+    barcode: ['barcode', 'codigo', 'codigo de barras'],
+    status: ['status', 'estado'],
+  };
+
+  /**
+   * Lee un archivo de carga masiva según su formato (Excel, CSV o JSON)
+   * @param file Archivo seleccionado por el usuario
+   * @returns Promise con los encabezados y registros del archivo
+   */
+  readFile(file: File): Promise<BulkImportTable> {
+    if (isJsonFile(file)) return this.readJson(file);
+    if (isCsvFile(file)) return this.readCsv(file);
+    return this.readXlsx(file);
+  }
+
+  /**
+   * Indica si el archivo se puede leer en el navegador para mostrar la vista previa
+   * Los libros .xls (Excel 97-2003) no se pueden leer; se envían tal cual al endpoint de carga masiva
+   * Solo se revisa la extensión porque algunos sistemas reportan los .csv con el tipo MIME de .xls
+   * @param file Archivo seleccionado por el usuario
+   * @returns boolean
+   */
+  canPreview(file: File): boolean {
+    return !/\.xls$/i.test(file.name);
+  }
+
+  /**
+   * Propone la relación de columnas reconociendo los encabezados conocidos
+   * @param headers Encabezados del archivo
+   * @returns Índice de columna por campo (los campos no encontrados quedan sin definir)
+   */
+  suggestMapping(headers: string[]): BulkImportColumnMapping {
+    const mapping: BulkImportColumnMapping = {};
+    headers.forEach((header, index) => {
+      const normalized = this.normalize(header);
+      const field = DeviceImportService.FIELDS.find((f) =>
+        [...DeviceImportService.HEADER_ALIASES[f], ...translateAll(`deviceColumn.${f}`)].some(
+          (alias) => this.normalize(alias) === normalized,
+        ),
+      );
+      if (field && mapping[field] === undefined) mapping[field] = index;
+    });
+    return mapping;
+  }
+
+  /**
+   * Indica si todos los campos tienen una columna asignada
+   * @param mapping Relación de columnas
+   * @returns boolean
+   */
+  isMappingComplete(mapping: BulkImportColumnMapping): boolean {
+    return DeviceImportService.FIELDS.every((f) => mapping[f] !== undefined);
+  }
+
+  /**
+   * Convierte los registros del archivo en filas de vista previa según la relación de columnas
+   * Los registros sin ningún valor en las columnas relacionadas se ignoran
+   * @param table Contenido del archivo
+   * @param mapping Relación de columnas
+   * @returns BulkDeviceRow[] Filas sin validar
+   */
+  buildRows(
+    table: BulkImportTable,
+    mapping: BulkImportColumnMapping,
+  ): BulkDeviceRow[] {
+    return table.records
+      .map(({ rowNumber, values }) => {
+        const cell = (field: keyof CreateDeviceRq) => {
+          const index = mapping[field];
+          return index !== undefined ? (values[index] ?? '').trim() : '';
+        };
+        return this.createRow(rowNumber, {
+          name: cell('name'),
+          brand: cell('brand'),
+          barcode: cell('barcode'),
+          status: cell('status'),
+        });
+      })
+      .filter((row) => DeviceImportService.FIELDS.some((f) => row[f]));
+  }
+
+  /**
+   * Obtiene los códigos de barras de los dispositivos ya registrados
+   * @returns Observable con el conjunto de códigos en mayúsculas
+   */
+  getExistingBarcodes(): Observable<Set<string>> {
+    return this.devicesService
+      .getAllDevices()
+      .pipe(
+        map(
+          (devices) =>
+            new Set(devices.map((d) => (d.barcode || '').toUpperCase())),
+        ),
+      );
+  }
+
+  /**
+   * Valida todas las filas y actualiza sus errores
+   * Un código de barras repetido en el archivo marca todas sus apariciones
+   * @param rows Filas de la vista previa
+   * @param existingBarcodes Códigos de barras ya registrados en el sistema
+   * @returns void
+   */
+  validateRows(rows: BulkDeviceRow[], existingBarcodes: Set<string>): void {
+    const counts = new Map<string, number>();
+    rows.forEach((row) => {
+      const key = row.barcode.trim().toUpperCase();
+      if (key) counts.set(key, (counts.get(key) || 0) + 1);
+    });
+
+    rows.forEach((row) => {
+      const errors: BulkDeviceRowErrors = {};
+      const barcode = row.barcode.trim();
+
+      if (!row.name.trim()) errors.name = translate('deviceImport.nameRequired');
+      if (!row.brand.trim()) errors.brand = translate('deviceImport.brandRequired');
+
+      if (!barcode) {
+        errors.barcode = translate('deviceImport.barcodeRequired');
+      } else if (!DeviceUtils.isValidBarcode(barcode)) {
+        errors.barcode = translate('deviceImport.barcodeInvalid');
+      } else if ((counts.get(barcode.toUpperCase()) || 0) > 1) {
+        errors.barcode = translate('deviceImport.barcodeRepeated');
+      } else if (existingBarcodes.has(barcode.toUpperCase())) {
+        errors.barcode = translate('deviceImport.barcodeExists');
+      }
+
+      if (!this.resolveStatus(row.status)) {
+        errors.status = translate(row.status ? 'deviceImport.statusUnknown' : 'deviceImport.statusRequired');
+      }
+
+      row.errors = errors;
+    });
+  }
+
+  /**
+   * Indica si una fila no tiene errores de validación
+   * @param row Fila a verificar
+   * @returns boolean
+   */
+  isValidRow(row: BulkDeviceRow): boolean {
+    return Object.keys(row.errors).length === 0;
+  }
+
+  /**
+   * Convierte una fila válida en el request de creación
+   * @param row Fila validada
+   * @returns CreateDeviceRq
+   */
+  toCreateRequest(row: BulkDeviceRow): CreateDeviceRq {
+    return {
+      name: row.name.trim(),
+      brand: row.brand.trim(),
+      barcode: row.barcode.trim(),
+      status: this.resolveStatus(row.status)!,
+    };
+  }
+
+  /**
+   * Genera el archivo .xlsx que se envía al endpoint de carga masiva con las filas indicadas
+   * @param rows Filas válidas a enviar
+   * @returns Promise con el archivo listo para subir
+   */
+  async buildUploadFile(rows: BulkDeviceRow[]): Promise<File> {
+    const { Workbook } = await import('exceljs');
+    const workbook = new Workbook();
+    const sheet = workbook.addWorksheet('Dispositivos');
+    sheet.addRow(DeviceImportService.FIELDS);
+    rows
+      .map((row) => this.toCreateRequest(row))
+      .forEach((rq) => sheet.addRow(DeviceImportService.FIELDS.map((f) => rq[f])));
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return new File([buffer], 'dispositivos.xlsx', {
+      type: DeviceImportService.XLSX_TYPE,
+    });
+  }
+
+  /**
+   * Genera la plantilla .xlsx de carga masiva con los encabezados esperados
+   * La columna de estado ofrece una lista desplegable con los labels de DeviceStatusLabels
+   * @returns Promise con el archivo de la plantilla
+   */
+  async buildTemplate(): Promise<Blob> {
+    const { Workbook } = await import('exceljs');
+    const workbook = new Workbook();
+    const sheet = workbook.addWorksheet(translate('deviceImport.devicesSheet'));
+    sheet.columns = DeviceImportService.FIELDS.map((field) => ({
+      header: DeviceExportColumnLabels[field],
+      width: 28,
+    }));
+    sheet.getRow(1).font = { bold: true };
+
+    const statusColumn = DeviceImportService.FIELDS.indexOf('status') + 1;
+    const statusList = `"${Object.values(DeviceStatusLabels).join(',')}"`;
+    for (let row = 2; row <= DeviceImportService.TEMPLATE_ROWS + 1; row++) {
+      sheet.getCell(row, statusColumn).dataValidation = {
+        type: 'list',
+        allowBlank: true,
+        formulae: [statusList],
+        showErrorMessage: true,
+        errorTitle: translate('deviceImport.statusListTitle'),
+        error: translate('deviceImport.statusListError'),
+      };
+    }
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return new Blob([buffer], { type: DeviceImportService.XLSX_TYPE });
+  }
+
+  /**
+   * Construye el reporte de la carga masiva con el resultado de cada fila de entrada
+   * Las filas enviadas se consideran creadas si el backend devolvió un dispositivo con su código de barras
+   * @param submitted Filas enviadas al backend
+   * @param created Dispositivos creados por el backend
+   * @param rejected Filas no enviadas con el motivo del rechazo
+   * @param uploadError Error del backend si la carga falló por completo
+   * @returns BulkUploadReport
+   */
+  buildReport(
+    submitted: BulkDeviceRow[],
+    created: Device[],
+    rejected: Array<{ row: BulkDeviceRow; error: string }>,
+    uploadError?: string,
+  ): BulkUploadReport {
+    const createdByBarcode = new Map(
+      created.map((d) => [(d.barcode || '').toUpperCase(), d]),
+    );
+    const toResult = (
+      row: BulkDeviceRow,
+      device?: Device,
+      error?: string,
+    ): BulkUploadRowResult => ({
+      rowNumber: row.rowNumber,
+      name: row.name,
+      brand: row.brand,
+      barcode: row.barcode,
+      status: row.status,
+      created: !!device,
+      ...(device ? { deviceId: device.id } : { error }),
+    });
+
+    const rows = [
+      ...submitted.map((row) => {
+        const device = uploadError
+          ? undefined
+          : createdByBarcode.get(row.barcode.trim().toUpperCase());
+        return toResult(
+          row,
+          device,
+          uploadError || translate('deviceImport.notCreated'),
+        );
+      }),
+      ...rejected.map(({ row, error }) => toResult(row, undefined, error)),
+    ].sort((a, b) => a.rowNumber - b.rowNumber);
+
+    const success = rows
+      .filter((r) => r.created)
+      .map((r) => createdByBarcode.get(r.barcode.trim().toUpperCase())!);
+    const failed = rows
+      .filter((r) => !r.created)
+      .map((r) => ({ id: String(r.rowNumber), error: r.error || '' }));
+
+    return {
+      success,
+      failed,
+      total: rows.length,
+      successCount: success.length,
+      failedCount: failed.length,
+      rows,
+    };
+  }
+
+  /**
+   * Genera el reporte de carga masiva en .xlsx: una hoja con cada fila y otra con el resumen
+   * @param report Reporte de la carga
+   * @returns Promise con el archivo del reporte
+   */
+  async buildReportFile(report: BulkUploadReport): Promise<Blob> {
+    const { Workbook } = await import('exceljs');
+    const workbook = new Workbook();
+
+    const sheet = workbook.addWorksheet(translate('deviceImport.resultSheet'));
+    sheet.columns = [
+      { header: translate('deviceImport.row'), key: 'rowNumber', width: 8 },
+      ...DeviceImportService.FIELDS.map((field) => ({
+        header: DeviceExportColumnLabels[field],
+        key: field,
+        width: 24,
+      })),
+      { header: translate('deviceImport.result'), key: 'result', width: 12 },
+      { header: translate('deviceImport.deviceId'), key: 'deviceId', width: 38 },
+      { header: translate('deviceImport.reason'), key: 'error', width: 50 },
+    ];
+    sheet.getRow(1).font = { bold: true };
+    report.rows.forEach((row) =>
+      sheet.addRow({
+        ...row,
+        result: translate(row.created ? 'deviceImport.created' : 'deviceImport.failed'),
+      }),
+    );
+
+    const summary = workbook.addWorksheet(translate('deviceImport.summarySheet'));
+    summary.addRows([
+      [translate('deviceImport.total'), report.total],
+      [translate('deviceImport.createdCount'), report.successCount],
+      [translate('deviceImport.failedCount'), report.failedCount],
+    ]);
+    summary.getColumn(1).font = { bold: true };
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return new Blob([buffer], { type: DeviceImportService.XLSX_TYPE });
+  }
+
+  /**
+   * Resuelve un estado escrito como valor del enum o como su label en cualquiera de los idiomas soportados
+   * Un mismo archivo debe importarse igual sin importar el idioma activo de quien lo carga
+   * @param value Texto del estado
+   * @returns DeviceStatus o null si no se reconoce
+   */
+  resolveStatus(value: string): DeviceStatus | null {
+    const normalized = this.normalize(value);
+    if (!normalized) return null;
+    return (
+      (Object.values(DeviceStatus) as DeviceStatus[]).find(
+        (status) =>
+          this.normalize(status) === normalized ||
+          translateAll(`deviceStatus.${status}`).some(
+            (label) => this.normalize(label) === normalized,
+          ),
+      ) || null
+    );
+  }
+
+  /**
+   * Lee la primera hoja de un archivo .xlsx; la primera fila contiene los encabezados
+   * @param file Archivo .xlsx
+   * @returns Promise con el contenido del archivo
+   */
+  private async readXlsx(file: File): Promise<BulkImportTable> {
+    if (!this.canPreview(file)) {
+      throw new Error(
+        translate('deviceImport.xlsNotSupported'),
+      );
+    }
+
+    const { Workbook } = await import('exceljs');
+    const workbook = new Workbook();
+    await workbook.xlsx.load(await file.arrayBuffer());
+    const sheet = workbook.worksheets[0];
+    if (!sheet) throw new Error(translate('deviceImport.noSheets'));
+
+    const headers: string[] = [];
+    sheet
+      .getRow(1)
+      .eachCell((cell, column) => (headers[column - 1] = cell.text.trim()));
+
+    const records: BulkImportTable['records'] = [];
+    sheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) return;
+      const values = Array.from(
+        { length: headers.length },
+        (_, i) => row.getCell(i + 1).text,
+      );
+      records.push({ rowNumber, values });
+    });
+    return { headers: Array.from(headers, (h) => h ?? ''), records };
+  }
+
+  /**
+   * Lee un archivo CSV detectando su codificación y delimitador
+   * La primera fila contiene los encabezados; el número de fila coincide con la línea del archivo
+   * @param file Archivo .csv
+   * @returns Promise con el contenido del archivo
+   */
+  private async readCsv(file: File): Promise<BulkImportTable> {
+    const text = decodeText(await file.arrayBuffer());
+    const [headers = [], ...rows] = parseCsv(text, detectDelimiter(text));
+    if (!headers.length) throw new Error(translate('deviceImport.emptyCsv'));
+    return {
+      headers: headers.map((h) => h.trim()),
+      records: rows.map((values, i) => ({ rowNumber: i + 2, values })),
+    };
+  }
+
+  /**
+   * Lee un archivo JSON con un arreglo de objetos (por ejemplo, CreateDeviceRq[])
+   * Los encabezados son la unión de las claves de todos los objetos
+   * @param file Archivo .json
+   * @returns Promise con el contenido del archivo; el número de fila es la posición en el arreglo
+   */
+  private async readJson(file: File): Promise<BulkImportTable> {
+    let data: unknown;
+    try {
+      data = JSON.parse(decodeText(await file.arrayBuffer()));
+    } catch {
+      throw new Error(translate('deviceImport.invalidJson'));
+    }
+    if (
+      !Array.isArray(data) ||
+      data.some((item) => !item || typeof item !== 'object' || Array.isArray(item))
+    ) {
+      throw new Error(translate('deviceImport.jsonNotArray'));
+    }
+
+    const items = data as Record<string, unknown>[];
+    const headers = [...new Set(items.flatMap((item) => Object.keys(item)))];
+    return {
+      headers,
+      records: items.map((item, i) => ({
+        rowNumber: i + 1,
+        values: headers.map((h) =>
+          item[h] === null || item[h] === undefined ? '' : String(item[h]),
+        ),
+      })),
+    };
+  }
+
+  /**
+   * Crea una fila de vista previa sin errores
+   * @param rowNumber Número de fila en el archivo original
+   * @param values Valores de los campos
+   * @returns BulkDeviceRow
+   */
+  private createRow(
+    rowNumber: number,
+    values: Record<keyof CreateDeviceRq, string>,
+  ): BulkDeviceRow {
+    return { rowNumber, ...values, errors: {} };
+  }
+
+  /**
+   * Normaliza un texto para compararlo: minúsculas, sin acentos ni separadores extra
+   * @param value Texto a normalizar
+   * @returns string
+   */
+  private normalize(value: string): string {
+    return (value || '')
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[_\s]+/g, ' ')
+      .trim()
+      .toLowerCase();
+  }
+}
@@ -1,7 +1,9 @@
 import { Injectable, inject } from '@angular/core';
-import {Observable, finalize} from 'rxjs';
+import {Observable, catchError, finalize, map, of, tap} from 'rxjs';
 import { ApiService } from '../../../../core/services/api.service';
-import { CreateDeviceRq, Device, DeviceAssignment, DevicesBatchAssignmentRs, DevicesBatchRq, DeviceStatus, DeviceUpdateBatchRq, RestoreDevicesRq, UpdateDevicesStateRq } from '../models/device.model';
+import { BatchOperationResponse, CreateDeviceRq, Device, DeviceAssignment, DeviceFilters, DevicesBatchAssignmentRs, DevicesBatchRq, DeviceStatus, DeviceStatusLabels, DeviceUpdateBatchRq, PaginatedDevicesResponse, PaginationParams, RestoreDeviceItem, RestoreDevicesRq, UpdateDevicesStateRq } from '../models/device.model';
+import { getApiErrorMessage } from '../../../../core/utils/api-error.utils';
+import { EntityCacheService } from '../../../../core/services/entity-cache.service';
 
 
 /**
@@ -16,13 +18,14 @@ import { CreateDeviceRq, Device, DeviceAssignment, DevicesBatchAssignmentRs, Dev
 export class DevicesService {
   // Injected services
   private apiService = inject(ApiService);
+  private entityCache = inject(EntityCacheService);
 
   /**
    * Crea un nuevo dispositivo
    * @param device Dispositivo a crear
    */
-  createDevice(device: Partial<CreateDeviceRq>): Observable<Device> {
-    return this.apiService.post<Device>('/devices', device);
+  createDevice(device: CreateDeviceRq): Observable<Device> {
+    return this.apiService.request('POST /devices', { body: device }).pipe(tap(() => this.invalidateCache()));
   }
 
   /**
@@ -30,7 +33,7 @@ export class DevicesService {
    * @param barcode Código de barras del dispositivo
    */
   getDeviceByBarcode(barcode: string): Observable<Device> {
-    return this.apiService.get<Device>(`/devices/barcode/${barcode}`);
+    return this.apiService.request('GET /devices/barcode/{barcode}', { path: { barcode } });
   }
 
   /**
@@ -38,14 +41,60 @@ export class DevicesService {
    * @param id ID del dispositivo
    */
   getDeviceById(id: string): Observable<Device> {
-    return this.apiService.get<Device>(`/devices/${id}`);
+    return this.entityCache.get('devices', id, () => this.apiService.request('GET /devices/{id}', { path: { id } }));
   }
 
   /**
    * Obtiene todos los dispositivos
    */
   getAllDevices(): Observable<Device[]> {
-    return this.apiService.get<Device[]>('/devices');
+    return this.entityCache.get('devices', 'all', () => this.apiService.request('GET /devices'));
+  }
+
+  /**
+   * Obtiene una página de dispositivos paginada, ordenada y filtrada en el servidor
+   * Los filtros vacíos y el estado 'ALL' no se envían como parámetros
+   * @param pagination Página, tamaño de página y criterio de ordenamiento
+   * @param filters Filtros de búsqueda, estado, marca y rango de fechas de creación
+   * @returns Observable con los dispositivos de la página y los metadatos de paginación
+   */
+  getDevicesPaginated(pagination: PaginationParams, filters: DeviceFilters = {}): Observable<PaginatedDevicesResponse> {
+    const params = this.apiService.buildParams({
+      page: pagination.page,
+      limit: pagination.limit,
+      sortBy: pagination.sortBy,
+      sortOrder: pagination.sortBy ? pagination.sortOrder ?? 'asc' : null,
+      search: filters.search?.trim(),
+      status: filters.status === 'ALL' ? null : filters.status,
+      brand: filters.brand?.trim(),
+      dateFrom: filters.dateFrom,
+      dateTo: filters.dateTo,
+    });
+    return this.apiService.request('GET /devices/paginated', { params });
+  }
+
+  /**
+   * Completa una lista de dispositivos con su estado de asignación activa
+   * @param devices Dispositivos a completar
+   * @returns Observable con los dispositivos marcados con assignmentActive y sin seleccionar
+   */
+  withAssignmentStatus(devices: Device[]): Observable<Device[]> {
+    if (!devices || devices.length === 0) {
+      return of([]);
+    }
+    const rq: DevicesBatchRq = { ids: devices.map((device) => device.id) };
+    return this.hasActiveAssignmentBatch(rq).pipe(
+      map((assignments) =>
+        devices.map((device): Device => {
+          const found = assignments.find((a) => a.deviceId === device.id);
+          return {
+            ...device,
+            assignmentActive: found ? found.active : false,
+            selected: false,
+          };
+        }),
+      ),
+    );
   }
 
   /**
@@ -53,7 +102,7 @@ export class DevicesService {
    * @param status Estado del dispositivo
    */
   getDeviceByStatus(status: DeviceStatus): Observable<Device[]> {
-    return this.apiService.get<Device[]>(`/devices/status/${status}`);
+    return this.apiService.request('GET /devices/status/{status}', { path: { status } });
   }
 
   /**
@@ -63,7 +112,7 @@ export class DevicesService {
   getDeviceStatuses(statuses: DeviceStatus[]): Observable<Device[]> {
     // Construye los parámetros de consulta para múltiples estados
     const params = this.apiService.buildParams({statuses});
-    return this.apiService.get<Device[]>('/devices/statuses', params);
+    return this.apiService.request('GET /devices/statuses', { params });
   }
 
   /**
@@ -71,16 +120,28 @@ export class DevicesService {
    * @param id ID del dispositivo a eliminar
    */
   deleteDevice(id: string): Observable<void> {
-    return this.apiService.delete<void>(`/devices/${id}`);
+    return this.apiService.request('DELETE /devices/{id}', { path: { id } }).pipe(tap(() => this.invalidateCache()));
   }
 
   /**
    * Actualiza un dispositivo existente
+   * Sin conexión el cambio se guarda en la cola offline; si se indica la fecha de última modificación
+   * conocida, al reenviarlo se reporta conflicto si otro usuario modificó el dispositivo
    * @param id ID del dispositivo a actualizar
    * @param device Datos del dispositivo a actualizar
+   * @param expectedUpdatedAt Fecha de última modificación conocida (opcional)
    */
-  updateDevice(id: string, device: Partial<CreateDeviceRq>): Observable<Device> {
-    return this.apiService.put<Device>(`/devices/${id}`, device);
+  updateDevice(id: string, device: Partial<CreateDeviceRq>, expectedUpdatedAt?: string): Observable<Device> {
+    return this.apiService.request('PUT /devices/{id}', {
+      path: { id },
+      body: device,
+      offline: {
+        offlineQueue: `Actualizar dispositivo ${device.name || id}`,
+        ...(expectedUpdatedAt
+          ? { conflictCheck: { endpoint: `/devices/${id}`, updatedAt: expectedUpdatedAt } }
+          : {}),
+      },
+    }).pipe(tap(() => this.invalidateCache()));
   }
 
   /**
@@ -88,7 +149,7 @@ export class DevicesService {
    * @param ids Objeto que contiene los IDs de los dispositivos
    */
   getDevicesBatch(ids: DevicesBatchRq): Observable<Device[]> {
-    return this.apiService.post<Device[]>('/devices/batch', ids);
+    return this.apiService.request('POST /devices/batch', { body: ids });
   }
 
   /**
@@ -96,15 +157,46 @@ export class DevicesService {
    * @param request Datos para reservar los dispositivos
    */
   reserveDevices(request: UpdateDevicesStateRq): Observable<Device[]> {
-    return this.apiService.post<Device[]>('/devices/reserve', request);
+    return this.apiService.request('POST /devices/reserve', { body: request }).pipe(tap(() => this.invalidateCache()));
   }
 
   /**
    * Restaura los estados originales de múltiples dispositivos
-   * @param items Lista de dispositivos a restaurar
+   * @param request Dispositivos a restaurar con su estado original
+   */
+  restoreDevicesStates(request: RestoreDevicesRq): Observable<Device[]> {
+    return this.apiService.request('POST /devices/restore', { body: request }).pipe(tap(() => this.invalidateCache()));
+  }
+
+  /**
+   * Restaura en un solo lote el estado original de varios dispositivos y resume el resultado por dispositivo
+   * Los dispositivos que el backend no devuelve se consideran fallidos; si la petición falla, fallan todos
+   * @param items Dispositivos a restaurar con su estado original
+   * @returns Observable con el resumen de dispositivos restaurados y fallidos (nunca emite error)
    */
-  restoreDevicesStates(items: RestoreDevicesRq[]): Observable<Device[]> {
-    return this.apiService.post<Device[]>('/devices/restore', items);
+  restoreOriginalStates(items: RestoreDeviceItem[]): Observable<BatchOperationResponse> {
+    const summarize = (success: Device[], error: string): BatchOperationResponse => {
+      const restoredIds = new Set(success.map((d) => d.id));
+      const failed = items
+        .filter((item) => !restoredIds.has(item.id))
+        .map((item) => ({ id: item.id, error }));
+      return {
+        success,
+        failed,
+        total: items.length,
+        successCount: success.length,
+        failedCount: failed.length,
+      };
+    };
+
+    if (!items.length) return of(summarize([], ''));
+
+    return this.restoreDevicesStates({ items }).pipe(
+      map((devices) => summarize(devices || [], 'El dispositivo no fue restaurado')),
+      catchError((err) =>
+        of(summarize([], getApiErrorMessage(err, 'Error al restaurar el dispositivo'))),
+      ),
+    );
   }
 
   /**
@@ -112,7 +204,10 @@ export class DevicesService {
    * @param request Datos para actualizar los dispositivos
    */
   updateDevicesByBatch(request: UpdateDevicesStateRq): Observable<Device[]> {
-    return this.apiService.post<Device[]>('/devices/update-batch', request);
+    return this.apiService.request('POST /devices/update-batch', {
+      body: request,
+      offline: { offlineQueue: 'Actualizar estado de dispositivos' },
+    }).pipe(tap(() => this.invalidateCache()));
   }
 
   /**
@@ -120,7 +215,7 @@ export class DevicesService {
    * @param formData FormData que contiene el archivo
    */
   uploadDevicesArchive(formData: FormData): Observable<Device[]> {
-    return this.apiService.postFormData<Device[]>('/devices/batch/upload', formData);
+    return this.apiService.postFormData<Device[]>('/devices/batch/upload', formData).pipe(tap(() => this.invalidateCache()));
   }
 
   /**
@@ -128,8 +223,8 @@ export class DevicesService {
    * @param deviceId ID del dispositivo
    * @returns Observable con el historial de asignaciones del dispositivo
    */
-  getDeviceAssignmentHistory(deviceId: string): Observable<any[]> {
-    return this.apiService.get<DeviceAssignment[]>(`/devices-assignments/${deviceId}/history`);
+  getDeviceAssignmentHistory(deviceId: string): Observable<DeviceAssignment[]> {
+    return this.apiService.request('GET /devices-assignments/{deviceId}/history', { path: { deviceId } });
   }
 
   /**
@@ -140,7 +235,7 @@ export class DevicesService {
   uploadBulkDevices(file: File): Observable<Device[]> {
     const formData = new FormData();
     formData.append('file', file);
-    return this.apiService.postFormData<Device[]>('/devices/batch/upload', formData);
+    return this.apiService.postFormData<Device[]>('/devices/batch/upload', formData).pipe(tap(() => this.invalidateCache()));
   }
 
   /**
@@ -149,7 +244,7 @@ export class DevicesService {
    * @returns Observable con un booleano que indica si los dispositivos tienen una asignación activa
     */
   hasActiveAssignmentBatch(devices: DevicesBatchRq): Observable<DevicesBatchAssignmentRs[]> {
-    return this.apiService.post<DevicesBatchAssignmentRs[]>(`/devices-assignments/devices/active`, devices);
+    return this.apiService.request('POST /devices-assignments/devices/active', { body: devices });
   }
 
   /**
@@ -157,7 +252,20 @@ export class DevicesService {
    * @param request Objeto que contiene los IDs de los dispositivos a actualizar y el nuevo estado
    * @returns Observable con los dispositivos actualizados
    */
-  updateBatchDevicesState(request: DeviceUpdateBatchRq): Observable<any> {
-    return this.apiService.put<any>('/devices/update-batch', request);
+  updateBatchDevicesState(request: DeviceUpdateBatchRq): Observable<Device[]> {
+    return this.apiService.request('PUT /devices/update-batch', {
+      body: request,
+      offline: {
+        offlineQueue: `Cambiar ${request.deviceIds.length} dispositivos a ${DeviceStatusLabels[request.state]}`,
+      },
+    }).pipe(tap(() => this.invalidateCache()));
+  }
+
+  /**
+   * Descarta los dispositivos guardados en caché tras un cambio
+   * @returns void
+   */
+  invalidateCache(): void {
+    this.entityCache.invalidate('devices');
   }
 }
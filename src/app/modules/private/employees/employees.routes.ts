@@ -1,6 +1,7 @@
 import { Routes } from '@angular/router';
 import { EmployeesComponent } from './pages/employees/employees.component';
 import { EmployeesDetailComponent } from './pages/employees-detail/employees-detail.component';
+import { EmployeesResolver } from './resolvers/employees-resolver';
 
 /**
  * Rutas del módulo de empleados con lazy loading
@@ -15,6 +16,7 @@ export const EMPLOYEES_ROUTES: Routes = [
   {
     path: '',
     component: EmployeesComponent,
+    resolve: { employees: EmployeesResolver },
     data: {
       breadcrumb: 'Empleados',
       title: 'Gestión de Empleados',
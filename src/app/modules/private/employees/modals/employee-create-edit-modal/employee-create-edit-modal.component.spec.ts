@@ -0,0 +1,69 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+
+import { EmployeeCreateEditModalComponent } from './employee-create-edit-modal.component';
+import { Employee, EmployeeFormResult, EmployeeStatus } from '../../models/employe.model';
+import { environment } from '../../../../../../environments/environment';
+
+describe('EmployeeCreateEditModalComponent', () => {
+  let component: EmployeeCreateEditModalComponent;
+  let fixture: ComponentFixture<EmployeeCreateEditModalComponent>;
+  let httpMock: HttpTestingController;
+
+  const employee: Employee = {
+    id: 'e1',
+    fullName: 'Laura Gómez',
+    email: 'laura@infragest.dev',
+    documentType: 'CC',
+    documentNumber: '1020304050',
+    status: EmployeeStatus.ACTIVE,
+  };
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [EmployeeCreateEditModalComponent],
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(EmployeeCreateEditModalComponent);
+    component = fixture.componentInstance;
+    httpMock = TestBed.inject(HttpTestingController);
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('debe crear el empleado y emitir save en modo create', () => {
+    let result: EmployeeFormResult | undefined;
+    component.save.subscribe((value) => (result = value));
+
+    const { id, ...form } = employee;
+    component.employeeForm.setValue({ ...form, fullName: ' Laura Gómez ' });
+    component.submit();
+
+    const req = httpMock.expectOne(`${environment.apiUrl}/employees`);
+    expect(req.request.method).toBe('POST');
+    expect(req.request.body.fullName).toBe('Laura Gómez');
+    req.flush(employee);
+
+    expect(result).toEqual({ employee, mode: 'create' });
+  });
+
+  it('NO debe enviar el formulario si es inválido', () => {
+    const saveSpy = jasmine.createSpy('save');
+    component.save.subscribe(saveSpy);
+
+    component.submit();
+
+    httpMock.expectNone(`${environment.apiUrl}/employees`);
+    expect(saveSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,215 @@
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  OnInit,
+  OnChanges,
+  SimpleChanges,
+  OnDestroy,
+  ChangeDetectionStrategy,
+  ChangeDetectorRef,
+} from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule } from '@angular/forms';
+import { Subject, takeUntil, finalize } from 'rxjs';
+import { toast } from 'ngx-sonner';
+import {
+  CreateEmployeeRq,
+  DocumentTypeLabels,
+  Employee,
+  EmployeeFormResult,
+  EmployeeStatus,
+  EmployeeStatusLabels,
+} from '../../models/employe.model';
+import { EmployeesService } from '../../services/employees.service';
+import {
+  noWhitespaceValidator,
+  noNumbersInNameValidator,
+} from '../../../../../core/utils/form-validators.utils';
+import { TranslatePipe } from '../../../../../shared/pipes/translate.pipe';
+import {
+  applyApiFieldErrors,
+  getApiErrorMessage,
+  notifyApiError,
+} from '../../../../../core/utils/api-error.utils';
+
+@Component({
+  selector: 'app-employee-create-edit-modal',
+  templateUrl: './employee-create-edit-modal.component.html',
+  standalone: true,
+  styleUrls: ['./employee-create-edit-modal.component.css'],
+  imports: [CommonModule, ReactiveFormsModule, TranslatePipe],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class EmployeeCreateEditModalComponent
+  implements OnInit, OnChanges, OnDestroy
+{
+  // Inputs y Outputs
+  @Input() employee: Employee | null = null;
+  @Output() close = new EventEmitter<void>();
+  @Output() save = new EventEmitter<EmployeeFormResult>();
+
+  // Formulario y estado
+  employeeForm!: FormGroup;
+  submitted = false;
+  EmployeeStatusLabels = EmployeeStatusLabels;
+  formError = '';
+  formLoading = false;
+
+  // Para iterar sobre los estados y tipos de documento en el template
+  public employeeStatuses = Object.values(EmployeeStatus);
+  public documentTypeEntries = Object.entries(DocumentTypeLabels);
+
+  // Para manejar desuscripciones
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private fb: FormBuilder,
+    private employeesService: EmployeesService,
+    private cd: ChangeDetectorRef,
+  ) {}
+
+  /**
+   * Inicializa el formulario con validaciones y valores del empleado (si existe)
+   * @returns void
+   */
+  ngOnInit(): void {
+    this.initForm();
+  }
+
+  /**
+   * Limpia recursos al destruir el componente
+   * @returns void
+   */
+  ngOnDestroy() {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Detecta cambios en el input 'employee' para reinicializar el formulario con los nuevos valores
+   * @param changes Cambios detectados en los inputs
+   * @returns void
+   */
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['employee'] && !changes['employee'].firstChange) {
+      this.initForm();
+    }
+  }
+
+  /** Inicializa el formulario con validaciones y valores del empleado (si existe)
+   * @returns void
+   */
+  private initForm(): void {
+    this.employeeForm = this.fb.group({
+      fullName: [
+        this.employee?.fullName || '',
+        [Validators.required, noWhitespaceValidator(), noNumbersInNameValidator()],
+      ],
+      email: [
+        this.employee?.email || '',
+        [Validators.required, Validators.email],
+      ],
+      documentType: [
+        this.employee?.documentType || '',
+        [Validators.required],
+      ],
+      documentNumber: [
+        this.employee?.documentNumber || '',
+        [
+          Validators.required,
+          Validators.pattern(/^[A-Za-z0-9]{5,20}$/),
+          noWhitespaceValidator(),
+        ],
+      ],
+      status: [
+        this.employee?.status || EmployeeStatus.ACTIVE,
+        Validators.required,
+      ],
+    });
+    this.submitted = false;
+    this.formError = '';
+    this.formLoading = false;
+  }
+
+  /**
+   * Envía el formulario para crear o actualizar un empleado
+   * Determina si se está creando o editando por la presencia de this.employee
+   * @returns void
+   */
+  submit(): void {
+    this.submitted = true;
+    this.formError = '';
+
+    // Validación: si es edición, verifica que haya cambios
+    if (this.employee && !this.hasChanges()) {
+      toast.warning('No se detectaron cambios en el empleado');
+      this.cd.markForCheck();
+      return;
+    }
+
+    if (this.employeeForm.invalid) return;
+
+    this.formLoading = true;
+    this.cd.markForCheck();
+    const value = this.employeeForm.value;
+    const request: CreateEmployeeRq = {
+      fullName: value.fullName.trim(),
+      email: value.email.trim(),
+      documentType: value.documentType,
+      documentNumber: value.documentNumber.trim(),
+      status: value.status,
+    };
+    const isEdit = !!this.employee;
+    const op$ = this.employee
+      ? this.employeesService.updateEmployee(this.employee.id, request)
+      : this.employeesService.createEmployee(request);
+
+    op$
+      .pipe(
+        takeUntil(this.destroy$),
+        finalize(() => {
+          this.formLoading = false;
+          this.cd.markForCheck();
+        }),
+      )
+      .subscribe({
+        next: (employee: Employee) => {
+          this.save.emit({ employee, mode: isEdit ? 'edit' : 'create' });
+        },
+        error: (err) => {
+          // Los errores por campo del backend se muestran junto a cada control
+          applyApiFieldErrors(this.employeeForm, err);
+          const msg = getApiErrorMessage(err, 'Error al guardar el empleado');
+          this.formError = msg;
+          notifyApiError(err, 'Error al guardar el empleado');
+        },
+      });
+  }
+
+  /**
+   * Emite el evento de cierre del modal para que el componente padre lo oculte
+   * @returns void
+   */
+  closeModal(): void {
+    this.close.emit();
+  }
+
+  /**
+   * Verifica si hay cambios en el formulario comparado con los valores originales del empleado
+   * @returns boolean - true si hay cambios, false si no hay cambios
+   */
+  private hasChanges(): boolean {
+    if (!this.employee) return true;
+    const current = this.employeeForm.value;
+    return (
+      current.fullName?.trim() !== this.employee.fullName ||
+      current.email?.trim() !== this.employee.email ||
+      current.documentType !== (this.employee.documentType || '') ||
+      current.documentNumber?.trim() !== (this.employee.documentNumber || '') ||
+      current.status !== this.employee.status
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+
+import { EmployeeDeleteModalComponent } from './employee-delete-modal.component';
+import { EmployeeStatus } from '../../models/employe.model';
+import { environment } from '../../../../../../environments/environment';
+
+describe('EmployeeDeleteModalComponent', () => {
+  let component: EmployeeDeleteModalComponent;
+  let fixture: ComponentFixture<EmployeeDeleteModalComponent>;
+  let httpMock: HttpTestingController;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [EmployeeDeleteModalComponent],
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(EmployeeDeleteModalComponent);
+    component = fixture.componentInstance;
+    component.employee = { id: 'e1', fullName: 'Laura Gómez', email: 'laura@infragest.dev', status: EmployeeStatus.ACTIVE };
+    httpMock = TestBed.inject(HttpTestingController);
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('debe eliminar el empleado y emitir deleted', () => {
+    const deletedSpy = jasmine.createSpy('deleted');
+    component.deleted.subscribe(deletedSpy);
+
+    component.confirmDelete();
+
+    const req = httpMock.expectOne(`${environment.apiUrl}/employees/e1`);
+    expect(req.request.method).toBe('DELETE');
+    req.flush(null);
+
+    expect(deletedSpy).toHaveBeenCalled();
+    expect(component.loading).toBeFalse();
+  });
+
+  it('debe mostrar el error y no emitir deleted si falla la eliminación', () => {
+    const deletedSpy = jasmine.createSpy('deleted');
+    component.deleted.subscribe(deletedSpy);
+
+    component.confirmDelete();
+    httpMock
+      .expectOne(`${environment.apiUrl}/employees/e1`)
+      .flush({ message: 'El empleado tiene órdenes activas' }, { status: 409, statusText: 'Conflict' });
+
+    expect(deletedSpy).not.toHaveBeenCalled();
+    expect(component.error).toBeTruthy();
+  });
+});
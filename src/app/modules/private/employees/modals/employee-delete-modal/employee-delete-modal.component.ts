@@ -0,0 +1,64 @@
+import { Component, Input, Output, EventEmitter } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { toast } from 'ngx-sonner';
+import { finalize } from 'rxjs';
+import { Employee } from '../../models/employe.model';
+import { EmployeesService } from '../../services/employees.service';
+import {
+  getApiErrorMessage,
+  notifyApiError,
+} from '../../../../../core/utils/api-error.utils';
+
+@Component({
+  selector: 'app-employee-delete-modal',
+  templateUrl: './employee-delete-modal.component.html',
+  styleUrls: ['./employee-delete-modal.component.css'],
+  standalone: true,
+  imports: [CommonModule],
+})
+export class EmployeeDeleteModalComponent {
+  // Inputs y Outputs
+  @Input() employee: Employee | null = null;
+  @Output() deleted = new EventEmitter<void>();
+  @Output() cancel = new EventEmitter<void>();
+
+  // Estado de carga y error
+  loading = false;
+  error = '';
+
+  constructor(private employeesService: EmployeesService) {}
+
+  /**
+   * Confirma la eliminación del empleado
+   * Llama al servicio para eliminar el empleado por su ID
+   * Muestra un toast de éxito o error según corresponda
+   * @returns void
+   */
+  confirmDelete(): void {
+    if (!this.employee) return;
+    this.loading = true;
+    this.employeesService
+      .deleteEmployee(this.employee.id)
+      .pipe(finalize(() => (this.loading = false)))
+      .subscribe({
+        next: () => {
+          toast.success('Empleado eliminado');
+          this.deleted.emit();
+        },
+        error: (err) => {
+          const msg = getApiErrorMessage(err, 'Error al eliminar el empleado');
+          this.error = msg;
+          notifyApiError(err, 'Error al eliminar el empleado');
+        },
+      });
+  }
+
+  /**
+   * Cancela la eliminación y cierra el modal
+   * Emite un evento de cancelación para que el componente padre pueda manejarlo
+   * @returns void
+   */
+  cancelDelete(): void {
+    this.cancel.emit();
+  }
+}
@@ -6,6 +6,8 @@ export interface Employee{
   fullName: string;
   email: string;
   status: EmployeeStatus;
+  documentType?: string;
+  documentNumber?: string;
 }
 
 /**
@@ -27,9 +29,41 @@ export enum EmployeeStatus {
   INACTIVE = 'INACTIVE',
 }
 
+/**
+ * Labels para mostrar en UI
+ */
+export const EmployeeStatusLabels: { [key in EmployeeStatus]: string } = {
+  [EmployeeStatus.ACTIVE]: 'Activo',
+  [EmployeeStatus.INACTIVE]: 'Inactivo',
+};
+
+/**
+ * Colores para badges en UI
+ */
+export const EmployeeStatusColors: { [key in EmployeeStatus]: string } = {
+  [EmployeeStatus.ACTIVE]: 'badge-success',
+  [EmployeeStatus.INACTIVE]: 'badge-ghost',
+};
+
+/**
+ * Tipos de documento de identidad soportados y su label para la UI
+ */
+export const DocumentTypeLabels: { [key: string]: string } = {
+  CC: 'Cédula de ciudadanía',
+  CE: 'Cédula de extranjería',
+  TI: 'Tarjeta de identidad',
+  PA: 'Pasaporte',
+};
+
 /**
  * Request para asignar empleados a un grupo
  */
 export interface EmployeesAsignment {
   employeesId: string[];
 }
+
+// Resultado del formulario de creación/edición de empleado
+export interface EmployeeFormResult {
+  employee: Employee;
+  mode: 'create' | 'edit';
+}
@@ -1,7 +1,4 @@
-/* tslint:disable:no-unused-variable */
-import { async, ComponentFixture, TestBed } from '@angular/core/testing';
-import { By } from '@angular/platform-browser';
-import { DebugElement } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
 
 import { EmployeesDetailComponent } from './employees-detail.component';
 
@@ -9,14 +6,12 @@ describe('EmployeesDetailComponent', () => {
   let component: EmployeesDetailComponent;
   let fixture: ComponentFixture<EmployeesDetailComponent>;
 
-  beforeEach(async(() => {
-    TestBed.configureTestingModule({
-      declarations: [ EmployeesDetailComponent ]
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [EmployeesDetailComponent]
     })
     .compileComponents();
-  }));
 
-  beforeEach(() => {
     fixture = TestBed.createComponent(EmployeesDetailComponent);
     component = fixture.componentInstance;
     fixture.detectChanges();
@@ -1,20 +1,249 @@
-import { Component, OnInit } from '@angular/core';
+import { Component, OnInit, OnDestroy } from '@angular/core';
 import { Location } from '@angular/common';
 import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router } from '@angular/router';
+import {
+  Subject,
+  Observable,
+  switchMap,
+  tap,
+  of,
+  takeUntil,
+  finalize,
+  catchError,
+  forkJoin,
+  map,
+} from 'rxjs';
+import {
+  DocumentTypeLabels,
+  Employee,
+  EmployeeStatus,
+  EmployeeStatusColors,
+  EmployeeStatusLabels,
+} from '../../models/employe.model';
+import { EmployeesService } from '../../services/employees.service';
+import { OrdersService } from '../../../orders/services/orders.service';
+import { GroupsService } from '../../../groups/services/groups.service';
+import { OrderAssigneesService } from '../../../orders/services/order-assignees.service';
+import {
+  AssigneeHeldDevice,
+  Order,
+  OrderStateLabels,
+  OrderStatusColors,
+} from '../../../orders/models/Orders';
+import { Group } from '../../../groups/models/groups.model';
+import {
+  DeviceStatusColors,
+  DeviceStatusLabels,
+} from '../../../devices/models/device.model';
+import { LoadingService } from '../../../../../core/services/loading.service';
+import {
+  getApiErrorMessage,
+  notifyApiError,
+} from '../../../../../core/utils/api-error.utils';
+import { LocalDatePipe } from '../../../../../shared/pipes/local-date.pipe';
 
 @Component({
   selector: 'app-employees-detail',
   templateUrl: './employees-detail.component.html',
   styleUrls: ['./employees-detail.component.css'],
+  standalone: true,
+  imports: [CommonModule, LocalDatePipe],
 })
-export class EmployeesDetailComponent implements OnInit {
-  constructor(private location: Location) {}
+export class EmployeesDetailComponent implements OnInit, OnDestroy {
+  // Observables para el empleado y sus relaciones
+  employee$: Observable<Employee | null> = of();
+  orders$: Observable<Order[]> = of([]);
+  groups$: Observable<Group[]> = of([]);
+  heldDevices$: Observable<AssigneeHeldDevice[]> = of([]);
 
-  ngOnInit() {}
+  // Estado de carga y error
+  loading = false;
+  error = '';
+
+  // Mapas para etiquetas y colores
+  EmployeeStatusLabels = EmployeeStatusLabels;
+  OrderStateLabels = OrderStateLabels;
+  OrderStatusColors = OrderStatusColors;
+  DeviceStatusLabels = DeviceStatusLabels;
+  DeviceStatusColors = DeviceStatusColors;
+
+  // Observable para el estado de carga global
+  get loading$() {
+    return this.loadingService.loading$;
+  }
+
+  // Subject para manejar la destrucción del componente y evitar fugas de memoria
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private route: ActivatedRoute,
+    private router: Router,
+    private location: Location,
+    private employeesService: EmployeesService,
+    private ordersService: OrdersService,
+    private groupsService: GroupsService,
+    private orderAssigneesService: OrderAssigneesService,
+    private loadingService: LoadingService,
+  ) {}
+
+  /**
+   * Inicializa el componente cargando el empleado y sus relaciones
+   * @returns void
+   */
+  ngOnInit() {
+    this.initParams();
+  }
+
+  /** Limpia los recursos del componente al destruirlo
+   * @returns void
+   */
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Inicializa los parámetros del componente
+   * Obtiene el ID del empleado desde la ruta y carga el empleado, sus órdenes, sus grupos
+   * y los dispositivos que tiene en custodia a través de órdenes no cerradas
+   * @returns void
+   */
+  initParams(): void {
+    this.route.params
+      .pipe(
+        tap(() => {
+          this.loading = true;
+          this.error = '';
+        }),
+        switchMap((params) => this.getEmployeeAndRelations(params['id'])),
+        switchMap((result) =>
+          this.orderAssigneesService.getHeldDevices(result.orders).pipe(
+            catchError((err) => {
+              notifyApiError(err, 'No se pudieron cargar los dispositivos en custodia');
+              return of([]);
+            }),
+            map((heldDevices) => ({ ...result, heldDevices })),
+          ),
+        ),
+        takeUntil(this.destroy$),
+      )
+      .subscribe(({ employee, orders, groups, heldDevices }) => {
+        this.employee$ = of(employee);
+        this.orders$ = of(orders);
+        this.groups$ = of(groups);
+        this.heldDevices$ = of(heldDevices);
+      });
+  }
+
+  /**
+   * Obtiene el empleado junto con las órdenes asignadas a él y los grupos a los que pertenece
+   * Las órdenes y grupos se filtran en cliente a partir de los listados completos
+   * @param employeeId ID del empleado
+   * @returns Observable con el empleado, sus órdenes y sus grupos
+   */
+  private getEmployeeAndRelations(employeeId: string): Observable<{
+    employee: Employee | null;
+    orders: Order[];
+    groups: Group[];
+  }> {
+    return forkJoin({
+      employee: this.employeesService.getEmployeeById(employeeId).pipe(
+        catchError((err) => {
+          this.error = getApiErrorMessage(err, 'Error al cargar empleado');
+          notifyApiError(err, 'Error al cargar el empleado');
+          return of(null);
+        }),
+      ),
+      orders: this.ordersService.getAllOrders().pipe(
+        map((orders) =>
+          (orders || []).filter(
+            (o) => o.assigneeType === 'EMPLOYEE' && o.assigneeId === employeeId,
+          ),
+        ),
+        catchError((err) => {
+          notifyApiError(err, 'No se pudieron cargar las órdenes del empleado');
+          return of([]);
+        }),
+      ),
+      groups: this.groupsService.getAllGroups().pipe(
+        map((groups) =>
+          (groups || []).filter((g) =>
+            (g.employees || []).some((e) => e.id === employeeId),
+          ),
+        ),
+        catchError((err) => {
+          notifyApiError(err, 'No se pudieron cargar los grupos del empleado');
+          return of([]);
+        }),
+      ),
+    }).pipe(
+      finalize(() => {
+        this.loading = false;
+      }),
+    );
+  }
+
+  /**
+   * Devuelve la clase CSS para el badge de estado del empleado
+   * @param status Estado del empleado
+   * @returns string Clase CSS del badge
+   */
+  getStatusBadge(status: EmployeeStatus): string {
+    return `badge ${EmployeeStatusColors[status]} capitalize`;
+  }
+
+  /**
+   * Devuelve el label del tipo de documento o el código si no es conocido
+   * @param type Código del tipo de documento
+   * @returns string Label del tipo de documento
+   */
+  getDocumentTypeLabel(type?: string): string {
+    if (!type) return '-';
+    return DocumentTypeLabels[type] || type;
+  }
+
+  /**
+   * Navega al detalle de una orden
+   * @param orderId ID de la orden
+   * @returns void
+   */
+  goDetailOrder(orderId: string): void {
+    if (!orderId) return;
+    this.router.navigate(['/app/orders/', orderId]);
+  }
+
+  /**
+   * Navega al detalle de un grupo
+   * @param groupId ID del grupo
+   * @returns void
+   */
+  goDetailGroup(groupId: string): void {
+    if (!groupId) return;
+    this.router.navigate(['/app/groups/', groupId]);
+  }
+
+  /**
+   * Navega al detalle de un dispositivo
+   * @param deviceId ID del dispositivo
+   * @returns void
+   */
+  goDetailDevice(deviceId: string): void {
+    if (!deviceId) return;
+    this.router.navigate(['/app/devices/', deviceId]);
+  }
+
+  /**
+   * Refresca los datos del empleado y sus relaciones
+   * @returns void
+   */
+  refreshData(): void {
+    this.initParams();
+  }
 
   /**
    * Navega a la página anterior utilizando el servicio Location de Angular
-   * Permite al usuario volver a la lista de dispositivos o a la página desde donde accedió al detalle del dispositivo
+   * Permite al usuario volver a la lista de empleados o a la página desde donde accedió al detalle del empleado
    * @returns void
    */
   goBack(): void {
@@ -1,15 +1,442 @@
-import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { Router, ActivatedRoute } from '@angular/router';
+import {
+  Subject,
+  takeUntil,
+  BehaviorSubject,
+  Observable,
+  combineLatest,
+  startWith,
+  map,
+  tap,
+  catchError,
+  of,
+} from 'rxjs';
+import { toast } from 'ngx-sonner';
+import {
+  DocumentTypeLabels,
+  Employee,
+  EmployeeFormResult,
+  EmployeeStatus,
+  EmployeeStatusColors,
+  EmployeeStatusLabels,
+} from '../../models/employe.model';
+import { EmployeesService } from '../../services/employees.service';
+import { LoadingService } from '../../../../../core/services/loading.service';
+import { EmployeeCreateEditModalComponent } from '../../modals/employee-create-edit-modal/employee-create-edit-modal.component';
+import { EmployeeDeleteModalComponent } from '../../modals/employee-delete-modal/employee-delete-modal.component';
+import { HasPermissionDirective } from '../../../../../shared/directives/has-permission.directive';
+import { Permission } from '../../../../public/auth/models/role.model';
+import { notifyApiError } from '../../../../../core/utils/api-error.utils';
 
 @Component({
   selector: 'app-employees',
+  imports: [
+    CommonModule,
+    FormsModule,
+    EmployeeCreateEditModalComponent,
+    EmployeeDeleteModalComponent,
+    HasPermissionDirective,
+  ],
+  standalone: true,
   templateUrl: './employees.component.html',
-  styleUrls: ['./employees.component.css']
+  styleUrls: ['./employees.component.css'],
 })
-export class EmployeesComponent implements OnInit {
+export class EmployeesComponent implements OnInit, OnDestroy {
+  // Permisos para mostrar u ocultar acciones según el rol
+  Permission = Permission;
 
-  constructor() { }
+  // Modales
+  showCreateModal = false;
+  showEditModal = false;
+  showDeleteModal = false;
 
-  ngOnInit() {
+  // Empleado seleccionado para editar o eliminar
+  employeeToEdit: Employee | null = null;
+  employeeToDelete: Employee | null = null;
+
+  // Modo del formulario: 'create' o 'edit'
+  formMode: 'create' | 'edit' = 'create';
+
+  // Estado de carga y error
+  employeeErrorMessage = '';
+  isRetrying = false;
+  employeeError = false;
+  buttonsIsAvailable = true;
+
+  // Filtros como BehaviorSubject
+  search$ = new BehaviorSubject<string>('');
+  statusFilter$ = new BehaviorSubject<EmployeeStatus | 'ALL'>('ALL');
+
+  // Getters y Setters para filtros
+  get search(): string {
+    return this.search$.value;
+  }
+
+  set search(val: string) {
+    this.search$.next(val);
+  }
+
+  // El filtro de estado puede ser un EmployeeStatus o 'ALL' para mostrar todos
+  get statusFilter(): EmployeeStatus | 'ALL' {
+    return this.statusFilter$.value;
+  }
+
+  set statusFilter(val: EmployeeStatus | 'ALL') {
+    this.statusFilter$.next(val);
+  }
+
+  // Observable para el estado de carga global
+  get loading$() {
+    return this.loadingService.loading$;
+  }
+
+  // Fuente de datos principal de empleados
+  employees$ = new BehaviorSubject<Employee[]>([]);
+
+  // Mapas para etiquetas y colores de estado
+  EmployeeStatus = EmployeeStatus;
+  EmployeeStatusLabels = EmployeeStatusLabels;
+  EmployeeStatusColors = EmployeeStatusColors;
+  DocumentTypeLabels = DocumentTypeLabels;
+  employeeStatuses = Object.values(EmployeeStatus);
+
+  // Subject para manejar la destrucción del componente y evitar fugas de memoria
+  private readonly destroy$ = new Subject<void>();
+
+  // Paginación
+  page = 1;
+  pageSize = 10;
+  totalItems = 0;
+
+  constructor(
+    private employeesService: EmployeesService,
+    private loadingService: LoadingService,
+    private router: Router,
+    private route: ActivatedRoute,
+  ) {}
+
+  /**
+   * Inicializa el componente - carga los empleados resueltos por la ruta
+   * @returns void
+   */
+  ngOnInit(): void {
+    this.initEmployeesData();
+  }
+
+  /**
+   * Limpia recursos al destruir el componente
+   * @returns void
+   */
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Inicializa los datos de empleados a partir del resolver
+   * @returns void
+   */
+  initEmployeesData(): void {
+    const resolved = this.route.snapshot.data['employees'];
+
+    if (resolved === 'ERROR') {
+      // El resolver ya mostró el error
+      this.employeeError = true;
+      this.employeeErrorMessage = 'Error de conexión al backend.';
+      this.employees$.next([]);
+      this.buttonsIsAvailable = false;
+      return;
+    }
+
+    if (!resolved || resolved.length === 0) {
+      toast.info('No hay empleados para mostrar actualmente.');
+      this.employeeError = false;
+      this.employeeErrorMessage = '';
+      this.employees$.next([]);
+      this.buttonsIsAvailable = true;
+      return;
+    }
+
+    this.buttonsIsAvailable = true;
+    this.employeeError = false;
+    this.employeeErrorMessage = '';
+    this.employees$.next(resolved);
+  }
+
+  /**
+   * Carga los empleados desde el servicio y actualiza el estado local
+   * Muestra un toast de error si la carga falla
+   * @returns void
+   */
+  loadEmployees(): void {
+    this.employeeErrorMessage = '';
+    this.employeeError = false;
+    this.employeesService
+      .getAllEmployees()
+      .pipe(
+        takeUntil(this.destroy$),
+        catchError((error) => {
+          notifyApiError(error, 'Error al obtener empleados');
+          this.employeeError = true;
+          this.employeeErrorMessage =
+            error.message || 'Error al cargar empleados';
+          this.isRetrying = false;
+          return of([]);
+        }),
+      )
+      .subscribe((employees) => {
+        this.isRetrying = false;
+        this.buttonsIsAvailable = !this.employeeError;
+        this.employees$.next(employees || []);
+      });
+  }
+
+  /**
+   * Reintenta cargar los empleados después de un error
+   * @returns void
+   */
+  retryLoadData(): void {
+    this.isRetrying = true;
+    this.loadEmployees();
+  }
+
+  /**
+   * Filtra los empleados según el texto de búsqueda y el estado seleccionado
+   * Se actualiza automáticamente cuando cambian los empleados o los filtros
+   * @returns Observable<Employee[]> Lista de empleados filtrados
+   */
+  filteredEmployees$: Observable<Employee[]> = combineLatest([
+    this.employees$,
+    this.search$.pipe(startWith('')),
+    this.statusFilter$.pipe(startWith('ALL')),
+  ]).pipe(
+    map(([employees, search, filter]) =>
+      employees.filter(
+        (e) =>
+          this.matchSearch(e, search) &&
+          (filter === 'ALL' || e.status === filter),
+      ),
+    ),
+    tap((employees) => (this.totalItems = employees.length)),
+  );
+
+  /**
+   * Calcula estadísticas de los empleados filtrados para mostrar en la UI
+   * @returns Observable con el total de empleados y el conteo por estado
+   */
+  filteredStats$: Observable<{
+    totalEmployees: number;
+    active: number;
+    inactive: number;
+  }> = this.filteredEmployees$.pipe(
+    map((employees) => ({
+      totalEmployees: employees.length,
+      active: employees.filter((e) => e.status === EmployeeStatus.ACTIVE)
+        .length,
+      inactive: employees.filter((e) => e.status === EmployeeStatus.INACTIVE)
+        .length,
+    })),
+  );
+
+  // Observable de la página actual de empleados filtrados
+  get pagedEmployees$(): Observable<Employee[]> {
+    return this.filteredEmployees$.pipe(
+      map((employees) =>
+        employees.slice(
+          (this.page - 1) * this.pageSize,
+          this.page * this.pageSize,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Actualiza el filtro de búsqueda con el valor ingresado por el usuario
+   * @param value Valor de búsqueda ingresado por el usuario
+   */
+  onSearchChange(value: string): void {
+    this.page = 1;
+    this.search = value || '';
   }
 
+  /**
+   * Actualiza el filtro de estado con el valor seleccionado por el usuario
+   * @param status Estado seleccionado (EmployeeStatus o 'ALL')
+   */
+  filterByStatus(status: EmployeeStatus | 'ALL'): void {
+    this.page = 1;
+    this.statusFilter = status;
+  }
+
+  /** Restablece los filtros de búsqueda y estado a sus valores predeterminados
+   * @returns void
+   */
+  resetFilters(): void {
+    this.page = 1;
+    this.search = '';
+    this.statusFilter = 'ALL';
+  }
+
+  /** Verifica si un empleado coincide con el texto de búsqueda en su nombre o correo
+   * @param employee Empleado a verificar
+   * @param search Texto de búsqueda ingresado por el usuario
+   * @returns boolean Verdadero si el empleado coincide con la búsqueda
+   */
+  private matchSearch(employee: Employee, search: string): boolean {
+    if (!search) return true;
+    const lower = search.toLowerCase();
+    return (
+      (employee.fullName || '').toLowerCase().includes(lower) ||
+      (employee.email || '').toLowerCase().includes(lower)
+    );
+  }
+
+  /** Abre el modal para crear un nuevo empleado
+   * @returns void
+   */
+  openCreateModal(): void {
+    this.formMode = 'create';
+    this.employeeToEdit = null;
+    this.showCreateModal = true;
+    this.showEditModal = false;
+  }
+
+  /** Abre el modal para editar un empleado existente
+   * @param employee Empleado a editar
+   * @returns void
+   */
+  openEditModal(employee: Employee): void {
+    this.formMode = 'edit';
+    this.employeeToEdit = employee;
+    this.showEditModal = true;
+    this.showCreateModal = false;
+  }
+
+  /**
+   * Abre el modal para confirmar la eliminación de un empleado
+   * @param employee Empleado a eliminar
+   * @returns void
+   */
+  openDeleteModal(employee: Employee): void {
+    this.employeeToDelete = employee;
+    this.showDeleteModal = true;
+  }
+
+  /**
+   * Maneja la eliminación exitosa del empleado: cierra el modal y recarga la lista
+   * @returns void
+   */
+  onEmployeeDeleted(): void {
+    this.showDeleteModal = false;
+    this.employeeToDelete = null;
+    this.loadEmployees();
+  }
+
+  /**
+   * Cancela la eliminación y cierra el modal
+   * @returns void
+   */
+  cancelDelete(): void {
+    this.showDeleteModal = false;
+    this.employeeToDelete = null;
+  }
+
+  /**
+   * Cierra todos los modales y limpia el estado relacionado
+   * @returns void
+   */
+  closeModals(): void {
+    this.showCreateModal = false;
+    this.showEditModal = false;
+    this.showDeleteModal = false;
+    this.employeeToEdit = null;
+    this.employeeToDelete = null;
+  }
+
+  /**
+   * Maneja el resultado del formulario de creación/edición de empleado
+   * Muestra un toast de éxito, recarga la lista de empleados y cierra los modales
+   * @param result Resultado del formulario con el empleado y el modo de operación
+   * @returns void
+   */
+  handleModalSave({ mode }: EmployeeFormResult): void {
+    toast.success(
+      mode === 'create' ? 'Empleado creado' : 'Empleado actualizado',
+    );
+    this.loadEmployees();
+    this.closeModals();
+  }
+
+  /** Devuelve la clase CSS para el badge de estado del empleado
+   * @param status Estado del empleado
+   * @returns string Clase CSS para el badge de estado
+   */
+  getStatusBadge(status: EmployeeStatus): string {
+    return `badge ${EmployeeStatusColors[status]} capitalize`;
+  }
+
+  /**
+   * Devuelve el label del tipo de documento o el código si no es conocido
+   * @param type Código del tipo de documento
+   * @returns string Label del tipo de documento
+   */
+  getDocumentTypeLabel(type?: string): string {
+    if (!type) return '-';
+    return DocumentTypeLabels[type] || type;
+  }
+
+  /** Navega a la página de detalle del empleado seleccionado
+   * @param employee Empleado seleccionado
+   * @returns void
+   */
+  goToDetail(employee: Employee): void {
+    this.router.navigate(['/app/employees', employee.id]);
+  }
+
+  /**
+   * Refresca la lista de empleados
+   * @returns void
+   */
+  refreshData(): void {
+    this.loadEmployees();
+  }
+
+  /**
+   * Calcula el número total de páginas para la paginación
+   * @returns number Número total de páginas
+   */
+  getTotalPages(): number {
+    return Math.ceil(this.totalItems / this.pageSize) || 1;
+  }
+
+  /**
+   * Navega a una página específica
+   * @param pageNumber Número de página a la que se quiere navegar
+   * @returns void
+   */
+  goToPage(pageNumber: number): void {
+    const totalPages = this.getTotalPages();
+    if (pageNumber >= 1 && pageNumber <= totalPages) {
+      this.page = pageNumber;
+    }
+  }
+
+  /**
+   * Navega a la página siguiente
+   * @returns void
+   */
+  nextPage(): void {
+    this.goToPage(this.page + 1);
+  }
+
+  /**
+   * Navega a la página anterior
+   * @returns void
+   */
+  previousPage(): void {
+    this.goToPage(this.page - 1);
+  }
 }
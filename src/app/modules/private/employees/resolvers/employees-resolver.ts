@@ -0,0 +1,33 @@
+import { Injectable } from '@angular/core';
+import { Resolve } from '@angular/router';
+import { Observable, of, catchError } from 'rxjs';
+import { notifyApiError } from '../../../../core/utils/api-error.utils';
+import { Employee } from '../models/employe.model';
+import { EmployeesService } from '../services/employees.service';
+
+/**
+ * Resolver para cargar la lista de empleados antes de mostrar la página de empleados.
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+@Injectable({ providedIn: 'root' })
+export class EmployeesResolver implements Resolve<Employee[] | 'ERROR'> {
+  constructor(private employeesService: EmployeesService) {}
+
+  /**
+   * Resuelve la lista de empleados.
+   * Si falla, muestra el error una sola vez y la página se abre en su estado de error.
+   * @returns Observable<Employee[] | 'ERROR'>
+   */
+  resolve(): Observable<Employee[] | 'ERROR'> {
+    return this.employeesService
+      .getAllEmployees()
+      .pipe(
+        catchError((err) => {
+          notifyApiError(err, 'No se pudo conectar al microservicio de empleados.');
+          return of('ERROR' as const);
+        }),
+      );
+  }
+}
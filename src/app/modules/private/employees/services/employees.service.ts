@@ -2,7 +2,8 @@ import { Injectable } from '@angular/core';
 import { ApiService } from '../../../../core/services/api.service';
 import { inject } from '@angular/core';
 import { CreateEmployeeRq, Employee } from '../models/employe.model';
-import { Observable } from 'rxjs';
+import { Observable, tap } from 'rxjs';
+import { EntityCacheService } from '../../../../core/services/entity-cache.service';
 
 @Injectable({
   providedIn: 'root'
@@ -11,6 +12,7 @@ export class EmployeesService {
 
   // Injected services
   private apiService = inject(ApiService);
+  private entityCache = inject(EntityCacheService);
 
   /**
    * Crea un nuevo empleado con los datos proporcionados
@@ -18,7 +20,7 @@ export class EmployeesService {
    * @returns Observable con el empleado creado
    */
   createEmployee(employee: CreateEmployeeRq):Observable<Employee> {
-    return this.apiService.post<Employee>('/employees', employee);
+    return this.apiService.request('POST /employees', { body: employee }).pipe(tap(() => this.invalidateCache()));
   }
 
   /**
@@ -26,7 +28,7 @@ export class EmployeesService {
    * @returns Observable con la lista de empleados
    */
   getAllEmployees(): Observable<Employee[]> {
-    return this.apiService.get<Employee[]>('/employees');
+    return this.entityCache.get('employees', 'all', () => this.apiService.request('GET /employees'));
   }
 
   /**
@@ -35,7 +37,7 @@ export class EmployeesService {
    * @returns Observable con el empleado correspondiente
    */
   getEmployeeById(id: string): Observable<Employee> {
-    return this.apiService.get<Employee>(`/employees/${id}`);
+    return this.entityCache.get('employees', id, () => this.apiService.request('GET /employees/{id}', { path: { id } }));
   }
 
   /**
@@ -45,7 +47,7 @@ export class EmployeesService {
    * @returns Observable con el empleado actualizado
    */
    updateEmployee(id: string, employee: Partial<CreateEmployeeRq>): Observable<Employee> {
-    return this.apiService.put<Employee>(`/employees/${id}`, employee);
+    return this.apiService.request('PUT /employees/{id}', { path: { id }, body: employee }).pipe(tap(() => this.invalidateCache()));
   }
   
   /**
@@ -54,7 +56,17 @@ export class EmployeesService {
    * @returns Observable vacío
    */
   deleteEmployee(id: string): Observable<void> {
-    return this.apiService.delete<void>(`/employees/${id}`);
+    return this.apiService.request('DELETE /employees/{id}', { path: { id } }).pipe(tap(() => this.invalidateCache()));
+  }
+
+  /**
+   * Descarta los empleados guardados en caché tras un cambio
+   * Los grupos también se descartan porque incluyen a sus miembros
+   * @returns void
+   */
+  invalidateCache(): void {
+    this.entityCache.invalidate('employees');
+    this.entityCache.invalidate('groups');
   }
 
 }
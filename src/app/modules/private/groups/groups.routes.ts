@@ -1,6 +1,7 @@
 import { Routes } from "@angular/router";
 import { GroupsComponent } from "./pages/groups/groups.component";
 import { GroupsDetailComponent } from "./pages/groups-detail/groups-detail.component";
+import { GroupsResolver } from "./resolvers/groups-resolver";
 
 /**
  * Rutas del módulo de grupos con lazy loading
@@ -15,6 +16,7 @@ export const GROUPS_ROUTES: Routes = [
   {
     path: '',
     component: GroupsComponent,
+    resolve: { groups: GroupsResolver },
     data: {
       breadcrumb: 'Grupos',
       title: 'Gestión de Grupos',
@@ -0,0 +1,67 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+
+import { GroupCreateEditModalComponent } from './group-create-edit-modal.component';
+import { Group, GroupFormResult } from '../../models/groups.model';
+import { environment } from '../../../../../../environments/environment';
+
+describe('GroupCreateEditModalComponent', () => {
+  let component: GroupCreateEditModalComponent;
+  let fixture: ComponentFixture<GroupCreateEditModalComponent>;
+  let httpMock: HttpTestingController;
+
+  const group: Group = {
+    id: 'g1',
+    name: 'Soporte en sitio',
+    address: 'Cra 7 # 71-21',
+    createdAt: '2026-10-01T10:00:00Z',
+    updatedAt: null,
+    employees: [],
+  };
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [GroupCreateEditModalComponent],
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(GroupCreateEditModalComponent);
+    component = fixture.componentInstance;
+    httpMock = TestBed.inject(HttpTestingController);
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('debe crear el grupo y emitir save en modo create', () => {
+    let result: GroupFormResult | undefined;
+    component.save.subscribe((value) => (result = value));
+
+    component.groupForm.setValue({ name: ' Soporte en sitio ', address: 'Cra 7 # 71-21' });
+    component.submit();
+
+    const req = httpMock.expectOne(`${environment.apiUrl}/groups`);
+    expect(req.request.method).toBe('POST');
+    expect(req.request.body).toEqual({ name: 'Soporte en sitio', address: 'Cra 7 # 71-21' });
+    req.flush(group);
+
+    expect(result).toEqual({ group, mode: 'create' });
+  });
+
+  it('NO debe enviar la edición si no hay cambios', () => {
+    fixture.componentRef.setInput('group', group);
+    fixture.detectChanges();
+
+    component.submit();
+
+    httpMock.expectNone(`${environment.apiUrl}/groups/g1`);
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  OnInit,
+  OnChanges,
+  SimpleChanges,
+  OnDestroy,
+  ChangeDetectionStrategy,
+  ChangeDetectorRef,
+} from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule } from '@angular/forms';
+import { Subject, takeUntil, finalize } from 'rxjs';
+import { toast } from 'ngx-sonner';
+import {
+  CreateGroupRq,
+  Group,
+  GroupFormResult,
+} from '../../models/groups.model';
+import { GroupsService } from '../../services/groups.service';
+import { noWhitespaceValidator } from '../../../../../core/utils/form-validators.utils';
+import { TranslatePipe } from '../../../../../shared/pipes/translate.pipe';
+import {
+  applyApiFieldErrors,
+  getApiErrorMessage,
+  notifyApiError,
+} from '../../../../../core/utils/api-error.utils';
+
+@Component({
+  selector: 'app-group-create-edit-modal',
+  templateUrl: './group-create-edit-modal.component.html',
+  standalone: true,
+  styleUrls: ['./group-create-edit-modal.component.css'],
+  imports: [CommonModule, ReactiveFormsModule, TranslatePipe],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class GroupCreateEditModalComponent
+  implements OnInit, OnChanges, OnDestroy
+{
+  // Inputs y Outputs
+  @Input() group: Group | null = null;
+  @Output() close = new EventEmitter<void>();
+  @Output() save = new EventEmitter<GroupFormResult>();
+
+  // Formulario y estado
+  groupForm!: FormGroup;
+  submitted = false;
+  formError = '';
+  formLoading = false;
+
+  // Para manejar desuscripciones
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private fb: FormBuilder,
+    private groupsService: GroupsService,
+    private cd: ChangeDetectorRef,
+  ) {}
+
+  /**
+   * Inicializa el formulario con validaciones y valores del grupo (si existe)
+   * @returns void
+   */
+  ngOnInit(): void {
+    this.initForm();
+  }
+
+  /**
+   * Limpia recursos al destruir el componente
+   * @returns void
+   */
+  ngOnDestroy() {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Detecta cambios en el input 'group' para reinicializar el formulario con los nuevos valores
+   * @param changes Cambios detectados en los inputs
+   * @returns void
+   */
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['group'] && !changes['group'].firstChange) {
+      this.initForm();
+    }
+  }
+
+  /** Inicializa el formulario con validaciones y valores del grupo (si existe)
+   * @returns void
+   */
+  private initForm(): void {
+    this.groupForm = this.fb.group({
+      name: [
+        this.group?.name || '',
+        [Validators.required, Validators.maxLength(100), noWhitespaceValidator()],
+      ],
+      address: [
+        this.group?.address || '',
+        [Validators.required, Validators.maxLength(200), noWhitespaceValidator()],
+      ],
+    });
+    this.submitted = false;
+    this.formError = '';
+    this.formLoading = false;
+  }
+
+  /**
+   * Envía el formulario para crear o actualizar un grupo
+   * Determina si se está creando o editando por la presencia de this.group
+   * @returns void
+   */
+  submit(): void {
+    this.submitted = true;
+    this.formError = '';
+
+    // Validación: si es edición, verifica que haya cambios
+    if (this.group && !this.hasChanges()) {
+      toast.warning('No se detectaron cambios en el grupo');
+      this.cd.markForCheck();
+      return;
+    }
+
+    if (this.groupForm.invalid) return;
+
+    this.formLoading = true;
+    this.cd.markForCheck();
+    const request: CreateGroupRq = {
+      name: this.groupForm.value.name.trim(),
+      address: this.groupForm.value.address.trim(),
+    };
+    const isEdit = !!this.group;
+    const op$ = this.group
+      ? this.groupsService.updateGroup(this.group.id, request)
+      : this.groupsService.createGroup(request);
+
+    op$
+      .pipe(
+        takeUntil(this.destroy$),
+        finalize(() => {
+          this.formLoading = false;
+          this.cd.markForCheck();
+        }),
+      )
+      .subscribe({
+        next: (group: Group) => {
+          this.save.emit({ group, mode: isEdit ? 'edit' : 'create' });
+        },
+        error: (err) => {
+          // Los errores por campo del backend se muestran junto a cada control
+          applyApiFieldErrors(this.groupForm, err);
+          const msg = getApiErrorMessage(err, 'Error al guardar el grupo');
+          this.formError = msg;
+          notifyApiError(err, 'Error al guardar el grupo');
+        },
+      });
+  }
+
+  /**
+   * Emite el evento de cierre del modal para que el componente padre lo oculte
+   * @returns void
+   */
+  closeModal(): void {
+    this.close.emit();
+  }
+
+  /**
+   * Verifica si hay cambios en el formulario comparado con los valores originales del grupo
+   * @returns boolean - true si hay cambios, false si no hay cambios
+   */
+  private hasChanges(): boolean {
+    if (!this.group) return true;
+    const current = this.groupForm.value;
+    return (
+      current.name?.trim() !== this.group.name ||
+      current.address?.trim() !== this.group.address
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+
+import { GroupDeleteModalComponent } from './group-delete-modal.component';
+import { environment } from '../../../../../../environments/environment';
+
+describe('GroupDeleteModalComponent', () => {
+  let component: GroupDeleteModalComponent;
+  let fixture: ComponentFixture<GroupDeleteModalComponent>;
+  let httpMock: HttpTestingController;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [GroupDeleteModalComponent],
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(GroupDeleteModalComponent);
+    component = fixture.componentInstance;
+    component.group = {
+      id: 'g1',
+      name: 'Soporte en sitio',
+      address: 'Cra 7 # 71-21',
+      createdAt: '2026-10-01T10:00:00Z',
+      updatedAt: null,
+      employees: [],
+    };
+    httpMock = TestBed.inject(HttpTestingController);
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('debe eliminar el grupo y emitir deleted', () => {
+    const deletedSpy = jasmine.createSpy('deleted');
+    component.deleted.subscribe(deletedSpy);
+
+    component.confirmDelete();
+
+    const req = httpMock.expectOne(`${environment.apiUrl}/groups/g1`);
+    expect(req.request.method).toBe('DELETE');
+    req.flush(null);
+
+    expect(deletedSpy).toHaveBeenCalled();
+  });
+
+  it('debe emitir cancel al cancelar', () => {
+    const cancelSpy = jasmine.createSpy('cancel');
+    component.cancel.subscribe(cancelSpy);
+
+    component.cancelDelete();
+
+    expect(cancelSpy).toHaveBeenCalled();
+    httpMock.expectNone(`${environment.apiUrl}/groups/g1`);
+  });
+});
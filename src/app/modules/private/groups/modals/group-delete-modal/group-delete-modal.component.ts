@@ -0,0 +1,64 @@
+import { Component, Input, Output, EventEmitter } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { toast } from 'ngx-sonner';
+import { finalize } from 'rxjs';
+import { Group } from '../../models/groups.model';
+import { GroupsService } from '../../services/groups.service';
+import {
+  getApiErrorMessage,
+  notifyApiError,
+} from '../../../../../core/utils/api-error.utils';
+
+@Component({
+  selector: 'app-group-delete-modal',
+  templateUrl: './group-delete-modal.component.html',
+  styleUrls: ['./group-delete-modal.component.css'],
+  standalone: true,
+  imports: [CommonModule],
+})
+export class GroupDeleteModalComponent {
+  // Inputs y Outputs
+  @Input() group: Group | null = null;
+  @Output() deleted = new EventEmitter<void>();
+  @Output() cancel = new EventEmitter<void>();
+
+  // Estado de carga y error
+  loading = false;
+  error = '';
+
+  constructor(private groupsService: GroupsService) {}
+
+  /**
+   * Confirma la eliminación del grupo
+   * Llama al servicio para eliminar el grupo por su ID
+   * Muestra un toast de éxito o error según corresponda
+   * @returns void
+   */
+  confirmDelete(): void {
+    if (!this.group) return;
+    this.loading = true;
+    this.groupsService
+      .deleteGroupById(this.group.id)
+      .pipe(finalize(() => (this.loading = false)))
+      .subscribe({
+        next: () => {
+          toast.success('Grupo eliminado');
+          this.deleted.emit();
+        },
+        error: (err) => {
+          const msg = getApiErrorMessage(err, 'Error al eliminar el grupo');
+          this.error = msg;
+          notifyApiError(err, 'Error al eliminar el grupo');
+        },
+      });
+  }
+
+  /**
+   * Cancela la eliminación y cierra el modal
+   * Emite un evento de cancelación para que el componente padre pueda manejarlo
+   * @returns void
+   */
+  cancelDelete(): void {
+    this.cancel.emit();
+  }
+}
@@ -0,0 +1,70 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+
+import { GroupMembersModalComponent } from './group-members-modal.component';
+import { Group } from '../../models/groups.model';
+import { Employee, EmployeeStatus } from '../../../employees/models/employe.model';
+import { environment } from '../../../../../../environments/environment';
+
+describe('GroupMembersModalComponent', () => {
+  let component: GroupMembersModalComponent;
+  let fixture: ComponentFixture<GroupMembersModalComponent>;
+  let httpMock: HttpTestingController;
+
+  const laura: Employee = { id: 'e1', fullName: 'Laura Gómez', email: 'laura@infragest.dev', status: EmployeeStatus.ACTIVE };
+  const carlos: Employee = { id: 'e2', fullName: 'Carlos Ramírez', email: 'carlos@infragest.dev', status: EmployeeStatus.ACTIVE };
+  const mariana: Employee = { id: 'e3', fullName: 'Mariana López', email: 'mariana@infragest.dev', status: EmployeeStatus.INACTIVE };
+  const group: Group = {
+    id: 'g1',
+    name: 'Soporte en sitio',
+    address: 'Cra 7 # 71-21',
+    createdAt: '2026-10-01T10:00:00Z',
+    updatedAt: null,
+    employees: [laura],
+  };
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [GroupMembersModalComponent],
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(GroupMembersModalComponent);
+    component = fixture.componentInstance;
+    component.group = group;
+    httpMock = TestBed.inject(HttpTestingController);
+    fixture.detectChanges();
+
+    httpMock.expectOne(`${environment.apiUrl}/employees`).flush([laura, carlos, mariana]);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('debe ofrecer solo empleados activos que no son miembros', () => {
+    expect(component.availableEmployees).toEqual([carlos]);
+  });
+
+  it('debe asignar los seleccionados en una sola petición y emitir updated', () => {
+    let updated: Group | undefined;
+    component.updated.subscribe((value) => (updated = value));
+
+    component.toggleSelection('e2');
+    component.assignSelected();
+
+    const req = httpMock.expectOne(`${environment.apiUrl}/groups/g1/employees`);
+    expect(req.request.method).toBe('POST');
+    expect(req.request.body).toEqual({ employees: { employeesId: ['e2'] } });
+    req.flush({ ...group, employees: [laura, carlos] });
+
+    expect(updated?.employees).toEqual([laura, carlos]);
+    expect(component.selectedIds.size).toBe(0);
+  });
+});
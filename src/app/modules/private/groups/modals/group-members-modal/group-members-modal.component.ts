@@ -0,0 +1,213 @@
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  OnInit,
+  OnDestroy,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil, finalize } from 'rxjs';
+import { toast } from 'ngx-sonner';
+import { Group } from '../../models/groups.model';
+import { GroupsService } from '../../services/groups.service';
+import {
+  Employee,
+  EmployeesAsignment,
+  EmployeeStatus,
+} from '../../../employees/models/employe.model';
+import { EmployeesService } from '../../../employees/services/employees.service';
+import {
+  getApiErrorMessage,
+  notifyApiError,
+} from '../../../../../core/utils/api-error.utils';
+
+@Component({
+  selector: 'app-group-members-modal',
+  templateUrl: './group-members-modal.component.html',
+  styleUrls: ['./group-members-modal.component.css'],
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+})
+export class GroupMembersModalComponent implements OnInit, OnDestroy {
+  // Inputs y Outputs
+  @Input() group: Group | null = null;
+  @Output() updated = new EventEmitter<Group>();
+  @Output() close = new EventEmitter<void>();
+
+  // Miembros actuales y empleados disponibles para asignar
+  members: Employee[] = [];
+  employees: Employee[] = [];
+  selectedIds = new Set<string>();
+  search = '';
+
+  // Estado de carga y error
+  loadingEmployees = false;
+  saving = false;
+  removingId: string | null = null;
+  error = '';
+
+  // Para manejar desuscripciones
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private groupsService: GroupsService,
+    private employeesService: EmployeesService,
+  ) {}
+
+  /**
+   * Inicializa los miembros actuales del grupo y carga los empleados disponibles
+   * @returns void
+   */
+  ngOnInit(): void {
+    this.members = [...(this.group?.employees || [])];
+    this.loadEmployees();
+  }
+
+  /**
+   * Limpia recursos al destruir el componente
+   * @returns void
+   */
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Carga la lista de empleados para el selector de miembros
+   * @returns void
+   */
+  loadEmployees(): void {
+    this.loadingEmployees = true;
+    this.employeesService
+      .getAllEmployees()
+      .pipe(
+        takeUntil(this.destroy$),
+        finalize(() => (this.loadingEmployees = false)),
+      )
+      .subscribe({
+        next: (employees) => (this.employees = employees || []),
+        error: (err) => {
+          this.error = 'No se pudieron cargar los empleados';
+          notifyApiError(err, 'No se pudieron cargar los empleados');
+        },
+      });
+  }
+
+  /**
+   * Empleados activos que aún no pertenecen al grupo, filtrados por nombre o correo
+   * @returns Employee[] Empleados disponibles para asignar
+   */
+  get availableEmployees(): Employee[] {
+    const memberIds = new Set(this.members.map((m) => m.id));
+    const lower = this.search.toLowerCase();
+    return this.employees.filter(
+      (e) =>
+        e.status === EmployeeStatus.ACTIVE &&
+        !memberIds.has(e.id) &&
+        (!lower ||
+          (e.fullName || '').toLowerCase().includes(lower) ||
+          (e.email || '').toLowerCase().includes(lower)),
+    );
+  }
+
+  /**
+   * Marca o desmarca un empleado para asignarlo al grupo
+   * @param employeeId ID del empleado
+   * @returns void
+   */
+  toggleSelection(employeeId: string): void {
+    if (this.selectedIds.has(employeeId)) {
+      this.selectedIds.delete(employeeId);
+    } else {
+      this.selectedIds.add(employeeId);
+    }
+  }
+
+  /**
+   * Asigna al grupo todos los empleados seleccionados en una sola petición
+   * @returns void
+   */
+  assignSelected(): void {
+    if (!this.group || this.selectedIds.size === 0) return;
+    const request: EmployeesAsignment = {
+      employeesId: [...this.selectedIds],
+    };
+    const added = this.employees.filter((e) => this.selectedIds.has(e.id));
+
+    this.saving = true;
+    this.error = '';
+    this.groupsService
+      .assginEmployeesToGroup(this.group.id, request)
+      .pipe(
+        takeUntil(this.destroy$),
+        finalize(() => (this.saving = false)),
+      )
+      .subscribe({
+        next: (group) => {
+          this.members = group?.employees
+            ? [...group.employees]
+            : [...this.members, ...added];
+          toast.success(
+            added.length === 1
+              ? 'Empleado asignado al grupo'
+              : `${added.length} empleados asignados al grupo`,
+          );
+          this.selectedIds.clear();
+          this.emitUpdated();
+        },
+        error: (err) => {
+          const msg = getApiErrorMessage(err, 'Error al asignar empleados');
+          this.error = msg;
+          notifyApiError(err, 'Error al asignar empleados');
+        },
+      });
+  }
+
+  /**
+   * Retira un empleado del grupo
+   * @param employee Empleado a retirar
+   * @returns void
+   */
+  removeMember(employee: Employee): void {
+    if (!this.group) return;
+    this.removingId = employee.id;
+    this.error = '';
+    this.groupsService
+      .removeEmployeesFromGroup(this.group.id, employee.id)
+      .pipe(
+        takeUntil(this.destroy$),
+        finalize(() => (this.removingId = null)),
+      )
+      .subscribe({
+        next: () => {
+          this.members = this.members.filter((m) => m.id !== employee.id);
+          toast.success('Empleado retirado del grupo');
+          this.emitUpdated();
+        },
+        error: (err) => {
+          const msg = getApiErrorMessage(err, 'Error al retirar el empleado');
+          this.error = msg;
+          notifyApiError(err, 'Error al retirar el empleado');
+        },
+      });
+  }
+
+  /**
+   * Emite el grupo con la lista de miembros actualizada
+   * @returns void
+   */
+  private emitUpdated(): void {
+    if (!this.group) return;
+    this.updated.emit({ ...this.group, employees: this.members });
+  }
+
+  /**
+   * Cierra el modal
+   * @returns void
+   */
+  closeModal(): void {
+    this.close.emit();
+  }
+}
@@ -19,3 +19,9 @@ export interface Group {
   updatedAt: string | null;
   employees: Employee[];
 }
+
+// Resultado del formulario de creación/edición de grupo
+export interface GroupFormResult {
+  group: Group;
+  mode: 'create' | 'edit';
+}
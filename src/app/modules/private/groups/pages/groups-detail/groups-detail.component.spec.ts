@@ -1,7 +1,4 @@
-/* tslint:disable:no-unused-variable */
-import { async, ComponentFixture, TestBed } from '@angular/core/testing';
-import { By } from '@angular/platform-browser';
-import { DebugElement } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
 
 import { GroupsDetailComponent } from './groups-detail.component';
 
@@ -9,14 +6,12 @@ describe('GroupsDetailComponent', () => {
   let component: GroupsDetailComponent;
   let fixture: ComponentFixture<GroupsDetailComponent>;
 
-  beforeEach(async(() => {
-    TestBed.configureTestingModule({
-      declarations: [ GroupsDetailComponent ]
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [GroupsDetailComponent]
     })
     .compileComponents();
-  }));
 
-  beforeEach(() => {
     fixture = TestBed.createComponent(GroupsDetailComponent);
     component = fixture.componentInstance;
     fixture.detectChanges();
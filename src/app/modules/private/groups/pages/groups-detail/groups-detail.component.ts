@@ -1,22 +1,301 @@
-import { Component, OnInit } from '@angular/core';
+import { Component, OnInit, OnDestroy } from '@angular/core';
 import { Location } from '@angular/common';
 import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router } from '@angular/router';
+import {
+  Subject,
+  Observable,
+  switchMap,
+  tap,
+  of,
+  takeUntil,
+  finalize,
+  catchError,
+  forkJoin,
+  map,
+} from 'rxjs';
+import { toast } from 'ngx-sonner';
+import { Group } from '../../models/groups.model';
+import { GroupsService } from '../../services/groups.service';
+import { OrdersService } from '../../../orders/services/orders.service';
+import { OrderAssigneesService } from '../../../orders/services/order-assignees.service';
+import {
+  AssigneeHeldDevice,
+  Order,
+  OrderStateLabels,
+  OrderStatusColors,
+} from '../../../orders/models/Orders';
+import {
+  DeviceStatusColors,
+  DeviceStatusLabels,
+} from '../../../devices/models/device.model';
+import {
+  Employee,
+  EmployeeStatusLabels,
+} from '../../../employees/models/employe.model';
+import { LoadingService } from '../../../../../core/services/loading.service';
+import { HasPermissionDirective } from '../../../../../shared/directives/has-permission.directive';
+import { Permission } from '../../../../public/auth/models/role.model';
+import {
+  getApiErrorMessage,
+  notifyApiError,
+} from '../../../../../core/utils/api-error.utils';
+import { LocalDatePipe } from '../../../../../shared/pipes/local-date.pipe';
 
 @Component({
   selector: 'app-groups-detail',
   templateUrl: './groups-detail.component.html',
   styleUrls: ['./groups-detail.component.css'],
+  standalone: true,
+  imports: [CommonModule, HasPermissionDirective, LocalDatePipe],
 })
-export class GroupsDetailComponent implements OnInit {
+export class GroupsDetailComponent implements OnInit, OnDestroy {
+  // Permisos para mostrar u ocultar acciones según el rol
+  Permission = Permission;
+
+  // Grupo actual y sus relaciones
+  group: Group | null = null;
+  orders$: Observable<Order[]> = of([]);
+  heldDevices$: Observable<AssigneeHeldDevice[]> = of([]);
+
+  // Correos de los miembros para el envío masivo
+  memberEmails: string[] = [];
+  showEmails = false;
+  loadingEmails = false;
+
+  // Estado de carga y error
+  loading = false;
+  error = '';
+  removingId: string | null = null;
+
+  // Mapas para etiquetas y colores
+  OrderStateLabels = OrderStateLabels;
+  OrderStatusColors = OrderStatusColors;
+  DeviceStatusLabels = DeviceStatusLabels;
+  DeviceStatusColors = DeviceStatusColors;
+  EmployeeStatusLabels = EmployeeStatusLabels;
+
+  // Observable para el estado de carga global
+  get loading$() {
+    return this.loadingService.loading$;
+  }
+
+  // Subject para manejar la destrucción del componente y evitar fugas de memoria
+  private destroy$ = new Subject<void>();
+
   constructor(
+    private route: ActivatedRoute,
+    private router: Router,
     private location: Location,
+    private groupsService: GroupsService,
+    private ordersService: OrdersService,
+    private orderAssigneesService: OrderAssigneesService,
+    private loadingService: LoadingService,
   ) {}
 
-  ngOnInit() {}
+  /**
+   * Inicializa el componente cargando el grupo y sus relaciones
+   * @returns void
+   */
+  ngOnInit() {
+    this.initParams();
+  }
+
+  /** Limpia los recursos del componente al destruirlo
+   * @returns void
+   */
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Inicializa los parámetros del componente
+   * Obtiene el ID del grupo desde la ruta y carga el grupo, sus órdenes
+   * y los dispositivos que tiene en custodia a través de órdenes no cerradas
+   * @returns void
+   */
+  initParams(): void {
+    this.route.params
+      .pipe(
+        tap(() => {
+          this.loading = true;
+          this.error = '';
+          this.memberEmails = [];
+          this.showEmails = false;
+        }),
+        switchMap((params) => this.getGroupAndOrders(params['id'])),
+        switchMap((result) =>
+          this.orderAssigneesService.getHeldDevices(result.orders).pipe(
+            catchError((err) => {
+              notifyApiError(err, 'No se pudieron cargar los dispositivos del grupo');
+              return of([]);
+            }),
+            map((heldDevices) => ({ ...result, heldDevices })),
+          ),
+        ),
+        takeUntil(this.destroy$),
+      )
+      .subscribe(({ group, orders, heldDevices }) => {
+        this.group = group;
+        this.orders$ = of(orders);
+        this.heldDevices$ = of(heldDevices);
+      });
+  }
+
+  /**
+   * Obtiene el grupo junto con las órdenes asignadas a él
+   * @param groupId ID del grupo
+   * @returns Observable con el grupo y sus órdenes
+   */
+  private getGroupAndOrders(groupId: string): Observable<{
+    group: Group | null;
+    orders: Order[];
+  }> {
+    return forkJoin({
+      group: this.groupsService.getGroupById(groupId).pipe(
+        catchError((err) => {
+          this.error = getApiErrorMessage(err, 'Error al cargar grupo');
+          notifyApiError(err, 'Error al cargar el grupo');
+          return of(null);
+        }),
+      ),
+      orders: this.ordersService.getAllOrders().pipe(
+        map((orders) =>
+          (orders || []).filter(
+            (o) => o.assigneeType === 'GROUP' && o.assigneeId === groupId,
+          ),
+        ),
+        catchError((err) => {
+          notifyApiError(err, 'No se pudieron cargar las órdenes del grupo');
+          return of([]);
+        }),
+      ),
+    }).pipe(
+      finalize(() => {
+        this.loading = false;
+      }),
+    );
+  }
+
+  /**
+   * Retira un miembro del grupo y actualiza el listado local
+   * @param employee Empleado a retirar
+   * @returns void
+   */
+  removeMember(employee: Employee): void {
+    if (!this.group) return;
+    const group = this.group;
+    this.removingId = employee.id;
+    this.groupsService
+      .removeEmployeesFromGroup(group.id, employee.id)
+      .pipe(
+        takeUntil(this.destroy$),
+        finalize(() => (this.removingId = null)),
+      )
+      .subscribe({
+        next: () => {
+          this.group = {
+            ...group,
+            employees: group.employees.filter((e) => e.id !== employee.id),
+          };
+          this.memberEmails = this.memberEmails.filter(
+            (email) => email !== employee.email,
+          );
+          toast.success('Empleado retirado del grupo');
+        },
+        error: (err) => notifyApiError(err, 'Error al retirar el empleado'),
+      });
+  }
+
+  /**
+   * Obtiene los correos de todos los miembros del grupo y muestra la lista copiable
+   * @returns void
+   */
+  loadMemberEmails(): void {
+    if (!this.group) return;
+    this.loadingEmails = true;
+    this.groupsService
+      .getEmailsByGroup(this.group.id)
+      .pipe(
+        takeUntil(this.destroy$),
+        finalize(() => (this.loadingEmails = false)),
+      )
+      .subscribe({
+        next: (emails) => {
+          this.memberEmails = (emails || []).filter((e) => !!e);
+          this.showEmails = true;
+          if (!this.memberEmails.length) {
+            toast.info('El grupo no tiene correos para mostrar');
+          }
+        },
+        error: (err) =>
+          notifyApiError(err, 'No se pudieron obtener los correos del grupo'),
+      });
+  }
+
+  /**
+   * Enlace mailto con todos los correos de los miembros
+   * @returns string Enlace mailto
+   */
+  get mailtoLink(): string {
+    const subject = encodeURIComponent(this.group?.name || '');
+    return `mailto:${this.memberEmails.join(',')}?subject=${subject}`;
+  }
+
+  /**
+   * Copia la lista de correos al portapapeles separada por comas
+   * @returns void
+   */
+  copyEmails(): void {
+    if (!this.memberEmails.length) return;
+    navigator.clipboard
+      .writeText(this.memberEmails.join(', '))
+      .then(() => toast.success('Correos copiados al portapapeles'))
+      .catch(() => toast.error('No se pudieron copiar los correos'));
+  }
+
+  /**
+   * Navega al detalle de una orden
+   * @param orderId ID de la orden
+   * @returns void
+   */
+  goDetailOrder(orderId: string): void {
+    if (!orderId) return;
+    this.router.navigate(['/app/orders/', orderId]);
+  }
+
+  /**
+   * Navega al detalle de un empleado
+   * @param employeeId ID del empleado
+   * @returns void
+   */
+  goDetailEmployee(employeeId: string): void {
+    if (!employeeId) return;
+    this.router.navigate(['/app/employees/', employeeId]);
+  }
+
+  /**
+   * Navega al detalle de un dispositivo
+   * @param deviceId ID del dispositivo
+   * @returns void
+   */
+  goDetailDevice(deviceId: string): void {
+    if (!deviceId) return;
+    this.router.navigate(['/app/devices/', deviceId]);
+  }
+
+  /**
+   * Refresca los datos del grupo y sus relaciones
+   * @returns void
+   */
+  refreshData(): void {
+    this.initParams();
+  }
 
   /**
    * Navega a la página anterior utilizando el servicio Location de Angular
-   * Permite al usuario volver a la lista de dispositivos o a la página desde donde accedió al detalle del dispositivo
+   * Permite al usuario volver a la lista de grupos o a la página desde donde accedió al detalle del grupo
    * @returns void
    */
   goBack(): void {
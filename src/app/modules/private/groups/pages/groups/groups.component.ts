@@ -1,15 +1,413 @@
-import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { Router, ActivatedRoute } from '@angular/router';
+import {
+  Subject,
+  takeUntil,
+  BehaviorSubject,
+  Observable,
+  combineLatest,
+  startWith,
+  map,
+  tap,
+  catchError,
+  of,
+} from 'rxjs';
+import { toast } from 'ngx-sonner';
+import { Group, GroupFormResult } from '../../models/groups.model';
+import { GroupsService } from '../../services/groups.service';
+import { LoadingService } from '../../../../../core/services/loading.service';
+import { GroupCreateEditModalComponent } from '../../modals/group-create-edit-modal/group-create-edit-modal.component';
+import { GroupDeleteModalComponent } from '../../modals/group-delete-modal/group-delete-modal.component';
+import { GroupMembersModalComponent } from '../../modals/group-members-modal/group-members-modal.component';
+import { HasPermissionDirective } from '../../../../../shared/directives/has-permission.directive';
+import { Permission } from '../../../../public/auth/models/role.model';
+import { notifyApiError } from '../../../../../core/utils/api-error.utils';
+import { LocalDatePipe } from '../../../../../shared/pipes/local-date.pipe';
 
 @Component({
   selector: 'app-groups',
+  imports: [
+    CommonModule,
+    FormsModule,
+    GroupCreateEditModalComponent,
+    GroupDeleteModalComponent,
+    GroupMembersModalComponent,
+    HasPermissionDirective,
+    LocalDatePipe,
+  ],
+  standalone: true,
   templateUrl: './groups.component.html',
-  styleUrls: ['./groups.component.css']
+  styleUrls: ['./groups.component.css'],
 })
-export class GroupsComponent implements OnInit {
+export class GroupsComponent implements OnInit, OnDestroy {
+  // Permisos para mostrar u ocultar acciones según el rol
+  Permission = Permission;
 
-  constructor() { }
+  // Modales
+  showCreateModal = false;
+  showEditModal = false;
+  showDeleteModal = false;
+  showMembersModal = false;
 
-  ngOnInit() {
+  // Grupo seleccionado para editar, eliminar o gestionar miembros
+  groupToEdit: Group | null = null;
+  groupToDelete: Group | null = null;
+  groupForMembers: Group | null = null;
+
+  // Modo del formulario: 'create' o 'edit'
+  formMode: 'create' | 'edit' = 'create';
+
+  // Estado de carga y error
+  groupErrorMessage = '';
+  isRetrying = false;
+  groupError = false;
+  buttonsIsAvailable = true;
+
+  // Filtro de búsqueda como BehaviorSubject
+  search$ = new BehaviorSubject<string>('');
+
+  get search(): string {
+    return this.search$.value;
+  }
+
+  set search(val: string) {
+    this.search$.next(val);
+  }
+
+  // Observable para el estado de carga global
+  get loading$() {
+    return this.loadingService.loading$;
+  }
+
+  // Fuente de datos principal de grupos
+  groups$ = new BehaviorSubject<Group[]>([]);
+
+  // Subject para manejar la destrucción del componente y evitar fugas de memoria
+  private readonly destroy$ = new Subject<void>();
+
+  // Paginación
+  page = 1;
+  pageSize = 10;
+  totalItems = 0;
+
+  constructor(
+    private groupsService: GroupsService,
+    private loadingService: LoadingService,
+    private router: Router,
+    private route: ActivatedRoute,
+  ) {}
+
+  /**
+   * Inicializa el componente - carga los grupos resueltos por la ruta
+   * @returns void
+   */
+  ngOnInit(): void {
+    this.initGroupsData();
+  }
+
+  /**
+   * Limpia recursos al destruir el componente
+   * @returns void
+   */
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Inicializa los datos de grupos a partir del resolver
+   * @returns void
+   */
+  initGroupsData(): void {
+    const resolved = this.route.snapshot.data['groups'];
+
+    if (resolved === 'ERROR') {
+      // El resolver ya mostró el error
+      this.groupError = true;
+      this.groupErrorMessage = 'Error de conexión al backend.';
+      this.groups$.next([]);
+      this.buttonsIsAvailable = false;
+      return;
+    }
+
+    if (!resolved || resolved.length === 0) {
+      toast.info('No hay grupos para mostrar actualmente.');
+      this.groupError = false;
+      this.groupErrorMessage = '';
+      this.groups$.next([]);
+      this.buttonsIsAvailable = true;
+      return;
+    }
+
+    this.buttonsIsAvailable = true;
+    this.groupError = false;
+    this.groupErrorMessage = '';
+    this.groups$.next(resolved);
+  }
+
+  /**
+   * Carga los grupos desde el servicio y actualiza el estado local
+   * Muestra un toast de error si la carga falla
+   * @returns void
+   */
+  loadGroups(): void {
+    this.groupErrorMessage = '';
+    this.groupError = false;
+    this.groupsService
+      .getAllGroups()
+      .pipe(
+        takeUntil(this.destroy$),
+        catchError((error) => {
+          notifyApiError(error, 'Error al obtener grupos');
+          this.groupError = true;
+          this.groupErrorMessage = error.message || 'Error al cargar grupos';
+          this.isRetrying = false;
+          return of([]);
+        }),
+      )
+      .subscribe((groups) => {
+        this.isRetrying = false;
+        this.buttonsIsAvailable = !this.groupError;
+        this.groups$.next(groups || []);
+      });
+  }
+
+  /**
+   * Reintenta cargar los grupos después de un error
+   * @returns void
+   */
+  retryLoadData(): void {
+    this.isRetrying = true;
+    this.loadGroups();
+  }
+
+  /**
+   * Filtra los grupos según el texto de búsqueda en nombre o dirección
+   * Se actualiza automáticamente cuando cambian los grupos o el filtro
+   * @returns Observable<Group[]> Lista de grupos filtrados
+   */
+  filteredGroups$: Observable<Group[]> = combineLatest([
+    this.groups$,
+    this.search$.pipe(startWith('')),
+  ]).pipe(
+    map(([groups, search]) => groups.filter((g) => this.matchSearch(g, search))),
+    tap((groups) => (this.totalItems = groups.length)),
+  );
+
+  /**
+   * Calcula estadísticas de los grupos filtrados para mostrar en la UI
+   * @returns Observable con el total de grupos, total de miembros y grupos sin miembros
+   */
+  filteredStats$: Observable<{
+    totalGroups: number;
+    totalMembers: number;
+    emptyGroups: number;
+  }> = this.filteredGroups$.pipe(
+    map((groups) => ({
+      totalGroups: groups.length,
+      totalMembers: groups.reduce(
+        (acc, g) => acc + (g.employees?.length || 0),
+        0,
+      ),
+      emptyGroups: groups.filter((g) => !g.employees?.length).length,
+    })),
+  );
+
+  // Observable de la página actual de grupos filtrados
+  get pagedGroups$(): Observable<Group[]> {
+    return this.filteredGroups$.pipe(
+      map((groups) =>
+        groups.slice((this.page - 1) * this.pageSize, this.page * this.pageSize),
+      ),
+    );
+  }
+
+  /**
+   * Actualiza el filtro de búsqueda con el valor ingresado por el usuario
+   * @param value Valor de búsqueda ingresado por el usuario
+   */
+  onSearchChange(value: string): void {
+    this.page = 1;
+    this.search = value || '';
+  }
+
+  /** Restablece el filtro de búsqueda
+   * @returns void
+   */
+  resetFilters(): void {
+    this.page = 1;
+    this.search = '';
   }
 
+  /** Verifica si un grupo coincide con el texto de búsqueda en su nombre o dirección
+   * @param group Grupo a verificar
+   * @param search Texto de búsqueda ingresado por el usuario
+   * @returns boolean Verdadero si el grupo coincide con la búsqueda
+   */
+  private matchSearch(group: Group, search: string): boolean {
+    if (!search) return true;
+    const lower = search.toLowerCase();
+    return (
+      (group.name || '').toLowerCase().includes(lower) ||
+      (group.address || '').toLowerCase().includes(lower)
+    );
+  }
+
+  /** Abre el modal para crear un nuevo grupo
+   * @returns void
+   */
+  openCreateModal(): void {
+    this.formMode = 'create';
+    this.groupToEdit = null;
+    this.showCreateModal = true;
+    this.showEditModal = false;
+  }
+
+  /** Abre el modal para editar un grupo existente
+   * @param group Grupo a editar
+   * @returns void
+   */
+  openEditModal(group: Group): void {
+    this.formMode = 'edit';
+    this.groupToEdit = group;
+    this.showEditModal = true;
+    this.showCreateModal = false;
+  }
+
+  /**
+   * Abre el modal para confirmar la eliminación de un grupo
+   * @param group Grupo a eliminar
+   * @returns void
+   */
+  openDeleteModal(group: Group): void {
+    this.groupToDelete = group;
+    this.showDeleteModal = true;
+  }
+
+  /**
+   * Abre el modal para gestionar los miembros de un grupo
+   * @param group Grupo cuyos miembros se gestionarán
+   * @returns void
+   */
+  openMembersModal(group: Group): void {
+    this.groupForMembers = group;
+    this.showMembersModal = true;
+  }
+
+  /**
+   * Maneja la eliminación exitosa del grupo: cierra el modal y recarga la lista
+   * @returns void
+   */
+  onGroupDeleted(): void {
+    this.showDeleteModal = false;
+    this.groupToDelete = null;
+    this.loadGroups();
+  }
+
+  /**
+   * Actualiza localmente el grupo cuyos miembros cambiaron para reflejarlo en la tabla
+   * @param updated Grupo con la lista de miembros actualizada
+   * @returns void
+   */
+  onMembersUpdated(updated: Group): void {
+    this.groups$.next(
+      this.groups$.value.map((g) => (g.id === updated.id ? updated : g)),
+    );
+  }
+
+  /**
+   * Cierra el modal de miembros
+   * @returns void
+   */
+  closeMembersModal(): void {
+    this.showMembersModal = false;
+    this.groupForMembers = null;
+  }
+
+  /**
+   * Cancela la eliminación y cierra el modal
+   * @returns void
+   */
+  cancelDelete(): void {
+    this.showDeleteModal = false;
+    this.groupToDelete = null;
+  }
+
+  /**
+   * Cierra los modales de creación/edición/eliminación y limpia el estado relacionado
+   * @returns void
+   */
+  closeModals(): void {
+    this.showCreateModal = false;
+    this.showEditModal = false;
+    this.showDeleteModal = false;
+    this.groupToEdit = null;
+    this.groupToDelete = null;
+  }
+
+  /**
+   * Maneja el resultado del formulario de creación/edición de grupo
+   * Muestra un toast de éxito, recarga la lista de grupos y cierra los modales
+   * @param result Resultado del formulario con el grupo y el modo de operación
+   * @returns void
+   */
+  handleModalSave({ mode }: GroupFormResult): void {
+    toast.success(mode === 'create' ? 'Grupo creado' : 'Grupo actualizado');
+    this.loadGroups();
+    this.closeModals();
+  }
+
+  /** Navega a la página de detalle del grupo seleccionado
+   * @param group Grupo seleccionado
+   * @returns void
+   */
+  goToDetail(group: Group): void {
+    this.router.navigate(['/app/groups', group.id]);
+  }
+
+  /**
+   * Refresca la lista de grupos
+   * @returns void
+   */
+  refreshData(): void {
+    this.loadGroups();
+  }
+
+  /**
+   * Calcula el número total de páginas para la paginación
+   * @returns number Número total de páginas
+   */
+  getTotalPages(): number {
+    return Math.ceil(this.totalItems / this.pageSize) || 1;
+  }
+
+  /**
+   * Navega a una página específica
+   * @param pageNumber Número de página a la que se quiere navegar
+   * @returns void
+   */
+  goToPage(pageNumber: number): void {
+    const totalPages = this.getTotalPages();
+    if (pageNumber >= 1 && pageNumber <= totalPages) {
+      this.page = pageNumber;
+    }
+  }
+
+  /**
+   * Navega a la página siguiente
+   * @returns void
+   */
+  nextPage(): void {
+    this.goToPage(this.page + 1);
+  }
+
+  /**
+   * Navega a la página anterior
+   * @returns void
+   */
+  previousPage(): void {
+    this.goToPage(this.page - 1);
+  }
 }
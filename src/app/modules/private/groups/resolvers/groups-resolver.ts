@@ -0,0 +1,33 @@
+import { Injectable } from '@angular/core';
+import { Resolve } from '@angular/router';
+import { Observable, of, catchError } from 'rxjs';
+import { notifyApiError } from '../../../../core/utils/api-error.utils';
+import { Group } from '../models/groups.model';
+import { GroupsService } from '../services/groups.service';
+
+/**
+ * Resolver para cargar la lista de grupos antes de mostrar la página de grupos.
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+@Injectable({ providedIn: 'root' })
+export class GroupsResolver implements Resolve<Group[] | 'ERROR'> {
+  constructor(private groupsService: GroupsService) {}
+
+  /**
+   * Resuelve la lista de grupos.
+   * Si falla, muestra el error una sola vez y la página se abre en su estado de error.
+   * @returns Observable<Group[] | 'ERROR'>
+   */
+  resolve(): Observable<Group[] | 'ERROR'> {
+    return this.groupsService
+      .getAllGroups()
+      .pipe(
+        catchError((err) => {
+          notifyApiError(err, 'No se pudo conectar al microservicio de grupos.');
+          return of('ERROR' as const);
+        }),
+      );
+  }
+}
@@ -2,8 +2,9 @@ import { Injectable } from '@angular/core';
 import { ApiService } from '../../../../core/services/api.service';
 import { inject } from '@angular/core';
 import { CreateGroupRq, Group } from '../models/groups.model';
-import { Observable } from 'rxjs';
+import { Observable, tap } from 'rxjs';
 import { EmployeesAsignment } from '../../employees/models/employe.model';
+import { EntityCacheService } from '../../../../core/services/entity-cache.service';
 
 /**
  * Servicio para gestionar grupos
@@ -18,14 +19,15 @@ export class GroupsService {
 
   // Injected services
   private apiService = inject(ApiService);
+  private entityCache = inject(EntityCacheService);
 
   /**
    * Crea un nuevo grupo con los datos proporcionados
    * @param grupo Datos del grupo a crear
    * @returns Observable con el grupo creado
    */
-  createGroup(grupo: Partial<CreateGroupRq>): Observable<Group> {
-    return this.apiService.post<Group>('/groups', grupo);
+  createGroup(grupo: CreateGroupRq): Observable<Group> {
+    return this.apiService.request('POST /groups', { body: grupo }).pipe(tap(() => this.invalidateCache()));
   }
 
   /**
@@ -34,7 +36,7 @@ export class GroupsService {
    * @returns Observable con el grupo obtenido
    */
   getGroupById(id: string): Observable<Group> {
-    return this.apiService.get<Group>(`/groups/${id}`);
+    return this.entityCache.get('groups', id, () => this.apiService.request('GET /groups/{id}', { path: { id } }));
   }
 
   /**
@@ -42,7 +44,7 @@ export class GroupsService {
    * @returns Observable con la lista de grupos
    */
    getAllGroups(): Observable<Group[]> {
-    return this.apiService.get<Group[]>('/groups');
+    return this.entityCache.get('groups', 'all', () => this.apiService.request('GET /groups'));
   }
 
   /**
@@ -52,7 +54,7 @@ export class GroupsService {
    * @returns Observable con el grupo actualizado
    */
   updateGroup(id: string, group: Partial<CreateGroupRq>): Observable<Group> {
-    return this.apiService.put<Group>(`/groups/${id}`, group);
+    return this.apiService.request('PUT /groups/{id}', { path: { id }, body: group }).pipe(tap(() => this.invalidateCache()));
   }
 
   /**
@@ -61,7 +63,7 @@ export class GroupsService {
    * @returns void
    */
   deleteGroupById(id: string): Observable<void> {
-    return this.apiService.delete<void>(`/groups/${id}`);
+    return this.apiService.request('DELETE /groups/{id}', { path: { id } }).pipe(tap(() => this.invalidateCache()));
   }
 
   /**
@@ -71,7 +73,9 @@ export class GroupsService {
    * @returns Observable con el grupo actualizado
    */
   assginEmployeesToGroup(groupId: string, employees: EmployeesAsignment): Observable<Group> {
-    return this.apiService.post<Group>(`/groups/${groupId}/employees`, { employees });
+    return this.apiService
+      .request('POST /groups/{groupId}/employees', { path: { groupId }, body: { employees } })
+      .pipe(tap(() => this.invalidateCache()));
   }
 
   /**
@@ -81,7 +85,9 @@ export class GroupsService {
    * @returns Observable con el grupo actualizado
    */
   removeEmployeesFromGroup(groupId: string, employeId: string): Observable<Group> {
-    return this.apiService.delete<Group>(`/groups/${groupId}/employees/${employeId}`);
+    return this.apiService
+      .request('DELETE /groups/{groupId}/employees/{employeeId}', { path: { groupId, employeeId: employeId } })
+      .pipe(tap(() => this.invalidateCache()));
   }
 
   /**
@@ -90,6 +96,16 @@ export class GroupsService {
    * @returns Observable con la lista de correos electrónicos de los miembros del grupo
    */
   getEmailsByGroup(groupId: string): Observable<string[]> {
-    return this.apiService.get<string[]>(`/groups/${groupId}/members/emails`);
+    return this.apiService.request('GET /groups/{groupId}/members/emails', { path: { groupId } });
+  }
+
+  /**
+   * Descarta los grupos guardados en caché tras un cambio
+   * Los empleados también se descartan porque cambiar los miembros cambia su grupo
+   * @returns void
+   */
+  invalidateCache(): void {
+    this.entityCache.invalidate('groups');
+    this.entityCache.invalidate('employees');
   }
 }
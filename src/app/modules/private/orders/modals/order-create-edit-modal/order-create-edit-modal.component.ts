@@ -1,4 +1,10 @@
-import { Device, DevicesBatchRq, DeviceStatus } from './../../../devices/models/device.model';
+import {
+  Device,
+  DevicesBatchRq,
+  DeviceStatus,
+  DeviceStatusLabels,
+  DeviceUtils,
+} from './../../../devices/models/device.model';
 import { DevicesService } from './../../../devices/services/devices.service';
 import {
   Component,
@@ -38,13 +44,33 @@ import { noWhitespaceValidator } from '../../../../../core/utils/form-validators
 import { ReactiveFormsModule } from '@angular/forms';
 import { OrdersService } from '../../services/orders.service';
 import { toast } from 'ngx-sonner';
+import { OfflineQueuedError } from '../../../../../core/services/offline-queue.service';
+import {
+  DeviceStatusChangedEvent,
+  RealtimeService,
+} from '../../../../../core/services/realtime.service';
 import { EmployeeStatus } from '../../../employees/models/employe.model';
+import { BarcodeScannerDirective } from '../../../../../shared/directives/barcode-scanner.directive';
+import { playScanFeedback } from '../../../../../core/utils/scan-feedback.utils';
+import { TranslatePipe } from '../../../../../shared/pipes/translate.pipe';
+import {
+  applyApiFieldErrors,
+  getApiErrorMessage,
+  notifyApiError,
+} from '../../../../../core/utils/api-error.utils';
+import { ApiError } from '../../../../../core/models/api-error.model';
 
 @Component({
   selector: 'app-order-create-edit-modal',
   templateUrl: './order-create-edit-modal.component.html',
   styleUrls: ['./order-create-edit-modal.component.css'],
-  imports: [CommonModule, ReactiveFormsModule, FormsModule],
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    FormsModule,
+    BarcodeScannerDirective,
+    TranslatePipe,
+  ],
   standalone: true,
 })
 export class OrderCreateEditModalComponent
@@ -66,6 +92,9 @@ export class OrderCreateEditModalComponent
   // Para manejar desuscripciones
   private destroy$ = new Subject<void>();
 
+  // Controles del formulario cuyo campo en el backend tiene otro nombre
+  private static readonly API_FIELDS = { assigneeType: 'assignedType' };
+
   devices: Device[] = [];
   employees: Employee[] = [];
   groups: Group[] = [];
@@ -81,6 +110,11 @@ export class OrderCreateEditModalComponent
   // Mapa para almacenar el nombre de los dispositivos por su ID, evitando llamadas repetidas a getDeviceName
   deviceNameMap: { [id: string]: string } = {};
 
+  // Modo escaneo: cada lectura del escáner añade el dispositivo a la orden
+  scanMode = false;
+  scanFeedback: { type: 'success' | 'error'; message: string } | null = null;
+  private scanFeedbackTimeout: ReturnType<typeof setTimeout> | null = null;
+
   // Contador para verificar cuántas veces se llama a getDeviceName
   private updateDeviceNameMap() {
     this.deviceNameMap = {};
@@ -96,14 +130,52 @@ export class OrderCreateEditModalComponent
     private fb: FormBuilder,
     private cd: ChangeDetectorRef,
     private ordersService: OrdersService,
+    private realtimeService: RealtimeService,
   ) {}
 
   ngOnInit() {
     this.initParameters();
     this.initForm();
+
+    // Retira los dispositivos que otro usuario reserva mientras el formulario está abierto
+    this.realtimeService.deviceStatusChanges$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((event) => this.applyDeviceStatusChange(event));
+  }
+
+  /**
+   * Aplica un cambio de estado recibido en tiempo real a la lista de dispositivos asignables
+   * Si el dispositivo deja de estar disponible se quita de la lista y, si estaba seleccionado, de la orden
+   * Los dispositivos que ya pertenecen a la orden en edición se conservan
+   * @param event Cambio de estado recibido en tiempo real
+   * @returns void
+   */
+  private applyDeviceStatusChange(event: DeviceStatusChangedEvent): void {
+    const device = this.devices.find((d) => d.id === event.deviceId);
+    if (!device || device.status === event.status) return;
+
+    const inOrder = this.order?.items.some(
+      (i) => String(i.deviceId) === String(event.deviceId),
+    );
+    if (event.status === DeviceStatus.GOOD_CONDITION || inOrder) {
+      device.status = event.status;
+      return;
+    }
+
+    this.devices = this.devices.filter((d) => d.id !== event.deviceId);
+    const selected: string[] = this.orderForm.get('devicesIds')?.value || [];
+    if (selected.includes(event.deviceId)) {
+      this.removeDevice(event.deviceId);
+      toast.warning(`${device.name} ya no está disponible`, {
+        description: 'Otro usuario cambió su estado y se quitó de la orden',
+      });
+    }
+    this.filterDevices();
+    this.cd.markForCheck();
   }
 
   ngOnDestroy() {
+    if (this.scanFeedbackTimeout) clearTimeout(this.scanFeedbackTimeout);
     this.destroy$.next();
     this.destroy$.complete();
   }
@@ -217,6 +289,66 @@ export class OrderCreateEditModalComponent
     this.filterDevices();
   }
 
+  /**
+   * Busca el dispositivo del código escaneado y lo añade a la orden
+   * Rechaza con retroalimentación sonora y visual los códigos desconocidos, los dispositivos ya añadidos
+   * y los que no están disponibles (por estado o por tener una asignación activa en otra orden)
+   * @param barcode Código leído por el escáner
+   * @returns void
+   */
+  onBarcodeScanned(barcode: string): void {
+    this.devicesService
+      .getDeviceByBarcode(barcode)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (device) => {
+          const selected: string[] = this.orderForm.get('devicesIds')?.value || [];
+          const assignable = this.devices.some((d) => d.id === device.id);
+
+          if (selected.includes(device.id)) {
+            this.showScanFeedback('error', `${device.name} ya está en la orden`);
+          } else if (!assignable && !DeviceUtils.isAvailable(device)) {
+            this.showScanFeedback(
+              'error',
+              `${device.name} no está disponible (${DeviceStatusLabels[device.status]})`,
+            );
+          } else if (!assignable) {
+            this.showScanFeedback('error', `${device.name} está asignado a otra orden`);
+          } else {
+            this.addDevice(device.id);
+            this.showScanFeedback('success', `${device.name} añadido`);
+          }
+        },
+        error: (err) => {
+          if (err instanceof ApiError && err.status === 404) {
+            // El aviso de la lectura ya informa al usuario: se omite el toast genérico del interceptor
+            err.notified = true;
+            this.showScanFeedback('error', `Código ${barcode} no encontrado`);
+            return;
+          }
+          this.showScanFeedback('error', `No se pudo consultar el código ${barcode}`);
+          notifyApiError(err, 'Error al buscar el dispositivo');
+        },
+      });
+  }
+
+  /**
+   * Muestra el resultado de una lectura durante unos segundos y reproduce el tono correspondiente
+   * @param type Resultado de la lectura
+   * @param message Mensaje a mostrar
+   * @returns void
+   */
+  private showScanFeedback(type: 'success' | 'error', message: string): void {
+    playScanFeedback(type);
+    this.scanFeedback = { type, message };
+    if (this.scanFeedbackTimeout) clearTimeout(this.scanFeedbackTimeout);
+    this.scanFeedbackTimeout = setTimeout(() => {
+      this.scanFeedback = null;
+      this.cd.detectChanges();
+    }, 2500);
+    this.cd.detectChanges();
+  }
+
   /**
    * Elimina un dispositivo de la selección actual en el formulario, actualizando la lista de dispositivos seleccionados y filtrando la lista de dispositivos disponibles para reflejar el cambio.
    * Se llama cada vez que el usuario decide eliminar un dispositivo de la selección actual, y se encarga de mantener actualizado el estado del formulario y la lista de dispositivos disponibles para selección.
@@ -307,13 +439,17 @@ export class OrderCreateEditModalComponent
           this.save.emit({ order, mode: isEdit ? 'edit' : 'create' });
         },
         error: (err) => {
-          const msg =
-            err?.error?.message || err?.message || 'Error al guardar la orden';
+          if (err instanceof OfflineQueuedError) {
+            toast.info(err.message, { description: err.mutation.description });
+            this.close.emit();
+            return;
+          }
 
+          // Los errores por campo del backend se muestran junto a cada control
+          applyApiFieldErrors(this.orderForm, err, OrderCreateEditModalComponent.API_FIELDS);
+          const msg = getApiErrorMessage(err, 'Error al guardar la orden');
           this.formError = msg;
-          toast.error('Error al guardar la orden', {
-            description: msg,
-          });
+          notifyApiError(err, 'Error al guardar la orden');
         },
       });
   }
@@ -1,6 +1,14 @@
 import { Component, OnInit, EventEmitter, Input, Output } from '@angular/core';
-import { Order } from '../../models/Orders';
+import { Order, OrderStateMachine } from '../../models/Orders';
 import { CommonModule } from '@angular/common';
+import { toast } from 'ngx-sonner';
+import { finalize, map, of, switchMap } from 'rxjs';
+import { OrdersService } from '../../services/orders.service';
+import { BatchOperationResponse } from '../../../devices/models/device.model';
+import {
+  getApiErrorMessage,
+  notifyApiError,
+} from '../../../../../core/utils/api-error.utils';
 
 @Component({
   selector: 'app-order-delete-modal',
@@ -12,20 +20,61 @@ import { CommonModule } from '@angular/common';
 export class OrderDeleteModalComponent implements OnInit {
     // Inputs y Outputs
   @Input() order: Order | null = null;
-  @Output() deleted = new EventEmitter<void>();
+  @Output() deleted = new EventEmitter<BatchOperationResponse | null>();
   @Output() cancel = new EventEmitter<void>();
 
    // Estado de carga y error
   loading = false;
   error = '';
 
-  constructor() { }
+  constructor(private ordersService: OrdersService) { }
 
   ngOnInit() {
   }
 
-  confirmDelete(): void{
+  /**
+   * Indica si al eliminar la orden se deben liberar sus dispositivos
+   * Las órdenes finalizadas ya liberaron sus dispositivos al cerrarse
+   * @returns boolean
+   */
+  get releasesDevices(): boolean {
+    return !!this.order && !OrderStateMachine.isClosed(this.order) && this.order.items?.length > 0;
+  }
 
+  /**
+   * Confirma la eliminación de la orden
+   * Elimina la orden y, si seguía abierta, restaura el estado original de sus dispositivos
+   * Emite el resumen de la liberación (o null si no aplica) para que el componente padre lo muestre
+   * @returns void
+   */
+  confirmDelete(): void {
+    const order = this.order;
+    if (!order) return;
+    const releaseDevices = this.releasesDevices;
+    this.loading = true;
+    this.error = '';
+    this.ordersService
+      .deleteOrder(order.id)
+      .pipe(
+        switchMap(() =>
+          releaseDevices
+            ? this.ordersService.releaseOrderDevices(order)
+            : of(null),
+        ),
+        map((release) => release as BatchOperationResponse | null),
+        finalize(() => (this.loading = false)),
+      )
+      .subscribe({
+        next: (release) => {
+          toast.success('Orden eliminada');
+          this.deleted.emit(release);
+        },
+        error: (err) => {
+          const msg = getApiErrorMessage(err, 'Error al eliminar la orden');
+          this.error = msg;
+          notifyApiError(err, 'Error al eliminar la orden');
+        },
+      });
   }
 
     /**
@@ -0,0 +1,85 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+
+import { OrderReleaseSummaryModalComponent } from './order-release-summary-modal.component';
+import { Device, DeviceStatus } from '../../../devices/models/device.model';
+import { environment } from '../../../../../../environments/environment';
+
+describe('OrderReleaseSummaryModalComponent', () => {
+  let component: OrderReleaseSummaryModalComponent;
+  let fixture: ComponentFixture<OrderReleaseSummaryModalComponent>;
+  let httpMock: HttpTestingController;
+
+  const device = (id: string, status: DeviceStatus): Device => ({
+    id,
+    name: `Dispositivo ${id}`,
+    brand: 'Dell',
+    barcode: `INF-${id}`,
+    status,
+    createdAt: '2026-10-01T10:00:00Z',
+    updatedAt: null,
+  });
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [OrderReleaseSummaryModalComponent],
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(OrderReleaseSummaryModalComponent);
+    component = fixture.componentInstance;
+    component.items = [
+      { id: 'd1', originalStatus: DeviceStatus.GOOD_CONDITION },
+      { id: 'd2', originalStatus: DeviceStatus.FAIR },
+    ];
+    component.result = {
+      success: [device('d1', DeviceStatus.GOOD_CONDITION)],
+      failed: [{ id: 'd2', error: 'El dispositivo no fue restaurado' }],
+      total: 2,
+      successCount: 1,
+      failedCount: 1,
+    };
+    httpMock = TestBed.inject(HttpTestingController);
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('debe mostrar el estado original de cada dispositivo', () => {
+    expect(component.getOriginalStatusLabel('d2')).toBe(component.DeviceStatusLabels[DeviceStatus.FAIR]);
+    expect(component.getOriginalStatusLabel('otro')).toBe('-');
+  });
+
+  it('debe reintentar solo los fallidos y combinar el resultado', () => {
+    component.retryFailed();
+
+    const req = httpMock.expectOne(`${environment.apiUrl}/devices/restore`);
+    expect(req.request.method).toBe('POST');
+    expect(req.request.body).toEqual({ items: [{ id: 'd2', originalStatus: DeviceStatus.FAIR }] });
+    req.flush([device('d2', DeviceStatus.FAIR)]);
+
+    expect(component.result?.successCount).toBe(2);
+    expect(component.result?.failedCount).toBe(0);
+    expect(component.result?.total).toBe(2);
+    expect(component.retrying).toBeFalse();
+  });
+
+  it('debe conservar como fallidos los que vuelven a fallar', () => {
+    component.retryFailed();
+
+    httpMock
+      .expectOne(`${environment.apiUrl}/devices/restore`)
+      .flush({ message: 'Error' }, { status: 500, statusText: 'Server Error' });
+
+    expect(component.result?.successCount).toBe(1);
+    expect(component.result?.failed.map((f) => f.id)).toEqual(['d2']);
+  });
+});
@@ -0,0 +1,98 @@
+import { Component, Input, Output, EventEmitter, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subject, finalize, takeUntil } from 'rxjs';
+import { toast } from 'ngx-sonner';
+import {
+  BatchOperationResponse,
+  DeviceStatusLabels,
+  RestoreDeviceItem,
+} from '../../../devices/models/device.model';
+import { DevicesService } from '../../../devices/services/devices.service';
+
+@Component({
+  selector: 'app-order-release-summary-modal',
+  templateUrl: './order-release-summary-modal.component.html',
+  styleUrls: ['./order-release-summary-modal.component.css'],
+  standalone: true,
+  imports: [CommonModule],
+})
+export class OrderReleaseSummaryModalComponent implements OnDestroy {
+  // Inputs y Outputs
+  @Input() result: BatchOperationResponse | null = null;
+  @Input() items: RestoreDeviceItem[] = [];
+  @Input() deviceNames: { [id: string]: string } = {};
+  @Output() close = new EventEmitter<void>();
+
+  // Mapa de etiquetas de estado de dispositivo
+  DeviceStatusLabels = DeviceStatusLabels;
+
+  // Estado del reintento
+  retrying = false;
+
+  // Subject para manejar la destrucción del componente y evitar fugas de memoria
+  private destroy$ = new Subject<void>();
+
+  constructor(private devicesService: DevicesService) {}
+
+  /**
+   * Limpia recursos al destruir el componente
+   * @returns void
+   */
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Obtiene el nombre a mostrar de un dispositivo, usando el ID abreviado si no se conoce
+   * @param id ID del dispositivo
+   * @returns string Nombre del dispositivo
+   */
+  getDeviceName(id: string): string {
+    return this.deviceNames[id] || id.substring(0, 8);
+  }
+
+  /**
+   * Obtiene el estado original al que se intentó restaurar un dispositivo
+   * @param id ID del dispositivo
+   * @returns string Etiqueta del estado original o '-'
+   */
+  getOriginalStatusLabel(id: string): string {
+    const item = this.items.find((i) => i.id === id);
+    return item ? DeviceStatusLabels[item.originalStatus] : '-';
+  }
+
+  /**
+   * Reintenta restaurar únicamente los dispositivos que fallaron y combina el resultado con el resumen actual
+   * @returns void
+   */
+  retryFailed(): void {
+    if (!this.result || !this.result.failedCount) return;
+    const current = this.result;
+    const failedIds = new Set(current.failed.map((f) => f.id));
+    const failedItems = this.items.filter((i) => failedIds.has(i.id));
+
+    this.retrying = true;
+    this.devicesService
+      .restoreOriginalStates(failedItems)
+      .pipe(
+        takeUntil(this.destroy$),
+        finalize(() => (this.retrying = false)),
+      )
+      .subscribe((retry) => {
+        const success = [...current.success, ...retry.success];
+        this.result = {
+          success,
+          failed: retry.failed,
+          total: current.total,
+          successCount: success.length,
+          failedCount: retry.failed.length,
+        };
+        if (retry.failedCount) {
+          toast.error(`${retry.failedCount} dispositivos siguen sin restaurarse`);
+        } else {
+          toast.success('Todos los dispositivos fueron restaurados');
+        }
+      });
+  }
+}
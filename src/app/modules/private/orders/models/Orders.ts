@@ -1,4 +1,7 @@
 import { Device, DeviceStatus } from "../../devices/models/device.model";
+import { Employee } from "../../employees/models/employe.model";
+import { Group } from "../../groups/models/groups.model";
+import { translatedLabels } from "../../../../core/utils/i18n.utils";
 
 /**
  * Estados posibles de una orden y su traducción al español.
@@ -12,14 +15,10 @@ export enum OrderStates {
 }
 
 /**
- * Labels para mostrar en UI
+ * Labels para mostrar en UI, traducidos al idioma activo
  */
-export const OrderStateLabels: { [key in OrderStates]: string } = {
-  [OrderStates.CREATED]: 'Creada',
-  [OrderStates.IN_PROCESS]: 'En Proceso',
-  [OrderStates.DISPATCHED]: 'Despachada',
-  [OrderStates.FINISHED]: 'Finalizada',
-};
+export const OrderStateLabels: { readonly [key in OrderStates]: string } =
+  translatedLabels('orderState', Object.values(OrderStates));
 
 /**
  * Colores para badges en UI
@@ -31,6 +30,81 @@ export const OrderStatusColors: { [key in OrderStates]: string } = {
   [OrderStates.FINISHED]: 'success'
 };
 
+/**
+ * Tabla de transiciones permitidas entre estados de una orden
+ * Flujo: CREATED → IN_PROCESS → DISPATCHED → FINISHED
+ * El backend no tiene un estado de cancelación; si lo agrega, se declara en OrderStates y aquí
+ */
+export const OrderStateTransitions: { [key in OrderStates]: OrderStates[] } = {
+  [OrderStates.CREATED]: [OrderStates.IN_PROCESS],
+  [OrderStates.IN_PROCESS]: [OrderStates.DISPATCHED],
+  [OrderStates.DISPATCHED]: [OrderStates.FINISHED],
+  [OrderStates.FINISHED]: [],
+};
+
+/**
+ * Estados finales: una vez alcanzados la orden no puede volver a cambiar de estado
+ */
+export const IrreversibleOrderStates: OrderStates[] = [
+  OrderStates.FINISHED,
+];
+
+/**
+ * Utilidades para validar las transiciones de estado de una orden
+ */
+export class OrderStateMachine {
+  /**
+   * Obtiene los estados a los que puede pasar una orden desde su estado actual
+   */
+  static getNextStates(state: OrderStates): OrderStates[] {
+    return OrderStateTransitions[state] ?? [];
+  }
+
+  /**
+   * Verifica si la transición entre dos estados está permitida
+   */
+  static canTransition(from: OrderStates, to: OrderStates): boolean {
+    return OrderStateMachine.getNextStates(from).includes(to);
+  }
+
+  /**
+   * Verifica si un estado es irreversible y requiere confirmación
+   */
+  static isIrreversible(state: OrderStates): boolean {
+    return IrreversibleOrderStates.includes(state);
+  }
+
+  /**
+   * Verifica si una orden está cerrada (finalizada)
+   */
+  static isClosed(order: Order): boolean {
+    return OrderStateMachine.isIrreversible(order.state);
+  }
+
+  /**
+   * Construye la línea de tiempo de una orden con los datos que devuelve el backend:
+   * la creación y, si la orden avanzó, el estado actual con la fecha de su última actualización
+   * El backend no registra cada transición, por lo que los estados intermedios no se muestran
+   */
+  static buildTimeline(order: Order): OrderStateChange[] {
+    const timeline: OrderStateChange[] = [
+      { toState: OrderStates.CREATED, changedAt: order.createdAt },
+    ];
+    if (order.state !== OrderStates.CREATED && order.updatedAt) {
+      timeline.push({ toState: order.state, changedAt: order.updatedAt });
+    }
+    return timeline;
+  }
+}
+
+/**
+ * Entrada de la línea de tiempo de una orden: un estado y la fecha conocida en que la orden estaba en él
+ */
+export interface OrderStateChange {
+  toState: OrderStates;
+  changedAt: string;
+}
+
 /**
  * Interfaz que representa los items de una orden y su estado original del dispositivo
  *
@@ -56,9 +130,23 @@ export interface Order {
   createdAt: string;
   updatedAt: string;
   items: OrderItem[];
-  assignee: any;
+  // Empleado o grupo responsable; lo completa OrderAssigneesService (el backend solo envía el ID)
+  assignee?: OrderAssignee | null;
 }
 
+/**
+ * Responsable de una orden según su assigneeType
+ */
+export type OrderAssignee = Employee | Group;
+
+/**
+ * Indica si el responsable de una orden es un grupo
+ * @param assignee Responsable de la orden
+ * @returns boolean
+ */
+export const isGroupAssignee = (assignee: OrderAssignee | null | undefined): assignee is Group =>
+  !!assignee && 'employees' in assignee;
+
 /**
  * Request para crear una orden con campos necesarios para el backend
  * Incluye descripción, tipo y ID del asignado, y los items de la orden
@@ -108,6 +196,14 @@ export interface OrderWithDevice extends Order {
   firstDeviceBrand?: string;
 }
 
+/**
+ * Dispositivo en custodia de un asignado (empleado o grupo) junto con la orden a través de la cual lo tiene
+ */
+export interface AssigneeHeldDevice {
+  device: Device;
+  order: Order;
+}
+
 // Resultado del formulario de creación/edición de orden
 export interface OrderFormResult {
   order: Order;
@@ -11,32 +11,65 @@ import {
   switchMap,
   of,
   concatMap,
+  finalize,
 } from 'rxjs';
 import { Subject } from 'rxjs';
 import { ActivatedRoute, Router } from '@angular/router';
 import { toast } from 'ngx-sonner';
 import {
   Order,
+  OrderStateChange,
+  OrderStateLabels,
+  OrderStateMachine,
   OrderStates,
   OrderStatusColors,
+  isGroupAssignee,
 } from '../../models/Orders';
 import { DevicesService } from '../../../devices/services/devices.service';
 import {
+  BatchOperationResponse,
   DeviceStatus,
   DeviceStatusLabels,
   DeviceStatusColors,
+  RestoreDeviceItem,
 } from '../../../devices/models/device.model';
-import { GroupsService } from '../../../groups/services/groups.service';
-import { EmployeesService } from '../../../employees/services/employees.service';
+import { OrderAssigneesService } from '../../services/order-assignees.service';
+import { HasPermissionDirective } from '../../../../../shared/directives/has-permission.directive';
+import { OrderReleaseSummaryModalComponent } from '../../modals/order-release-summary-modal/order-release-summary-modal.component';
+import { Permission } from '../../../../public/auth/models/role.model';
+import {
+  getApiErrorMessage,
+  notifyApiError,
+} from '../../../../../core/utils/api-error.utils';
+import { LocalDatePipe } from '../../../../../shared/pipes/local-date.pipe';
 
 @Component({
   selector: 'app-orders-detail',
   templateUrl: './orders-detail.component.html',
   styleUrls: ['./orders-detail.component.css'],
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, HasPermissionDirective, OrderReleaseSummaryModalComponent, LocalDatePipe],
 })
 export class OrdersDetailComponent implements OnInit, OnDestroy {
+  // Permisos para mostrar u ocultar acciones según el rol
+  Permission = Permission;
+
+  // Etiquetas y colores de los estados de orden para la plantilla
+  OrderStateLabels = OrderStateLabels;
+  OrderStatusColors = OrderStatusColors;
+
+  // Historial de cambios de estado para la línea de tiempo
+  stateHistory: OrderStateChange[] = [];
+
+  // Estado irreversible pendiente de confirmación y estado del cambio en curso
+  pendingState: OrderStates | null = null;
+  changingState = false;
+
+  // Resumen de la liberación de dispositivos al cerrar la orden
+  releaseSummary: BatchOperationResponse | null = null;
+  releaseItems: RestoreDeviceItem[] = [];
+  releaseDeviceNames: { [id: string]: string } = {};
+
   // Modelo de vista para la orden
   order: Order | null = null;
 
@@ -77,7 +110,12 @@ export class OrdersDetailComponent implements OnInit, OnDestroy {
 
   // Obtener la etiqueta legible para el estado de la orden
   getOrderStateLabel(state?: OrderStates | null): string {
-    return (state ? OrderStates[state] : '-') ?? '-';
+    return (state ? OrderStateLabels[state] : '-') ?? '-';
+  }
+
+  // Estados a los que puede pasar la orden desde su estado actual
+  get nextStates(): OrderStates[] {
+    return this.order ? OrderStateMachine.getNextStates(this.order.state) : [];
   }
 
   // Obtener el estado del dispositivo para mostrar en la plantilla, para mostar el nombre del estado en vez del código
@@ -86,17 +124,27 @@ export class OrdersDetailComponent implements OnInit, OnDestroy {
   // Obtener el color del estado del dispositivo para usar en la plantilla
   DeviceStatusColors = DeviceStatusColors;
 
-  // Variable para almacenar el nombre del grupo, se muestra en el tooltip del badge de grupo
-  groupName: string = '';
+  // Nombre del responsable (empleado o grupo), o su ID mientras se carga
+  get assigneeName(): string {
+    return this.order ? this.orderAssigneesService.getAssigneeName(this.order) : '';
+  }
 
-  // Variable para almacenar el nombre del empleado, se muestra en el tooltip del badge de empleado
+  // Texto del badge de grupo: número de empleados o, si no tiene, el nombre del grupo
+  get groupBadgeLabel(): string {
+    const assignee = this.order?.assignee;
+    return isGroupAssignee(assignee) && assignee.employees?.length
+      ? `(${assignee.employees.length} empleados)`
+      : this.assigneeName;
+  }
+
+  // Tooltip del badge de grupo
   get groupNameTooltip() {
-    return this.groupName ? 'Grupo: ' + this.groupName : '';
+    return this.assigneeName ? 'Grupo: ' + this.assigneeName : '';
   }
 
-  // Variable para almacenar el nombre del empleado, se muestra en el tooltip del badge de empleado
+  // Tooltip del badge de empleado
   get employeeNameTooltip() {
-    return this.order?.assigneeId ? 'Empleado: ' + this.order?.assigneeId : '';
+    return this.assigneeName ? 'Empleado: ' + this.assigneeName : '';
   }
 
   // Subject para manejar la destrucción del componente y evitar fugas de memoria
@@ -108,8 +156,7 @@ export class OrdersDetailComponent implements OnInit, OnDestroy {
     private loadingService: LoadingService,
     private route: ActivatedRoute,
     private devicesService: DevicesService,
-    private employeeService: EmployeesService,
-    private groupsService: GroupsService,
+    private orderAssigneesService: OrderAssigneesService,
     private router: Router,
   ) {}
 
@@ -149,13 +196,12 @@ export class OrdersDetailComponent implements OnInit, OnDestroy {
           this.ordersService.getOrderById(params['id']).pipe(
             tap((order) => {
               this.order = order;
+              this.loadStateHistory(order);
               console.log('Orden cargada:', order);
             }),
             catchError((err) => {
-              this.error = err?.error?.message || 'Error al cargar orden';
-              toast.error('Error al cargar la orden', {
-                description: this.error,
-              });
+              this.error = getApiErrorMessage(err, 'Error al cargar orden');
+              notifyApiError(err, 'Error al cargar la orden');
               this.order = null;
               return of(null);
             }),
@@ -189,48 +235,120 @@ export class OrdersDetailComponent implements OnInit, OnDestroy {
         }),
         concatMap(() => {
           if (!this.order) return of(null);
-
-          if (this.order.assigneeType !== 'GROUP') {
-            return this.employeeService
-              .getEmployeeById(this.order.assigneeId)
-              .pipe(
-                tap((employee) => {
-                  if (this.order) {
-                    this.order.assigneeId = employee.fullName;
-                  }
-                }),
-                catchError((err) => {
-                  console.error(
-                    `Error al cargar empleado con ID ${this.order!.assigneeId}:`,
-                    err,
-                  );
-                  return of(null);
-                }),
-              );
-          } else {
-            return this.groupsService.getGroupById(this.order.assigneeId).pipe(
-              tap((group) => {
-                if (this.order) {
-                  this.order.assigneeId = group.employees?.length
-                    ? `(${group.employees.length} empleados)`
-                    : group.name;
-                  this.groupName = group.name;
-                }
-              }),
-              catchError((err) => {
-                console.error(
-                  `Error al cargar grupo con ID ${this.order!.assigneeId}:`,
-                  err,
-                );
-                return of(null);
-              }),
-            );
-          }
+          return this.orderAssigneesService.resolveAssignee(this.order).pipe(
+            tap((resolved) => {
+              if (this.order) this.order.assignee = resolved.assignee;
+            }),
+          );
         }),
       )
       .subscribe(() => {});
   }
 
+  /**
+   * Actualizar la línea de tiempo de estados a partir de la orden
+   * @param order Orden cuya línea de tiempo se muestra
+   * @returns void
+   */
+  loadStateHistory(order: Order): void {
+    this.stateHistory = OrderStateMachine.buildTimeline(order);
+  }
+
+  /**
+   * Solicitar el cambio de estado de la orden
+   * Los estados irreversibles (finalizar o cancelar) requieren confirmación antes de aplicarse
+   * @param state Estado al que se quiere pasar
+   * @returns void
+   */
+  requestStateChange(state: OrderStates): void {
+    if (OrderStateMachine.isIrreversible(state)) {
+      this.pendingState = state;
+      return;
+    }
+    this.applyStateChange(state);
+  }
+
+  /**
+   * Confirmar el cambio a un estado irreversible
+   * @returns void
+   */
+  confirmStateChange(): void {
+    if (!this.pendingState) return;
+    const state = this.pendingState;
+    this.pendingState = null;
+    this.applyStateChange(state);
+  }
+
+  /**
+   * Cancelar la confirmación del cambio de estado
+   * @returns void
+   */
+  cancelStateChange(): void {
+    this.pendingState = null;
+  }
+
+  /**
+   * Aplicar el cambio de estado validando la transición y refrescar la línea de tiempo
+   * @param state Estado al que se pasa la orden
+   * @returns void
+   */
+  private applyStateChange(state: OrderStates): void {
+    const order = this.order;
+    if (!order) return;
+    this.changingState = true;
+    this.ordersService
+      .changeOrderState(order, state)
+      .pipe(
+        takeUntil(this.destroy$),
+        finalize(() => (this.changingState = false)),
+      )
+      .subscribe({
+        next: (updated) => {
+          // Solo se actualizan estado y fecha para conservar los datos ya enriquecidos del asignado
+          order.state = updated?.state ?? state;
+          order.updatedAt = updated?.updatedAt ?? order.updatedAt;
+          toast.success(`Orden ${OrderStateLabels[order.state].toLowerCase()}`);
+          this.loadStateHistory(order);
+          if (OrderStateMachine.isClosed(order)) {
+            this.releaseDevices(order);
+          }
+        },
+        error: (err) =>
+          notifyApiError(err, 'No se pudo cambiar el estado de la orden'),
+      });
+  }
+
+  /**
+   * Liberar los dispositivos de la orden restaurando su estado original y mostrar el resumen
+   * @param order Orden cerrada cuyos dispositivos se liberan
+   * @returns void
+   */
+  private releaseDevices(order: Order): void {
+    if (!order.items?.length) return;
+    this.releaseItems = this.ordersService.getReleaseItems(order);
+    this.releaseDeviceNames = order.items.reduce(
+      (names, item) =>
+        item.device ? { ...names, [item.deviceId]: item.device.name } : names,
+      {} as { [id: string]: string },
+    );
+    this.ordersService
+      .releaseOrderDevices(order)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((summary) => {
+        this.releaseSummary = summary;
+      });
+  }
+
+  /**
+   * Cerrar el resumen de liberación y recargar la orden para reflejar el estado actual de sus dispositivos
+   * @returns void
+   */
+  closeReleaseSummary(): void {
+    this.releaseSummary = null;
+    this.releaseItems = [];
+    this.getOrderDetail();
+  }
+
   /**
    * Navegar hacia atrás en la historia del navegador
    * Llama al método back del servicio Location para navegar hacia atrás en la historia del navegador, lo que permite al usuario regresar a la página anterior.
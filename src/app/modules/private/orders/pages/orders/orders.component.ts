@@ -12,24 +12,39 @@ import {
   startWith,
   map,
   tap,
-  catchError,
-  concatMap,
-  of,
-  forkJoin,
+  switchMap,
+  filter,
 } from 'rxjs';
 import { OrderCreateEditModalComponent } from '../../modals/order-create-edit-modal/order-create-edit-modal.component';
 import { OrderDeleteModalComponent } from '../../modals/order-delete-modal/order-delete-modal.component';
+import { OrderReleaseSummaryModalComponent } from '../../modals/order-release-summary-modal/order-release-summary-modal.component';
+import {
+  BatchOperationResponse,
+  RestoreDeviceItem,
+} from '../../../devices/models/device.model';
 import {
   Order,
   OrderStates,
   OrderStateLabels,
   OrderStatusColors,
   OrderFormResult,
+  isGroupAssignee,
 } from '../../models/Orders';
 import { Router, ActivatedRoute } from '@angular/router';
-import { EmployeesService } from '../../../employees/services/employees.service';
-import { GroupsService } from '../../../groups/services/groups.service';
+import { OrderAssigneesService } from '../../services/order-assignees.service';
 import { toast } from 'ngx-sonner';
+import { notifyApiError } from '../../../../../core/utils/api-error.utils';
+import { OfflineQueueService } from '../../../../../core/services/offline-queue.service';
+import {
+  OrderStateChangedEvent,
+  RealtimeService,
+} from '../../../../../core/services/realtime.service';
+import { HasPermissionDirective } from '../../../../../shared/directives/has-permission.directive';
+import { Permission } from '../../../../public/auth/models/role.model';
+import { RowFlash } from '../../../../../core/utils/row-flash.utils';
+import { PermissionService } from '../../../../../core/services/permission.service';
+import { listenCreateAction } from '../../../../../core/utils/route-action.utils';
+import { LocalDatePipe } from '../../../../../shared/pipes/local-date.pipe';
 
 @Component({
   selector: 'app-orders',
@@ -41,9 +56,15 @@ import { toast } from 'ngx-sonner';
     FormsModule,
     OrderCreateEditModalComponent,
     OrderDeleteModalComponent,
+    OrderReleaseSummaryModalComponent,
+    HasPermissionDirective,
+    LocalDatePipe,
   ],
 })
 export class OrdersComponent implements OnInit, OnDestroy {
+  // Permisos para mostrar u ocultar acciones según el rol
+  Permission = Permission;
+
   // Modales
   showCreateModal = false;
   showEditModal = false;
@@ -53,6 +74,10 @@ export class OrdersComponent implements OnInit, OnDestroy {
   orderToEdit: Order | null = null;
   orderToDelete: Order | null = null;
 
+  // Resumen de la liberación de dispositivos tras eliminar una orden
+  releaseSummary: BatchOperationResponse | null = null;
+  releaseItems: RestoreDeviceItem[] = [];
+
   // Modo del formulario: 'create' o 'edit'
   formMode: 'create' | 'edit' = 'create';
 
@@ -134,6 +159,9 @@ export class OrdersComponent implements OnInit, OnDestroy {
   // Flag para controlar la disponibilidad de los botones de acción (crear, editar, eliminar)
   buttonsIsAvailable = true;
 
+  // Filas resaltadas tras recibir un cambio en tiempo real
+  rowFlash = new RowFlash();
+
   public getStates(orders: Order[]) {
     const totalOrders = orders.length;
     const created = orders.filter(
@@ -154,17 +182,31 @@ export class OrdersComponent implements OnInit, OnDestroy {
   constructor(
     private ordersService: OrdersService,
     private loadingService: LoadingService,
-    private employeesService: EmployeesService,
-    private groupsService: GroupsService,
+    private orderAssigneesService: OrderAssigneesService,
     private router: Router,
     private route: ActivatedRoute,
+    private offlineQueue: OfflineQueueService,
+    private realtimeService: RealtimeService,
+    private permissionService: PermissionService,
   ) {}
 
   ngOnInit() {
     this.initOrdersData();
+    this.listenCreateAction();
+
+    // Recarga la lista cuando se sincronizan órdenes creadas sin conexión
+    this.offlineQueue.synced$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.loadOrders());
+
+    // Aplica los cambios de estado hechos por otros usuarios sin recargar la lista
+    this.realtimeService.orderStateChanges$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((event) => this.applyOrderStateChange(event));
   }
 
   ngOnDestroy() {
+    this.rowFlash.clear();
     this.destroy$.next();
     this.destroy$.complete();
   }
@@ -178,7 +220,7 @@ export class OrdersComponent implements OnInit, OnDestroy {
     const resolved = this.route.snapshot.data['orders'];
 
     if (resolved === 'ERROR') {
-      toast.error('No se pudo conectar al microservicio de órdenes.');
+      // El resolver ya mostró el error
       this.orderError = true;
       this.orderErrorMessage = 'Error de conexión al backend.';
       this.orders$.next([]);
@@ -237,18 +279,63 @@ export class OrdersComponent implements OnInit, OnDestroy {
     if (!search) return true;
     const lower = search.toLowerCase();
     return (
-      order.description.toLowerCase().includes(lower) ||
-      order.assigneeType.toLowerCase().includes(lower) ||
-      order.state.toLowerCase().includes(lower)
+      (order.description || '').toLowerCase().includes(lower) ||
+      (order.assigneeType || '').toLowerCase().includes(lower) ||
+      (order.state || '').toLowerCase().includes(lower)
+    );
+  }
+
+  /**
+   * Abre el formulario de creación cuando la URL incluye ?action=create (por ejemplo, desde la paleta de comandos)
+   * La URL se puede escribir a mano, así que se verifica el permiso antes de abrirlo
+   * @returns void
+   */
+  private listenCreateAction(): void {
+    listenCreateAction(this.route, this.router)
+      .pipe(
+        filter(() => this.permissionService.hasPermission(Permission.ORDERS_CREATE)),
+        takeUntil(this.destroy$),
+      )
+      .subscribe(() => this.openCreateModal());
+  }
+
+  /**
+   * Abre el modal para crear una nueva orden
+   * @returns void
+   */
+  openCreateModal(): void {
+    this.formMode = 'create';
+    this.orderToEdit = null;
+    this.showCreateModal = true;
+    this.showEditModal = false;
+  }
+
+  /**
+   * Actualiza el estado de una orden en la lista sin recargarla y resalta su fila
+   * Los eventos de órdenes desconocidas o sin cambio real se ignoran
+   * @param event Cambio de estado recibido en tiempo real
+   * @returns void
+   */
+  private applyOrderStateChange(event: OrderStateChangedEvent): void {
+    const orders = this.orders$.value;
+    const current = orders.find((o) => o.id === event.orderId);
+    if (!current || current.state === event.state) return;
+
+    this.orders$.next(
+      orders.map((o) =>
+        o === current
+          ? { ...o, state: event.state, updatedAt: event.updatedAt ?? o.updatedAt }
+          : o,
+      ),
     );
+    this.rowFlash.flash(event.orderId);
   }
 
   /**
    * Carga la lista de órdenes desde el servicio, maneja errores y actualiza las estadísticas
    * - Limpia el mensaje de error y el flag de error antes de cargar.
    * - Llama al servicio para obtener todas las órdenes.
-   * - Para cada orden, obtiene el responsable (empleado o grupo) según su tipo y maneja errores individuales para cada solicitud de responsable.
-   * - Combina la información del responsable con cada orden y actualiza el observable de órdenes.
+   * - Completa el responsable (empleado o grupo) de todas las órdenes con OrderAssigneesService y actualiza el observable de órdenes.
    * - Actualiza las estadísticas de órdenes según su estado.
    * - Maneja errores globales al cargar las órdenes y muestra un mensaje de error adecuado.
    * @returns void
@@ -260,37 +347,14 @@ export class OrdersComponent implements OnInit, OnDestroy {
       .getAllOrders()
       .pipe(
         takeUntil(this.destroy$),
-        concatMap((orders) => {
-          if (!orders || orders.length === 0) return of([]);
-          // prepara la lista de observables de responsables
-          const responsibleRequests = orders.map((order) =>
-            order.assigneeType === 'EMPLOYEE'
-              ? this.employeesService
-                  .getEmployeeById(order.assigneeId)
-                  .pipe(catchError(() => of(null)))
-              : order.assigneeType === 'GROUP'
-                ? this.groupsService
-                    .getGroupById(order.assigneeId)
-                    .pipe(catchError(() => of(null)))
-                : of(null),
-          );
-          // Ejecuta todas en paralelo y mapea a cada orden
-          return forkJoin(responsibleRequests).pipe(
-            map((responsibles) =>
-              orders.map((order, i) => ({
-                ...order,
-                assignee: responsibles[i], // objeto employee o group o null
-              })),
-            ),
-          );
-        }),
+        switchMap((orders) => this.orderAssigneesService.resolveAssignees(orders)),
       )
       .subscribe({
         next: (orders) => {
           this.orders$.next(orders);
         },
         error: (err) => {
-          console.error('Error al cargar órdenes:', err);
+          notifyApiError(err, 'Error al obtener órdenes');
           this.orderErrorMessage =
             'Error al cargar órdenes. Por favor, inténtalo de nuevo.';
           this.orderError = true;
@@ -345,16 +409,30 @@ export class OrdersComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Confirma la eliminación de la orden
-   * Llama al servicio para eliminar el dispositivo por su ID
-   * Muestra un toast de éxito o error según corresponda
+   * Maneja la eliminación exitosa de la orden: cierra el modal, recarga la lista
+   * y muestra el resumen de la liberación de dispositivos si se realizó
+   * @param release Resumen de la restauración de dispositivos o null si no aplica
+   * @returns void
    */
-  onDeviceDeleted(): void {
+  onOrderDeleted(release: BatchOperationResponse | null): void {
+    if (release && this.orderToDelete) {
+      this.releaseItems = this.ordersService.getReleaseItems(this.orderToDelete);
+      this.releaseSummary = release;
+    }
     this.showDeleteModal = false;
     this.orderToDelete = null;
     this.loadOrders();
   }
 
+  /**
+   * Cierra el resumen de liberación de dispositivos
+   * @returns void
+   */
+  closeReleaseSummary(): void {
+    this.releaseSummary = null;
+    this.releaseItems = [];
+  }
+
   /**
    * Cancela la eliminación y cierra el modal
    * Emite un evento de cancelación para que el componente padre pueda manejarlo
@@ -365,18 +443,35 @@ export class OrdersComponent implements OnInit, OnDestroy {
     this.orderToDelete = null;
   }
 
+  /**
+   * Nombre del responsable de la orden (empleado o grupo)
+   * @param order Orden de la fila
+   * @returns string
+   */
+  getAssigneeName(order: Order): string {
+    return this.orderAssigneesService.getAssigneeName(order);
+  }
+
+  /**
+   * Número de miembros del grupo responsable (0 si el responsable es un empleado)
+   * @param order Orden de la fila
+   * @returns number
+   */
+  getGroupMembersCount(order: Order): number {
+    return isGroupAssignee(order.assignee) ? order.assignee.employees?.length ?? 0 : 0;
+  }
+
   /**
    * Navega a la página de detalle del responsable de la orden (empleado o grupo) según su tipo
    * @param order Orden seleccionada
    */
   verDetalle(order: Order): void {
-    console.log('Ver detalle del grupo:', order.assignee);
     switch (order.assigneeType) {
       case 'GROUP':
-        this.router.navigate(['/app/groups', order.assignee?.id]);
+        this.router.navigate(['/app/groups', order.assigneeId]);
         break;
       case 'EMPLOYEE':
-        this.router.navigate(['/app/employees', order.assignee?.id]);
+        this.router.navigate(['/app/employees', order.assigneeId]);
         break;
       default:
         break;
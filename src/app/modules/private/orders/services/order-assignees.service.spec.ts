@@ -0,0 +1,130 @@
+import { TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+import { OrderAssigneesService } from './order-assignees.service';
+import { EmployeesService } from '../../employees/services/employees.service';
+import { GroupsService } from '../../groups/services/groups.service';
+import { DevicesService } from '../../devices/services/devices.service';
+import { AssigneeHeldDevice, Order, OrderStates } from '../models/Orders';
+import { Device, DeviceStatus } from '../../devices/models/device.model';
+import { Employee } from '../../employees/models/employe.model';
+import { Group } from '../../groups/models/groups.model';
+
+describe('OrderAssigneesService', () => {
+  let service: OrderAssigneesService;
+  let employeesService: jasmine.SpyObj<EmployeesService>;
+  let groupsService: jasmine.SpyObj<GroupsService>;
+  let devicesService: jasmine.SpyObj<DevicesService>;
+
+  const employee = { id: 'e1', fullName: 'Ana Pérez', email: 'ana@test.co' } as Employee;
+  const group: Group = {
+    id: 'g1',
+    name: 'Soporte',
+    address: 'Calle 1',
+    createdAt: '2026-01-01',
+    updatedAt: null,
+    employees: [employee],
+  };
+
+  const buildOrder = (id: string, assigneeType: string, assigneeId: string): Order => ({
+    id,
+    description: `Orden ${id}`,
+    state: OrderStates.CREATED,
+    assigneeType,
+    assigneeId,
+    createdAt: '2026-01-01',
+    updatedAt: '2026-01-01',
+    items: [],
+  });
+
+  beforeEach(() => {
+    employeesService = jasmine.createSpyObj('EmployeesService', ['getAllEmployees', 'getEmployeeById']);
+    groupsService = jasmine.createSpyObj('GroupsService', ['getAllGroups', 'getGroupById']);
+    devicesService = jasmine.createSpyObj('DevicesService', ['getDevicesBatch']);
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: EmployeesService, useValue: employeesService },
+        { provide: GroupsService, useValue: groupsService },
+        { provide: DevicesService, useValue: devicesService },
+      ],
+    });
+    service = TestBed.inject(OrderAssigneesService);
+    spyOn(console, 'error');
+  });
+
+  it('debe resolver todos los responsables con una consulta por tipo', () => {
+    employeesService.getAllEmployees.and.returnValue(of([employee]));
+    groupsService.getAllGroups.and.returnValue(of([group]));
+    const orders = [
+      buildOrder('1', 'EMPLOYEE', 'e1'),
+      buildOrder('2', 'EMPLOYEE', 'e1'),
+      buildOrder('3', 'GROUP', 'g1'),
+    ];
+
+    let result: Order[] = [];
+    service.resolveAssignees(orders).subscribe((resolved) => (result = resolved));
+
+    expect(employeesService.getAllEmployees).toHaveBeenCalledTimes(1);
+    expect(groupsService.getAllGroups).toHaveBeenCalledTimes(1);
+    expect(employeesService.getEmployeeById).not.toHaveBeenCalled();
+    expect(groupsService.getGroupById).not.toHaveBeenCalled();
+    expect(result.map((o) => o.assignee)).toEqual([employee, employee, group]);
+  });
+
+  it('no debe consultar los grupos si ninguna orden está asignada a un grupo', () => {
+    employeesService.getAllEmployees.and.returnValue(of([employee]));
+
+    service.resolveAssignees([buildOrder('1', 'EMPLOYEE', 'e1')]).subscribe();
+
+    expect(groupsService.getAllGroups).not.toHaveBeenCalled();
+  });
+
+  it('debe dejar el responsable en null si el listado falla o no lo contiene', () => {
+    employeesService.getAllEmployees.and.returnValue(throwError(() => new Error('500')));
+    groupsService.getAllGroups.and.returnValue(of([]));
+
+    let result: Order[] = [];
+    service
+      .resolveAssignees([buildOrder('1', 'EMPLOYEE', 'e1'), buildOrder('2', 'GROUP', 'g9')])
+      .subscribe((resolved) => (result = resolved));
+
+    expect(result.map((o) => o.assignee)).toEqual([null, null]);
+    expect(service.getAssigneeName(result[0])).toBe('e1');
+  });
+
+  it('debe obtener el nombre del empleado o del grupo', () => {
+    expect(service.getAssigneeName({ ...buildOrder('1', 'EMPLOYEE', 'e1'), assignee: employee })).toBe('Ana Pérez');
+    expect(service.getAssigneeName({ ...buildOrder('2', 'GROUP', 'g1'), assignee: group })).toBe('Soporte');
+  });
+
+  describe('getHeldDevices', () => {
+    const device = { id: 'd1', name: 'Laptop', status: DeviceStatus.OCCUPIED } as Device;
+    const withItems = (order: Order, state: OrderStates, deviceIds: string[]): Order => ({
+      ...order,
+      state,
+      items: deviceIds.map((deviceId) => ({ deviceId, originalDeviceState: DeviceStatus.GOOD_CONDITION })),
+    });
+
+    it('debe consultar en un lote solo los dispositivos de órdenes no cerradas', () => {
+      devicesService.getDevicesBatch.and.returnValue(of([device]));
+      const active = withItems(buildOrder('1', 'EMPLOYEE', 'e1'), OrderStates.IN_PROCESS, ['d1', 'd9']);
+      const finished = withItems(buildOrder('2', 'EMPLOYEE', 'e1'), OrderStates.FINISHED, ['d2']);
+
+      let result: AssigneeHeldDevice[] = [];
+      service.getHeldDevices([active, finished]).subscribe((held) => (result = held));
+
+      expect(devicesService.getDevicesBatch).toHaveBeenCalledOnceWith({ ids: ['d1', 'd9'] });
+      expect(result).toEqual([{ device, order: active }]);
+    });
+
+    it('no debe consultar dispositivos si no hay órdenes activas', () => {
+      let result: AssigneeHeldDevice[] | undefined;
+      const finished = withItems(buildOrder('1', 'GROUP', 'g1'), OrderStates.FINISHED, ['d1']);
+
+      service.getHeldDevices([finished]).subscribe((held) => (result = held));
+
+      expect(devicesService.getDevicesBatch).not.toHaveBeenCalled();
+      expect(result).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, catchError, combineLatest, map, of } from 'rxjs';
+import {
+  AssigneeHeldDevice,
+  Order,
+  OrderAssignee,
+  OrderStateMachine,
+  isGroupAssignee,
+} from '../models/Orders';
+import { EmployeesService } from '../../employees/services/employees.service';
+import { GroupsService } from '../../groups/services/groups.service';
+import { DevicesService } from '../../devices/services/devices.service';
+import { Device } from '../../devices/models/device.model';
+
+/**
+ * Servicio para completar el responsable (empleado o grupo) de las órdenes
+ * En lugar de consultar cada responsable por su ID, agrupa los IDs por assigneeType y los busca
+ * en los listados de empleados y grupos, que se consultan una sola vez y se guardan en caché
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class OrderAssigneesService {
+  // Injected services
+  private employeesService = inject(EmployeesService);
+  private groupsService = inject(GroupsService);
+  private devicesService = inject(DevicesService);
+
+  /**
+   * Completa el responsable de cada orden
+   * Los responsables que no se encuentran (o si falla la consulta de un listado) quedan en null
+   * @param orders Órdenes a completar
+   * @returns Observable con copias de las órdenes con su responsable; puede emitir de nuevo si los listados en caché se actualizan
+   */
+  resolveAssignees(orders: Order[]): Observable<Order[]> {
+    if (!orders?.length) return of([]);
+
+    const hasType = (type: string) => orders.some((order) => order.assigneeType === type);
+
+    return combineLatest([
+      hasType('EMPLOYEE') ? this.toMap(this.employeesService.getAllEmployees()) : of(new Map<string, OrderAssignee>()),
+      hasType('GROUP') ? this.toMap(this.groupsService.getAllGroups()) : of(new Map<string, OrderAssignee>()),
+    ]).pipe(
+      map(([employees, groups]) =>
+        orders.map((order) => ({
+          ...order,
+          assignee:
+            (order.assigneeType === 'EMPLOYEE'
+              ? employees.get(order.assigneeId)
+              : order.assigneeType === 'GROUP'
+                ? groups.get(order.assigneeId)
+                : null) ?? null,
+        })),
+      ),
+    );
+  }
+
+  /**
+   * Completa el responsable de una orden
+   * @param order Orden a completar
+   * @returns Observable con una copia de la orden con su responsable
+   */
+  resolveAssignee(order: Order): Observable<Order> {
+    return this.resolveAssignees([order]).pipe(map(([resolved]) => resolved));
+  }
+
+  /**
+   * Nombre del responsable para mostrar en la UI (el ID si no se pudo cargar)
+   * @param order Orden con su responsable
+   * @returns string
+   */
+  getAssigneeName(order: Order): string {
+    const assignee = order.assignee;
+    if (!assignee) return order.assigneeId;
+    return isGroupAssignee(assignee) ? assignee.name : assignee.fullName;
+  }
+
+  /**
+   * Obtiene los dispositivos que un responsable (empleado o grupo) tiene actualmente en custodia
+   * Se consideran en custodia los items de órdenes que aún no están finalizadas;
+   * los dispositivos se consultan en una sola petición por lote
+   * @param orders Órdenes asignadas al responsable
+   * @returns Observable con los dispositivos en custodia y la orden relacionada
+   */
+  getHeldDevices(orders: Order[]): Observable<AssigneeHeldDevice[]> {
+    const activeOrders = orders.filter((o) => !OrderStateMachine.isClosed(o));
+    const ids = [
+      ...new Set(
+        activeOrders.flatMap((o) => (o.items || []).map((i) => i.deviceId)),
+      ),
+    ];
+    if (!ids.length) return of([]);
+
+    return this.devicesService.getDevicesBatch({ ids }).pipe(
+      map((devices) =>
+        activeOrders.flatMap((order) =>
+          (order.items || [])
+            .map((item) => devices.find((d) => d.id === item.deviceId))
+            .filter((device): device is Device => !!device)
+            .map((device) => ({ device, order })),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Indexa un listado por ID; si la consulta falla se usa un índice vacío
+   * @param list$ Listado de empleados o grupos
+   * @returns Observable con el Map ID -> responsable
+   */
+  private toMap(list$: Observable<OrderAssignee[]>): Observable<Map<string, OrderAssignee>> {
+    return list$.pipe(
+      map((list) => new Map((list || []).map((item) => [item.id, item] as const))),
+      catchError((err) => {
+        console.error('Error al cargar los responsables de las órdenes:', err);
+        return of(new Map<string, OrderAssignee>());
+      }),
+    );
+  }
+}
@@ -2,7 +2,8 @@ import { TestBed } from '@angular/core/testing';
 import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
 import { OrdersService } from './orders.service';
 import { ApiService } from '../../../../core/services/api.service';
-import { Order, CreateOrderRequest } from '../models/Orders';
+import { Order, CreateOrderRequest, OrderStates } from '../models/Orders';
+import { DeviceStatus } from '../../devices/models/device.model';
 
 describe('OrdersService', () => {
   let service: OrdersService;
@@ -12,15 +13,15 @@ describe('OrdersService', () => {
   const mockOrder: Order = {
     id: '40ac7910-08be-44f6-ada4-60a06d8f6a18',
     description: 'Instalación de equipos a entregar banco davivienda',
-    state: 'FINISHED',
+    state: OrderStates.FINISHED,
     assigneeType: 'GROUP',
     assigneeId: '92bb39d7-8ad1-4343-98ce-db390189ca8a',
     createdAt: '2026-02-06T20:27:41.603963',
     updatedAt: '2026-02-06T20:36:40.943203',
     items: [
-      { deviceId: '7944b840-42f1-47f0-b00f-c3c3b616d7a7', originalDeviceState: 'GOOD_CONDITION' },
-      { deviceId: 'a04bb10b-4f20-43e8-a0cf-7996a43934d2', originalDeviceState: 'GOOD_CONDITION' },
-      { deviceId: '10d62e30-aeb8-4d9a-9a71-c0e7911ca5d3', originalDeviceState: 'GOOD_CONDITION' }
+      { deviceId: '7944b840-42f1-47f0-b00f-c3c3b616d7a7', originalDeviceState: DeviceStatus.GOOD_CONDITION },
+      { deviceId: 'a04bb10b-4f20-43e8-a0cf-7996a43934d2', originalDeviceState: DeviceStatus.GOOD_CONDITION },
+      { deviceId: '10d62e30-aeb8-4d9a-9a71-c0e7911ca5d3', originalDeviceState: DeviceStatus.GOOD_CONDITION }
     ]
   };
 
@@ -45,7 +46,7 @@ describe('OrdersService', () => {
 
   describe('createOrder', () => {
     it('debe crear una orden exitosamente', (done) => {
-      const createRequest: Partial<CreateOrderRequest> = {
+      const createRequest: CreateOrderRequest = {
         description: 'Nueva orden de instalación',
         assigneeType: 'TECHNICIAN',
         assigneeId: '123e4567-e89b-12d3-a456-426614174000',
@@ -74,7 +75,7 @@ describe('OrdersService', () => {
     });
 
     it('debe manejar errores al crear una orden', (done) => {
-      const createRequest: Partial<CreateOrderRequest> = {
+      const createRequest: CreateOrderRequest = {
         description: 'Orden inválida',
         assigneeType: 'INVALID',
         assigneeId: 'invalid-id',
@@ -198,12 +199,12 @@ describe('OrdersService', () => {
   describe('updateOrderState', () => {
     it('debe actualizar el estado de una orden usando FormData', (done) => {
       const orderId = '40ac7910-08be-44f6-ada4-60a06d8f6a18';
-      const newState = 'IN_PROGRESS';
-      const updatedOrder = { ...mockOrder, state: 'IN_PROGRESS' as const };
+      const newState = OrderStates.IN_PROCESS;
+      const updatedOrder = { ...mockOrder, state: OrderStates.IN_PROCESS };
 
       service.updateOrderState(orderId, newState).subscribe({
         next: (order) => {
-          expect(order.state).toBe('IN_PROGRESS');
+          expect(order.state).toBe(OrderStates.IN_PROCESS);
           expect(order.id).toBe(orderId);
           done();
         },
@@ -227,12 +228,12 @@ describe('OrdersService', () => {
 
     it('debe actualizar el estado a CREATED', (done) => {
       const orderId = '40ac7910-08be-44f6-ada4-60a06d8f6a18';
-      const newState = 'CREATED';
-      const updatedOrder = { ...mockOrder, state: 'CREATED' as const };
+      const newState = OrderStates.CREATED;
+      const updatedOrder = { ...mockOrder, state: OrderStates.CREATED };
 
       service.updateOrderState(orderId, newState).subscribe({
         next: (order) => {
-          expect(order.state).toBe('CREATED');
+          expect(order.state).toBe(OrderStates.CREATED);
           done();
         },
         error: (error) => {
@@ -245,19 +246,19 @@ describe('OrdersService', () => {
       );
 
       const formData = req.request.body as FormData;
-      expect(formData.get('newState')).toBe('CREATED');
+      expect(formData.get('newState')).toBe(OrderStates.CREATED);
 
       req.flush(updatedOrder);
     });
 
-    it('debe actualizar el estado a DESPATCHED', (done) => {
+    it('debe actualizar el estado a DISPATCHED', (done) => {
       const orderId = '40ac7910-08be-44f6-ada4-60a06d8f6a18';
-      const newState = 'DESPATCHED';
-      const updatedOrder = { ...mockOrder, state: 'DESPATCHED' as const };
+      const newState = OrderStates.DISPATCHED;
+      const updatedOrder = { ...mockOrder, state: OrderStates.DISPATCHED };
 
       service.updateOrderState(orderId, newState).subscribe({
         next: (order) => {
-          expect(order.state).toBe('DESPATCHED');
+          expect(order.state).toBe(OrderStates.DISPATCHED);
           done();
         },
         error: (error) => {
@@ -270,14 +271,15 @@ describe('OrdersService', () => {
       );
 
       const formData = req.request.body as FormData;
-      expect(formData.get('newState')).toBe('DESPATCHED');
+      expect(formData.get('newState')).toBe(OrderStates.DISPATCHED);
 
       req.flush(updatedOrder);
     });
 
     it('debe manejar errores al actualizar el estado', (done) => {
       const orderId = '40ac7910-08be-44f6-ada4-60a06d8f6a18';
-      const newState = 'INVALID_STATE';
+      // Estado desconocido forzado con un cast: el backend debe rechazarlo
+      const newState = 'INVALID_STATE' as OrderStates;
 
       service.updateOrderState(orderId, newState).subscribe({
         next: () => {
@@ -297,7 +299,7 @@ describe('OrdersService', () => {
 
     it('debe manejar error 404 cuando la orden no existe', (done) => {
       const orderId = 'non-existent-id';
-      const newState = 'IN_PROGRESS';
+      const newState = OrderStates.IN_PROCESS;
 
       service.updateOrderState(orderId, newState).subscribe({
         next: () => {
@@ -336,7 +338,7 @@ describe('OrdersService', () => {
 
     it('debe usar ApiService.post para crear órdenes', (done) => {
       const spy = spyOn(apiService, 'post').and.callThrough();
-      const createRequest: Partial<CreateOrderRequest> = {
+      const createRequest: CreateOrderRequest = {
         description: 'Test',
         assigneeType: 'GROUP',
         assigneeId: 'test-id',
@@ -360,7 +362,7 @@ describe('OrdersService', () => {
     it('debe usar ApiService.putFormData para actualizar estado', (done) => {
       const spy = spyOn(apiService, 'putFormData').and.callThrough();
       const orderId = '40ac7910-08be-44f6-ada4-60a06d8f6a18';
-      const newState = 'IN_PROGRESS';
+      const newState = OrderStates.IN_PROCESS;
 
       service.updateOrderState(orderId, newState).subscribe({
         next: () => {
@@ -387,11 +389,11 @@ describe('OrdersService', () => {
       const orderWithManyDevices: Order = {
         ...mockOrder,
         items: [
-          { deviceId: 'device-1', originalDeviceState: 'GOOD_CONDITION' },
-          { deviceId: 'device-2', originalDeviceState: 'FAIR' },
-          { deviceId: 'device-3', originalDeviceState: 'NEEDS_REPAIR' },
-          { deviceId: 'device-4', originalDeviceState: 'OCCUPIED' },
-          { deviceId: 'device-5', originalDeviceState: 'GOOD_CONDITION' }
+          { deviceId: 'device-1', originalDeviceState: DeviceStatus.GOOD_CONDITION },
+          { deviceId: 'device-2', originalDeviceState: DeviceStatus.FAIR },
+          { deviceId: 'device-3', originalDeviceState: DeviceStatus.NEEDS_REPAIR },
+          { deviceId: 'device-4', originalDeviceState: DeviceStatus.OCCUPIED },
+          { deviceId: 'device-5', originalDeviceState: DeviceStatus.GOOD_CONDITION }
         ]
       };
 
@@ -456,4 +458,39 @@ describe('OrdersService', () => {
     });
   });
   
+  describe('changeOrderState', () => {
+    it('debe rechazar una transición no permitida sin llamar al backend', (done) => {
+      const createdOrder: Order = { ...mockOrder, state: OrderStates.CREATED };
+
+      service.changeOrderState(createdOrder, OrderStates.FINISHED).subscribe({
+        next: () => done.fail('La transición CREATED → FINISHED no debería permitirse'),
+        error: (error) => {
+          expect(error).toBeTruthy();
+          httpMock.expectNone(request => request.url.includes('/state'));
+          done();
+        }
+      });
+    });
+
+    it('debe enviar una transición permitida al backend', (done) => {
+      const createdOrder: Order = { ...mockOrder, state: OrderStates.CREATED };
+
+      service.changeOrderState(createdOrder, OrderStates.IN_PROCESS).subscribe({
+        next: (order) => {
+          expect(order.state).toBe(OrderStates.IN_PROCESS);
+          done();
+        },
+        error: (error) => {
+          done.fail(error);
+        }
+      });
+
+      const req = httpMock.expectOne(request =>
+        request.url.includes(`/orders/${mockOrder.id}/state`)
+      );
+      expect((req.request.body as FormData).get('newState')).toBe(OrderStates.IN_PROCESS);
+      req.flush({ ...createdOrder, state: OrderStates.IN_PROCESS });
+    });
+  });
+
 });
@@ -1,7 +1,10 @@
 import { Injectable, inject } from '@angular/core';
 import { ApiService } from '../../../../core/services/api.service';
-import {CreateOrderRequest, Order} from '../models/Orders';
-import { Observable } from 'rxjs';
+import {CreateOrderRequest, Order, OrderStateLabels, OrderStateMachine, OrderStates} from '../models/Orders';
+import { Observable, tap, throwError } from 'rxjs';
+import { DevicesService } from '../../devices/services/devices.service';
+import { BatchOperationResponse, RestoreDeviceItem } from '../../devices/models/device.model';
+import { EntityCacheService } from '../../../../core/services/entity-cache.service';
 
 @Injectable({
   providedIn: 'root'
@@ -10,14 +13,20 @@ export class OrdersService {
 
   // Injected services
   private apiService = inject(ApiService);
+  private devicesService = inject(DevicesService);
+  private entityCache = inject(EntityCacheService);
 
     /**
      * Crea una nueva orden
+     * Sin conexión la orden se guarda en la cola offline y se crea al recuperar la conexión
      * @param order Orden a crear
      * @return Observable con la orden creada
      */
-    createOrder(order: Partial<CreateOrderRequest>): Observable<Order> {
-      return this.apiService.post<Order>('/orders', order);
+    createOrder(order: CreateOrderRequest): Observable<Order> {
+      return this.apiService.request('POST /orders', {
+        body: order,
+        offline: { offlineQueue: `Crear orden ${order.description || ''}`.trim() },
+      }).pipe(tap(() => this.invalidateCache()));
     }
 
     /**
@@ -25,7 +34,7 @@ export class OrdersService {
      * @return Observable con la lista de órdenes
      */
     getAllOrders(): Observable<Order[]> {
-      return this.apiService.get<Order[]>('/orders');
+      return this.entityCache.get('orders', 'all', () => this.apiService.request('GET /orders'));
     }
 
     /**
@@ -34,7 +43,7 @@ export class OrdersService {
      * @return Observable con la orden encontrada
      */
     getOrderById(id: string): Observable<Order> {
-      return this.apiService.get<Order>(`/orders/${id}`);
+      return this.entityCache.get('orders', id, () => this.apiService.request('GET /orders/{id}', { path: { id } }));
     }
 
     /**
@@ -43,10 +52,56 @@ export class OrdersService {
       * @param newState Nuevo estado de la orden
       * @return Observable con la orden actualizada
      */
-    updateOrderState(id: string, newState: string): Observable<Order> {
+    updateOrderState(id: string, newState: OrderStates): Observable<Order> {
       const formData = new FormData();
       formData.append('newState', newState);
-      return this.apiService.putFormData<Order>(`/orders/${id}/state`, formData );
+      return this.apiService.putFormData<Order>(`/orders/${id}/state`, formData ).pipe(tap(() => this.invalidateCache()));
+    }
+
+    /**
+     * Cambia el estado de una orden validando la transición contra la tabla de estados permitidos
+     * @param order Orden con su estado actual
+     * @param nextState Estado al que se quiere pasar
+     * @return Observable con la orden actualizada o error si la transición no está permitida
+     */
+    changeOrderState(order: Order, nextState: OrderStates): Observable<Order> {
+      if (!OrderStateMachine.canTransition(order.state, nextState)) {
+        return throwError(() => new Error(
+          `No se puede pasar de ${OrderStateLabels[order.state] ?? order.state} a ${OrderStateLabels[nextState]}`
+        ));
+      }
+      return this.updateOrderState(order.id, nextState);
+    }
+
+    /**
+     * Elimina una orden por su ID
+     * @param id ID de la orden a eliminar
+     * @return Observable vacío al completar la eliminación
+     */
+    deleteOrder(id: string): Observable<void> {
+      return this.apiService.request('DELETE /orders/{id}', { path: { id } }).pipe(tap(() => this.invalidateCache()));
+    }
+
+    /**
+     * Libera los dispositivos de una orden restaurando en lote el estado que tenían antes de asignarse
+     * Se usa al finalizar, cancelar o eliminar una orden
+     * @param order Orden cuyos dispositivos se liberan
+     * @return Observable con el resumen de dispositivos restaurados y fallidos
+     */
+    releaseOrderDevices(order: Order): Observable<BatchOperationResponse> {
+      return this.devicesService.restoreOriginalStates(this.getReleaseItems(order));
+    }
+
+    /**
+     * Obtiene los dispositivos de una orden con el estado original al que deben restaurarse
+     * @param order Orden cuyos items se convierten
+     * @return Lista de dispositivos a restaurar
+     */
+    getReleaseItems(order: Order): RestoreDeviceItem[] {
+      return (order.items || []).map((item) => ({
+        id: item.deviceId,
+        originalStatus: item.originalDeviceState,
+      }));
     }
 
     /**
@@ -56,7 +111,17 @@ export class OrdersService {
      * @returns
      */
     updateOrder(id: string, order: Partial<CreateOrderRequest>): Observable<Order> {
-      return this.apiService.put<Order>(`/orders/update/${id}`, order);
+      return this.apiService.request('PUT /orders/update/{id}', { path: { id }, body: order }).pipe(tap(() => this.invalidateCache()));
+    }
+
+    /**
+     * Descarta las órdenes guardadas en caché tras un cambio
+     * Los dispositivos también se descartan porque crear o cambiar una orden cambia su estado
+     * @return void
+     */
+    invalidateCache(): void {
+      this.entityCache.invalidate('orders');
+      this.devicesService.invalidateCache();
     }
 
 }
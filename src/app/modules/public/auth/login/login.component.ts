@@ -30,6 +30,10 @@ import { AuthService } from '../../../../core/services/auth.service';
 import { AuthResponse } from '../models/auth.model';
 import { toast } from 'ngx-sonner';
 import { AnimatedPetComponent } from '../../../../shared/animated-pet/animated-pet.component';
+import {
+  getApiErrorMessage,
+  notifyApiError,
+} from '../../../../core/utils/api-error.utils';
 
 /**
  * Componente de Login
@@ -218,15 +222,13 @@ export class LoginComponent implements OnInit, OnDestroy {
    */
   private handleLoginError(error: any): Observable<null> {
     // Extraer mensaje de error del backend
-    this.error =
-      error?.error?.message ||
-      'Error de autenticación. Por favor, inténtalo de nuevo.';
+    this.error = getApiErrorMessage(
+      error,
+      'Error de autenticación. Por favor, inténtalo de nuevo.',
+    );
 
     // Mostrar notificación de error usando ngx-sonner
-    toast.error('Error de autenticación', {
-      description: this.error,
-      duration: 4000,
-    });
+    notifyApiError(error, 'Error de autenticación');
 
     return of(null);
   }
@@ -0,0 +1,103 @@
+import { translatedLabels } from '../../../../core/utils/i18n.utils';
+
+/**
+ * Roles de usuario soportados por la aplicación
+ * Coinciden con el campo `role` del usuario devuelto por el backend
+ *
+ * @author Bunnystring
+ * @since 2026-10-19
+ */
+export enum UserRole {
+  ADMIN = 'ADMIN',
+  OPERATOR = 'OPERATOR',
+  AUDITOR = 'AUDITOR',
+}
+
+/**
+ * Labels para mostrar en UI, traducidos al idioma activo
+ */
+export const UserRoleLabels: { readonly [key in UserRole]: string } =
+  translatedLabels('userRole', Object.values(UserRole));
+
+/**
+ * Alias de roles que puede enviar el backend y su rol equivalente
+ */
+const RoleAliases: { [key: string]: UserRole } = {
+  USER: UserRole.OPERATOR,
+  READ_ONLY: UserRole.AUDITOR,
+  VIEWER: UserRole.AUDITOR,
+};
+
+/**
+ * Permisos sobre acciones de la aplicación
+ */
+export enum Permission {
+  DEVICES_CREATE = 'devices:create',
+  DEVICES_EDIT = 'devices:edit',
+  DEVICES_DELETE = 'devices:delete',
+  DEVICES_BULK_UPLOAD = 'devices:bulk-upload',
+  DEVICES_CHANGE_STATE = 'devices:change-state',
+  ORDERS_CREATE = 'orders:create',
+  ORDERS_EDIT = 'orders:edit',
+  ORDERS_DELETE = 'orders:delete',
+  ORDERS_CHANGE_STATE = 'orders:change-state',
+  EMPLOYEES_MANAGE = 'employees:manage',
+  EMPLOYEES_DELETE = 'employees:delete',
+  GROUPS_MANAGE = 'groups:manage',
+  GROUPS_DELETE = 'groups:delete',
+}
+
+/**
+ * Permisos concedidos a cada rol
+ * - ADMIN: todos los permisos
+ * - OPERATOR: opera el inventario pero no elimina registros
+ * - AUDITOR: solo lectura
+ */
+export const RolePermissions: { [key in UserRole]: Permission[] } = {
+  [UserRole.ADMIN]: Object.values(Permission),
+  [UserRole.OPERATOR]: [
+    Permission.DEVICES_CREATE,
+    Permission.DEVICES_EDIT,
+    Permission.DEVICES_BULK_UPLOAD,
+    Permission.DEVICES_CHANGE_STATE,
+    Permission.ORDERS_CREATE,
+    Permission.ORDERS_EDIT,
+    Permission.ORDERS_CHANGE_STATE,
+    Permission.EMPLOYEES_MANAGE,
+    Permission.GROUPS_MANAGE,
+  ],
+  [UserRole.AUDITOR]: [],
+};
+
+/**
+ * Rol de un usuario autenticado cuyo rol falta o no se reconoce: solo lectura
+ */
+export const DEFAULT_USER_ROLE = UserRole.AUDITOR;
+
+/**
+ * Roles con acceso a cada módulo privado
+ * Se usa tanto en `data.roles` de las rutas como para filtrar el menú lateral
+ * El dashboard incluye todos los roles y su ruta no se restringe: es el destino de `roleGuard` al negar el acceso
+ * Todos los roles pueden consultar los módulos; crear, editar y eliminar se controla con `Permission`
+ */
+export const ModuleRoles = {
+  dashboard: [UserRole.ADMIN, UserRole.OPERATOR, UserRole.AUDITOR],
+  devices: [UserRole.ADMIN, UserRole.OPERATOR, UserRole.AUDITOR],
+  orders: [UserRole.ADMIN, UserRole.OPERATOR, UserRole.AUDITOR],
+  groups: [UserRole.ADMIN, UserRole.OPERATOR, UserRole.AUDITOR],
+  employees: [UserRole.ADMIN, UserRole.OPERATOR, UserRole.AUDITOR],
+};
+
+/**
+ * Normaliza el rol recibido del backend (mayúsculas, sin prefijo `ROLE_`, alias conocidos)
+ * @param role Rol tal como llega en el usuario
+ * @returns UserRole reconocido o null si no se reconoce
+ */
+export function normalizeRole(role?: string | null): UserRole | null {
+  if (!role) return null;
+  const value = role.trim().toUpperCase().replace(/^ROLE_/, '');
+  if ((Object.values(UserRole) as string[]).includes(value)) {
+    return value as UserRole;
+  }
+  return RoleAliases[value] || null;
+}
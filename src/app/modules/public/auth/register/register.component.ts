@@ -36,6 +36,12 @@ import {
   Observable,
 } from 'rxjs';
 import { AuthResponse } from '../models/auth.model';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+import {
+  applyApiFieldErrors,
+  getApiErrorMessage,
+  notifyApiError,
+} from '../../../../core/utils/api-error.utils';
 
 /**
  * Componente de Registro
@@ -51,6 +57,7 @@ import { AuthResponse } from '../models/auth.model';
     ReactiveFormsModule,
     RouterLink,
     AnimatedPetComponent,
+    TranslatePipe,
   ],
   templateUrl: './register.component.html',
   styleUrl: './register.component.css',
@@ -338,15 +345,16 @@ export class RegisterComponent implements OnInit, OnDestroy {
     console.error('Error en registro:', error);
 
     // Extraer mensaje de error del backend
-    this.error =
-      error?.error?.message ||
-      'Error al crear la cuenta. Por favor, inténtalo de nuevo.';
+    this.error = getApiErrorMessage(
+      error,
+      'Error al crear la cuenta. Por favor, inténtalo de nuevo.',
+    );
+
+    // Los errores por campo del backend se muestran junto a cada control
+    applyApiFieldErrors(this.registerForm, error);
 
     // Mostrar notificación de error usando ngx-sonner
-    toast.error('Error de registro', {
-      description: this.error,
-      duration: 4000,
-    });
+    notifyApiError(error, 'Error de registro');
 
     return of(null);
   }
@@ -0,0 +1,38 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
+
+import { CommandPaletteComponent } from './command-palette.component';
+import { CommandPaletteGroup } from './command-palette.model';
+
+describe('CommandPaletteComponent', () => {
+  let component: CommandPaletteComponent;
+  let fixture: ComponentFixture<CommandPaletteComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [CommandPaletteComponent],
+      providers: [provideHttpClient(), provideHttpClientTesting(), provideRouter([])],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(CommandPaletteComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should find theme commands ignoring case and accents', () => {
+    component.query = 'TEMA DÁRK';
+    component.search();
+
+    expect(component.sections.length).toBe(1);
+    expect(component.sections[0].group).toBe(CommandPaletteGroup.COMMANDS);
+    expect(component.sections[0].items.map((i) => i.label)).toEqual([
+      'Cambiar tema: Dark',
+    ]);
+  });
+});
@@ -0,0 +1,317 @@
+import { CommonModule } from '@angular/common';
+import {
+  AfterViewInit,
+  Component,
+  ElementRef,
+  EventEmitter,
+  OnDestroy,
+  OnInit,
+  Output,
+  ViewChild,
+} from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
+import { Observable, Subject, catchError, finalize, forkJoin, of, takeUntil } from 'rxjs';
+import { ThemeService, Theme } from '../../core/services/theme.service';
+import { PermissionService } from '../../core/services/permission.service';
+import {
+  ModuleRoles,
+  Permission,
+  UserRole,
+} from '../../modules/public/auth/models/role.model';
+import { DevicesService } from '../../modules/private/devices/services/devices.service';
+import { OrdersService } from '../../modules/private/orders/services/orders.service';
+import { EmployeesService } from '../../modules/private/employees/services/employees.service';
+import { GroupsService } from '../../modules/private/groups/services/groups.service';
+import { OrderStateLabels } from '../../modules/private/orders/models/Orders';
+import {
+  CommandPaletteGroup,
+  CommandPaletteGroupLabels,
+  CommandPaletteItem,
+  CommandPaletteSection,
+} from './command-palette.model';
+import { CREATE_ACTION_PARAMS } from '../../core/utils/route-action.utils';
+
+/**
+ * Paleta de comandos global (Ctrl+K)
+ * Busca en un solo lugar dispositivos, órdenes, empleados y grupos, y ejecuta comandos rápidos
+ * como crear registros o cambiar el tema. Solo incluye los módulos a los que el usuario tiene acceso
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+@Component({
+  selector: 'app-command-palette',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './command-palette.component.html',
+  styleUrls: ['./command-palette.component.css'],
+})
+export class CommandPaletteComponent implements OnInit, AfterViewInit, OnDestroy {
+  @Output() close = new EventEmitter<void>();
+
+  @ViewChild('searchInput') searchInput!: ElementRef<HTMLInputElement>;
+
+  // Texto buscado, resultados agrupados y resultado resaltado para la navegación con teclado
+  query = '';
+  loading = false;
+  sections: CommandPaletteSection[] = [];
+  activeIndex = 0;
+
+  CommandPaletteGroupLabels = CommandPaletteGroupLabels;
+
+  // Máximo de resultados que se muestran por grupo
+  private readonly MAX_RESULTS_PER_GROUP = 5;
+
+  private commands: CommandPaletteItem[] = [];
+  private records: CommandPaletteItem[] = [];
+
+  private readonly destroy$ = new Subject<void>();
+
+  constructor(
+    private router: Router,
+    private themeService: ThemeService,
+    private permissionService: PermissionService,
+    private devicesService: DevicesService,
+    private ordersService: OrdersService,
+    private employeesService: EmployeesService,
+    private groupsService: GroupsService,
+  ) {}
+
+  ngOnInit(): void {
+    this.commands = this.buildCommands();
+    this.search();
+    this.loadRecords();
+  }
+
+  ngAfterViewInit(): void {
+    this.searchInput?.nativeElement.focus();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Carga los registros de los módulos accesibles para buscar en ellos
+   * Un módulo que falla no impide buscar en los demás
+   * @returns void
+   */
+  private loadRecords(): void {
+    this.loading = true;
+    forkJoin({
+      devices: this.loadIfAllowed(ModuleRoles.devices, this.devicesService.getAllDevices()),
+      orders: this.loadIfAllowed(ModuleRoles.orders, this.ordersService.getAllOrders()),
+      employees: this.loadIfAllowed(ModuleRoles.employees, this.employeesService.getAllEmployees()),
+      groups: this.loadIfAllowed(ModuleRoles.groups, this.groupsService.getAllGroups()),
+    })
+      .pipe(
+        finalize(() => (this.loading = false)),
+        takeUntil(this.destroy$),
+      )
+      .subscribe(({ devices, orders, employees, groups }) => {
+        this.records = [
+          ...devices.map((d) => ({
+            group: CommandPaletteGroup.DEVICES,
+            label: d.name,
+            description: [d.brand, d.barcode].filter(Boolean).join(' · '),
+            keywords: [d.barcode, d.brand],
+            run: () => this.router.navigate(['/app/devices', d.id]),
+          })),
+          ...orders.map((o) => ({
+            group: CommandPaletteGroup.ORDERS,
+            label: o.description,
+            description: OrderStateLabels[o.state],
+            keywords: [],
+            run: () => this.router.navigate(['/app/orders', o.id]),
+          })),
+          ...employees.map((e) => ({
+            group: CommandPaletteGroup.EMPLOYEES,
+            label: e.fullName,
+            description: e.email,
+            keywords: [e.email],
+            run: () => this.router.navigate(['/app/employees', e.id]),
+          })),
+          ...groups.map((g) => ({
+            group: CommandPaletteGroup.GROUPS,
+            label: g.name,
+            description: g.address,
+            keywords: [],
+            run: () => this.router.navigate(['/app/groups', g.id]),
+          })),
+        ];
+        this.search();
+      });
+  }
+
+  /**
+   * Consulta un listado solo si el rol del usuario tiene acceso al módulo
+   * @param roles Roles permitidos para el módulo
+   * @param request Consulta del listado
+   * @returns Observable con el listado, o vacío si no hay acceso o la consulta falla
+   */
+  private loadIfAllowed<T>(roles: UserRole[], request: Observable<T[]>): Observable<T[]> {
+    if (!this.permissionService.hasAnyRole(roles)) return of([]);
+    return request.pipe(catchError(() => of([])));
+  }
+
+  /**
+   * Construye los comandos disponibles según los permisos del usuario
+   * @returns CommandPaletteItem[]
+   */
+  private buildCommands(): CommandPaletteItem[] {
+    const command = (
+      label: string,
+      keywords: string[],
+      run: () => void,
+    ): CommandPaletteItem => ({
+      group: CommandPaletteGroup.COMMANDS,
+      label,
+      keywords,
+      run,
+    });
+
+    const commands: CommandPaletteItem[] = [];
+
+    if (this.permissionService.hasPermission(Permission.ORDERS_CREATE)) {
+      commands.push(
+        command('Nueva orden', ['crear', 'new order'], () =>
+          this.router.navigate(['/app/orders'], { queryParams: CREATE_ACTION_PARAMS }),
+        ),
+      );
+    }
+    if (this.permissionService.hasPermission(Permission.DEVICES_CREATE)) {
+      commands.push(
+        command('Nuevo dispositivo', ['crear', 'new device'], () =>
+          this.router.navigate(['/app/devices'], { queryParams: CREATE_ACTION_PARAMS }),
+        ),
+      );
+    }
+
+    const modules: Array<[string, string, UserRole[]]> = [
+      ['Dashboard', '/app/dashboard', ModuleRoles.dashboard],
+      ['Dispositivos', '/app/devices', ModuleRoles.devices],
+      ['Órdenes', '/app/orders', ModuleRoles.orders],
+      ['Empleados', '/app/employees', ModuleRoles.employees],
+      ['Grupos', '/app/groups', ModuleRoles.groups],
+    ];
+    modules
+      .filter(([, , roles]) => this.permissionService.hasAnyRole(roles))
+      .forEach(([name, path]) =>
+        commands.push(
+          command(`Ir a ${name}`, ['navegar', 'go to'], () =>
+            this.router.navigate([path]),
+          ),
+        ),
+      );
+
+    const themes: Array<[Theme, string]> = [
+      ['light', 'Light'],
+      ['dark', 'Dark'],
+      ['infragest', 'Infragest'],
+    ];
+    themes.forEach(([theme, name]) =>
+      commands.push(
+        command(`Cambiar tema: ${name}`, ['tema', 'switch theme'], () =>
+          this.themeService.changeTheme(theme),
+        ),
+      ),
+    );
+
+    return commands;
+  }
+
+  /**
+   * Filtra comandos y registros con el texto buscado y los agrupa por entidad
+   * Cada palabra del texto debe aparecer en el label o en las palabras clave, sin distinguir mayúsculas ni acentos
+   * Sin texto se muestran solo los comandos
+   * @returns void
+   */
+  search(): void {
+    const terms = this.normalize(this.query).split(/\s+/).filter(Boolean);
+    const candidates = terms.length ? [...this.commands, ...this.records] : this.commands;
+    const matches = candidates.filter((item) => {
+      const text = this.normalize([item.label, ...item.keywords].join(' '));
+      return terms.every((term) => text.includes(term));
+    });
+
+    this.sections = Object.values(CommandPaletteGroup)
+      .map((group) => ({
+        group,
+        items: matches
+          .filter((item) => item.group === group)
+          .slice(0, terms.length ? this.MAX_RESULTS_PER_GROUP : undefined),
+      }))
+      .filter((section) => section.items.length > 0);
+    this.activeIndex = 0;
+  }
+
+  /**
+   * Resultados en el orden en que se muestran, para la navegación con teclado
+   */
+  get flatItems(): CommandPaletteItem[] {
+    return this.sections.flatMap((section) => section.items);
+  }
+
+  /**
+   * Indica si un resultado es el resaltado
+   * @param item Resultado a verificar
+   * @returns boolean
+   */
+  isActive(item: CommandPaletteItem): boolean {
+    return this.flatItems[this.activeIndex] === item;
+  }
+
+  /**
+   * Navegación con teclado: flechas para moverse, Enter para ejecutar y Escape para cerrar
+   * @param event Evento de teclado del campo de búsqueda
+   * @returns void
+   */
+  onKeydown(event: KeyboardEvent): void {
+    const total = this.flatItems.length;
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        if (total) this.activeIndex = (this.activeIndex + 1) % total;
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        if (total) this.activeIndex = (this.activeIndex - 1 + total) % total;
+        break;
+      case 'Enter': {
+        event.preventDefault();
+        const item = this.flatItems[this.activeIndex];
+        if (item) this.select(item);
+        break;
+      }
+      case 'Escape':
+        event.preventDefault();
+        this.close.emit();
+        break;
+    }
+  }
+
+  /**
+   * Cierra la paleta y ejecuta el resultado seleccionado
+   * @param item Resultado seleccionado
+   * @returns void
+   */
+  select(item: CommandPaletteItem): void {
+    this.close.emit();
+    item.run();
+  }
+
+  /**
+   * Normaliza un texto para comparar sin mayúsculas ni acentos
+   * @param value Texto a normalizar
+   * @returns string
+   */
+  private normalize(value: string): string {
+    return (value || '')
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .trim();
+  }
+}
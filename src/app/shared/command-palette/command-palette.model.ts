@@ -0,0 +1,41 @@
+/**
+ * Grupos de resultados de la paleta de comandos, en el orden en que se muestran
+ */
+export enum CommandPaletteGroup {
+  COMMANDS = 'COMMANDS',
+  DEVICES = 'DEVICES',
+  ORDERS = 'ORDERS',
+  EMPLOYEES = 'EMPLOYEES',
+  GROUPS = 'GROUPS',
+}
+
+/**
+ * Labels para mostrar en UI
+ */
+export const CommandPaletteGroupLabels: { [key in CommandPaletteGroup]: string } = {
+  [CommandPaletteGroup.COMMANDS]: 'Comandos',
+  [CommandPaletteGroup.DEVICES]: 'Dispositivos',
+  [CommandPaletteGroup.ORDERS]: 'Órdenes',
+  [CommandPaletteGroup.EMPLOYEES]: 'Empleados',
+  [CommandPaletteGroup.GROUPS]: 'Grupos',
+};
+
+/**
+ * Elemento de la paleta: un comando o un registro que se abre al seleccionarlo
+ */
+export interface CommandPaletteItem {
+  group: CommandPaletteGroup;
+  label: string;
+  description?: string;
+  // Textos en los que se busca además del label
+  keywords: string[];
+  run: () => void;
+}
+
+/**
+ * Resultados de un grupo
+ */
+export interface CommandPaletteSection {
+  group: CommandPaletteGroup;
+  items: CommandPaletteItem[];
+}
@@ -0,0 +1,66 @@
+import {
+  Directive,
+  EventEmitter,
+  HostListener,
+  Input,
+  Output,
+} from '@angular/core';
+
+/**
+ * Directiva que detecta lecturas de escáneres de código de barras USB en modo teclado (keyboard wedge)
+ * Un escáner "teclea" el código muy rápido y termina con Enter; la escritura humana es mucho más lenta,
+ * por eso solo se emite cuando todas las teclas llegan dentro del intervalo máximo configurado
+ *
+ * Uso: `<div appBarcodeScanner [scanEnabled]="scanMode" (scanned)="onScan($event)">`
+ *
+ * @author Bunnystring
+ * @since 2026-10-19
+ */
+@Directive({
+  selector: '[appBarcodeScanner]',
+  standalone: true,
+})
+export class BarcodeScannerDirective {
+  // Configuración de la detección
+  @Input() scanEnabled = true;
+  @Input() minLength = 4;
+  @Input() maxKeyInterval = 50;
+
+  // Código leído por el escáner
+  @Output() scanned = new EventEmitter<string>();
+
+  // Caracteres acumulados de la lectura en curso
+  private buffer = '';
+  private lastKeyTime = 0;
+
+  /**
+   * Acumula las teclas que llegan rápido y emite el código al recibir Enter
+   * Evita el comportamiento por defecto del Enter final (por ejemplo, enviar un formulario)
+   * @param event Evento de teclado del documento
+   * @returns void
+   */
+  @HostListener('document:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent): void {
+    if (!this.scanEnabled) return;
+
+    const now = performance.now();
+    if (now - this.lastKeyTime > this.maxKeyInterval) {
+      this.buffer = '';
+    }
+    this.lastKeyTime = now;
+
+    if (event.key === 'Enter') {
+      const code = this.buffer.trim();
+      this.buffer = '';
+      if (code.length >= this.minLength) {
+        event.preventDefault();
+        this.scanned.emit(code);
+      }
+      return;
+    }
+
+    if (event.key.length === 1) {
+      this.buffer += event.key;
+    }
+  }
+}
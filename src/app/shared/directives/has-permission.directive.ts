@@ -0,0 +1,75 @@
+import {
+  Directive,
+  Input,
+  OnDestroy,
+  TemplateRef,
+  ViewContainerRef,
+  inject,
+} from '@angular/core';
+import { BehaviorSubject, Subject, of, switchMap, takeUntil } from 'rxjs';
+import { PermissionService } from '../../core/services/permission.service';
+import { Permission } from '../../modules/public/auth/models/role.model';
+
+/**
+ * Directiva estructural que solo renderiza su contenido si el usuario tiene el permiso indicado
+ * Reacciona a cambios del usuario autenticado (login, refresh o logout)
+ *
+ * Uso: `<button *appHasPermission="Permission.DEVICES_DELETE" ...>`
+ *
+ * @author Bunnystring
+ * @since 2026-10-19
+ */
+@Directive({
+  selector: '[appHasPermission]',
+  standalone: true,
+})
+export class HasPermissionDirective implements OnDestroy {
+  // Injected services
+  private templateRef = inject(TemplateRef<unknown>);
+  private viewContainer = inject(ViewContainerRef);
+  private permissionService = inject(PermissionService);
+
+  // Permiso requerido y estado de la vista
+  private permission$ = new BehaviorSubject<Permission | null>(null);
+  private hasView = false;
+  private destroy$ = new Subject<void>();
+
+  @Input() set appHasPermission(permission: Permission) {
+    this.permission$.next(permission);
+  }
+
+  constructor() {
+    this.permission$
+      .pipe(
+        switchMap((permission) =>
+          permission ? this.permissionService.can$(permission) : of(false),
+        ),
+        takeUntil(this.destroy$),
+      )
+      .subscribe((allowed) => this.updateView(allowed));
+  }
+
+  /**
+   * Crea o destruye la vista según si el usuario tiene el permiso
+   * @param allowed Indica si el usuario tiene el permiso
+   * @returns void
+   */
+  private updateView(allowed: boolean): void {
+    if (allowed && !this.hasView) {
+      this.viewContainer.createEmbeddedView(this.templateRef);
+      this.hasView = true;
+    } else if (!allowed && this.hasView) {
+      this.viewContainer.clear();
+      this.hasView = false;
+    }
+  }
+
+  /**
+   * Limpia las suscripciones al destruir la directiva
+   * @returns void
+   */
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+}
@@ -0,0 +1,34 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { formatDate } from '../../core/utils/i18n.utils';
+
+/**
+ * Formatos disponibles en localDate, equivalentes a los del pipe date de Angular
+ */
+export type LocalDateFormat = 'mediumDate' | 'short' | 'medium';
+
+/**
+ * Pipe para mostrar fechas con el locale del idioma activo
+ * Uso: {{ order.createdAt | localDate }} o {{ change.changedAt | localDate: 'medium' }}
+ * Reemplaza al pipe date, cuyo LOCALE_ID se fija al iniciar la aplicación y no sigue el cambio de idioma;
+ * es impuro por la misma razón que el pipe t
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+@Pipe({
+  name: 'localDate',
+  standalone: true,
+  pure: false,
+})
+export class LocalDatePipe implements PipeTransform {
+  private static readonly FORMATS: { [key in LocalDateFormat]: Intl.DateTimeFormatOptions } = {
+    mediumDate: { dateStyle: 'medium' },
+    short: { dateStyle: 'short', timeStyle: 'short' },
+    medium: { dateStyle: 'medium', timeStyle: 'medium' },
+  };
+
+  transform(value: string | number | Date | null | undefined, format: LocalDateFormat = 'mediumDate'): string {
+    if (value === null || value === undefined || value === '') return '';
+    return formatDate(value, LocalDatePipe.FORMATS[format]);
+  }
+}
@@ -0,0 +1,21 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { translate } from '../../core/utils/i18n.utils';
+
+/**
+ * Pipe para traducir claves del catálogo en las plantillas
+ * Uso: {{ 'layout.devices' | t }} o {{ 'connection.pending' | t: { count: pendingCount } }}
+ * Es impuro para reflejar el cambio de idioma sin recargar la vista
+ *
+ * @since 2026-10-19
+ * @author Bunnystring
+ */
+@Pipe({
+  name: 't',
+  standalone: true,
+  pure: false,
+})
+export class TranslatePipe implements PipeTransform {
+  transform(key: string, params?: Record<string, string | number>): string {
+    return translate(key, params);
+  }
+}
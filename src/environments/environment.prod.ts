@@ -1,4 +1,13 @@
 export const environment = {
   production: true,
-  apiUrl: 'http://localhost:8080/api'
+  apiUrl: 'http://localhost:8080/api',
+  // Canal de eventos en tiempo real: ws(s):// usa WebSocket, http(s):// usa Server-Sent Events
+  realtimeUrl: 'ws://localhost:8080/ws/events',
+  // Reintentos de GET ante errores transitorios (0, 502, 503, 504): intentos y espera inicial/máxima en ms
+  httpRetry: { count: 3, delay: 500, maxDelay: 4000 },
+  // Enviar la cabecera X-Correlation-Id en cada petición; activarla solo si el backend la acepta en CORS
+  // (Access-Control-Allow-Headers), porque agrega una petición preflight a las peticiones simples
+  sendCorrelationId: false,
+  // Backend simulado en el navegador (npm run start:mock): latencia en ms y proporción de errores 503 (0 a 1)
+  mockApi: { enabled: false, latency: 300, errorRate: 0 }
 };